@@ -0,0 +1,621 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { addDays, format, parseISO } from 'date-fns';
+import {
+  getActionItems,
+  getClients,
+  getProjects,
+  updateActionItemStatus,
+  ActionItem,
+  ActionItemRecord,
+} from '@/lib/firestore';
+import { createGoogleTasksBatch } from '@/lib/api';
+import { useAuth } from '@/components/auth/auth-provider';
+import { formatDate } from '@/lib/date-utils';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  AlertCircle,
+  Calendar,
+  ClipboardList,
+  Clock,
+  ExternalLink,
+  FileText,
+  ListChecks,
+  Loader2,
+  User,
+} from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+type StatusFilter = ActionItem['status'] | 'all';
+type DueWindow = 'all' | 'overdue' | 'today' | 'week' | 'month' | 'none';
+type GroupBy = 'due' | 'meeting';
+
+const DUE_WINDOWS: Array<{ value: DueWindow; label: string }> = [
+  { value: 'all', label: 'Any time' },
+  { value: 'overdue', label: 'Overdue' },
+  { value: 'today', label: 'Due today' },
+  { value: 'week', label: 'Next 7 days' },
+  { value: 'month', label: 'Next 30 days' },
+  { value: 'none', label: 'No due date' },
+];
+
+const STATUS_OPTIONS: Array<{ value: StatusFilter; label: string }> = [
+  { value: 'pending', label: 'Pending' },
+  { value: 'completed', label: 'Completed' },
+  { value: 'cancelled', label: 'Cancelled' },
+  { value: 'all', label: 'All statuses' },
+];
+
+const ME = '__me__';
+const EVERYONE = '__everyone__';
+const UNASSIGNED = '__unassigned__';
+const ALL = 'all';
+
+function toDateKey(date: Date): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+function isOverdue(item: ActionItemRecord, today: string): boolean {
+  return item.status === 'pending' && !!item.due_date && item.due_date.slice(0, 10) < today;
+}
+
+function getDueGroup(item: ActionItemRecord, today: string): string {
+  if (!item.due_date) return 'No due date';
+  const due = item.due_date.slice(0, 10);
+  if (isOverdue(item, today)) return 'Overdue';
+  if (due === today) return 'Today';
+  if (due <= toDateKey(addDays(new Date(), 7))) return 'Next 7 days';
+  return 'Later';
+}
+
+const DUE_GROUP_ORDER = ['Overdue', 'Today', 'Next 7 days', 'Later', 'No due date'];
+
+export default function ActionItemsPage() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const [assignee, setAssignee] = useState<string>(ME);
+  const [status, setStatus] = useState<StatusFilter>('pending');
+  const [priority, setPriority] = useState<string>(ALL);
+  const [clientId, setClientId] = useState<string>(ALL);
+  const [projectId, setProjectId] = useState<string>(ALL);
+  const [dueWindow, setDueWindow] = useState<DueWindow>('all');
+  const [groupBy, setGroupBy] = useState<GroupBy>('due');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [taskResult, setTaskResult] = useState<{ created: number; failed: number } | null>(null);
+
+  // Status, client and project are filtered in Firestore. Assignee matching
+  // is done here because extracted items may hold a name instead of an email.
+  const serverFilters = {
+    status: status === 'all' ? undefined : status,
+    clientId: clientId === ALL ? undefined : clientId,
+    projectId: projectId === ALL ? undefined : projectId,
+  };
+
+  const { data: items = [], isLoading } = useQuery({
+    queryKey: ['actionItems', serverFilters],
+    queryFn: () => getActionItems(serverFilters),
+  });
+
+  const { data: clients = [] } = useQuery({
+    queryKey: ['clients'],
+    queryFn: () => getClients(),
+  });
+
+  const { data: projects = [] } = useQuery({
+    queryKey: ['projects'],
+    queryFn: () => getProjects(),
+  });
+
+  const filteredProjects = clientId === ALL
+    ? projects
+    : projects.filter((project) => project.client_id === clientId);
+
+  const assignees = useMemo(() => {
+    const byKey = new Map<string, string>();
+    items.forEach((item) => {
+      if (item.assignee && !byKey.has(item.assignee)) {
+        byKey.set(item.assignee, item.assignee_name || item.assignee);
+      }
+    });
+    return Array.from(byKey.entries()).sort((a, b) => a[1].localeCompare(b[1]));
+  }, [items]);
+
+  const today = toDateKey(new Date());
+
+  const visibleItems = useMemo(() => {
+    const myEmail = user?.email?.toLowerCase();
+    const myName = user?.displayName?.toLowerCase();
+    const weekEnd = toDateKey(addDays(new Date(), 7));
+    const monthEnd = toDateKey(addDays(new Date(), 30));
+
+    return items.filter((item) => {
+      if (assignee === ME) {
+        const candidates = [item.assignee, item.assignee_name].map((v) => v?.toLowerCase());
+        if (!candidates.includes(myEmail) && !(myName && candidates.includes(myName))) {
+          return false;
+        }
+      } else if (assignee === UNASSIGNED) {
+        if (item.assignee || item.assignee_name) return false;
+      } else if (assignee !== EVERYONE && item.assignee !== assignee) {
+        return false;
+      }
+
+      if (priority !== ALL && item.priority !== priority) return false;
+
+      const due = item.due_date?.slice(0, 10);
+      switch (dueWindow) {
+        case 'overdue':
+          return isOverdue(item, today);
+        case 'today':
+          return due === today;
+        case 'week':
+          return !!due && due >= today && due <= weekEnd;
+        case 'month':
+          return !!due && due >= today && due <= monthEnd;
+        case 'none':
+          return !due;
+        default:
+          return true;
+      }
+    });
+  }, [items, assignee, priority, dueWindow, today, user?.email, user?.displayName]);
+
+  const groups = useMemo(() => {
+    const grouped = new Map<string, { label: string; href?: string; items: ActionItemRecord[] }>();
+    for (const item of visibleItems) {
+      const key = groupBy === 'due' ? getDueGroup(item, today) : item.note_id;
+      if (!grouped.has(key)) {
+        grouped.set(key, {
+          label: groupBy === 'due'
+            ? key
+            : `${item.note_title || 'Untitled meeting'}${item.meeting_date ? ` · ${formatDate(item.meeting_date)}` : ''}`,
+          href: groupBy === 'meeting' ? `/notes/${item.note_id}` : undefined,
+          items: [],
+        });
+      }
+      grouped.get(key)!.items.push(item);
+    }
+
+    const entries = Array.from(grouped.entries());
+    if (groupBy === 'due') {
+      entries.sort((a, b) => DUE_GROUP_ORDER.indexOf(a[0]) - DUE_GROUP_ORDER.indexOf(b[0]));
+    } else {
+      // Most recent meeting first
+      entries.sort(
+        (a, b) =>
+          (b[1].items[0].meeting_date?.toMillis?.() || 0) -
+          (a[1].items[0].meeting_date?.toMillis?.() || 0)
+      );
+      entries.forEach(([, group]) => group.items.sort((a, b) => a.order - b.order));
+    }
+    return entries.map(([key, group]) => ({ key, ...group }));
+  }, [visibleItems, groupBy, today]);
+
+  const overdueCount = visibleItems.filter((item) => isOverdue(item, today)).length;
+  const taskableItems = visibleItems.filter(
+    (item) => item.status === 'pending' && !item.google_task_id
+  );
+  const selectedItems = taskableItems.filter((item) => selectedIds.has(item.id));
+
+  const invalidateItems = (noteIds: string[]) => {
+    queryClient.invalidateQueries({ queryKey: ['actionItems'] });
+    noteIds.forEach((noteId) => queryClient.invalidateQueries({ queryKey: ['note', noteId] }));
+  };
+
+  const statusMutation = useMutation({
+    mutationFn: ({ item, status }: { item: ActionItemRecord; status: ActionItem['status'] }) =>
+      updateActionItemStatus(item.note_id, item.item_id, status),
+    onSuccess: (_, { item }) => invalidateItems([item.note_id]),
+  });
+
+  const tasksMutation = useMutation({
+    mutationFn: async (targets: ActionItemRecord[]) => {
+      const byNote = new Map<string, ActionItemRecord[]>();
+      targets.forEach((item) => {
+        byNote.set(item.note_id, [...(byNote.get(item.note_id) || []), item]);
+      });
+
+      const results = await Promise.all(
+        Array.from(byNote.entries()).map(([noteId, noteItems]) =>
+          createGoogleTasksBatch(
+            noteId,
+            noteItems.map((item) => ({
+              id: item.item_id,
+              title: item.task,
+              notes: `From meeting: ${item.note_title || 'Unknown'}`,
+              due: item.due_date || undefined,
+            }))
+          )
+        )
+      );
+      const flat = results.flat();
+      return {
+        created: flat.filter((result) => result.success).length,
+        failed: flat.filter((result) => !result.success).length,
+      };
+    },
+    onSuccess: (result, targets) => {
+      setTaskResult(result);
+      setSelectedIds(new Set());
+      invalidateItems([...new Set(targets.map((item) => item.note_id))]);
+    },
+  });
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    const next = new Set(selectedIds);
+    if (checked) {
+      next.add(id);
+    } else {
+      next.delete(id);
+    }
+    setSelectedIds(next);
+  };
+
+  const getPriorityBadge = (value: ActionItem['priority']) => {
+    switch (value) {
+      case 'high':
+        return <Badge variant="destructive">High</Badge>;
+      case 'medium':
+        return <Badge className="bg-yellow-500">Medium</Badge>;
+      case 'low':
+        return <Badge variant="secondary">Low</Badge>;
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Action Items</h1>
+          <p className="text-muted-foreground">
+            Follow-ups from every meeting in one place.
+          </p>
+        </div>
+        <Button
+          onClick={() => tasksMutation.mutate(selectedItems)}
+          disabled={selectedItems.length === 0 || tasksMutation.isPending}
+        >
+          {tasksMutation.isPending ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Clock className="mr-2 h-4 w-4" />
+          )}
+          Create Google Tasks{selectedItems.length > 0 ? ` (${selectedItems.length})` : ''}
+        </Button>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="grid gap-4 pt-6 md:grid-cols-3 lg:grid-cols-7">
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Assignee</Label>
+            <Select value={assignee} onValueChange={setAssignee}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ME}>Me</SelectItem>
+                <SelectItem value={EVERYONE}>Everyone</SelectItem>
+                <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                {assignees.map(([key, label]) => (
+                  <SelectItem key={key} value={key}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Status</Label>
+            <Select value={status} onValueChange={(v) => setStatus(v as StatusFilter)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {STATUS_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Priority</Label>
+            <Select value={priority} onValueChange={setPriority}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All priorities</SelectItem>
+                <SelectItem value="high">High</SelectItem>
+                <SelectItem value="medium">Medium</SelectItem>
+                <SelectItem value="low">Low</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Client</Label>
+            <Select
+              value={clientId}
+              onValueChange={(v) => {
+                setClientId(v);
+                setProjectId(ALL);
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All clients</SelectItem>
+                {clients.map((client) => (
+                  <SelectItem key={client.id} value={client.id}>
+                    {client.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Project</Label>
+            <Select value={projectId} onValueChange={setProjectId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All projects</SelectItem>
+                {filteredProjects.map((project) => (
+                  <SelectItem key={project.id} value={project.id}>
+                    {project.project_name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Due</Label>
+            <Select value={dueWindow} onValueChange={(v) => setDueWindow(v as DueWindow)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DUE_WINDOWS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Group by</Label>
+            <Select value={groupBy} onValueChange={(v) => setGroupBy(v as GroupBy)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="due">Due date</SelectItem>
+                <SelectItem value="meeting">Meeting</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Summary */}
+      <div className="flex flex-wrap items-center gap-3 text-sm text-muted-foreground">
+        <span>{visibleItems.length} items</span>
+        {overdueCount > 0 && (
+          <Badge variant="destructive" className="gap-1">
+            <AlertCircle className="h-3 w-3" />
+            {overdueCount} overdue
+          </Badge>
+        )}
+        {taskableItems.length > 0 && (
+          <button
+            type="button"
+            className="text-primary hover:underline"
+            onClick={() =>
+              setSelectedIds(
+                selectedItems.length === taskableItems.length
+                  ? new Set()
+                  : new Set(taskableItems.map((item) => item.id))
+              )
+            }
+          >
+            {selectedItems.length === taskableItems.length ? 'Clear selection' : 'Select all without a task'}
+          </button>
+        )}
+        {taskResult && (
+          <span>
+            Created {taskResult.created} Google Tasks
+            {taskResult.failed > 0 && `, ${taskResult.failed} failed`}.
+          </span>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex h-32 items-center justify-center">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : visibleItems.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <div className="rounded-full bg-muted p-3 mb-4">
+              <ClipboardList className="h-8 w-8 text-muted-foreground" />
+            </div>
+            <CardTitle className="mb-2">No action items</CardTitle>
+            <CardDescription>Nothing matches the current filters.</CardDescription>
+          </CardContent>
+        </Card>
+      ) : (
+        groups.map((group) => (
+          <Card key={group.key}>
+            <CardHeader className="pb-3">
+              <CardTitle
+                className={cn(
+                  'flex items-center gap-2 text-base',
+                  group.key === 'Overdue' && 'text-destructive'
+                )}
+              >
+                {groupBy === 'due' ? (
+                  <Calendar className="h-4 w-4" />
+                ) : (
+                  <FileText className="h-4 w-4" />
+                )}
+                {group.href ? (
+                  <Link href={group.href} className="hover:underline">
+                    {group.label}
+                  </Link>
+                ) : (
+                  group.label
+                )}
+                <Badge variant="outline" className="ml-1">
+                  {group.items.length}
+                </Badge>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {group.items.map((item) => {
+                const overdue = isOverdue(item, today);
+                const canCreateTask = item.status === 'pending' && !item.google_task_id;
+                const isUpdating =
+                  statusMutation.isPending && statusMutation.variables?.item.id === item.id;
+
+                return (
+                  <div
+                    key={item.id}
+                    className={cn(
+                      'flex items-start gap-3 rounded-lg border p-3',
+                      overdue && 'border-destructive/50 bg-destructive/5',
+                      item.status !== 'pending' && 'bg-muted/50'
+                    )}
+                  >
+                    <div className="pt-0.5">
+                      <Checkbox
+                        checked={selectedIds.has(item.id)}
+                        onCheckedChange={(checked) => toggleSelected(item.id, !!checked)}
+                        disabled={!canCreateTask}
+                        aria-label="Select for Google Tasks"
+                      />
+                    </div>
+
+                    <div className="flex-1 space-y-1">
+                      <p
+                        className={cn(
+                          'text-sm font-medium',
+                          item.status !== 'pending' && 'text-muted-foreground line-through'
+                        )}
+                      >
+                        {item.task}
+                      </p>
+                      <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                        {(item.assignee_name || item.assignee) && (
+                          <span className="flex items-center gap-1">
+                            <User className="h-3 w-3" />
+                            {item.assignee_name || item.assignee}
+                          </span>
+                        )}
+                        {item.due_date && (
+                          <span
+                            className={cn(
+                              'flex items-center gap-1',
+                              overdue && 'font-medium text-destructive'
+                            )}
+                          >
+                            {overdue ? (
+                              <AlertCircle className="h-3 w-3" />
+                            ) : (
+                              <Calendar className="h-3 w-3" />
+                            )}
+                            {overdue ? 'Overdue · ' : 'Due '}
+                            {formatDate(parseISO(item.due_date))}
+                          </span>
+                        )}
+                        {groupBy === 'due' && (
+                          <Link
+                            href={`/notes/${item.note_id}`}
+                            className="flex items-center gap-1 hover:underline"
+                          >
+                            <FileText className="h-3 w-3" />
+                            {item.note_title || 'Untitled meeting'}
+                          </Link>
+                        )}
+                        {item.client_name && <span>{item.client_name}</span>}
+                        {getPriorityBadge(item.priority)}
+                        {item.google_task_id && (
+                          <a
+                            href="https://tasks.google.com/"
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="flex items-center gap-1 hover:underline"
+                          >
+                            <ListChecks className="h-3 w-3" />
+                            In Google Tasks
+                            <ExternalLink className="h-3 w-3" />
+                          </a>
+                        )}
+                      </div>
+                    </div>
+
+                    <Select
+                      value={item.status}
+                      onValueChange={(value) =>
+                        statusMutation.mutate({ item, status: value as ActionItem['status'] })
+                      }
+                      disabled={isUpdating}
+                    >
+                      <SelectTrigger className="h-8 w-32 text-xs">
+                        {isUpdating ? (
+                          <Loader2 className="h-3 w-3 animate-spin" />
+                        ) : (
+                          <SelectValue />
+                        )}
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="pending">Pending</SelectItem>
+                        <SelectItem value="completed">Completed</SelectItem>
+                        <SelectItem value="cancelled">Cancelled</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+        ))
+      )}
+
+      {(statusMutation.isError || tasksMutation.isError) && (
+        <p className="text-sm text-destructive">
+          {(statusMutation.error || tasksMutation.error) instanceof Error
+            ? (statusMutation.error || tasksMutation.error)!.message
+            : 'Something went wrong'}
+        </p>
+      )}
+    </div>
+  );
+}
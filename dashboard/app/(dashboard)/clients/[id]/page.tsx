@@ -4,10 +4,12 @@ import { useQuery } from '@tanstack/react-query';
 import {
   getClient,
   getProjects,
-  getNotes,
   getClients,
+  getNotesCount,
+  getTemplates,
   Note,
 } from '@/lib/firestore';
+import { useInfiniteNotes } from '@/hooks/useInfiniteNotes';
 import { NotesTable } from '@/components/notes/notes-table';
 import { CategorizeModal } from '@/components/notes/categorize-modal';
 import { ShareModal } from '@/components/notes/share-modal';
@@ -30,6 +32,9 @@ import Link from 'next/link';
 import { useParams, useRouter } from 'next/navigation';
 import { useState } from 'react';
 import { ClientFormModal } from '@/components/clients/client-form-modal';
+import { DecisionRegister } from '@/components/decisions/decision-register';
+import { EffectiveTemplateCard } from '@/components/templates/effective-template-card';
+import { getEffectiveTemplate } from '@/lib/template-inheritance';
 import { useQueryClient } from '@tanstack/react-query';
 
 export default function ClientDetailPage() {
@@ -53,20 +58,47 @@ export default function ClientDetailPage() {
     queryFn: () => getClients(),
   });
 
+  const { data: templates = [] } = useQuery({
+    queryKey: ['templates'],
+    queryFn: getTemplates,
+  });
+
   const { data: allProjects = [], isLoading: loadingProjects } = useQuery({
     queryKey: ['projects'],
     queryFn: () => getProjects(),
   });
 
-  const { data: allNotes = [], isLoading: loadingNotes, refetch: refetchNotes } = useQuery({
-    queryKey: ['notes'],
-    queryFn: () => getNotes(),
+  const {
+    notes: clientNotes,
+    isLoading: loadingNotes,
+    hasMore,
+    isFetchingMore,
+    fetchMore,
+    legacyCount,
+    refetch: refetchNotes,
+  } = useInfiniteNotes({ clientId });
+
+  const clientProjects = allProjects.filter((p) => p.client_id === clientId);
+
+  const { data: classifiedCount = 0 } = useQuery({
+    queryKey: ['notes', 'count', { clientId }],
+    queryFn: () => getNotesCount({ clientId }),
+    enabled: !!clientId,
   });
+  const noteCount = classifiedCount + legacyCount;
 
-  const isLoading = loadingClient || loadingProjects || loadingNotes;
+  const { data: projectNoteCounts = {} } = useQuery({
+    queryKey: ['notes', 'count', 'byProject', clientProjects.map((p) => p.id)],
+    queryFn: async () => {
+      const counts = await Promise.all(
+        clientProjects.map(async (p) => [p.id, await getNotesCount({ projectId: p.id })] as const)
+      );
+      return Object.fromEntries(counts) as Record<string, number>;
+    },
+    enabled: clientProjects.length > 0,
+  });
 
-  const clientProjects = allProjects.filter((p) => p.client_id === clientId);
-  const clientNotes = allNotes.filter((n) => n.clientId === clientId || n.classification?.client_id === clientId);
+  const isLoading = loadingClient || loadingProjects || loadingNotes;
 
   if (isLoading) {
     return (
@@ -139,7 +171,7 @@ export default function ClientDetailPage() {
             <FileText className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{clientNotes.length}</div>
+            <div className="text-2xl font-bold">{noteCount}</div>
           </CardContent>
         </Card>
         <Card>
@@ -155,13 +187,16 @@ export default function ClientDetailPage() {
         </Card>
       </div>
 
+      <EffectiveTemplateCard effective={getEffectiveTemplate(templates, { clientId })} scope="client" />
+
       {/* Tabs */}
       <Tabs defaultValue="projects" className="space-y-4">
         <TabsList>
           <TabsTrigger value="projects">
             Projects ({clientProjects.length})
           </TabsTrigger>
-          <TabsTrigger value="notes">Notes ({clientNotes.length})</TabsTrigger>
+          <TabsTrigger value="notes">Notes ({noteCount})</TabsTrigger>
+          <TabsTrigger value="decisions">Decisions</TabsTrigger>
         </TabsList>
 
         <TabsContent value="projects" className="space-y-4">
@@ -175,9 +210,7 @@ export default function ClientDetailPage() {
           ) : (
             <div className="grid gap-4 md:grid-cols-2">
               {clientProjects.map((project) => {
-                const projectNotes = allNotes.filter(
-                  (n) => n.projectId === project.id
-                );
+                const projectNoteCount = projectNoteCounts[project.id] ?? 0;
                 return (
                   <Link key={project.id} href={`/projects/${project.id}`}>
                     <Card className="cursor-pointer transition-colors hover:bg-accent">
@@ -196,7 +229,7 @@ export default function ClientDetailPage() {
                       <CardContent>
                         <div className="flex items-center gap-1 text-sm text-muted-foreground">
                           <FileText className="h-4 w-4" />
-                          <span>{projectNotes.length} notes</span>
+                          <span>{projectNoteCount} notes</span>
                         </div>
                       </CardContent>
                     </Card>
@@ -220,11 +253,20 @@ export default function ClientDetailPage() {
               notes={clientNotes}
               clients={clients}
               projects={allProjects}
+              templates={templates}
               onCategorize={setCategorizeNote}
               onShare={setShareNote}
+              hasMore={hasMore}
+              isLoadingMore={isFetchingMore}
+              onLoadMore={fetchMore}
+              totalCount={noteCount}
             />
           )}
         </TabsContent>
+
+        <TabsContent value="decisions">
+          <DecisionRegister clientId={clientId} title={client.name} />
+        </TabsContent>
       </Tabs>
 
       {/* Modals */}
@@ -1,12 +1,21 @@
 'use client';
 
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
-import { getClients, getNotes, getProjects, Client } from '@/lib/firestore';
+import { getClients, getNotes, getProjects, getTemplates, Client } from '@/lib/firestore';
+import { getComplianceByClient } from '@/lib/template-compliance';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { Users, FolderKanban, FileText, ChevronRight, Loader2, Plus } from 'lucide-react';
+import {
+  Users,
+  FolderKanban,
+  FileText,
+  ChevronRight,
+  Loader2,
+  Plus,
+  ClipboardCheck,
+} from 'lucide-react';
 import Link from 'next/link';
 import { ClientFormModal } from '@/components/clients/client-form-modal';
 
@@ -30,6 +39,17 @@ export default function ClientsPage() {
     queryFn: () => getNotes(),
   });
 
+  const { data: templates = [] } = useQuery({
+    queryKey: ['templates'],
+    queryFn: getTemplates,
+  });
+
+  // Share of each client's notes that have every required template section
+  const complianceByClient = useMemo(
+    () => getComplianceByClient(notes, templates),
+    [notes, templates]
+  );
+
   const isLoading = loadingClients || loadingProjects || loadingNotes;
 
   const getClientStats = (clientId: string) => {
@@ -90,6 +110,7 @@ export default function ClientsPage() {
         <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
           {clients.map((client) => {
             const stats = getClientStats(client.id);
+            const compliance = complianceByClient[client.id];
             return (
               <Link key={client.id} href={`/clients/${client.id}`}>
                 <Card className="cursor-pointer transition-colors hover:bg-accent">
@@ -119,6 +140,15 @@ export default function ClientsPage() {
                         <FileText className="h-4 w-4" />
                         <span>{stats.noteCount} notes</span>
                       </div>
+                      {compliance?.percent != null && (
+                        <div
+                          className="flex items-center gap-1"
+                          title={`${compliance.compliant} of ${compliance.checked} notes have every required template section`}
+                        >
+                          <ClipboardCheck className="h-4 w-4" />
+                          <span>{compliance.percent}% compliant</span>
+                        </div>
+                      )}
                     </div>
                   </CardContent>
                 </Card>
@@ -4,6 +4,7 @@ import { useAuth } from '@/components/auth/auth-provider';
 import { Sidebar } from '@/components/layout/sidebar';
 import { Header } from '@/components/layout/header';
 import { AIChat } from '@/components/chat/ai-chat';
+import { useRealtimeSync } from '@/hooks/useRealtimeSync';
 import { useRouter } from 'next/navigation';
 import { useEffect } from 'react';
 import { Loader2 } from 'lucide-react';
@@ -16,6 +17,9 @@ export default function DashboardLayout({
   const { user, loading } = useAuth();
   const router = useRouter();
 
+  // Push Firestore changes into the query cache while signed in
+  useRealtimeSync(!!user);
+
   useEffect(() => {
     if (!loading && !user) {
       router.push('/login');
@@ -1,16 +1,40 @@
 'use client';
 
-import { useQuery } from '@tanstack/react-query';
-import { getNote, getClient, getProject, getClients, getProjects, Note, ActionItem } from '@/lib/firestore';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  getNote,
+  getClient,
+  getProject,
+  getClients,
+  getProjects,
+  getTemplates,
+  deleteNote,
+  restoreNoteFromTrash,
+  ActionItem,
+} from '@/lib/firestore';
+import { useAuth } from '@/components/auth/auth-provider';
 import { CategorizeModal } from '@/components/notes/categorize-modal';
 import { ShareModal } from '@/components/notes/share-modal';
 import { SummaryCard } from '@/components/notes/summary-card';
 import { ActionItemsList } from '@/components/notes/action-items-list';
 import { DecisionsList } from '@/components/notes/decisions-list';
+import { NoteHistoryPanel } from '@/components/notes/note-history-panel';
+import { TemplateChecklist } from '@/components/notes/template-checklist';
+import { checkNoteAgainstTemplates } from '@/lib/template-compliance';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 import {
   ArrowLeft,
   Edit,
@@ -22,6 +46,8 @@ import {
   FileText,
   ExternalLink,
   Loader2,
+  Trash2,
+  RotateCcw,
 } from 'lucide-react';
 import Link from 'next/link';
 import { useParams, useRouter } from 'next/navigation';
@@ -32,11 +58,35 @@ import { createGoogleTask } from '@/lib/api';
 export default function NoteDetailPage() {
   const params = useParams();
   const router = useRouter();
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
   const noteId = params.id as string;
 
   const [showCategorize, setShowCategorize] = useState(false);
   const [showShare, setShowShare] = useState(false);
   const [isCreatingTask, setIsCreatingTask] = useState(false);
+  const [showTrashConfirm, setShowTrashConfirm] = useState(false);
+
+  const invalidateNoteLists = () => {
+    queryClient.invalidateQueries({ queryKey: ['note', noteId] });
+    queryClient.invalidateQueries({ queryKey: ['notes'] });
+    queryClient.invalidateQueries({ queryKey: ['trashedNotes'] });
+    queryClient.invalidateQueries({ queryKey: ['uncategorizedNotes'] });
+    queryClient.invalidateQueries({ queryKey: ['dashboardStats'] });
+  };
+
+  const trashMutation = useMutation({
+    mutationFn: () => deleteNote(noteId, user?.email || undefined),
+    onSuccess: () => {
+      invalidateNoteLists();
+      router.push('/notes');
+    },
+  });
+
+  const untrashMutation = useMutation({
+    mutationFn: () => restoreNoteFromTrash(noteId, user?.email || undefined),
+    onSuccess: invalidateNoteLists,
+  });
 
   const handleCreateGoogleTask = async (item: ActionItem) => {
     try {
@@ -84,6 +134,11 @@ export default function NoteDetailPage() {
     queryFn: () => getProjects(),
   });
 
+  const { data: templates = [] } = useQuery({
+    queryKey: ['templates'],
+    queryFn: getTemplates,
+  });
+
   if (loadingNote) {
     return (
       <div className="flex h-full items-center justify-center">
@@ -181,9 +236,43 @@ export default function NoteDetailPage() {
               </a>
             </Button>
           )}
+          {!note.deleted && (
+            <Button
+              variant="outline"
+              className="text-destructive hover:text-destructive"
+              onClick={() => setShowTrashConfirm(true)}
+            >
+              <Trash2 className="mr-2 h-4 w-4" />
+              Move to Trash
+            </Button>
+          )}
         </div>
       </div>
 
+      {/* Trash Banner */}
+      {note.deleted && (
+        <div className="flex items-center justify-between rounded-lg border border-destructive/50 bg-destructive/10 p-4">
+          <div className="flex items-center gap-2 text-sm">
+            <Trash2 className="h-4 w-4 text-destructive" />
+            This note is in the trash
+            {note.deleted_by && <span className="text-muted-foreground">(deleted by {note.deleted_by})</span>}
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => untrashMutation.mutate()}
+            disabled={untrashMutation.isPending}
+          >
+            {untrashMutation.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <RotateCcw className="mr-2 h-4 w-4" />
+            )}
+            Restore
+          </Button>
+        </div>
+      )}
+
       {/* Note Details */}
       <Card>
         <CardHeader>
@@ -307,6 +396,8 @@ export default function NoteDetailPage() {
           actionItems={note.action_items || note.enhanced_analysis?.action_items || []}
           onCreateGoogleTask={handleCreateGoogleTask}
           isCreatingTask={isCreatingTask}
+          attendees={note.meeting?.attendees}
+          team={project?.team}
         />
 
         {/* Key Decisions */}
@@ -315,6 +406,12 @@ export default function NoteDetailPage() {
         />
       </div>
 
+      {/* Template Checklist */}
+      <TemplateChecklist compliance={checkNoteAgainstTemplates(note, templates)} />
+
+      {/* Revision History */}
+      <NoteHistoryPanel note={note} />
+
       {/* Modals */}
       <CategorizeModal
         note={note}
@@ -331,6 +428,27 @@ export default function NoteDetailPage() {
         onOpenChange={setShowShare}
         onSuccess={() => refetchNote()}
       />
+
+      <AlertDialog open={showTrashConfirm} onOpenChange={setShowTrashConfirm}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Move to Trash</AlertDialogTitle>
+            <AlertDialogDescription>
+              This note will be hidden from notes, search and stats. You can restore it
+              from the Trash until it is purged.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => trashMutation.mutate()}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Move to Trash
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
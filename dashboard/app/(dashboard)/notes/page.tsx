@@ -2,7 +2,15 @@
 
 import { useState, useEffect } from 'react';
 import { useQuery } from '@tanstack/react-query';
-import { getNotes, getClients, getProjects, getUserSettings, Note } from '@/lib/firestore';
+import {
+  getClients,
+  getProjects,
+  getTemplates,
+  getUserSettings,
+  getNotesCount,
+  Note,
+} from '@/lib/firestore';
+import { useInfiniteNotes } from '@/hooks/useInfiniteNotes';
 import { useAuth } from '@/components/auth/auth-provider';
 import { NotesTable } from '@/components/notes/notes-table';
 import { Button } from '@/components/ui/button';
@@ -56,9 +64,18 @@ export default function NotesPage() {
     checkNotesFolder();
   }, [user?.email]);
 
-  const { data: notes = [], isLoading: loadingNotes, refetch: refetchNotes } = useQuery({
-    queryKey: ['notes'],
-    queryFn: () => getNotes(),
+  const {
+    notes,
+    isLoading: loadingNotes,
+    hasMore,
+    isFetchingMore,
+    fetchMore,
+    refetch: refetchNotes,
+  } = useInfiniteNotes();
+
+  const { data: totalCount } = useQuery({
+    queryKey: ['notes', 'count'],
+    queryFn: () => getNotesCount(),
   });
 
   const { data: clients = [], isLoading: loadingClients } = useQuery({
@@ -71,6 +88,11 @@ export default function NotesPage() {
     queryFn: () => getProjects(),
   });
 
+  const { data: templates = [] } = useQuery({
+    queryKey: ['templates'],
+    queryFn: getTemplates,
+  });
+
   const isLoading = loadingNotes || loadingClients || loadingProjects;
 
   if (isLoading) {
@@ -116,12 +138,17 @@ export default function NotesPage() {
         notes={notes}
         clients={clients}
         projects={projects}
+        templates={templates}
         onCategorize={setCategorizeNote}
         onShare={setShareNote}
         onBulkCategorize={(notes) => setBulkCategorizeNotes(notes)}
         onBulkShare={(notes) => setBulkShareNotes(notes)}
         onBulkAddTags={(notes) => setBulkTagNotes(notes)}
         onExport={(notes) => setExportNotes(notes)}
+        hasMore={hasMore}
+        isLoadingMore={isFetchingMore}
+        onLoadMore={fetchMore}
+        totalCount={totalCount}
       />
 
       {/* Single note modals */}
@@ -4,17 +4,20 @@ import { useQuery } from '@tanstack/react-query';
 import {
   getProject,
   getClient,
-  getNotes,
   getClients,
+  getNotesCount,
+  getTemplates,
   getProjects,
   Note,
 } from '@/lib/firestore';
+import { useInfiniteNotes } from '@/hooks/useInfiniteNotes';
 import { NotesTable } from '@/components/notes/notes-table';
 import { CategorizeModal } from '@/components/notes/categorize-modal';
 import { ShareModal } from '@/components/notes/share-modal';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import {
   ArrowLeft,
   Users,
@@ -30,6 +33,9 @@ import Link from 'next/link';
 import { useParams, useRouter } from 'next/navigation';
 import { useState } from 'react';
 import { ProjectFormModal } from '@/components/projects/project-form-modal';
+import { DecisionRegister } from '@/components/decisions/decision-register';
+import { EffectiveTemplateCard } from '@/components/templates/effective-template-card';
+import { getEffectiveTemplate } from '@/lib/template-inheritance';
 import { useQueryClient } from '@tanstack/react-query';
 
 export default function ProjectDetailPage() {
@@ -59,20 +65,35 @@ export default function ProjectDetailPage() {
     queryFn: () => getClients(),
   });
 
+  const { data: templates = [] } = useQuery({
+    queryKey: ['templates'],
+    queryFn: getTemplates,
+  });
+
   const { data: allProjects = [] } = useQuery({
     queryKey: ['projects'],
     queryFn: () => getProjects(),
   });
 
-  const { data: allNotes = [], isLoading: loadingNotes, refetch: refetchNotes } = useQuery({
-    queryKey: ['notes'],
-    queryFn: () => getNotes(),
+  const {
+    notes: projectNotes,
+    isLoading: loadingNotes,
+    hasMore,
+    isFetchingMore,
+    fetchMore,
+    legacyCount,
+    refetch: refetchNotes,
+  } = useInfiniteNotes({ projectId });
+
+  const { data: classifiedCount = 0 } = useQuery({
+    queryKey: ['notes', 'count', { projectId }],
+    queryFn: () => getNotesCount({ projectId }),
+    enabled: !!projectId,
   });
+  const noteCount = classifiedCount + legacyCount;
 
   const isLoading = loadingProject || loadingNotes;
 
-  const projectNotes = allNotes.filter((n) => n.projectId === projectId || n.classification?.project_id === projectId);
-
   const formatDate = (timestamp?: any) => {
     if (!timestamp) return 'Not set';
     const date = timestamp.toDate ? timestamp.toDate() : new Date(timestamp);
@@ -166,7 +187,7 @@ export default function ProjectDetailPage() {
             <FileText className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{projectNotes.length}</div>
+            <div className="text-2xl font-bold">{noteCount}</div>
           </CardContent>
         </Card>
         <Card>
@@ -189,6 +210,8 @@ export default function ProjectDetailPage() {
         </Card>
       </div>
 
+      <EffectiveTemplateCard effective={getEffectiveTemplate(templates, { project })} scope="project" />
+
       {/* Team Members */}
       {project.team && project.team.length > 0 && (
         <div className="space-y-4">
@@ -214,26 +237,41 @@ export default function ProjectDetailPage() {
         </div>
       )}
 
-      {/* Notes */}
-      <div className="space-y-4">
-        <h2 className="text-xl font-semibold">Meeting Notes</h2>
-        {projectNotes.length === 0 ? (
-          <Card>
-            <CardContent className="flex flex-col items-center justify-center py-12">
-              <FileText className="h-8 w-8 text-muted-foreground mb-4" />
-              <CardDescription>No notes for this project yet.</CardDescription>
-            </CardContent>
-          </Card>
-        ) : (
-          <NotesTable
-            notes={projectNotes}
-            clients={clients}
-            projects={allProjects}
-            onCategorize={setCategorizeNote}
-            onShare={setShareNote}
-          />
-        )}
-      </div>
+      {/* Tabs */}
+      <Tabs defaultValue="notes" className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="notes">Meeting Notes ({noteCount})</TabsTrigger>
+          <TabsTrigger value="decisions">Decisions</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="notes">
+          {projectNotes.length === 0 ? (
+            <Card>
+              <CardContent className="flex flex-col items-center justify-center py-12">
+                <FileText className="h-8 w-8 text-muted-foreground mb-4" />
+                <CardDescription>No notes for this project yet.</CardDescription>
+              </CardContent>
+            </Card>
+          ) : (
+            <NotesTable
+              notes={projectNotes}
+              clients={clients}
+              projects={allProjects}
+              templates={templates}
+              onCategorize={setCategorizeNote}
+              onShare={setShareNote}
+              hasMore={hasMore}
+              isLoadingMore={isFetchingMore}
+              onLoadMore={fetchMore}
+              totalCount={noteCount}
+            />
+          )}
+        </TabsContent>
+
+        <TabsContent value="decisions">
+          <DecisionRegister projectId={projectId} title={project.project_name} />
+        </TabsContent>
+      </Tabs>
 
       {/* Modals */}
       <CategorizeModal
@@ -5,6 +5,7 @@ import { useParams, useRouter } from 'next/navigation';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
 import {
   getRule,
+  getAllRules,
   getNotes,
   getClients,
   getProjects,
@@ -14,6 +15,12 @@ import {
 } from '@/lib/firestore';
 import { RuleFormModal } from '@/components/rules/rule-form-modal';
 import { RuleTestPanel } from '@/components/rules/rule-test-panel';
+import { RuleBacktestPanel } from '@/components/rules/rule-backtest-panel';
+import { RuleShadowReport } from '@/components/rules/rule-shadow-report';
+import { RuleApplyJobs } from '@/components/rules/rule-apply-jobs';
+import { RuleVersionHistory } from '@/components/rules/rule-version-history';
+import { describeRuleSchedule } from '@/lib/rule-engine';
+import { useAuth } from '@/components/auth/auth-provider';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -42,11 +49,17 @@ import {
   Cpu,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import {
+  RuleConditionGroup,
+  describeRuleConditions,
+  isConditionGroup,
+} from '@/lib/rule-engine';
 
 export default function RuleDetailPage() {
   const params = useParams();
   const router = useRouter();
   const queryClient = useQueryClient();
+  const { user } = useAuth();
   const ruleId = params.id as string;
 
   const [isFormOpen, setIsFormOpen] = useState(false);
@@ -64,6 +77,11 @@ export default function RuleDetailPage() {
     queryFn: () => getNotes({ limit: 50 }),
   });
 
+  const { data: allRules = [] } = useQuery({
+    queryKey: ['rules'],
+    queryFn: () => getAllRules(),
+  });
+
   const { data: clients = [] } = useQuery({
     queryKey: ['clients'],
     queryFn: () => getClients(),
@@ -89,7 +107,7 @@ export default function RuleDetailPage() {
 
   const handleToggleStatus = async (status: 'active' | 'disabled' | 'testing') => {
     try {
-      await toggleRuleStatus(ruleId, status);
+      await toggleRuleStatus(ruleId, status, user?.email || undefined);
       refetchRule();
       queryClient.invalidateQueries({ queryKey: ['rules'] });
     } catch (error) {
@@ -231,6 +249,11 @@ export default function RuleDetailPage() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{timesApplied}</div>
+            {!!rule.stats?.retroactive_applied && (
+              <p className="text-xs text-muted-foreground">
+                {rule.stats.retroactive_applied} applied to existing notes
+              </p>
+            )}
           </CardContent>
         </Card>
 
@@ -294,33 +317,12 @@ export default function RuleDetailPage() {
           <CardHeader>
             <CardTitle>Conditions</CardTitle>
             <CardDescription>
-              This rule triggers when{' '}
-              <strong>{rule.conditions?.operator === 'OR' ? 'ANY' : 'ALL'}</strong>{' '}
-              of these conditions are met
+              This rule triggers when {describeRuleConditions(rule.conditions)}
             </CardDescription>
           </CardHeader>
           <CardContent>
             {rule.conditions?.rules && rule.conditions.rules.length > 0 ? (
-              <div className="space-y-2">
-                {rule.conditions.rules.map((condition, index) => (
-                  <div
-                    key={index}
-                    className="flex items-center gap-2 p-2 rounded bg-muted/50"
-                  >
-                    <Badge variant="outline" className="text-xs">
-                      {condition.field}
-                    </Badge>
-                    <span className="text-sm text-muted-foreground">
-                      {condition.operator}
-                    </span>
-                    <span className="text-sm font-medium">
-                      {Array.isArray(condition.value)
-                        ? condition.value.join(', ')
-                        : condition.value}
-                    </span>
-                  </div>
-                ))}
-              </div>
+              <ConditionTree group={rule.conditions} />
             ) : (
               <p className="text-muted-foreground">No conditions defined</p>
             )}
@@ -418,8 +420,27 @@ export default function RuleDetailPage() {
         </Card>
       </div>
 
+      {/* Shadow mode report for rules in testing */}
+      {rule.status === 'testing' && (
+        <RuleShadowReport
+          rule={rule}
+          clients={clients}
+          projects={projects}
+          onPromote={() => handleToggleStatus('active')}
+        />
+      )}
+
       {/* Test Panel */}
-      <RuleTestPanel rule={rule} notes={notes} />
+      <RuleTestPanel rule={rule} notes={notes} rules={allRules} projects={projects} />
+
+      {/* Backtest */}
+      <RuleBacktestPanel rule={rule} rules={allRules} clients={clients} projects={projects} />
+
+      {/* Retroactive apply */}
+      <RuleApplyJobs rule={rule} clients={clients} projects={projects} />
+
+      {/* Versions */}
+      <RuleVersionHistory rule={rule} clients={clients} projects={projects} />
 
       {/* Metadata */}
       <Card>
@@ -427,7 +448,11 @@ export default function RuleDetailPage() {
           <CardTitle>Rule Details</CardTitle>
         </CardHeader>
         <CardContent>
-          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
+            <div>
+              <span className="text-muted-foreground block">Version</span>
+              <span className="font-medium">{rule.version ? `v${rule.version}` : '—'}</span>
+            </div>
             <div>
               <span className="text-muted-foreground block">Priority</span>
               <span className="font-medium">{rule.priority}</span>
@@ -445,6 +470,15 @@ export default function RuleDetailPage() {
               <span className="font-medium">{formatDate(rule.updated_at)}</span>
             </div>
           </div>
+          <div className="mt-4 text-sm">
+            <span className="text-muted-foreground block">Schedule</span>
+            <span className="font-medium">{describeRuleSchedule(rule) || 'Always'}</span>
+            {rule.expired_at && (
+              <span className="ml-2 text-xs text-muted-foreground">
+                (disabled automatically on {formatDate(rule.expired_at)})
+              </span>
+            )}
+          </div>
         </CardContent>
       </Card>
 
@@ -484,3 +518,38 @@ export default function RuleDetailPage() {
     </div>
   );
 }
+
+function ConditionTree({ group }: { group: RuleConditionGroup }) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        {group.negate && <Badge variant="destructive" className="text-xs">NOT</Badge>}
+        <span>{group.operator === 'OR' ? 'ANY of' : 'ALL of'}</span>
+      </div>
+      {group.rules.map((condition, index) =>
+        isConditionGroup(condition) ? (
+          <div key={index} className="ml-4 border-l pl-3">
+            <ConditionTree group={condition} />
+          </div>
+        ) : (
+          <div
+            key={index}
+            className="flex items-center gap-2 p-2 rounded bg-muted/50"
+          >
+            <Badge variant="outline" className="text-xs">
+              {condition.field}
+            </Badge>
+            <span className="text-sm text-muted-foreground">
+              {condition.operator}
+            </span>
+            <span className="text-sm font-medium">
+              {Array.isArray(condition.value)
+                ? condition.value.join(', ')
+                : condition.value}
+            </span>
+          </div>
+        )
+      )}
+    </div>
+  );
+}
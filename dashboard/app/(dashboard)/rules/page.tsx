@@ -1,20 +1,31 @@
 'use client';
 
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { useRouter } from 'next/navigation';
 import {
   getAllRules,
   getClients,
   getProjects,
+  getRuleSuggestions,
+  updateRuleSuggestion,
   ClassificationRule,
+  RuleSuggestion,
   deleteRule,
   duplicateRule,
   toggleRuleStatus,
 } from '@/lib/firestore';
 import { RulesTable } from '@/components/rules/rules-table';
 import { RuleFormModal } from '@/components/rules/rule-form-modal';
+import { RuleBacktestPanel } from '@/components/rules/rule-backtest-panel';
+import { RuleAnalyzerPanel } from '@/components/rules/rule-analyzer-panel';
+import { RuleSuggestionsInbox } from '@/components/rules/rule-suggestions-inbox';
+import { RuleImportModal } from '@/components/rules/rule-import-modal';
+import { buildRuleExport } from '@/lib/rule-transfer';
+import { downloadRuleExport } from '@/lib/export';
+import { useAuth } from '@/components/auth/auth-provider';
 import { Button } from '@/components/ui/button';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -25,15 +36,18 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
-import { Loader2, Plus, Cpu } from 'lucide-react';
+import { Loader2, Plus, Cpu, Download, Upload } from 'lucide-react';
 
 export default function RulesPage() {
   const router = useRouter();
   const queryClient = useQueryClient();
+  const { user } = useAuth();
   const [editingRule, setEditingRule] = useState<ClassificationRule | null>(null);
+  const [acceptingSuggestion, setAcceptingSuggestion] = useState<RuleSuggestion | null>(null);
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [deleteConfirm, setDeleteConfirm] = useState<ClassificationRule | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
 
   const { data: rules = [], isLoading: loadingRules, refetch: refetchRules } = useQuery({
     queryKey: ['rules'],
@@ -50,15 +64,37 @@ export default function RulesPage() {
     queryFn: () => getProjects(),
   });
 
+  const { data: suggestions = [], isLoading: loadingSuggestions } = useQuery({
+    queryKey: ['ruleSuggestions'],
+    queryFn: () => getRuleSuggestions('pending'),
+  });
+
+  // Accepted suggestions start in testing so they can be watched before going live
+  const suggestionValues = useMemo(
+    () =>
+      acceptingSuggestion
+        ? { ...acceptingSuggestion.suggested_rule, status: 'testing' as const }
+        : null,
+    [acceptingSuggestion]
+  );
+
   const isLoading = loadingRules || loadingClients || loadingProjects;
 
   const handleCreateRule = () => {
     setEditingRule(null);
+    setAcceptingSuggestion(null);
     setIsFormOpen(true);
   };
 
   const handleEditRule = (rule: ClassificationRule) => {
     setEditingRule(rule);
+    setAcceptingSuggestion(null);
+    setIsFormOpen(true);
+  };
+
+  const handleAcceptSuggestion = (suggestion: RuleSuggestion) => {
+    setEditingRule(null);
+    setAcceptingSuggestion(suggestion);
     setIsFormOpen(true);
   };
 
@@ -91,20 +127,43 @@ export default function RulesPage() {
     status: 'active' | 'disabled' | 'testing'
   ) => {
     try {
-      await toggleRuleStatus(rule.id, status);
+      await toggleRuleStatus(rule.id, status, user?.email || undefined);
       refetchRules();
     } catch (error) {
       console.error('Failed to toggle rule status:', error);
     }
   };
 
+  const handleExportRules = (selected: ClassificationRule[]) => {
+    downloadRuleExport(buildRuleExport(selected, { clients, projects }, user?.email || null));
+  };
+
+  const handleImported = () => {
+    refetchRules();
+    queryClient.invalidateQueries({ queryKey: ['rules'] });
+  };
+
   const handleViewDetails = (rule: ClassificationRule) => {
     router.push(`/rules/${rule.id}`);
   };
 
-  const handleFormSuccess = () => {
+  const handleFormSuccess = async (ruleId: string) => {
     refetchRules();
     queryClient.invalidateQueries({ queryKey: ['rules'] });
+
+    if (acceptingSuggestion) {
+      try {
+        await updateRuleSuggestion(
+          acceptingSuggestion.id,
+          { status: 'accepted', accepted_rule_id: ruleId },
+          user?.email || undefined
+        );
+        queryClient.invalidateQueries({ queryKey: ['ruleSuggestions'] });
+      } catch (error) {
+        console.error('Failed to mark suggestion as accepted:', error);
+      }
+      setAcceptingSuggestion(null);
+    }
   };
 
   if (isLoading) {
@@ -124,13 +183,27 @@ export default function RulesPage() {
             Manage rules that automatically classify and organize meeting notes.
           </p>
         </div>
-        <Button onClick={handleCreateRule}>
-          <Plus className="mr-2 h-4 w-4" />
-          Create Rule
-        </Button>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => setIsImportOpen(true)}>
+            <Upload className="mr-2 h-4 w-4" />
+            Import
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => handleExportRules(rules)}
+            disabled={rules.length === 0}
+          >
+            <Download className="mr-2 h-4 w-4" />
+            Export All
+          </Button>
+          <Button onClick={handleCreateRule}>
+            <Plus className="mr-2 h-4 w-4" />
+            Create Rule
+          </Button>
+        </div>
       </div>
 
-      {rules.length === 0 ? (
+      {rules.length === 0 && suggestions.length === 0 ? (
         <div className="flex flex-col items-center justify-center py-12 border rounded-lg bg-muted/20">
           <Cpu className="h-12 w-12 text-muted-foreground mb-4" />
           <h3 className="text-lg font-medium mb-2">No rules yet</h3>
@@ -143,21 +216,57 @@ export default function RulesPage() {
           </Button>
         </div>
       ) : (
-        <RulesTable
-          rules={rules}
-          clients={clients}
-          projects={projects}
-          onEdit={handleEditRule}
-          onDuplicate={handleDuplicateRule}
-          onDelete={(rule) => setDeleteConfirm(rule)}
-          onToggleStatus={handleToggleStatus}
-          onViewDetails={handleViewDetails}
-        />
+        <Tabs defaultValue="rules" className="space-y-4">
+          <TabsList>
+            <TabsTrigger value="rules">Rules ({rules.length})</TabsTrigger>
+            <TabsTrigger value="analyzer">Analyzer</TabsTrigger>
+            <TabsTrigger value="backtest">Backtest</TabsTrigger>
+            <TabsTrigger value="suggestions">Suggestions ({suggestions.length})</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="rules">
+            <RulesTable
+              rules={rules}
+              clients={clients}
+              projects={projects}
+              onEdit={handleEditRule}
+              onDuplicate={handleDuplicateRule}
+              onDelete={(rule) => setDeleteConfirm(rule)}
+              onToggleStatus={handleToggleStatus}
+              onViewDetails={handleViewDetails}
+              onExportSelected={handleExportRules}
+            />
+          </TabsContent>
+
+          <TabsContent value="analyzer">
+            <RuleAnalyzerPanel
+              rules={rules}
+              clients={clients}
+              projects={projects}
+              onEditRule={handleEditRule}
+            />
+          </TabsContent>
+
+          <TabsContent value="backtest">
+            <RuleBacktestPanel rules={rules} clients={clients} projects={projects} />
+          </TabsContent>
+
+          <TabsContent value="suggestions">
+            <RuleSuggestionsInbox
+              suggestions={suggestions}
+              isLoading={loadingSuggestions}
+              clients={clients}
+              projects={projects}
+              onAccept={handleAcceptSuggestion}
+            />
+          </TabsContent>
+        </Tabs>
       )}
 
       {/* Rule Form Modal */}
       <RuleFormModal
         rule={editingRule}
+        initialValues={suggestionValues}
         clients={clients}
         projects={projects}
         open={isFormOpen}
@@ -165,6 +274,15 @@ export default function RulesPage() {
         onSuccess={handleFormSuccess}
       />
 
+      <RuleImportModal
+        rules={rules}
+        clients={clients}
+        projects={projects}
+        open={isImportOpen}
+        onOpenChange={setIsImportOpen}
+        onImported={handleImported}
+      />
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={!!deleteConfirm} onOpenChange={() => setDeleteConfirm(null)}>
         <AlertDialogContent>
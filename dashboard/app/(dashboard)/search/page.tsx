@@ -2,11 +2,13 @@
 
 import { useSearchParams } from 'next/navigation';
 import { useQuery } from '@tanstack/react-query';
-import { getNotes, getClients, getProjects, Note } from '@/lib/firestore';
+import { getClients, getProjects, Note } from '@/lib/firestore';
+import { useInfiniteNotes } from '@/hooks/useInfiniteNotes';
 import { NotesTable } from '@/components/notes/notes-table';
 import { CategorizeModal } from '@/components/notes/categorize-modal';
 import { ShareModal } from '@/components/notes/share-modal';
 import { Card, CardContent, CardDescription, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
 import { Search, Loader2 } from 'lucide-react';
 import { useState, useMemo } from 'react';
 
@@ -17,10 +19,14 @@ export default function SearchPage() {
   const [categorizeNote, setCategorizeNote] = useState<Note | null>(null);
   const [shareNote, setShareNote] = useState<Note | null>(null);
 
-  const { data: notes = [], isLoading: loadingNotes, refetch: refetchNotes } = useQuery({
-    queryKey: ['notes'],
-    queryFn: () => getNotes(),
-  });
+  const {
+    notes,
+    isLoading: loadingNotes,
+    hasMore,
+    isFetchingMore,
+    fetchMore,
+    refetch: refetchNotes,
+  } = useInfiniteNotes();
 
   const { data: clients = [], isLoading: loadingClients } = useQuery({
     queryKey: ['clients'],
@@ -104,8 +110,21 @@ export default function SearchPage() {
             </div>
             <CardTitle className="mb-2">No results found</CardTitle>
             <CardDescription>
-              Try searching with different keywords.
+              {hasMore
+                ? `No matches in the ${notes.length} most recent notes.`
+                : 'Try searching with different keywords.'}
             </CardDescription>
+            {hasMore && (
+              <Button
+                variant="outline"
+                className="mt-4"
+                onClick={fetchMore}
+                disabled={isFetchingMore}
+              >
+                {isFetchingMore && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Search older notes
+              </Button>
+            )}
           </CardContent>
         </Card>
       ) : (
@@ -115,6 +134,9 @@ export default function SearchPage() {
           projects={projects}
           onCategorize={setCategorizeNote}
           onShare={setShareNote}
+          hasMore={hasMore}
+          isLoadingMore={isFetchingMore}
+          onLoadMore={fetchMore}
         />
       )}
 
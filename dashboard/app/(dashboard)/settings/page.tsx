@@ -10,7 +10,7 @@ import {
   unregisterDriveWebhook,
   DriveWebhookConfig,
 } from '@/lib/api';
-import { getUserSettings, saveUserSettings } from '@/lib/firestore';
+import { getUserSettings, saveUserSettings, migrateEmbeddedActionItems } from '@/lib/firestore';
 import {
   Card,
   CardContent,
@@ -22,6 +22,7 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
 import {
   AlertCircle,
   CheckCircle2,
@@ -35,6 +36,7 @@ import {
   Palette,
   Chrome,
   Download,
+  ListChecks,
 } from 'lucide-react';
 import { ThemeSelector } from '@/components/ui/theme-toggle';
 
@@ -57,6 +59,11 @@ export default function SettingsPage() {
   const [geminiError, setGeminiError] = useState<string | null>(null);
   const [geminiSuccess, setGeminiSuccess] = useState<string | null>(null);
 
+  // Action items migration state
+  const [migratingActionItems, setMigratingActionItems] = useState(false);
+  const [migrationProgress, setMigrationProgress] = useState(0);
+  const [migrationResult, setMigrationResult] = useState<string | null>(null);
+
   const fetchConfig = useCallback(async () => {
     if (!user?.email) return;
 
@@ -296,6 +303,28 @@ export default function SettingsPage() {
     );
   }
 
+  const handleMigrateActionItems = async () => {
+    setMigratingActionItems(true);
+    setMigrationProgress(0);
+    setMigrationResult(null);
+
+    try {
+      const result = await migrateEmbeddedActionItems(({ processed, total }) =>
+        setMigrationProgress(total ? Math.round((processed / total) * 100) : 100)
+      );
+      setMigrationResult(
+        `Copied ${result.items} action items from ${result.notes} notes.` +
+          (result.skipped > 0 ? ` Skipped ${result.skipped} without an ID.` : '')
+      );
+    } catch (err) {
+      setMigrationResult(
+        err instanceof Error ? `Migration failed: ${err.message}` : 'Migration failed'
+      );
+    } finally {
+      setMigratingActionItems(false);
+    }
+  };
+
   return (
     <div className="space-y-6">
       <div>
@@ -582,6 +611,39 @@ export default function SettingsPage() {
         </CardContent>
       </Card>
 
+      {/* Action Items Migration Card */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ListChecks className="h-5 w-5" />
+            Action Items
+          </CardTitle>
+          <CardDescription>
+            Action items are copied into cross-meeting views automatically whenever a
+            note changes. Run this once to backfill older notes that have not changed
+            since. Safe to run again.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {migratingActionItems && <Progress value={migrationProgress} />}
+          {migrationResult && (
+            <p className="text-sm text-muted-foreground">{migrationResult}</p>
+          )}
+          <Button
+            variant="outline"
+            onClick={handleMigrateActionItems}
+            disabled={migratingActionItems}
+          >
+            {migratingActionItems ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <RefreshCw className="mr-2 h-4 w-4" />
+            )}
+            Backfill Action Items
+          </Button>
+        </CardContent>
+      </Card>
+
       {/* How it Works Card */}
       <Card>
         <CardHeader>
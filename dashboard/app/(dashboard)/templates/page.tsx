@@ -7,9 +7,24 @@ import {
   createTemplate,
   updateTemplate,
   deleteTemplate,
+  getClients,
+  getProjects,
+  Client,
   NoteTemplate,
+  Project,
   TemplateSection,
 } from '@/lib/firestore';
+import { TEMPLATE_VARIABLES } from '@/lib/template-render';
+import {
+  SectionOrigin,
+  canInheritFrom,
+  diffTemplateSections,
+  getSectionOrigins,
+  resolveTemplate,
+  resolveTemplateSections,
+} from '@/lib/template-inheritance';
+import { TemplatePreview } from '@/components/templates/template-preview';
+import { TemplateMatchTester } from '@/components/templates/template-match-tester';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -47,21 +62,39 @@ import {
   Trash2,
   FileText,
   Loader2,
-  GripVertical,
+  ArrowUp,
+  ArrowDown,
   X,
   Copy,
   Star,
+  Eye,
+  Target,
+  Building2,
+  FolderKanban,
+  GitBranch,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
 const DEFAULT_SECTIONS: TemplateSection[] = [
-  { id: '1', title: 'Attendees', placeholder: 'List of attendees...', type: 'list', order: 1 },
+  { id: '1', title: 'Attendees', placeholder: 'List of attendees...', content: '{{attendees}}', type: 'list', order: 1 },
   { id: '2', title: 'Agenda', placeholder: 'Meeting agenda items...', type: 'list', order: 2 },
   { id: '3', title: 'Discussion Notes', placeholder: 'Key discussion points...', type: 'text', order: 3 },
-  { id: '4', title: 'Action Items', placeholder: 'Tasks and follow-ups...', type: 'checkbox-list', order: 4, required: true },
-  { id: '5', title: 'Decisions', placeholder: 'Key decisions made...', type: 'list', order: 5 },
+  { id: '4', title: 'Action Items', placeholder: 'Tasks and follow-ups...', content: '{{open_action_items}}', type: 'checkbox-list', order: 4, required: true },
+  { id: '5', title: 'Decisions', placeholder: 'Key decisions made...', content: '{{decisions}}', type: 'list', order: 5 },
+];
+
+const MEETING_TYPES = [
+  { value: 'client', label: 'Client' },
+  { value: 'internal', label: 'Internal' },
+  { value: 'external', label: 'External' },
 ];
 
+const SECTION_ORIGIN_LABELS: Record<SectionOrigin, string> = {
+  inherited: 'Inherited',
+  overridden: 'Overridden',
+  added: 'Added',
+};
+
 const CATEGORY_COLORS: Record<string, string> = {
   client: 'bg-blue-500',
   internal: 'bg-gray-500',
@@ -74,12 +107,24 @@ export default function TemplatesPage() {
   const [showEditor, setShowEditor] = useState(false);
   const [editingTemplate, setEditingTemplate] = useState<NoteTemplate | null>(null);
   const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null);
+  const [previewTemplate, setPreviewTemplate] = useState<NoteTemplate | null>(null);
+  const [showMatchTester, setShowMatchTester] = useState(false);
 
   const { data: templates = [], isLoading } = useQuery({
     queryKey: ['templates'],
     queryFn: getTemplates,
   });
 
+  const { data: clients = [] } = useQuery({
+    queryKey: ['clients'],
+    queryFn: () => getClients(),
+  });
+
+  const { data: projects = [] } = useQuery({
+    queryKey: ['projects'],
+    queryFn: () => getProjects(),
+  });
+
   const createMutation = useMutation({
     mutationFn: createTemplate,
     onSuccess: () => {
@@ -107,6 +152,12 @@ export default function TemplatesPage() {
     },
   });
 
+  const clientName = (id: string) => clients.find((c) => c.id === id)?.name || 'Unknown client';
+  const projectName = (id: string) =>
+    projects.find((p) => p.id === id)?.project_name || 'Unknown project';
+  const templateName = (id: string) => templates.find((t) => t.id === id)?.name || 'a deleted template';
+  const hasChildren = (id: string) => templates.some((t) => t.parent_id === id);
+
   const handleCreateNew = () => {
     setEditingTemplate(null);
     setShowEditor(true);
@@ -144,10 +195,20 @@ export default function TemplatesPage() {
             Create and manage templates for consistent meeting notes.
           </p>
         </div>
-        <Button onClick={handleCreateNew}>
-          <Plus className="mr-2 h-4 w-4" />
-          New Template
-        </Button>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            onClick={() => setShowMatchTester(true)}
+            disabled={templates.length === 0}
+          >
+            <Target className="mr-2 h-4 w-4" />
+            Test Matching
+          </Button>
+          <Button onClick={handleCreateNew}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Template
+          </Button>
+        </div>
       </div>
 
       {templates.length === 0 ? (
@@ -177,10 +238,21 @@ export default function TemplatesPage() {
                 </div>
               )}
               <CardHeader className="pb-2">
-                <div className="flex items-center gap-2">
+                <div className="flex flex-wrap items-center gap-2">
                   <Badge className={cn(CATEGORY_COLORS[template.category], 'capitalize')}>
                     {template.category}
                   </Badge>
+                  {template.project_id ? (
+                    <Badge variant="outline" className="flex items-center gap-1">
+                      <FolderKanban className="h-3 w-3" />
+                      {projectName(template.project_id)}
+                    </Badge>
+                  ) : template.client_id ? (
+                    <Badge variant="outline" className="flex items-center gap-1">
+                      <Building2 className="h-3 w-3" />
+                      {clientName(template.client_id)}
+                    </Badge>
+                  ) : null}
                 </div>
                 <CardTitle className="text-lg">{template.name}</CardTitle>
                 {template.description && (
@@ -190,8 +262,14 @@ export default function TemplatesPage() {
               <CardContent>
                 <div className="space-y-2">
                   <p className="text-sm text-muted-foreground">
-                    {template.sections?.length || 0} sections
+                    {resolveTemplate(template, templates).sections?.length || 0} sections
                   </p>
+                  {template.parent_id && (
+                    <p className="flex items-center gap-1 text-sm text-muted-foreground">
+                      <GitBranch className="h-3 w-3" />
+                      Inherits from {templateName(template.parent_id)}
+                    </p>
+                  )}
                   {template.auto_apply_rules?.keywords && (
                     <div className="flex flex-wrap gap-1">
                       {template.auto_apply_rules.keywords.slice(0, 3).map((kw) => (
@@ -216,10 +294,16 @@ export default function TemplatesPage() {
                     <Copy className="mr-1 h-3 w-3" />
                     Duplicate
                   </Button>
+                  <Button variant="outline" size="sm" onClick={() => setPreviewTemplate(template)}>
+                    <Eye className="mr-1 h-3 w-3" />
+                    Preview
+                  </Button>
                   <Button
                     variant="outline"
                     size="sm"
                     onClick={() => setDeleteConfirm(template.id)}
+                    disabled={hasChildren(template.id)}
+                    title={hasChildren(template.id) ? 'Other templates inherit from this template' : undefined}
                   >
                     <Trash2 className="h-3 w-3" />
                   </Button>
@@ -235,6 +319,9 @@ export default function TemplatesPage() {
         open={showEditor}
         onOpenChange={setShowEditor}
         template={editingTemplate}
+        templates={templates}
+        clients={clients}
+        projects={projects}
         onSave={(data) => {
           if (editingTemplate?.id) {
             updateMutation.mutate({ id: editingTemplate.id, updates: data });
@@ -245,6 +332,20 @@ export default function TemplatesPage() {
         isSaving={createMutation.isPending || updateMutation.isPending}
       />
 
+      <TemplateMatchTester
+        templates={templates}
+        clients={clients}
+        projects={projects}
+        open={showMatchTester}
+        onOpenChange={setShowMatchTester}
+      />
+
+      <TemplatePreview
+        template={previewTemplate && resolveTemplate(previewTemplate, templates)}
+        open={!!previewTemplate}
+        onOpenChange={(open) => !open && setPreviewTemplate(null)}
+      />
+
       {/* Delete Confirmation */}
       <AlertDialog open={!!deleteConfirm} onOpenChange={() => setDeleteConfirm(null)}>
         <AlertDialogContent>
@@ -274,36 +375,103 @@ interface TemplateEditorProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   template: NoteTemplate | null;
+  templates: NoteTemplate[];
+  clients: Client[];
+  projects: Project[];
   onSave: (data: Partial<NoteTemplate>) => void;
   isSaving: boolean;
 }
 
-function TemplateEditor({ open, onOpenChange, template, onSave, isSaving }: TemplateEditorProps) {
-  const [name, setName] = useState('');
-  const [description, setDescription] = useState('');
-  const [category, setCategory] = useState<NoteTemplate['category']>('general');
-  const [sections, setSections] = useState<TemplateSection[]>([]);
-  const [keywords, setKeywords] = useState('');
-  const [isDefault, setIsDefault] = useState(false);
-
-  // Reset form when template changes
-  useState(() => {
-    if (template) {
-      setName(template.name);
-      setDescription(template.description || '');
-      setCategory(template.category);
-      setSections(template.sections || DEFAULT_SECTIONS);
-      setKeywords(template.auto_apply_rules?.keywords?.join(', ') || '');
-      setIsDefault(template.is_default || false);
-    } else {
-      setName('');
-      setDescription('');
-      setCategory('general');
-      setSections(DEFAULT_SECTIONS);
-      setKeywords('');
-      setIsDefault(false);
-    }
-  });
+function TemplateEditor({
+  open,
+  onOpenChange,
+  template,
+  templates,
+  clients,
+  projects,
+  onSave,
+  isSaving,
+}: TemplateEditorProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{template?.id ? 'Edit Template' : 'Create Template'}</DialogTitle>
+          <DialogDescription>
+            Define the structure for your meeting notes
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Mounted only while open so the form starts from the chosen template */}
+        {open && (
+          <TemplateEditorForm
+            template={template}
+            templates={templates}
+            clients={clients}
+            projects={projects}
+            onCancel={() => onOpenChange(false)}
+            onSave={onSave}
+            isSaving={isSaving}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface TemplateEditorFormProps {
+  template: NoteTemplate | null;
+  templates: NoteTemplate[];
+  clients: Client[];
+  projects: Project[];
+  onCancel: () => void;
+  onSave: (data: Partial<NoteTemplate>) => void;
+  isSaving: boolean;
+}
+
+function splitList(value: string): string[] {
+  return value.split(',').map((item) => item.trim()).filter(Boolean);
+}
+
+function TemplateEditorForm({
+  template,
+  templates,
+  clients,
+  projects,
+  onCancel,
+  onSave,
+  isSaving,
+}: TemplateEditorFormProps) {
+  const rules = template?.auto_apply_rules;
+  const [name, setName] = useState(template?.name || '');
+  const [description, setDescription] = useState(template?.description || '');
+  const [category, setCategory] = useState<NoteTemplate['category']>(template?.category || 'general');
+  const [parentId, setParentId] = useState(template?.parent_id || '');
+  // The effective sections; a child template stores only its changes on save
+  const [sections, setSections] = useState<TemplateSection[]>(
+    template ? resolveTemplateSections(template, templates) : DEFAULT_SECTIONS
+  );
+  const [keywords, setKeywords] = useState(rules?.keywords?.join(', ') || '');
+  const [domains, setDomains] = useState(rules?.attendee_domains?.join(', ') || '');
+  const [meetingTypes, setMeetingTypes] = useState<string[]>(rules?.meeting_types || []);
+  // Older templates linked a client or project through their auto-apply rules
+  const [clientId, setClientId] = useState(template?.client_id || rules?.client_ids?.[0] || '');
+  const [projectId, setProjectId] = useState(template?.project_id || rules?.project_ids?.[0] || '');
+  const [minDuration, setMinDuration] = useState(rules?.min_duration?.toString() ?? '');
+  const [maxDuration, setMaxDuration] = useState(rules?.max_duration?.toString() ?? '');
+  const isDefault = template?.is_default || false;
+
+  const parent = templates.find((t) => t.id === parentId);
+  const parentSections = parent ? resolveTemplateSections(parent, templates) : [];
+  const origins = parent ? getSectionOrigins(parentSections, sections) : {};
+  const parentOptions = templates.filter((t) => canInheritFrom(template?.id || '', t.id, templates));
+
+  const changeParent = (id: string) => {
+    setParentId(id);
+    // Start from the new parent's sections; without a parent the current ones become the template's own
+    const next = templates.find((t) => t.id === id);
+    if (next) setSections(resolveTemplateSections(next, templates));
+  };
 
   const addSection = () => {
     const newSection: TemplateSection = {
@@ -311,7 +479,7 @@ function TemplateEditor({ open, onOpenChange, template, onSave, isSaving }: Temp
       title: 'New Section',
       placeholder: '',
       type: 'text',
-      order: sections.length + 1,
+      order: Math.max(0, ...sections.map((s) => s.order)) + 1,
     };
     setSections([...sections, newSection]);
   };
@@ -324,82 +492,201 @@ function TemplateEditor({ open, onOpenChange, template, onSave, isSaving }: Temp
     setSections(sections.filter((s) => s.id !== id));
   };
 
+  const moveSection = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= sections.length) return;
+    const next = [...sections];
+    [next[index], next[target]] = [next[target], next[index]];
+    setSections(next.map((s, i) => ({ ...s, order: i + 1 })));
+  };
+
+  const toggleMeetingType = (type: string) => {
+    setMeetingTypes((current) =>
+      current.includes(type) ? current.filter((t) => t !== type) : [...current, type]
+    );
+  };
+
   const handleSave = () => {
     onSave({
       name,
       description,
       category,
-      sections,
-      auto_apply_rules: keywords
-        ? { keywords: keywords.split(',').map((k) => k.trim()).filter(Boolean) }
-        : undefined,
+      client_id: clientId || null,
+      project_id: projectId || null,
+      parent_id: parent ? parent.id : null,
+      ...(parent
+        ? diffTemplateSections(parentSections, sections)
+        : { sections, removed_section_ids: [] }),
+      auto_apply_rules: {
+        keywords: splitList(keywords),
+        attendee_domains: splitList(domains).map((domain) => domain.replace(/^@/, '').toLowerCase()),
+        meeting_types: meetingTypes,
+        // Superseded by the template's scope
+        client_ids: [],
+        project_ids: [],
+        min_duration: minDuration ? Number(minDuration) : null,
+        max_duration: maxDuration ? Number(maxDuration) : null,
+      },
       is_default: isDefault,
     });
   };
 
+  const clientProjects = clientId ? projects.filter((p) => p.client_id === clientId) : projects;
+
   return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
-        <DialogHeader>
-          <DialogTitle>{template?.id ? 'Edit Template' : 'Create Template'}</DialogTitle>
-          <DialogDescription>
-            Define the structure for your meeting notes
-          </DialogDescription>
-        </DialogHeader>
+    <>
+      <div className="space-y-6 py-4">
+        {/* Basic Info */}
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label>Template Name</Label>
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., Client Meeting"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Category</Label>
+            <Select value={category} onValueChange={(v) => setCategory(v as any)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="client">Client</SelectItem>
+                <SelectItem value="internal">Internal</SelectItem>
+                <SelectItem value="external">External</SelectItem>
+                <SelectItem value="general">General</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Description (optional)</Label>
+          <Textarea
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="What is this template for?"
+            rows={2}
+          />
+        </div>
 
-        <div className="space-y-6 py-4">
-          {/* Basic Info */}
+        {/* Scope and inheritance */}
+        <div className="space-y-4">
+          <div>
+            <Label>Applies To</Label>
+            <p className="text-xs text-muted-foreground">
+              A client or project template is only used for that client&apos;s or project&apos;s
+              meetings, and wins over general templates that also match.
+            </p>
+          </div>
           <div className="grid gap-4 md:grid-cols-2">
             <div className="space-y-2">
-              <Label>Template Name</Label>
-              <Input
-                value={name}
-                onChange={(e) => setName(e.target.value)}
-                placeholder="e.g., Client Meeting"
-              />
+              <Label>Client</Label>
+              <Select
+                value={clientId || 'none'}
+                onValueChange={(v) => {
+                  setClientId(v === 'none' ? '' : v);
+                  setProjectId('');
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Any client</SelectItem>
+                  {clients.map((client) => (
+                    <SelectItem key={client.id} value={client.id}>
+                      {client.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
             <div className="space-y-2">
-              <Label>Category</Label>
-              <Select value={category} onValueChange={(v) => setCategory(v as any)}>
+              <Label>Project</Label>
+              <Select
+                value={projectId || 'none'}
+                onValueChange={(v) => {
+                  const project = projects.find((p) => p.id === v);
+                  setProjectId(project ? project.id : '');
+                  if (project?.client_id) setClientId(project.client_id);
+                }}
+              >
                 <SelectTrigger>
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="client">Client</SelectItem>
-                  <SelectItem value="internal">Internal</SelectItem>
-                  <SelectItem value="external">External</SelectItem>
-                  <SelectItem value="general">General</SelectItem>
+                  <SelectItem value="none">Any project</SelectItem>
+                  {clientProjects.map((project) => (
+                    <SelectItem key={project.id} value={project.id}>
+                      {project.project_name}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
           </div>
-
           <div className="space-y-2">
-            <Label>Description (optional)</Label>
-            <Textarea
-              value={description}
-              onChange={(e) => setDescription(e.target.value)}
-              placeholder="What is this template for?"
-              rows={2}
-            />
+            <Label>Inherit Sections From</Label>
+            <Select value={parentId || 'none'} onValueChange={(v) => changeParent(v === 'none' ? '' : v)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">No parent template</SelectItem>
+                {parentOptions.map((option) => (
+                  <SelectItem key={option.id} value={option.id}>
+                    {option.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {parent && (
+              <p className="text-xs text-muted-foreground">
+                Only sections you add, change, reorder or remove are saved with this template;
+                the rest follow {parent.name}.
+              </p>
+            )}
           </div>
+        </div>
 
-          {/* Sections */}
+        {/* Sections */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>Sections</Label>
+            <Button variant="outline" size="sm" onClick={addSection}>
+              <Plus className="mr-1 h-3 w-3" />
+              Add Section
+            </Button>
+          </div>
           <div className="space-y-2">
-            <div className="flex items-center justify-between">
-              <Label>Sections</Label>
-              <Button variant="outline" size="sm" onClick={addSection}>
-                <Plus className="mr-1 h-3 w-3" />
-                Add Section
-              </Button>
-            </div>
-            <div className="space-y-2">
-              {sections.map((section) => (
-                <div
-                  key={section.id}
-                  className="flex items-center gap-2 rounded-lg border p-3"
-                >
-                  <GripVertical className="h-4 w-4 text-muted-foreground cursor-move" />
+            {sections.map((section, index) => (
+              <div key={section.id} className="space-y-2 rounded-lg border p-3">
+                <div className="flex items-center gap-2">
+                  <div className="flex flex-col">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-4 w-6"
+                      aria-label="Move section up"
+                      disabled={index === 0}
+                      onClick={() => moveSection(index, -1)}
+                    >
+                      <ArrowUp className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-4 w-6"
+                      aria-label="Move section down"
+                      disabled={index === sections.length - 1}
+                      onClick={() => moveSection(index, 1)}
+                    >
+                      <ArrowDown className="h-3 w-3" />
+                    </Button>
+                  </div>
                   <Input
                     value={section.title}
                     onChange={(e) => updateSection(section.id, { title: e.target.value })}
@@ -419,6 +706,14 @@ function TemplateEditor({ open, onOpenChange, template, onSave, isSaving }: Temp
                       <SelectItem value="checkbox-list">Checklist</SelectItem>
                     </SelectContent>
                   </Select>
+                  {origins[section.id] && (
+                    <Badge
+                      variant={origins[section.id] === 'inherited' ? 'secondary' : 'outline'}
+                      className="text-xs"
+                    >
+                      {SECTION_ORIGIN_LABELS[origins[section.id]]}
+                    </Badge>
+                  )}
                   <Button
                     variant="ghost"
                     size="icon"
@@ -427,40 +722,125 @@ function TemplateEditor({ open, onOpenChange, template, onSave, isSaving }: Temp
                     <X className="h-4 w-4" />
                   </Button>
                 </div>
-              ))}
-            </div>
+                <Textarea
+                  value={section.content || ''}
+                  onChange={(e) => updateSection(section.id, { content: e.target.value })}
+                  placeholder={section.placeholder || 'Starting content, e.g. {{attendees}}'}
+                  rows={2}
+                  className="font-mono text-xs"
+                />
+              </div>
+            ))}
           </div>
+        </div>
 
-          {/* Auto-apply rules */}
-          <div className="space-y-2">
-            <Label>Auto-apply Keywords (optional)</Label>
-            <Input
-              value={keywords}
-              onChange={(e) => setKeywords(e.target.value)}
-              placeholder="standup, sprint, kickoff (comma-separated)"
-            />
+        {/* Variables */}
+        <div className="space-y-2">
+          <Label>Variables</Label>
+          <p className="text-xs text-muted-foreground">
+            Use these in section titles and content. A list variable on a line of its own
+            becomes one item per line.
+          </p>
+          <div className="flex flex-wrap gap-1">
+            {TEMPLATE_VARIABLES.map((variable) => (
+              <Badge
+                key={variable.key}
+                variant="outline"
+                className="font-mono text-xs"
+                title={variable.description}
+              >
+                {`{{${variable.key}}}`}
+              </Badge>
+            ))}
+          </div>
+        </div>
+
+        {/* Auto-apply rules */}
+        <div className="space-y-4">
+          <div>
+            <Label>Auto-apply Rules (optional)</Label>
             <p className="text-xs text-muted-foreground">
-              Template will be suggested when meeting title contains these keywords
+              Meetings are scored against every template&apos;s rules and get the best match.
+              A meeting type or duration outside these rules rules the template out.
             </p>
           </div>
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="templateKeywords">Title Keywords</Label>
+              <Input
+                id="templateKeywords"
+                value={keywords}
+                onChange={(e) => setKeywords(e.target.value)}
+                placeholder="standup, sprint, kickoff"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="templateDomains">Attendee Domains</Label>
+              <Input
+                id="templateDomains"
+                value={domains}
+                onChange={(e) => setDomains(e.target.value)}
+                placeholder="acme.com, globex.com"
+              />
+            </div>
+          </div>
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Meeting Types</Label>
+              <div className="flex flex-wrap gap-1">
+                {MEETING_TYPES.map((type) => (
+                  <Badge
+                    key={type.value}
+                    variant={meetingTypes.includes(type.value) ? 'default' : 'outline'}
+                    className="cursor-pointer"
+                    onClick={() => toggleMeetingType(type.value)}
+                  >
+                    {type.label}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Duration (minutes)</Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  min={0}
+                  aria-label="Minimum duration"
+                  placeholder="Min"
+                  value={minDuration}
+                  onChange={(e) => setMinDuration(e.target.value)}
+                />
+                <span className="text-muted-foreground">-</span>
+                <Input
+                  type="number"
+                  min={0}
+                  aria-label="Maximum duration"
+                  placeholder="Max"
+                  value={maxDuration}
+                  onChange={(e) => setMaxDuration(e.target.value)}
+                />
+              </div>
+            </div>
+          </div>
         </div>
+      </div>
 
-        <DialogFooter>
-          <Button variant="outline" onClick={() => onOpenChange(false)}>
-            Cancel
-          </Button>
-          <Button onClick={handleSave} disabled={!name || isSaving}>
-            {isSaving ? (
-              <>
-                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                Saving...
-              </>
-            ) : (
-              'Save Template'
-            )}
-          </Button>
-        </DialogFooter>
-      </DialogContent>
-    </Dialog>
+      <DialogFooter>
+        <Button variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button onClick={handleSave} disabled={!name || isSaving}>
+          {isSaving ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Saving...
+            </>
+          ) : (
+            'Save Template'
+          )}
+        </Button>
+      </DialogFooter>
+    </>
   );
 }
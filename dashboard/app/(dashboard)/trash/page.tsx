@@ -0,0 +1,288 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  getTrashedNotes,
+  restoreNoteFromTrash,
+  purgeNote,
+  getWorkspaceSettings,
+  saveWorkspaceSettings,
+  getNoteTitle,
+  getNoteClientName,
+  DEFAULT_TRASH_RETENTION_DAYS,
+  Note,
+} from '@/lib/firestore';
+import { useAuth } from '@/components/auth/auth-provider';
+import { formatDate, formatRelativeTime, toDate } from '@/lib/date-utils';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Trash2, RotateCcw, Loader2, Clock } from 'lucide-react';
+
+const RETENTION_OPTIONS = [
+  { value: '7', label: '7 days' },
+  { value: '14', label: '14 days' },
+  { value: '30', label: '30 days' },
+  { value: '60', label: '60 days' },
+  { value: '90', label: '90 days' },
+  { value: '0', label: 'Never' },
+];
+
+export default function TrashPage() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [purgeTarget, setPurgeTarget] = useState<Note | 'all' | null>(null);
+
+  const { data: settings } = useQuery({
+    queryKey: ['workspaceSettings'],
+    queryFn: getWorkspaceSettings,
+  });
+
+  const retentionDays = settings?.trash_retention_days ?? DEFAULT_TRASH_RETENTION_DAYS;
+
+  const { data: notes = [], isPending } = useQuery({
+    queryKey: ['trashedNotes'],
+    queryFn: getTrashedNotes,
+  });
+
+  const invalidateNotes = () => {
+    queryClient.invalidateQueries({ queryKey: ['trashedNotes'] });
+    queryClient.invalidateQueries({ queryKey: ['notes'] });
+    queryClient.invalidateQueries({ queryKey: ['uncategorizedNotes'] });
+    queryClient.invalidateQueries({ queryKey: ['dashboardStats'] });
+  };
+
+  const restoreMutation = useMutation({
+    mutationFn: (noteId: string) => restoreNoteFromTrash(noteId, user?.email || undefined),
+    onSuccess: (_, noteId) => {
+      queryClient.invalidateQueries({ queryKey: ['note', noteId] });
+      invalidateNotes();
+    },
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: async (target: Note | 'all') => {
+      const targets = target === 'all' ? notes : [target];
+      for (const note of targets) {
+        await purgeNote(note.id);
+      }
+    },
+    onSuccess: () => {
+      setPurgeTarget(null);
+      invalidateNotes();
+    },
+  });
+
+  const retentionMutation = useMutation({
+    mutationFn: (days: number) =>
+      saveWorkspaceSettings({ trash_retention_days: days }, user?.email || undefined),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['workspaceSettings'] });
+    },
+  });
+
+  const getPurgeDate = (note: Note): Date | null => {
+    const deletedAt = toDate(note.deleted_at);
+    if (!retentionDays || !deletedAt) return null;
+    return new Date(deletedAt.getTime() + retentionDays * 24 * 60 * 60 * 1000);
+  };
+
+  if (isPending) {
+    return (
+      <div className="flex h-full items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Trash</h1>
+          <p className="text-muted-foreground">
+            Deleted notes can be restored until they are permanently deleted.
+          </p>
+        </div>
+        {notes.length > 0 && (
+          <Button variant="destructive" onClick={() => setPurgeTarget('all')}>
+            <Trash2 className="mr-2 h-4 w-4" />
+            Empty Trash
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <Clock className="h-5 w-5" />
+            Auto-purge
+          </CardTitle>
+          <CardDescription>
+            Applies to everyone in the workspace. A daily job permanently deletes notes
+            that have been in the trash this long.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex items-center gap-4">
+          <Label htmlFor="retentionDays">Keep deleted notes for</Label>
+          <Select
+            value={String(retentionDays)}
+            onValueChange={(value) => retentionMutation.mutate(Number(value))}
+            disabled={!settings || retentionMutation.isPending}
+          >
+            <SelectTrigger id="retentionDays" className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RETENTION_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardContent>
+      </Card>
+
+      {notes.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <div className="rounded-full bg-muted p-3 mb-4">
+              <Trash2 className="h-8 w-8 text-muted-foreground" />
+            </div>
+            <CardTitle className="mb-2">Trash is empty</CardTitle>
+            <CardDescription>Deleted notes will show up here.</CardDescription>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Note</TableHead>
+                <TableHead>Client</TableHead>
+                <TableHead>Deleted</TableHead>
+                <TableHead>Purge on</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {notes.map((note) => {
+                const purgeDate = getPurgeDate(note);
+                const isRestoring =
+                  restoreMutation.isPending && restoreMutation.variables === note.id;
+                return (
+                  <TableRow key={note.id}>
+                    <TableCell className="font-medium">
+                      <Link href={`/notes/${note.id}`} className="hover:underline">
+                        {getNoteTitle(note)}
+                      </Link>
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {getNoteClientName(note) || '—'}
+                    </TableCell>
+                    <TableCell>
+                      <div className="text-sm">{formatRelativeTime(note.deleted_at)}</div>
+                      {note.deleted_by && (
+                        <div className="text-xs text-muted-foreground">{note.deleted_by}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {purgeDate ? formatDate(purgeDate) : 'Never'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => restoreMutation.mutate(note.id)}
+                          disabled={restoreMutation.isPending}
+                        >
+                          {isRestoring ? (
+                            <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                          ) : (
+                            <RotateCcw className="mr-1 h-3 w-3" />
+                          )}
+                          Restore
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-destructive hover:text-destructive"
+                          onClick={() => setPurgeTarget(note)}
+                        >
+                          <Trash2 className="mr-1 h-3 w-3" />
+                          Delete forever
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {(restoreMutation.isError || purgeMutation.isError) && (
+        <p className="text-sm text-destructive">
+          {(restoreMutation.error || purgeMutation.error) instanceof Error
+            ? (restoreMutation.error || purgeMutation.error)!.message
+            : 'Something went wrong'}
+        </p>
+      )}
+
+      <AlertDialog open={!!purgeTarget} onOpenChange={() => setPurgeTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {purgeTarget === 'all' ? 'Empty Trash' : 'Delete Note Forever'}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {purgeTarget === 'all'
+                ? `Permanently delete all ${notes.length} notes in the trash, including their history? This action cannot be undone.`
+                : 'Permanently delete this note and its history? This action cannot be undone.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => purgeTarget && purgeMutation.mutate(purgeTarget)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {purgeMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Delete forever
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
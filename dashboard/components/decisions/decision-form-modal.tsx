@@ -0,0 +1,224 @@
+'use client';
+
+import { useState } from 'react';
+import { DecisionEntry, DecisionStatus, updateDecision } from '@/lib/firestore';
+import { useAuth } from '@/components/auth/auth-provider';
+import { formatDate } from '@/lib/date-utils';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Loader2 } from 'lucide-react';
+
+const NO_SUPERSEDE = '__none__';
+
+interface DecisionFormModalProps {
+  decision: DecisionEntry | null;
+  // Every decision in the register, used to pick the one this supersedes
+  decisions: DecisionEntry[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess: () => void;
+}
+
+export function getDecisionKey(decision: { note_id: string; id: string }): string {
+  return `${decision.note_id}:${decision.id}`;
+}
+
+export function DecisionFormModal({
+  decision,
+  decisions,
+  open,
+  onOpenChange,
+  onSuccess,
+}: DecisionFormModalProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[550px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit Decision</DialogTitle>
+          <DialogDescription>
+            {decision
+              ? `From ${decision.note_title} on ${formatDate(decision.meeting_date)}`
+              : 'Update the decision below.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {decision && (
+          // Keyed so the form resets whenever a different decision is opened
+          <DecisionForm
+            key={getDecisionKey(decision)}
+            decision={decision}
+            decisions={decisions}
+            onCancel={() => onOpenChange(false)}
+            onSaved={() => {
+              onSuccess();
+              onOpenChange(false);
+            }}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface DecisionFormProps {
+  decision: DecisionEntry;
+  decisions: DecisionEntry[];
+  onCancel: () => void;
+  onSaved: () => void;
+}
+
+function DecisionForm({ decision, decisions, onCancel, onSaved }: DecisionFormProps) {
+  const { user } = useAuth();
+  const [text, setText] = useState(decision.decision);
+  const [context, setContext] = useState(decision.context || '');
+  const [decidedBy, setDecidedBy] = useState(decision.decided_by || '');
+  const [status, setStatus] = useState<DecisionStatus>(decision.status);
+  const [supersedes, setSupersedes] = useState(
+    decision.supersedes
+      ? getDecisionKey({ note_id: decision.supersedes.note_id, id: decision.supersedes.decision_id })
+      : NO_SUPERSEDE
+  );
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selfKey = getDecisionKey(decision);
+  const candidates = decisions.filter((d) => getDecisionKey(d) !== selfKey);
+
+  const handleSave = async () => {
+    if (!text.trim()) {
+      setError('Decision text is required');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      const target = candidates.find((d) => getDecisionKey(d) === supersedes);
+      await updateDecision(
+        decision.note_id,
+        decision.id,
+        {
+          decision: text.trim(),
+          context: context.trim() || null,
+          decided_by: decidedBy.trim() || null,
+          status,
+          supersedes: target ? { note_id: target.note_id, decision_id: target.id } : null,
+        },
+        user?.email || undefined
+      );
+      onSaved();
+    } catch (err) {
+      console.error('Failed to save decision:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save decision. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="space-y-4 py-4">
+        <div className="space-y-2">
+          <Label htmlFor="decision">Decision *</Label>
+          <Textarea
+            id="decision"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            rows={2}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="context">Context</Label>
+          <Textarea
+            id="context"
+            value={context}
+            onChange={(e) => setContext(e.target.value)}
+            placeholder="Why was this decided?"
+            rows={3}
+          />
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="decidedBy">Decided By</Label>
+            <Input
+              id="decidedBy"
+              value={decidedBy}
+              onChange={(e) => setDecidedBy(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="status">Status</Label>
+            <Select value={status} onValueChange={(v: DecisionStatus) => setStatus(v)}>
+              <SelectTrigger id="status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="proposed">Proposed</SelectItem>
+                <SelectItem value="accepted">Accepted</SelectItem>
+                <SelectItem value="superseded">Superseded</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="supersedes">Supersedes</Label>
+          <Select value={supersedes} onValueChange={setSupersedes}>
+            <SelectTrigger id="supersedes">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_SUPERSEDE}>Nothing</SelectItem>
+              {candidates.map((d) => (
+                <SelectItem key={getDecisionKey(d)} value={getDecisionKey(d)}>
+                  <span className="block max-w-[420px] truncate">
+                    {formatDate(d.meeting_date)}: {d.decision}
+                  </span>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            The selected decision is marked as superseded by this one, replacing any earlier link.
+          </p>
+        </div>
+      </div>
+
+      {error && (
+        <div className="text-sm text-destructive p-2 rounded bg-destructive/10">
+          {error}
+        </div>
+      )}
+
+      <DialogFooter>
+        <Button variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button onClick={handleSave} disabled={saving}>
+          {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save Changes
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
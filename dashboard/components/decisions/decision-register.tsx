@@ -0,0 +1,243 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { DecisionEntry, DecisionRef, DecisionStatus, getDecisionRegister } from '@/lib/firestore';
+import { downloadDecisions, DecisionExportFormat } from '@/lib/export';
+import { formatDate } from '@/lib/date-utils';
+import { DecisionFormModal, getDecisionKey } from '@/components/decisions/decision-form-modal';
+import { Card, CardContent, CardDescription } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Gavel,
+  Search,
+  Download,
+  Pencil,
+  User,
+  FileText,
+  Calendar,
+  CornerDownRight,
+  Loader2,
+} from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface DecisionRegisterProps {
+  clientId?: string;
+  projectId?: string;
+  // Used in export titles and filenames
+  title: string;
+}
+
+const STATUS_BADGES: Record<DecisionStatus, { label: string; className: string }> = {
+  proposed: { label: 'Proposed', className: 'bg-yellow-500' },
+  accepted: { label: 'Accepted', className: 'bg-green-600' },
+  superseded: { label: 'Superseded', className: 'bg-muted text-muted-foreground' },
+};
+
+function matchesSearch(decision: DecisionEntry, term: string): boolean {
+  if (!term) return true;
+  return [decision.decision, decision.context, decision.decided_by, decision.note_title]
+    .filter(Boolean)
+    .some((value) => value!.toLowerCase().includes(term));
+}
+
+/**
+ * Running register of every decision made in a client's or project's meetings
+ */
+export function DecisionRegister({ clientId, projectId, title }: DecisionRegisterProps) {
+  const queryClient = useQueryClient();
+  const [search, setSearch] = useState('');
+  const [statusFilter, setStatusFilter] = useState<DecisionStatus | 'all'>('all');
+  const [editing, setEditing] = useState<DecisionEntry | null>(null);
+
+  const { data: decisions = [], isLoading } = useQuery({
+    queryKey: ['decisions', { clientId, projectId }],
+    queryFn: () => getDecisionRegister({ clientId, projectId }),
+    enabled: !!clientId || !!projectId,
+  });
+
+  const byKey = new Map(decisions.map((d) => [getDecisionKey(d), d]));
+  const resolve = (ref?: DecisionRef | null) =>
+    ref ? byKey.get(getDecisionKey({ note_id: ref.note_id, id: ref.decision_id })) : undefined;
+
+  const term = search.trim().toLowerCase();
+  const filtered = decisions.filter(
+    (d) => (statusFilter === 'all' || d.status === statusFilter) && matchesSearch(d, term)
+  );
+
+  const handleExport = (format: DecisionExportFormat) => {
+    downloadDecisions(filtered, format, title);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex h-32 items-center justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (decisions.length === 0) {
+    return (
+      <Card>
+        <CardContent className="flex flex-col items-center justify-center py-12">
+          <Gavel className="h-8 w-8 text-muted-foreground mb-4" />
+          <CardDescription>No decisions recorded in these meetings yet.</CardDescription>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="relative flex-1 min-w-[200px]">
+          <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search decisions..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="pl-8"
+          />
+        </div>
+        <Select
+          value={statusFilter}
+          onValueChange={(v) => setStatusFilter(v as DecisionStatus | 'all')}
+        >
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All statuses</SelectItem>
+            <SelectItem value="proposed">Proposed</SelectItem>
+            <SelectItem value="accepted">Accepted</SelectItem>
+            <SelectItem value="superseded">Superseded</SelectItem>
+          </SelectContent>
+        </Select>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" disabled={filtered.length === 0}>
+              <Download className="mr-2 h-4 w-4" />
+              Export
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem onClick={() => handleExport('csv')}>CSV</DropdownMenuItem>
+            <DropdownMenuItem onClick={() => handleExport('markdown')}>Markdown</DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        {filtered.length} of {decisions.length} decisions
+      </p>
+
+      <div className="space-y-3">
+        {filtered.map((decision) => {
+          const badge = STATUS_BADGES[decision.status];
+          const supersedes = resolve(decision.supersedes);
+          const supersededBy = resolve(decision.superseded_by);
+          const isSuperseded = decision.status === 'superseded';
+
+          return (
+            <Card key={getDecisionKey(decision)} className={cn(isSuperseded && 'opacity-70')}>
+              <CardContent className="space-y-2 p-4">
+                <div className="flex items-start justify-between gap-3">
+                  <p className={cn('font-medium', isSuperseded && 'line-through')}>
+                    {decision.decision}
+                  </p>
+                  <div className="flex shrink-0 items-center gap-2">
+                    <Badge className={badge.className}>{badge.label}</Badge>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0"
+                      onClick={() => setEditing(decision)}
+                    >
+                      <Pencil className="h-4 w-4" />
+                      <span className="sr-only">Edit decision</span>
+                    </Button>
+                  </div>
+                </div>
+
+                {decision.context && (
+                  <p className="text-sm text-muted-foreground">{decision.context}</p>
+                )}
+
+                <div className="flex flex-wrap items-center gap-4 text-xs text-muted-foreground">
+                  <span className="flex items-center gap-1">
+                    <Calendar className="h-3 w-3" />
+                    {formatDate(decision.meeting_date)}
+                  </span>
+                  <Link
+                    href={`/notes/${decision.note_id}`}
+                    className="flex items-center gap-1 hover:text-foreground hover:underline"
+                  >
+                    <FileText className="h-3 w-3" />
+                    {decision.note_title}
+                  </Link>
+                  {decision.decided_by && (
+                    <span className="flex items-center gap-1">
+                      <User className="h-3 w-3" />
+                      {decision.decided_by}
+                    </span>
+                  )}
+                  {!projectId && decision.project_name && (
+                    <Badge variant="outline">{decision.project_name}</Badge>
+                  )}
+                </div>
+
+                {(supersedes || supersededBy) && (
+                  <div className="space-y-1 text-xs">
+                    {supersedes && (
+                      <p className="flex items-center gap-1 text-muted-foreground">
+                        <CornerDownRight className="h-3 w-3" />
+                        Supersedes: {supersedes.decision} ({formatDate(supersedes.meeting_date)})
+                      </p>
+                    )}
+                    {supersededBy && (
+                      <p className="flex items-center gap-1 text-muted-foreground">
+                        <CornerDownRight className="h-3 w-3" />
+                        Superseded by: {supersededBy.decision} (
+                        {formatDate(supersededBy.meeting_date)})
+                      </p>
+                    )}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+
+      <DecisionFormModal
+        decision={editing}
+        decisions={decisions}
+        open={!!editing}
+        onOpenChange={(open) => !open && setEditing(null)}
+        onSuccess={() => {
+          queryClient.invalidateQueries({ queryKey: ['decisions'] });
+          if (editing) {
+            queryClient.invalidateQueries({ queryKey: ['note', editing.note_id] });
+          }
+        }}
+      />
+    </div>
+  );
+}
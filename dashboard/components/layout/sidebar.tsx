@@ -3,6 +3,7 @@
 import Link from 'next/link';
 import Image from 'next/image';
 import { usePathname } from 'next/navigation';
+import { useQuery } from '@tanstack/react-query';
 import {
   FileText,
   Users,
@@ -13,23 +14,34 @@ import {
   Settings,
   Cpu,
   LayoutTemplate,
+  Trash2,
+  ListChecks,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { getNotesCount } from '@/lib/firestore';
 
 const navigation = [
   { name: 'Dashboard', href: '/', icon: LayoutDashboard },
   { name: 'Notes', href: '/notes', icon: FileText },
   { name: 'Uncategorized', href: '/uncategorized', icon: AlertCircle },
+  { name: 'Action Items', href: '/action-items', icon: ListChecks },
   { name: 'Clients', href: '/clients', icon: Users },
   { name: 'Projects', href: '/projects', icon: FolderKanban },
   { name: 'Rules', href: '/rules', icon: Cpu },
   { name: 'Templates', href: '/templates', icon: LayoutTemplate },
+  { name: 'Trash', href: '/trash', icon: Trash2 },
   { name: 'Settings', href: '/settings', icon: Settings },
 ];
 
 export function Sidebar() {
   const pathname = usePathname();
 
+  // Kept live by useRealtimeSync, which invalidates note counts on every change
+  const { data: uncategorizedCount = 0 } = useQuery({
+    queryKey: ['notes', 'count', { uncategorizedOnly: true }],
+    queryFn: () => getNotesCount({ uncategorizedOnly: true }),
+  });
+
   return (
     <div className="flex h-full w-64 flex-col border-r border-sidebar-border bg-sidebar">
       {/* Logo Section */}
@@ -73,6 +85,18 @@ export function Sidebar() {
             >
               <item.icon className="h-5 w-5" />
               <span className="flex-1">{item.name}</span>
+              {item.href === '/uncategorized' && uncategorizedCount > 0 && (
+                <span
+                  className={cn(
+                    'rounded-full px-2 py-0.5 text-xs font-semibold',
+                    isActive
+                      ? 'bg-primary-foreground/20 text-primary-foreground'
+                      : 'bg-orange-500 text-white'
+                  )}
+                >
+                  {uncategorizedCount}
+                </span>
+              )}
               {/* The Constant Arrow - shows on active/hover */}
               <ArrowRight
                 className={cn(
@@ -2,11 +2,38 @@
 
 import { useState } from 'react';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
-import { ActionItem, updateActionItemStatus, linkGoogleTaskToActionItem } from '@/lib/firestore';
+import {
+  ActionItem,
+  ActionItemUpdates,
+  Attendee,
+  Note,
+  TeamMember,
+  updateActionItem,
+  updateActionItemStatus,
+  addActionItem,
+  deleteActionItem,
+  reorderActionItems,
+} from '@/lib/firestore';
+import { useAuth } from '@/components/auth/auth-provider';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import {
   CheckCircle2,
   Circle,
@@ -17,6 +44,13 @@ import {
   Loader2,
   ListTodo,
   AlertCircle,
+  GripVertical,
+  MoreHorizontal,
+  Pencil,
+  Trash2,
+  ArrowUp,
+  ArrowDown,
+  Plus,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
@@ -25,6 +59,44 @@ interface ActionItemsListProps {
   actionItems: ActionItem[];
   onCreateGoogleTask?: (item: ActionItem) => Promise<void>;
   isCreatingTask?: boolean;
+  attendees?: Attendee[];
+  team?: TeamMember[];
+}
+
+interface AssigneeOption {
+  email: string;
+  name: string;
+}
+
+type ActionItemDraft = Omit<ActionItem, 'id'>;
+
+const UNASSIGNED = '__unassigned__';
+
+const EMPTY_DRAFT: ActionItemDraft = {
+  task: '',
+  assignee: null,
+  assignee_name: null,
+  due_date: null,
+  priority: 'medium',
+  status: 'pending',
+};
+
+function buildAssigneeOptions(
+  attendees: Array<Attendee | string> = [],
+  team: TeamMember[] = []
+): AssigneeOption[] {
+  const options = new Map<string, AssigneeOption>();
+  for (const person of [...team, ...attendees]) {
+    // Older notes store attendees as plain email strings
+    const email = typeof person === 'string' ? person : person.email;
+    if (!email) continue;
+    const key = email.toLowerCase();
+    if (!options.has(key)) {
+      const name = typeof person === 'string' ? email : person.name || email;
+      options.set(key, { email, name });
+    }
+  }
+  return Array.from(options.values()).sort((a, b) => a.name.localeCompare(b.name));
 }
 
 export function ActionItemsList({
@@ -32,9 +104,25 @@ export function ActionItemsList({
   actionItems,
   onCreateGoogleTask,
   isCreatingTask,
+  attendees,
+  team,
 }: ActionItemsListProps) {
   const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const userEmail = user?.email || undefined;
   const [updatingItemId, setUpdatingItemId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+
+  const assigneeOptions = buildAssigneeOptions(attendees, team);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['note', noteId] });
+    queryClient.invalidateQueries({ queryKey: ['noteRevisions', noteId] });
+    queryClient.invalidateQueries({ queryKey: ['actionItems'] });
+  };
 
   const updateStatusMutation = useMutation({
     mutationFn: async ({
@@ -47,14 +135,82 @@ export function ActionItemsList({
       setUpdatingItemId(itemId);
       await updateActionItemStatus(noteId, itemId, status);
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['note', noteId] });
-    },
+    onSuccess: invalidate,
     onSettled: () => {
       setUpdatingItemId(null);
     },
   });
 
+  const updateItemMutation = useMutation({
+    mutationFn: ({ itemId, updates }: { itemId: string; updates: ActionItemUpdates }) =>
+      updateActionItem(noteId, itemId, updates, userEmail),
+    onSuccess: () => {
+      setEditingId(null);
+      invalidate();
+    },
+  });
+
+  const addItemMutation = useMutation({
+    mutationFn: (draft: ActionItemDraft) => addActionItem(noteId, draft, userEmail),
+    onSuccess: () => {
+      setIsAdding(false);
+      invalidate();
+    },
+  });
+
+  const deleteItemMutation = useMutation({
+    mutationFn: (itemId: string) => deleteActionItem(noteId, itemId, userEmail),
+    onSuccess: invalidate,
+  });
+
+  const reorderMutation = useMutation({
+    mutationFn: (orderedIds: string[]) => reorderActionItems(noteId, orderedIds, userEmail),
+    // Show the new order right away instead of waiting for the refetch
+    onMutate: (orderedIds) => {
+      const previous = queryClient.getQueryData<Note | null>(['note', noteId]);
+      if (previous) {
+        const byId = new Map(actionItems.map((item) => [item.id, item]));
+        queryClient.setQueryData<Note>(['note', noteId], {
+          ...previous,
+          action_items: orderedIds.map((id) => byId.get(id)!).filter(Boolean),
+        });
+      }
+      return { previous };
+    },
+    onError: (_, __, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(['note', noteId], context.previous);
+      }
+    },
+    onSettled: invalidate,
+  });
+
+  const mutationError =
+    updateItemMutation.error ||
+    addItemMutation.error ||
+    deleteItemMutation.error ||
+    reorderMutation.error ||
+    updateStatusMutation.error;
+
+  const moveItem = (itemId: string, targetIndex: number) => {
+    const ids = actionItems.map((item) => item.id);
+    const fromIndex = ids.indexOf(itemId);
+    if (fromIndex === -1 || targetIndex < 0 || targetIndex >= ids.length || fromIndex === targetIndex) {
+      return;
+    }
+    ids.splice(fromIndex, 1);
+    ids.splice(targetIndex, 0, itemId);
+    reorderMutation.mutate(ids);
+  };
+
+  const handleDrop = (targetId: string) => {
+    if (draggingId && draggingId !== targetId) {
+      moveItem(draggingId, actionItems.findIndex((item) => item.id === targetId));
+    }
+    setDraggingId(null);
+    setDropTargetId(null);
+  };
+
   const getPriorityBadge = (priority: string) => {
     switch (priority) {
       case 'high':
@@ -85,20 +241,6 @@ export function ActionItemsList({
     }
   };
 
-  if (!actionItems || actionItems.length === 0) {
-    return (
-      <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2 text-lg">
-            <ListTodo className="h-5 w-5" />
-            Action Items
-          </CardTitle>
-          <CardDescription>No action items found in this meeting</CardDescription>
-        </CardHeader>
-      </Card>
-    );
-  }
-
   const pendingItems = actionItems.filter((item) => item.status === 'pending');
   const completedItems = actionItems.filter((item) => item.status === 'completed');
 
@@ -108,16 +250,33 @@ export function ActionItemsList({
         <CardTitle className="flex items-center gap-2 text-lg">
           <ListTodo className="h-5 w-5" />
           Action Items
-          <Badge variant="outline" className="ml-2">
-            {pendingItems.length} pending
-          </Badge>
+          {actionItems.length > 0 && (
+            <Badge variant="outline" className="ml-2">
+              {pendingItems.length} pending
+            </Badge>
+          )}
         </CardTitle>
         <CardDescription>
-          Tasks and follow-ups extracted from this meeting
+          {actionItems.length > 0
+            ? 'Tasks and follow-ups extracted from this meeting'
+            : 'No action items found in this meeting'}
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-3">
-        {actionItems.map((item) => {
+        {actionItems.map((item, index) => {
+          if (editingId === item.id) {
+            return (
+              <ActionItemEditor
+                key={item.id}
+                initial={item}
+                assigneeOptions={assigneeOptions}
+                saving={updateItemMutation.isPending}
+                onCancel={() => setEditingId(null)}
+                onSave={(draft) => updateItemMutation.mutate({ itemId: item.id, updates: draft })}
+              />
+            );
+          }
+
           const dueInfo = formatDueDate(item.due_date);
           const isUpdating = updatingItemId === item.id;
           const isCompleted = item.status === 'completed';
@@ -125,11 +284,31 @@ export function ActionItemsList({
           return (
             <div
               key={item.id}
+              draggable
+              onDragStart={() => setDraggingId(item.id)}
+              onDragEnd={() => {
+                setDraggingId(null);
+                setDropTargetId(null);
+              }}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setDropTargetId(item.id);
+              }}
+              onDrop={(e) => {
+                e.preventDefault();
+                handleDrop(item.id);
+              }}
               className={cn(
                 'flex items-start gap-3 rounded-lg border p-3 transition-colors',
-                isCompleted && 'bg-muted/50'
+                isCompleted && 'bg-muted/50',
+                draggingId === item.id && 'opacity-50',
+                dropTargetId === item.id && draggingId !== item.id && 'border-primary'
               )}
             >
+              <GripVertical
+                className="mt-0.5 h-4 w-4 shrink-0 cursor-move text-muted-foreground"
+                aria-hidden
+              />
               <div className="pt-0.5">
                 {isUpdating ? (
                   <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
@@ -216,11 +395,89 @@ export function ActionItemsList({
                     Add to Tasks
                   </Button>
                 ) : null}
+
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
+                      <MoreHorizontal className="h-4 w-4" />
+                      <span className="sr-only">Action item options</span>
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem onClick={() => setEditingId(item.id)}>
+                      <Pencil className="mr-2 h-4 w-4" />
+                      Edit
+                    </DropdownMenuItem>
+                    <DropdownMenuItem
+                      onClick={() =>
+                        updateStatusMutation.mutate({
+                          itemId: item.id,
+                          status: item.status === 'cancelled' ? 'pending' : 'cancelled',
+                        })
+                      }
+                    >
+                      {item.status === 'cancelled' ? (
+                        <Circle className="mr-2 h-4 w-4" />
+                      ) : (
+                        <CheckCircle2 className="mr-2 h-4 w-4" />
+                      )}
+                      {item.status === 'cancelled' ? 'Reopen' : 'Mark cancelled'}
+                    </DropdownMenuItem>
+                    <DropdownMenuItem
+                      disabled={index === 0}
+                      onClick={() => moveItem(item.id, index - 1)}
+                    >
+                      <ArrowUp className="mr-2 h-4 w-4" />
+                      Move up
+                    </DropdownMenuItem>
+                    <DropdownMenuItem
+                      disabled={index === actionItems.length - 1}
+                      onClick={() => moveItem(item.id, index + 1)}
+                    >
+                      <ArrowDown className="mr-2 h-4 w-4" />
+                      Move down
+                    </DropdownMenuItem>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem
+                      className="text-destructive"
+                      onClick={() => deleteItemMutation.mutate(item.id)}
+                    >
+                      <Trash2 className="mr-2 h-4 w-4" />
+                      Delete
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
               </div>
             </div>
           );
         })}
 
+        {isAdding ? (
+          <ActionItemEditor
+            initial={EMPTY_DRAFT}
+            assigneeOptions={assigneeOptions}
+            saving={addItemMutation.isPending}
+            onCancel={() => setIsAdding(false)}
+            onSave={(draft) => addItemMutation.mutate(draft)}
+          />
+        ) : (
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full"
+            onClick={() => setIsAdding(true)}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Add action item
+          </Button>
+        )}
+
+        {mutationError && (
+          <p className="text-sm text-destructive">
+            {mutationError instanceof Error ? mutationError.message : 'Failed to save changes'}
+          </p>
+        )}
+
         {completedItems.length > 0 && pendingItems.length > 0 && (
           <div className="pt-2 text-xs text-muted-foreground">
             {completedItems.length} of {actionItems.length} completed
@@ -230,3 +487,93 @@ export function ActionItemsList({
     </Card>
   );
 }
+
+interface ActionItemEditorProps {
+  initial: ActionItemDraft;
+  assigneeOptions: AssigneeOption[];
+  saving: boolean;
+  onSave: (draft: ActionItemDraft) => void;
+  onCancel: () => void;
+}
+
+function ActionItemEditor({ initial, assigneeOptions, saving, onSave, onCancel }: ActionItemEditorProps) {
+  const [task, setTask] = useState(initial.task);
+  const [assignee, setAssignee] = useState(initial.assignee || UNASSIGNED);
+  const [dueDate, setDueDate] = useState(initial.due_date?.slice(0, 10) || '');
+  const [priority, setPriority] = useState<ActionItem['priority']>(initial.priority || 'medium');
+
+  // Keep an assignee that is not an attendee or team member selectable
+  const options =
+    initial.assignee &&
+    !assigneeOptions.some((o) => o.email.toLowerCase() === initial.assignee!.toLowerCase())
+      ? [...assigneeOptions, { email: initial.assignee, name: initial.assignee_name || initial.assignee }]
+      : assigneeOptions;
+
+  const handleSave = () => {
+    const selected = options.find((o) => o.email === assignee);
+    onSave({
+      ...initial,
+      task: task.trim(),
+      assignee: selected?.email ?? null,
+      assignee_name: selected ? selected.name : null,
+      due_date: dueDate || null,
+      priority,
+    });
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border border-primary/50 p-3">
+      <Input
+        autoFocus
+        placeholder="What needs to be done?"
+        value={task}
+        onChange={(e) => setTask(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && task.trim()) handleSave();
+          if (e.key === 'Escape') onCancel();
+        }}
+      />
+      <div className="grid gap-2 sm:grid-cols-3">
+        <Select value={assignee} onValueChange={setAssignee}>
+          <SelectTrigger className="h-9 text-xs">
+            <SelectValue placeholder="Assignee" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+            {options.map((option) => (
+              <SelectItem key={option.email} value={option.email}>
+                {option.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          type="date"
+          className="h-9 text-xs"
+          value={dueDate}
+          onChange={(e) => setDueDate(e.target.value)}
+          aria-label="Due date"
+        />
+        <Select value={priority} onValueChange={(v) => setPriority(v as ActionItem['priority'])}>
+          <SelectTrigger className="h-9 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="high">High priority</SelectItem>
+            <SelectItem value="medium">Medium priority</SelectItem>
+            <SelectItem value="low">Low priority</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" size="sm" onClick={onCancel} disabled={saving}>
+          Cancel
+        </Button>
+        <Button size="sm" onClick={handleSave} disabled={saving || !task.trim()}>
+          {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+}
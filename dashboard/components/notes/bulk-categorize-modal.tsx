@@ -2,14 +2,8 @@
 
 import { useState } from 'react';
 import { getDriveAccessToken } from '@/lib/drive-auth';
-import {
-  Note,
-  Client,
-  Project,
-  bulkUpdateNoteClassifications,
-  updateNoteClassification,
-} from '@/lib/firestore';
-import { saveNote } from '@/lib/api';
+import { Note, Client, Project, BulkProgress, BulkWriteResult } from '@/lib/firestore';
+import { saveNote, bulkCategorize } from '@/lib/api';
 import {
   Dialog,
   DialogContent,
@@ -30,6 +24,7 @@ import { Label } from '@/components/ui/label';
 import { Progress } from '@/components/ui/progress';
 import { Loader2, CheckCircle2, XCircle, AlertCircle } from 'lucide-react';
 import { useAuth } from '@/components/auth/auth-provider';
+import { BulkFailureList } from './bulk-failure-list';
 
 interface BulkCategorizeModalProps {
   notes: Note[];
@@ -61,100 +56,109 @@ export function BulkCategorizeModal({
   const [selectedType, setSelectedType] = useState<string>('client');
   const [saving, setSaving] = useState(false);
   const [progress, setProgress] = useState(0);
-  const [results, setResults] = useState<{ success: number; failed: number } | null>(null);
+  const [results, setResults] = useState<BulkWriteResult | null>(null);
 
   const filteredProjects = selectedClient
     ? projects.filter((p) => p.client_id === selectedClient)
     : [];
 
-  const handleSave = async () => {
-    if (!user?.email) {
-      return;
-    }
+  const categorizeNotes = async (
+    targetNotes: Note[],
+    userEmail: string
+  ): Promise<BulkWriteResult> => {
+    const selectedClientObj = clients.find((c) => c.id === selectedClient);
+    const selectedProjectObj = projects.find((p) => p.id === selectedProject);
+    const noteIds = targetNotes.map((n) => n.id);
+    const onProgress = ({ processed, total }: BulkProgress) =>
+      setProgress(total ? Math.round((processed / total) * 100) : 100);
 
-    setSaving(true);
-    setProgress(0);
-    setResults(null);
+    // Check if we need to move files in Drive
+    const targetFolderId = selectedProjectObj?.drive_folder_id || selectedClientObj?.drive_folder_id;
+    const notesWithDriveFiles = targetNotes.filter(n => n.drive_file_id);
 
-    try {
-      const selectedClientObj = clients.find((c) => c.id === selectedClient);
-      const selectedProjectObj = projects.find((p) => p.id === selectedProject);
+    const request = {
+      noteIds,
+      classification: {
+        type: selectedType,
+        clientId: selectedClient || null,
+        clientName: selectedClientObj?.name || null,
+        projectId: selectedProject || null,
+        projectName: selectedProjectObj?.project_name || null,
+      },
+      userEmail,
+    };
 
-      // Check if we need to move files in Drive
-      const targetFolderId = selectedProjectObj?.drive_folder_id || selectedClientObj?.drive_folder_id;
-      const notesWithDriveFiles = notes.filter(n => n.drive_file_id);
+    // If we have Drive files to move and a target folder, get OAuth token
+    if (targetFolderId && notesWithDriveFiles.length > 0) {
+      // Get Drive access token (uses cached/backend token, falls back to popup)
+      const { token: accessToken } = await getDriveAccessToken(userEmail);
 
-      const classification = {
-        type: selectedType as any,
-        client_id: selectedClient || null,
-        client_name: selectedClientObj?.name || null,
-        project_id: selectedProject || null,
-        project_name: selectedProjectObj?.project_name || null,
-        confidence: 1.0, // User confirmed
-      };
+      if (accessToken) {
+        const result: BulkWriteResult = { successful: [], failed: [] };
+        const firestoreOnlyIds = targetNotes.filter((n) => !n.drive_file_id).map((n) => n.id);
 
-      let successCount = 0;
-      let failedCount = 0;
+        // Notes with Drive files are moved one at a time via the saveNote API
+        for (let i = 0; i < notesWithDriveFiles.length; i++) {
+          const note = notesWithDriveFiles[i];
+          onProgress({ processed: i, total: targetNotes.length });
 
-      // If we have Drive files to move and a target folder, get OAuth token
-      if (targetFolderId && notesWithDriveFiles.length > 0) {
-        // Get Drive access token (uses cached/backend token, falls back to popup)
-        const { token: accessToken } = await getDriveAccessToken(user.email);
-
-        if (accessToken) {
-          // Process each note individually to move files
-          for (let i = 0; i < notes.length; i++) {
-            const note = notes[i];
-            setProgress(Math.round((i / notes.length) * 100));
-
-            try {
-              if (note.drive_file_id) {
-                // Use saveNote API to move file and update classification
-                await saveNote({
-                  noteId: note.id,
-                  driveFileId: note.drive_file_id,
-                  targetFolderId: targetFolderId,
-                  classification: {
-                    type: selectedType,
-                    clientId: selectedClient || null,
-                    clientName: selectedClientObj?.name || null,
-                    projectId: selectedProject || null,
-                    projectName: selectedProjectObj?.project_name || null,
-                    confidence: 1.0,
-                  },
-                  userEmail: user.email,
-                  accessToken: accessToken,
-                });
-                successCount++;
-              } else {
-                // No Drive file, just update Firestore
-                await updateNoteClassification(note.id, classification, user.email);
-                successCount++;
-              }
-            } catch (noteError: any) {
-              console.error(`Failed to process note ${note.id}:`, noteError);
-              failedCount++;
-            }
+          try {
+            await saveNote({
+              noteId: note.id,
+              driveFileId: note.drive_file_id!,
+              targetFolderId: targetFolderId,
+              classification: { ...request.classification, confidence: 1.0 },
+              userEmail,
+              accessToken: accessToken,
+            });
+            result.successful.push(note.id);
+          } catch (noteError) {
+            console.error(`Failed to process note ${note.id}:`, noteError);
+            result.failed.push({
+              noteId: note.id,
+              error: noteError instanceof Error ? noteError.message : 'Unknown error',
+            });
           }
-        } else {
-          // No access token, fall back to Firestore-only update
-          const noteIds = notes.map((n) => n.id);
-          const result = await bulkUpdateNoteClassifications(noteIds, classification, user.email);
-          successCount = result.success.length;
-          failedCount = result.failed.length;
         }
-      } else {
-        // No Drive operation needed, use bulk Firestore update
-        const noteIds = notes.map((n) => n.id);
-        const result = await bulkUpdateNoteClassifications(noteIds, classification, user.email);
-        successCount = result.success.length;
-        failedCount = result.failed.length;
+
+        // The rest only need a Firestore update
+        if (firestoreOnlyIds.length > 0) {
+          const offset = notesWithDriveFiles.length;
+          const { results: firestoreResult } = await bulkCategorize(
+            { ...request, noteIds: firestoreOnlyIds },
+            ({ processed }) => onProgress({ processed: offset + processed, total: targetNotes.length })
+          );
+          result.successful.push(...firestoreResult.successful);
+          result.failed.push(...firestoreResult.failed);
+        }
+        return result;
       }
+    }
+
+    // No Drive operation needed (or no access token), use bulk Firestore update
+    const { results: firestoreResult } = await bulkCategorize(request, onProgress);
+    return firestoreResult;
+  };
+
+  const runCategorize = async (targetNotes: Note[], previous: BulkWriteResult | null) => {
+    if (!user?.email) {
+      return;
+    }
+
+    setSaving(true);
+    setProgress(0);
+
+    try {
+      const result = await categorizeNotes(targetNotes, user.email);
+      const merged: BulkWriteResult = {
+        successful: [...(previous?.successful || []), ...result.successful],
+        failed: result.failed,
+      };
 
       setProgress(100);
-      setResults({ success: successCount, failed: failedCount });
+      setResults(merged);
 
-      if (failedCount === 0) {
+      if (merged.failed.length === 0) {
         setTimeout(() => {
           onSuccess();
           onOpenChange(false);
@@ -162,14 +166,26 @@ export function BulkCategorizeModal({
           setProgress(0);
         }, 1500);
       }
-    } catch (error: any) {
+    } catch (error) {
       console.error('Bulk categorize failed:', error);
-      setResults({ success: 0, failed: notes.length });
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      setResults({
+        successful: previous?.successful || [],
+        failed: targetNotes.map((note) => ({ noteId: note.id, error: message })),
+      });
     } finally {
       setSaving(false);
     }
   };
 
+  const handleSave = () => runCategorize(notes, null);
+
+  const handleRetryFailed = () => {
+    if (!results) return;
+    const failedIds = new Set(results.failed.map((failure) => failure.noteId));
+    runCategorize(notes.filter((note) => failedIds.has(note.id)), results);
+  };
+
   const handleClientChange = (value: string) => {
     setSelectedClient(value);
     setSelectedProject('');
@@ -196,20 +212,20 @@ export function BulkCategorizeModal({
         {results ? (
           <div className="py-6 space-y-4">
             <div className="flex flex-col items-center justify-center">
-              {results.failed === 0 ? (
+              {results.failed.length === 0 ? (
                 <>
                   <CheckCircle2 className="h-12 w-12 text-green-500 mb-3" />
                   <p className="text-lg font-medium">Successfully categorized!</p>
                   <p className="text-sm text-muted-foreground">
-                    {results.success} notes have been updated.
+                    {results.successful.length} notes have been updated.
                   </p>
                 </>
-              ) : results.success > 0 ? (
+              ) : results.successful.length > 0 ? (
                 <>
                   <AlertCircle className="h-12 w-12 text-yellow-500 mb-3" />
                   <p className="text-lg font-medium">Partially completed</p>
                   <p className="text-sm text-muted-foreground">
-                    {results.success} succeeded, {results.failed} failed.
+                    {results.successful.length} succeeded, {results.failed.length} failed.
                   </p>
                 </>
               ) : (
@@ -222,10 +238,19 @@ export function BulkCategorizeModal({
                 </>
               )}
             </div>
-            {results.failed > 0 && (
-              <Button variant="outline" className="w-full" onClick={handleClose}>
-                Close
-              </Button>
+            {results.failed.length > 0 && (
+              <>
+                <BulkFailureList
+                  notes={notes}
+                  failures={results.failed}
+                  onRetry={handleRetryFailed}
+                  retrying={saving}
+                />
+                {saving && <Progress value={progress} />}
+                <Button variant="outline" className="w-full" onClick={handleClose} disabled={saving}>
+                  Close
+                </Button>
+              </>
             )}
           </div>
         ) : (
@@ -0,0 +1,47 @@
+'use client';
+
+import { Note, BulkFailure, getNoteTitle } from '@/lib/firestore';
+import { Button } from '@/components/ui/button';
+import { Loader2, RotateCcw } from 'lucide-react';
+
+interface BulkFailureListProps {
+  notes: Note[];
+  failures: BulkFailure[];
+  onRetry: () => void;
+  retrying?: boolean;
+}
+
+/**
+ * Per-note failures from a bulk operation, with a "retry failed only" action
+ */
+export function BulkFailureList({ notes, failures, onRetry, retrying }: BulkFailureListProps) {
+  const notesById = new Map(notes.map((note) => [note.id, note]));
+
+  return (
+    <div className="space-y-3">
+      <div className="max-h-40 overflow-y-auto rounded-md border bg-muted/50 p-3">
+        <ul className="space-y-2 text-sm">
+          {failures.map((failure) => {
+            const note = notesById.get(failure.noteId);
+            return (
+              <li key={failure.noteId}>
+                <p className="truncate font-medium">
+                  {note ? getNoteTitle(note) : failure.noteId}
+                </p>
+                <p className="text-xs text-destructive">{failure.error}</p>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+      <Button className="w-full" onClick={onRetry} disabled={retrying}>
+        {retrying ? (
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+        ) : (
+          <RotateCcw className="mr-2 h-4 w-4" />
+        )}
+        Retry {failures.length} Failed
+      </Button>
+    </div>
+  );
+}
@@ -113,7 +113,7 @@ export function BulkShareModal({
         await new Promise((r) => setTimeout(r, 100));
       }
 
-      const totalSuccess = firestoreResult.success.length;
+      const totalSuccess = firestoreResult.successful.length;
       const totalFailed = firestoreResult.failed.length;
 
       setResults({
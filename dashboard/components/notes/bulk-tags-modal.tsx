@@ -1,7 +1,8 @@
 'use client';
 
 import { useState } from 'react';
-import { Note, bulkAddTags } from '@/lib/firestore';
+import { Note, BulkWriteResult } from '@/lib/firestore';
+import { bulkAddTags } from '@/lib/api';
 import {
   Dialog,
   DialogContent,
@@ -17,6 +18,7 @@ import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Loader2, CheckCircle2, XCircle, AlertCircle, Plus, X } from 'lucide-react';
 import { useAuth } from '@/components/auth/auth-provider';
+import { BulkFailureList } from './bulk-failure-list';
 
 interface BulkTagsModalProps {
   notes: Note[];
@@ -44,7 +46,7 @@ export function BulkTagsModal({
   const [newTag, setNewTag] = useState('');
   const [saving, setSaving] = useState(false);
   const [progress, setProgress] = useState(0);
-  const [results, setResults] = useState<{ success: number; failed: number } | null>(null);
+  const [results, setResults] = useState<BulkWriteResult | null>(null);
 
   const handleAddTag = () => {
     if (!newTag.trim()) return;
@@ -67,31 +69,30 @@ export function BulkTagsModal({
     }
   };
 
-  const handleSave = async () => {
+  const runAddTags = async (targetNotes: Note[], previous: BulkWriteResult | null) => {
     if (!user?.email) return;
     if (tags.length === 0) return;
 
     setSaving(true);
     setProgress(0);
-    setResults(null);
 
     try {
-      const noteIds = notes.map((n) => n.id);
-
-      const result = await bulkAddTags(noteIds, tags, user.email);
-
-      // Simulate progress
-      for (let i = 0; i <= 100; i += 20) {
-        setProgress(i);
-        await new Promise((r) => setTimeout(r, 100));
-      }
+      const { results: result } = await bulkAddTags(
+        {
+          noteIds: targetNotes.map((n) => n.id),
+          tags,
+          userEmail: user.email,
+        },
+        ({ processed, total }) => setProgress(total ? Math.round((processed / total) * 100) : 100)
+      );
+      const merged: BulkWriteResult = {
+        successful: [...(previous?.successful || []), ...result.successful],
+        failed: result.failed,
+      };
 
-      setResults({
-        success: result.success.length,
-        failed: result.failed.length,
-      });
+      setResults(merged);
 
-      if (result.failed.length === 0) {
+      if (merged.failed.length === 0) {
         setTimeout(() => {
           onSuccess();
           onOpenChange(false);
@@ -100,12 +101,24 @@ export function BulkTagsModal({
       }
     } catch (error) {
       console.error('Bulk add tags failed:', error);
-      setResults({ success: 0, failed: notes.length });
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      setResults({
+        successful: previous?.successful || [],
+        failed: targetNotes.map((note) => ({ noteId: note.id, error: message })),
+      });
     } finally {
       setSaving(false);
     }
   };
 
+  const handleSave = () => runAddTags(notes, null);
+
+  const handleRetryFailed = () => {
+    if (!results) return;
+    const failedIds = new Set(results.failed.map((failure) => failure.noteId));
+    runAddTags(notes.filter((note) => failedIds.has(note.id)), results);
+  };
+
   const resetState = () => {
     setTags([]);
     setNewTag('');
@@ -133,20 +146,20 @@ export function BulkTagsModal({
         {results ? (
           <div className="py-6 space-y-4">
             <div className="flex flex-col items-center justify-center">
-              {results.failed === 0 ? (
+              {results.failed.length === 0 ? (
                 <>
                   <CheckCircle2 className="h-12 w-12 text-green-500 mb-3" />
                   <p className="text-lg font-medium">Tags added!</p>
                   <p className="text-sm text-muted-foreground">
-                    Added {tags.length} tag(s) to {results.success} notes.
+                    Added {tags.length} tag(s) to {results.successful.length} notes.
                   </p>
                 </>
-              ) : results.success > 0 ? (
+              ) : results.successful.length > 0 ? (
                 <>
                   <AlertCircle className="h-12 w-12 text-yellow-500 mb-3" />
                   <p className="text-lg font-medium">Partially completed</p>
                   <p className="text-sm text-muted-foreground">
-                    {results.success} succeeded, {results.failed} failed.
+                    {results.successful.length} succeeded, {results.failed.length} failed.
                   </p>
                 </>
               ) : (
@@ -159,10 +172,19 @@ export function BulkTagsModal({
                 </>
               )}
             </div>
-            {results.failed > 0 && (
-              <Button variant="outline" className="w-full" onClick={handleClose}>
-                Close
-              </Button>
+            {results.failed.length > 0 && (
+              <>
+                <BulkFailureList
+                  notes={notes}
+                  failures={results.failed}
+                  onRetry={handleRetryFailed}
+                  retrying={saving}
+                />
+                {saving && <Progress value={progress} />}
+                <Button variant="outline" className="w-full" onClick={handleClose} disabled={saving}>
+                  Close
+                </Button>
+              </>
             )}
           </div>
         ) : (
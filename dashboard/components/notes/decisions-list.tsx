@@ -49,7 +49,14 @@ export function DecisionsList({ decisions }: DecisionsListProps) {
                 {index + 1}
               </div>
               <div className="flex-1 space-y-2">
-                <p className="font-medium">{decision.decision}</p>
+                <div className="flex items-start justify-between gap-2">
+                  <p className="font-medium">{decision.decision}</p>
+                  {decision.status && decision.status !== 'accepted' && (
+                    <Badge variant="secondary" className="shrink-0 capitalize">
+                      {decision.status}
+                    </Badge>
+                  )}
+                </div>
                 {decision.context && (
                   <p className="text-sm text-muted-foreground">{decision.context}</p>
                 )}
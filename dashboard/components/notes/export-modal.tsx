@@ -1,8 +1,9 @@
 'use client';
 
 import { useState } from 'react';
-import { Note } from '@/lib/firestore';
-import { downloadExport, ExportFormat, ExportOptions } from '@/lib/export';
+import { useQuery } from '@tanstack/react-query';
+import { Note, getTemplates } from '@/lib/firestore';
+import { downloadExport, DocxLayout, ExportFormat, ExportOptions } from '@/lib/export';
 import {
   Dialog,
   DialogContent,
@@ -21,7 +22,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { Download, FileJson, FileText, FileSpreadsheet } from 'lucide-react';
+import { Download, FileJson, FileText, FileSpreadsheet, FileType, FileType2, Loader2 } from 'lucide-react';
 
 interface ExportModalProps {
   notes: Note[];
@@ -42,6 +43,25 @@ export function ExportModal({ notes, open, onOpenChange }: ExportModalProps) {
     decisions: false,
     attendees: false,
   });
+  const [coverPage, setCoverPage] = useState(true);
+  const [tableOfContents, setTableOfContents] = useState(true);
+  const [docxLayout, setDocxLayout] = useState<DocxLayout>('combined');
+  const [brandedHeader, setBrandedHeader] = useState(true);
+  const [brandedFooter, setBrandedFooter] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Word documents follow each note's template, so wait for them to load
+  const {
+    data: templates = [],
+    isSuccess: templatesLoaded,
+    isError: templatesFailed,
+  } = useQuery({
+    queryKey: ['templates'],
+    queryFn: getTemplates,
+    enabled: open && format === 'docx',
+  });
+  const waitingForTemplates = format === 'docx' && !templatesLoaded;
 
   const toggleField = (field: keyof typeof includeFields) => {
     setIncludeFields((prev) => ({
@@ -50,21 +70,39 @@ export function ExportModal({ notes, open, onOpenChange }: ExportModalProps) {
     }));
   };
 
-  const handleExport = () => {
-    downloadExport(notes, { format, includeFields });
-    onOpenChange(false);
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      await downloadExport(notes, {
+        format,
+        includeFields,
+        pdf: { coverPage, tableOfContents },
+        docx: { layout: docxLayout, brandedHeader, brandedFooter, templates },
+      });
+      onOpenChange(false);
+    } catch (err) {
+      console.error('Failed to export notes:', err);
+      setError('Failed to export notes. Please try again.');
+    } finally {
+      setIsExporting(false);
+    }
   };
 
   const formatIcons: Record<ExportFormat, React.ReactNode> = {
     csv: <FileSpreadsheet className="h-4 w-4" />,
     json: <FileJson className="h-4 w-4" />,
     markdown: <FileText className="h-4 w-4" />,
+    pdf: <FileType className="h-4 w-4" />,
+    docx: <FileType2 className="h-4 w-4" />,
   };
 
   const formatDescriptions: Record<ExportFormat, string> = {
     csv: 'Best for spreadsheets (Excel, Google Sheets)',
     json: 'Best for data processing and APIs',
     markdown: 'Best for documentation and reports',
+    pdf: 'Best for formal minutes to share with clients',
+    docx: 'Best for editing in Word; sections follow each note\'s template',
   };
 
   return (
@@ -107,11 +145,97 @@ export function ExportModal({ notes, open, onOpenChange }: ExportModalProps) {
                     <span>Markdown (Document)</span>
                   </div>
                 </SelectItem>
+                <SelectItem value="pdf">
+                  <div className="flex items-center gap-2">
+                    {formatIcons.pdf}
+                    <span>PDF (Minutes)</span>
+                  </div>
+                </SelectItem>
+                <SelectItem value="docx">
+                  <div className="flex items-center gap-2">
+                    {formatIcons.docx}
+                    <span>Word (DOCX)</span>
+                  </div>
+                </SelectItem>
               </SelectContent>
             </Select>
             <p className="text-xs text-muted-foreground">{formatDescriptions[format]}</p>
           </div>
 
+          {/* PDF Options */}
+          {format === 'pdf' && notes.length > 1 && (
+            <div className="space-y-3">
+              <Label>Document</Label>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="coverPage"
+                    checked={coverPage}
+                    onCheckedChange={(checked) => setCoverPage(checked === true)}
+                  />
+                  <Label htmlFor="coverPage" className="text-sm font-normal cursor-pointer">
+                    Cover page
+                  </Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="tableOfContents"
+                    checked={tableOfContents}
+                    onCheckedChange={(checked) => setTableOfContents(checked === true)}
+                  />
+                  <Label htmlFor="tableOfContents" className="text-sm font-normal cursor-pointer">
+                    Table of contents
+                  </Label>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Word Options */}
+          {format === 'docx' && (
+            <div className="space-y-3">
+              <Label>Document</Label>
+              {templatesFailed && (
+                <p className="text-xs text-destructive">
+                  Templates could not be loaded, so Word export is unavailable.
+                </p>
+              )}
+              {notes.length > 1 && (
+                <Select value={docxLayout} onValueChange={(v) => setDocxLayout(v as DocxLayout)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="combined">One combined document</SelectItem>
+                    <SelectItem value="per-note">One document per note (ZIP)</SelectItem>
+                  </SelectContent>
+                </Select>
+              )}
+              <div className="grid grid-cols-2 gap-3">
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="brandedHeader"
+                    checked={brandedHeader}
+                    onCheckedChange={(checked) => setBrandedHeader(checked === true)}
+                  />
+                  <Label htmlFor="brandedHeader" className="text-sm font-normal cursor-pointer">
+                    Egen logo in header
+                  </Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="brandedFooter"
+                    checked={brandedFooter}
+                    onCheckedChange={(checked) => setBrandedFooter(checked === true)}
+                  />
+                  <Label htmlFor="brandedFooter" className="text-sm font-normal cursor-pointer">
+                    Egen footer
+                  </Label>
+                </div>
+              </div>
+            </div>
+          )}
+
           {/* Field Selection */}
           <div className="space-y-3">
             <Label>Include Fields</Label>
@@ -145,12 +269,22 @@ export function ExportModal({ notes, open, onOpenChange }: ExportModalProps) {
           </div>
         </div>
 
+        {error && (
+          <div className="text-sm text-destructive p-2 rounded bg-destructive/10">
+            {error}
+          </div>
+        )}
+
         <DialogFooter>
           <Button variant="outline" onClick={() => onOpenChange(false)}>
             Cancel
           </Button>
-          <Button onClick={handleExport}>
-            <Download className="mr-2 h-4 w-4" />
+          <Button onClick={handleExport} disabled={isExporting || waitingForTemplates}>
+            {isExporting || (waitingForTemplates && !templatesFailed) ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Download className="mr-2 h-4 w-4" />
+            )}
             Export
           </Button>
         </DialogFooter>
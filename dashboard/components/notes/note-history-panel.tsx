@@ -0,0 +1,208 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Note, NoteRevision, getNoteRevisions, restoreNoteRevision } from '@/lib/firestore';
+import { useAuth } from '@/components/auth/auth-provider';
+import { formatDateTime, formatRelativeTime, toDate } from '@/lib/date-utils';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  History,
+  ChevronDown,
+  ChevronRight,
+  RotateCcw,
+  Loader2,
+  User,
+} from 'lucide-react';
+
+interface NoteHistoryPanelProps {
+  note: Note;
+}
+
+const ACTION_LABELS: Record<NoteRevision['action'], string> = {
+  update: 'Edited',
+  classification: 'Recategorized',
+  sharing: 'Sharing changed',
+  action_item: 'Action items changed',
+  decision: 'Decisions changed',
+  restore: 'Restored',
+  trash: 'Moved to trash',
+  untrash: 'Restored from trash',
+};
+
+function formatFieldName(field: string): string {
+  return field
+    .split('.')
+    .map((part) => {
+      const words = part.replace(/_/g, ' ');
+      return words.charAt(0).toUpperCase() + words.slice(1);
+    })
+    .join(' › ');
+}
+
+function formatRevisionValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'number' || typeof value === 'string') return String(value);
+
+  if (typeof value === 'object' && 'toDate' in value) {
+    return formatDateTime(toDate(value as { toDate: () => Date }));
+  }
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '—';
+    return value
+      .map((item) => {
+        if (item && typeof item === 'object' && 'task' in item) {
+          return `${item.task} (${item.status})`;
+        }
+        return formatRevisionValue(item);
+      })
+      .join('; ');
+  }
+
+  return Object.entries(value as Record<string, unknown>)
+    .filter(([, v]) => v !== null && v !== undefined)
+    .map(([k, v]) => `${formatFieldName(k)}: ${formatRevisionValue(v)}`)
+    .join(', ');
+}
+
+export function NoteHistoryPanel({ note }: NoteHistoryPanelProps) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  // Keyed on updated_at so the list refreshes whenever the note changes
+  const { data: revisions = [], isLoading } = useQuery({
+    queryKey: ['noteRevisions', note.id, note.updated_at?.toMillis?.() ?? null],
+    queryFn: () => getNoteRevisions(note.id),
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: (revisionId: string) =>
+      restoreNoteRevision(note.id, revisionId, user?.email || undefined),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['note', note.id] });
+      queryClient.invalidateQueries({ queryKey: ['noteRevisions', note.id] });
+      queryClient.invalidateQueries({ queryKey: ['notes'] });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <History className="h-5 w-5" />
+          History
+          {revisions.length > 0 && (
+            <Badge variant="outline" className="ml-2">
+              {revisions.length}
+            </Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          Every change to this note. Restoring returns the note to how it looked
+          just before the selected change.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No changes recorded yet.</p>
+        ) : (
+          revisions.map((revision) => {
+            const isExpanded = expandedId === revision.id;
+            const isRestoring =
+              restoreMutation.isPending && restoreMutation.variables === revision.id;
+
+            return (
+              <div key={revision.id} className="rounded-lg border">
+                <div className="flex items-center gap-3 p-3">
+                  <button
+                    type="button"
+                    className="flex flex-1 items-start gap-2 text-left"
+                    onClick={() => setExpandedId(isExpanded ? null : revision.id)}
+                  >
+                    {isExpanded ? (
+                      <ChevronDown className="mt-0.5 h-4 w-4 shrink-0" />
+                    ) : (
+                      <ChevronRight className="mt-0.5 h-4 w-4 shrink-0" />
+                    )}
+                    <div className="space-y-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="text-sm font-medium">
+                          {ACTION_LABELS[revision.action] || revision.action}
+                        </span>
+                        <span
+                          className="text-xs text-muted-foreground"
+                          title={formatDateTime(revision.changed_at)}
+                        >
+                          {formatRelativeTime(revision.changed_at)}
+                        </span>
+                      </div>
+                      <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                        <span className="flex items-center gap-1">
+                          <User className="h-3 w-3" />
+                          {revision.changed_by || 'System'}
+                        </span>
+                        <span>
+                          {revision.changed_fields.map(formatFieldName).join(', ')}
+                        </span>
+                      </div>
+                    </div>
+                  </button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-8 text-xs"
+                    onClick={() => restoreMutation.mutate(revision.id)}
+                    disabled={restoreMutation.isPending}
+                    title="Restore the note to how it looked before this change"
+                  >
+                    {isRestoring ? (
+                      <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                    ) : (
+                      <RotateCcw className="mr-1 h-3 w-3" />
+                    )}
+                    Restore
+                  </Button>
+                </div>
+
+                {isExpanded && (
+                  <div className="space-y-2 border-t bg-muted/30 p-3">
+                    {revision.changes.map((change) => (
+                      <div key={change.field} className="space-y-1 text-xs">
+                        <p className="font-medium">{formatFieldName(change.field)}</p>
+                        <div className="grid gap-1 md:grid-cols-2">
+                          <div className="rounded bg-red-500/10 px-2 py-1 text-red-700 line-through dark:text-red-400">
+                            {formatRevisionValue(change.before)}
+                          </div>
+                          <div className="rounded bg-green-500/10 px-2 py-1 text-green-700 dark:text-green-400">
+                            {formatRevisionValue(change.after)}
+                          </div>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+
+        {restoreMutation.isError && (
+          <p className="text-sm text-destructive">
+            Failed to restore: {restoreMutation.error instanceof Error
+              ? restoreMutation.error.message
+              : 'Unknown error'}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
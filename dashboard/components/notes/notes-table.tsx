@@ -1,8 +1,9 @@
 'use client';
 
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { useRouter } from 'next/navigation';
-import { Note, Client, Project } from '@/lib/firestore';
+import { Note, Client, Project, NoteTemplate } from '@/lib/firestore';
+import { NoteCompliance, checkNoteAgainstTemplates } from '@/lib/template-compliance';
 import { NotesFilters, FilterState, defaultFilters } from './notes-filters';
 import {
   Table,
@@ -23,6 +24,8 @@ import {
   Bot,
   Tag,
   X,
+  Loader2,
+  ClipboardCheck,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
@@ -30,12 +33,19 @@ interface NotesTableProps {
   notes: Note[];
   clients: Client[];
   projects: Project[];
+  // When given, rows missing required template sections get a badge
+  templates?: NoteTemplate[];
   onCategorize: (note: Note) => void;
   onShare: (note: Note) => void;
   onBulkCategorize?: (notes: Note[]) => void;
   onBulkShare?: (notes: Note[]) => void;
   onBulkAddTags?: (notes: Note[]) => void;
   onExport?: (notes: Note[]) => void;
+  // Infinite scroll: called when the last row scrolls into view
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void;
+  totalCount?: number;
 }
 
 type SortField = 'title' | 'createdAt' | 'confidence' | 'noteType';
@@ -45,12 +55,17 @@ export function NotesTable({
   notes,
   clients,
   projects,
+  templates,
   onCategorize,
   onShare,
   onBulkCategorize,
   onBulkShare,
   onBulkAddTags,
   onExport,
+  hasMore = false,
+  isLoadingMore = false,
+  onLoadMore,
+  totalCount,
 }: NotesTableProps) {
   const router = useRouter();
   const [sortField, setSortField] = useState<SortField>('createdAt');
@@ -60,10 +75,35 @@ export function NotesTable({
   // Bulk selection state
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
 
-  // Clear selection when notes change
+  // Clear selection when notes change, unless another page was just appended
+  const [prevNotes, setPrevNotes] = useState(notes);
+  if (notes !== prevNotes) {
+    const isAppend =
+      notes.length > prevNotes.length &&
+      prevNotes.every((note, index) => notes[index]?.id === note.id);
+    setPrevNotes(notes);
+    if (!isAppend) {
+      setSelectedIds(new Set());
+    }
+  }
+
+  // Load the next page when the sentinel below the table becomes visible
+  const loadMoreRef = useRef<HTMLDivElement>(null);
   useEffect(() => {
-    setSelectedIds(new Set());
-  }, [notes]);
+    const node = loadMoreRef.current;
+    if (!node || !onLoadMore || !hasMore || isLoadingMore) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting) {
+          onLoadMore();
+        }
+      },
+      { rootMargin: '200px' }
+    );
+    observer.observe(node);
+    return () => observer.disconnect();
+  }, [onLoadMore, hasMore, isLoadingMore, notes.length]);
 
   const getClientName = (note: Note) => {
     const clientId = note.classification?.client_id || note.clientId;
@@ -248,6 +288,34 @@ export function NotesTable({
     [notes]
   );
 
+  const complianceByNote = useMemo(() => {
+    const results = new Map<string, NoteCompliance>();
+    if (!templates?.length) return results;
+    for (const note of notes) {
+      const compliance = checkNoteAgainstTemplates(note, templates);
+      if (compliance) results.set(note.id, compliance);
+    }
+    return results;
+  }, [notes, templates]);
+
+  const getComplianceBadge = (note: Note) => {
+    const compliance = complianceByNote.get(note.id);
+    if (!compliance || compliance.compliant) return null;
+    const summary = compliance.issues
+      .map((issue) => `${issue.section.title}: ${issue.detail}`)
+      .join('\n');
+    return (
+      <Badge
+        variant="outline"
+        className="shrink-0 text-xs px-1.5 py-0 border-orange-500 text-orange-600"
+        title={`Missing from ${compliance.template.name}:\n${summary}`}
+      >
+        <ClipboardCheck className="h-3 w-3 mr-1" />
+        {compliance.issues.length} missing
+      </Badge>
+    );
+  };
+
   // Bulk selection handlers
   const toggleSelectAll = () => {
     if (selectedIds.size === filteredNotes.length) {
@@ -275,6 +343,14 @@ export function NotesTable({
     return filteredNotes.filter((note) => selectedIds.has(note.id));
   };
 
+  const isFiltered =
+    filters.searchTerm !== defaultFilters.searchTerm ||
+    filters.filterType !== defaultFilters.filterType ||
+    filters.filterClient !== defaultFilters.filterClient ||
+    filters.attendeeEmail !== defaultFilters.attendeeEmail ||
+    !!filters.dateRange.from ||
+    !!filters.dateRange.to;
+
   const isAllSelected = filteredNotes.length > 0 && selectedIds.size === filteredNotes.length;
   const isSomeSelected = selectedIds.size > 0 && selectedIds.size < filteredNotes.length;
 
@@ -428,6 +504,7 @@ export function NotesTable({
                           Auto
                         </Badge>
                       )}
+                      {getComplianceBadge(note)}
                     </div>
                   </TableCell>
                   <TableCell>{formatDate(note.meeting?.start_time || note.created_at || note.createdAt)}</TableCell>
@@ -470,9 +547,20 @@ export function NotesTable({
         </Table>
       </div>
 
+      {onLoadMore && hasMore && (
+        <div ref={loadMoreRef} className="flex justify-center py-2">
+          {isLoadingMore && <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />}
+        </div>
+      )}
+
       <div className="text-sm text-muted-foreground">
-        Showing {filteredNotes.length} of {notes.length} notes
+        Showing {filteredNotes.length} of {totalCount ?? notes.length} notes
         {selectedIds.size > 0 && ` (${selectedIds.size} selected)`}
+        {hasMore && isFiltered && (
+          <span className="ml-1">
+            · Search and filters only cover the {notes.length} notes loaded so far; scroll to load more
+          </span>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,74 @@
+'use client';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { NoteCompliance, SectionStatus } from '@/lib/template-compliance';
+import { CheckCircle2, CircleDashed, ClipboardCheck, XCircle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface TemplateChecklistProps {
+  compliance: NoteCompliance | null;
+}
+
+const STATUS_ICONS: Record<SectionStatus, typeof CheckCircle2> = {
+  complete: CheckCircle2,
+  empty: CircleDashed,
+  missing: XCircle,
+};
+
+export function TemplateChecklist({ compliance }: TemplateChecklistProps) {
+  if (!compliance || compliance.checks.length === 0) {
+    return null;
+  }
+
+  const { template, checks, issues, requiredCount } = compliance;
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <ClipboardCheck className="h-5 w-5" />
+            Template Checklist
+          </CardTitle>
+          {requiredCount > 0 &&
+            (issues.length === 0 ? (
+              <Badge className="bg-green-500">Complete</Badge>
+            ) : (
+              <Badge variant="outline" className="border-orange-500 text-orange-600">
+                {issues.length} of {requiredCount} required missing
+              </Badge>
+            ))}
+        </div>
+        <CardDescription>Checked against the {template.name} template</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ul className="space-y-2">
+          {checks.map((check) => {
+            const Icon = STATUS_ICONS[check.status];
+            const isIssue = check.required && check.status !== 'complete';
+            return (
+              <li key={check.section.id} className="flex items-start gap-2 text-sm">
+                <Icon
+                  className={cn(
+                    'mt-0.5 h-4 w-4 shrink-0',
+                    check.status === 'complete'
+                      ? 'text-green-600'
+                      : isIssue
+                        ? 'text-orange-500'
+                        : 'text-gray-400'
+                  )}
+                />
+                <span>
+                  <span className="font-medium">{check.section.title}</span>
+                  {check.required && <span className="text-muted-foreground"> (required)</span>}
+                  <span className="text-muted-foreground"> &middot; {check.detail}</span>
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
@@ -13,162 +13,244 @@ import {
 } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent } from '@/components/ui/card';
-import { Plus, X, GripVertical } from 'lucide-react';
+import { Plus, X, GripVertical, FolderPlus } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { Project } from '@/lib/firestore';
+import {
+  FIELD_OPTIONS,
+  OPERATOR_OPTIONS,
+  WEEKDAY_OPTIONS,
+  RuleCondition,
+  RuleConditionGroup,
+  RuleConditionNode,
+  describeRuleConditions,
+  getConditionValueInput,
+  getDefaultOperator,
+  getRegexError,
+  isConditionGroup,
+} from '@/lib/rule-engine';
 
-export interface Condition {
-  field: string;
-  operator: string;
-  value: string | string[];
-}
+export type Condition = RuleCondition;
 
-export interface ConditionGroup {
-  operator: 'AND' | 'OR';
-  rules: Condition[];
-}
+export type ConditionGroup = RuleConditionGroup;
+
+// Position of a node in the tree: child indexes from the root group
+type NodePath = number[];
 
 interface ConditionBuilderProps {
   value: ConditionGroup;
   onChange: (value: ConditionGroup) => void;
+  // Choices for "organizer is in project team"
+  projects?: Project[];
 }
 
-const FIELD_OPTIONS = [
-  { value: 'title', label: 'Meeting Title' },
-  { value: 'description', label: 'Description' },
-  { value: 'attendee_domains', label: 'Attendee Domains' },
-  { value: 'organizer', label: 'Organizer Email' },
-  { value: 'all_attendees_domain', label: 'All Attendees Domain' },
-];
-
-const OPERATOR_OPTIONS: Record<string, { value: string; label: string }[]> = {
-  title: [
-    { value: 'contains', label: 'Contains' },
-    { value: 'equals', label: 'Equals' },
-    { value: 'starts_with', label: 'Starts with' },
-    { value: 'contains_any', label: 'Contains any of' },
-  ],
-  description: [
-    { value: 'contains', label: 'Contains' },
-    { value: 'equals', label: 'Equals' },
-    { value: 'starts_with', label: 'Starts with' },
-    { value: 'contains_any', label: 'Contains any of' },
-  ],
-  attendee_domains: [
-    { value: 'contains', label: 'Contains' },
-    { value: 'intersects', label: 'Intersects with' },
-  ],
-  organizer: [
-    { value: 'equals', label: 'Equals' },
-    { value: 'ends_with', label: 'Ends with' },
-  ],
-  all_attendees_domain: [
-    { value: 'equals', label: 'Equals' },
-  ],
-};
-
-function getDefaultOperator(field: string): string {
-  return OPERATOR_OPTIONS[field]?.[0]?.value || 'contains';
+const NEW_CONDITION: Condition = { field: 'title', operator: 'contains', value: '' };
+
+// ============================================================
+// Tree helpers
+// ============================================================
+
+function isSamePath(a: NodePath, b: NodePath): boolean {
+  return a.length === b.length && a.every((index, i) => index === b[i]);
 }
 
-export function ConditionBuilder({ value, onChange }: ConditionBuilderProps) {
-  const [newDomain, setNewDomain] = useState('');
+function isAncestorPath(ancestor: NodePath, path: NodePath): boolean {
+  return ancestor.length <= path.length && ancestor.every((index, i) => index === path[i]);
+}
 
-  const updateOperator = (op: 'AND' | 'OR') => {
-    onChange({ ...value, operator: op });
+function updateGroupAt(
+  group: ConditionGroup,
+  path: NodePath,
+  update: (group: ConditionGroup) => ConditionGroup
+): ConditionGroup {
+  if (path.length === 0) return update(group);
+  const [head, ...rest] = path;
+  return {
+    ...group,
+    rules: group.rules.map((node, index) =>
+      index === head && isConditionGroup(node) ? updateGroupAt(node, rest, update) : node
+    ),
   };
+}
 
-  const addCondition = () => {
-    const newCondition: Condition = {
-      field: 'title',
-      operator: 'contains',
-      value: '',
-    };
-    onChange({
-      ...value,
-      rules: [...value.rules, newCondition],
-    });
-  };
+function getNodeAt(group: ConditionGroup, path: NodePath): RuleConditionNode {
+  let node: RuleConditionNode = group;
+  for (const index of path) {
+    node = (node as ConditionGroup).rules[index];
+  }
+  return node;
+}
 
-  const updateCondition = (index: number, updates: Partial<Condition>) => {
-    const newRules = [...value.rules];
-    newRules[index] = { ...newRules[index], ...updates };
+/**
+ * Move the node at `from` so it sits at `toIndex` within the group at `toGroup`.
+ * Dropping a group into itself or one of its descendants is ignored.
+ */
+function moveNode(
+  root: ConditionGroup,
+  from: NodePath,
+  toGroup: NodePath,
+  toIndex: number
+): ConditionGroup {
+  if (isAncestorPath(from, toGroup)) return root;
 
-    // If field changed, reset operator to default for that field
-    if (updates.field && updates.field !== value.rules[index].field) {
-      newRules[index].operator = getDefaultOperator(updates.field);
-      // Reset value for domain fields
-      if (updates.field === 'attendee_domains') {
-        newRules[index].value = [];
-      } else if (value.rules[index].field === 'attendee_domains') {
-        newRules[index].value = '';
-      }
-    }
+  const node = getNodeAt(root, from);
+  const fromParent = from.slice(0, -1);
+  const fromIndex = from[from.length - 1];
 
-    onChange({ ...value, rules: newRules });
-  };
+  // Removing the node shifts later siblings (and paths through them) down by one
+  const target = [...toGroup];
+  let index = toIndex;
+  if (isAncestorPath(fromParent, target) && target.length > fromParent.length) {
+    if (target[fromParent.length] > fromIndex) target[fromParent.length] -= 1;
+  } else if (isSamePath(fromParent, target) && index > fromIndex) {
+    index -= 1;
+  }
 
-  const removeCondition = (index: number) => {
-    const newRules = value.rules.filter((_, i) => i !== index);
-    onChange({ ...value, rules: newRules });
-  };
+  const removed = updateGroupAt(root, fromParent, (group) => ({
+    ...group,
+    rules: group.rules.filter((_, i) => i !== fromIndex),
+  }));
+  return updateGroupAt(removed, target, (group) => {
+    const rules = [...group.rules];
+    rules.splice(index, 0, node);
+    return { ...group, rules };
+  });
+}
 
-  const addDomainToCondition = (index: number, domain: string) => {
-    if (!domain.trim()) return;
-    const currentValue = value.rules[index].value;
-    const domains = Array.isArray(currentValue) ? currentValue : [];
-    if (!domains.includes(domain.trim().toLowerCase())) {
-      updateCondition(index, { value: [...domains, domain.trim().toLowerCase()] });
+// ============================================================
+// Builder
+// ============================================================
+
+export function ConditionBuilder({ value, onChange, projects = [] }: ConditionBuilderProps) {
+  const [dragPath, setDragPath] = useState<NodePath | null>(null);
+
+  const handleDrop = (toGroup: NodePath, toIndex: number) => {
+    if (dragPath) {
+      onChange(moveNode(value, dragPath, toGroup, toIndex));
     }
-    setNewDomain('');
+    setDragPath(null);
   };
 
-  const removeDomainFromCondition = (index: number, domain: string) => {
-    const currentValue = value.rules[index].value;
-    const domains = Array.isArray(currentValue) ? currentValue : [];
-    updateCondition(index, { value: domains.filter((d) => d !== domain) });
+  return (
+    <div className="space-y-4">
+      <GroupEditor
+        group={value}
+        path={[]}
+        onChange={onChange}
+        projects={projects}
+        dragPath={dragPath}
+        onDragStart={setDragPath}
+        onDragEnd={() => setDragPath(null)}
+        onDrop={handleDrop}
+      />
+
+      {/* Preview */}
+      {value.rules.length > 0 && (
+        <div className="p-3 rounded-md bg-muted/50 border">
+          <Label className="text-xs text-muted-foreground block mb-2">Rule Preview</Label>
+          <p className="text-sm">
+            Matches when {describeRuleConditions(value)}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface GroupEditorProps {
+  group: ConditionGroup;
+  path: NodePath;
+  onChange: (group: ConditionGroup) => void;
+  onRemove?: () => void;
+  projects: Project[];
+  dragPath: NodePath | null;
+  onDragStart: (path: NodePath) => void;
+  onDragEnd: () => void;
+  onDrop: (toGroup: NodePath, toIndex: number) => void;
+}
+
+function GroupEditor({
+  group,
+  path,
+  onChange,
+  onRemove,
+  projects,
+  dragPath,
+  onDragStart,
+  onDragEnd,
+  onDrop,
+}: GroupEditorProps) {
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const isRoot = path.length === 0;
+
+  const updateChild = (index: number, node: RuleConditionNode) => {
+    onChange({ ...group, rules: group.rules.map((child, i) => (i === index ? node : child)) });
   };
 
-  const renderConditionPreview = () => {
-    if (value.rules.length === 0) {
-      return <span className="text-muted-foreground italic">No conditions defined</span>;
-    }
+  const removeChild = (index: number) => {
+    onChange({ ...group, rules: group.rules.filter((_, i) => i !== index) });
+  };
 
-    return value.rules.map((condition, index) => {
-      const fieldLabel = FIELD_OPTIONS.find((f) => f.value === condition.field)?.label || condition.field;
-      const operatorLabel = OPERATOR_OPTIONS[condition.field]?.find((o) => o.value === condition.operator)?.label || condition.operator;
-      const valueStr = Array.isArray(condition.value) ? condition.value.join(', ') : condition.value;
-
-      return (
-        <span key={index}>
-          {index > 0 && (
-            <Badge variant="outline" className="mx-1 text-xs">
-              {value.operator}
-            </Badge>
-          )}
-          <span className="text-sm">
-            <span className="font-medium">{fieldLabel}</span>
-            {' '}
-            <span className="text-muted-foreground">{operatorLabel.toLowerCase()}</span>
-            {' '}
-            <span className="text-primary">&quot;{valueStr}&quot;</span>
-          </span>
-        </span>
-      );
-    });
+  const addCondition = () => {
+    onChange({ ...group, rules: [...group.rules, { ...NEW_CONDITION }] });
   };
 
+  const addGroup = () => {
+    const nested: ConditionGroup = {
+      operator: group.operator === 'AND' ? 'OR' : 'AND',
+      rules: [{ ...NEW_CONDITION }],
+    };
+    onChange({ ...group, rules: [...group.rules, nested] });
+  };
+
+  // Dropping onto a child inserts before it; onto the group's footer appends
+  const dropHandlers = (index: number) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!dragPath) return;
+      e.preventDefault();
+      e.stopPropagation();
+      setDropIndex(index);
+    },
+    onDragLeave: () => setDropIndex(null),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      setDropIndex(null);
+      onDrop(path, index);
+    },
+  });
+
   return (
-    <div className="space-y-4">
-      {/* Logic Operator Toggle */}
-      <div className="flex items-center gap-2">
-        <Label className="text-sm font-medium">Match:</Label>
+    <div
+      className={cn(
+        'space-y-3',
+        !isRoot && 'rounded-md border border-dashed p-3',
+        !isRoot && group.negate && 'border-destructive/50'
+      )}
+    >
+      {/* Group Header */}
+      <div className="flex flex-wrap items-center gap-2">
+        {!isRoot && (
+          <div
+            draggable
+            onDragStart={(e) => {
+              e.stopPropagation();
+              onDragStart(path);
+            }}
+            onDragEnd={onDragEnd}
+            className="cursor-move text-muted-foreground"
+          >
+            <GripVertical className="h-4 w-4" />
+          </div>
+        )}
+        <Label className="text-sm font-medium">{isRoot ? 'Match:' : 'Group:'}</Label>
         <div className="flex rounded-md border overflow-hidden">
           <button
             type="button"
-            onClick={() => updateOperator('AND')}
+            onClick={() => onChange({ ...group, operator: 'AND' })}
             className={cn(
               'px-3 py-1.5 text-sm font-medium transition-colors',
-              value.operator === 'AND'
+              group.operator === 'AND'
                 ? 'bg-primary text-primary-foreground'
                 : 'bg-background hover:bg-muted'
             )}
@@ -177,10 +259,10 @@ export function ConditionBuilder({ value, onChange }: ConditionBuilderProps) {
           </button>
           <button
             type="button"
-            onClick={() => updateOperator('OR')}
+            onClick={() => onChange({ ...group, operator: 'OR' })}
             className={cn(
               'px-3 py-1.5 text-sm font-medium transition-colors border-l',
-              value.operator === 'OR'
+              group.operator === 'OR'
                 ? 'bg-primary text-primary-foreground'
                 : 'bg-background hover:bg-muted'
             )}
@@ -188,149 +270,323 @@ export function ConditionBuilder({ value, onChange }: ConditionBuilderProps) {
             ANY condition (OR)
           </button>
         </div>
+        <button
+          type="button"
+          onClick={() => onChange({ ...group, negate: !group.negate })}
+          className={cn(
+            'rounded-md border px-3 py-1.5 text-sm font-medium transition-colors',
+            group.negate
+              ? 'bg-destructive text-destructive-foreground'
+              : 'bg-background hover:bg-muted'
+          )}
+        >
+          NOT
+        </button>
+        {onRemove && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="ml-auto text-muted-foreground hover:text-destructive"
+            onClick={onRemove}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        )}
       </div>
 
-      {/* Condition Rows */}
+      {/* Children */}
       <div className="space-y-3">
-        {value.rules.map((condition, index) => (
-          <Card key={index} className="bg-muted/30">
-            <CardContent className="p-3">
-              <div className="flex items-start gap-3">
-                <div className="flex items-center pt-2 text-muted-foreground">
-                  <GripVertical className="h-4 w-4" />
-                </div>
+        {group.rules.map((node, index) => {
+          const childPath = [...path, index];
+          const isDragging = !!dragPath && isSamePath(dragPath, childPath);
+          return (
+            <div
+              key={index}
+              {...dropHandlers(index)}
+              className={cn(
+                isDragging && 'opacity-50',
+                dropIndex === index && 'border-t-2 border-primary pt-1'
+              )}
+            >
+              {isConditionGroup(node) ? (
+                <GroupEditor
+                  group={node}
+                  path={childPath}
+                  onChange={(updated) => updateChild(index, updated)}
+                  onRemove={() => removeChild(index)}
+                  projects={projects}
+                  dragPath={dragPath}
+                  onDragStart={onDragStart}
+                  onDragEnd={onDragEnd}
+                  onDrop={onDrop}
+                />
+              ) : (
+                <ConditionRow
+                  condition={node}
+                  projects={projects}
+                  onChange={(updated) => updateChild(index, updated)}
+                  onRemove={() => removeChild(index)}
+                  onDragStart={() => onDragStart(childPath)}
+                  onDragEnd={onDragEnd}
+                />
+              )}
+            </div>
+          );
+        })}
+      </div>
 
-                <div className="flex-1 grid grid-cols-1 md:grid-cols-3 gap-3">
-                  {/* Field Selection */}
-                  <div className="space-y-1">
-                    <Label className="text-xs text-muted-foreground">Field</Label>
-                    <Select
-                      value={condition.field}
-                      onValueChange={(field) => updateCondition(index, { field })}
-                    >
-                      <SelectTrigger>
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {FIELD_OPTIONS.map((field) => (
-                          <SelectItem key={field.value} value={field.value}>
-                            {field.label}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                  </div>
+      {/* Add Buttons (also the drop zone for appending to this group) */}
+      <div
+        {...dropHandlers(group.rules.length)}
+        className={cn(
+          'flex gap-2 rounded-md',
+          dropIndex === group.rules.length && 'ring-2 ring-primary'
+        )}
+      >
+        <Button type="button" variant="outline" onClick={addCondition} className="flex-1">
+          <Plus className="mr-2 h-4 w-4" />
+          Add Condition
+        </Button>
+        <Button type="button" variant="outline" onClick={addGroup}>
+          <FolderPlus className="mr-2 h-4 w-4" />
+          Add Group
+        </Button>
+      </div>
+    </div>
+  );
+}
 
-                  {/* Operator Selection */}
-                  <div className="space-y-1">
-                    <Label className="text-xs text-muted-foreground">Operator</Label>
-                    <Select
-                      value={condition.operator}
-                      onValueChange={(operator) => updateCondition(index, { operator })}
-                    >
-                      <SelectTrigger>
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {(OPERATOR_OPTIONS[condition.field] || []).map((op) => (
-                          <SelectItem key={op.value} value={op.value}>
-                            {op.label}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                  </div>
+interface ConditionRowProps {
+  condition: Condition;
+  projects: Project[];
+  onChange: (condition: Condition) => void;
+  onRemove: () => void;
+  onDragStart: () => void;
+  onDragEnd: () => void;
+}
+
+function ConditionRow({
+  condition,
+  projects,
+  onChange,
+  onRemove,
+  onDragStart,
+  onDragEnd,
+}: ConditionRowProps) {
+  const [newDomain, setNewDomain] = useState('');
+  const valueInput = getConditionValueInput(condition.field, condition.operator);
+
+  const updateCondition = (updates: Partial<Condition>) => {
+    const updated = { ...condition, ...updates };
+
+    // If field changed, reset operator to default for that field
+    if (updates.field && updates.field !== condition.field) {
+      updated.operator = getDefaultOperator(updates.field);
+    }
+
+    // Reset the value when it needs a different kind of input
+    const nextInput = getConditionValueInput(updated.field, updated.operator);
+    if (nextInput !== valueInput && !('value' in updates)) {
+      updated.value = nextInput === 'domains' || nextInput === 'weekdays' ? [] : '';
+    }
+
+    onChange(updated);
+  };
+
+  const listValue = Array.isArray(condition.value) ? condition.value : [];
+  const textValue = typeof condition.value === 'string' ? condition.value : condition.value.join(', ');
+  const regexError = valueInput === 'regex' && textValue ? getRegexError(textValue) : null;
+
+  const toggleWeekday = (day: string) => {
+    updateCondition({
+      value: listValue.includes(day) ? listValue.filter((d) => d !== day) : [...listValue, day],
+    });
+  };
+
+  const addDomain = (domain: string) => {
+    if (!domain.trim()) return;
+    if (!listValue.includes(domain.trim().toLowerCase())) {
+      updateCondition({ value: [...listValue, domain.trim().toLowerCase()] });
+    }
+    setNewDomain('');
+  };
+
+  const removeDomain = (domain: string) => {
+    updateCondition({ value: listValue.filter((d) => d !== domain) });
+  };
+
+  return (
+    <Card className="bg-muted/30">
+      <CardContent className="p-3">
+        <div className="flex items-start gap-3">
+          <div
+            draggable
+            onDragStart={(e) => {
+              e.stopPropagation();
+              onDragStart();
+            }}
+            onDragEnd={onDragEnd}
+            className="flex items-center pt-2 text-muted-foreground cursor-move"
+          >
+            <GripVertical className="h-4 w-4" />
+          </div>
+
+          <div className="flex-1 grid grid-cols-1 md:grid-cols-3 gap-3">
+            {/* Field Selection */}
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">Field</Label>
+              <Select value={condition.field} onValueChange={(field) => updateCondition({ field })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {FIELD_OPTIONS.map((field) => (
+                    <SelectItem key={field.value} value={field.value}>
+                      {field.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
 
-                  {/* Value Input */}
-                  <div className="space-y-1">
-                    <Label className="text-xs text-muted-foreground">Value</Label>
-                    {condition.field === 'attendee_domains' ? (
-                      <div className="space-y-2">
-                        <div className="flex gap-2">
-                          <Input
-                            placeholder="e.g., acme.com"
-                            value={newDomain}
-                            onChange={(e) => setNewDomain(e.target.value)}
-                            onKeyDown={(e) => {
-                              if (e.key === 'Enter') {
-                                e.preventDefault();
-                                addDomainToCondition(index, newDomain);
-                              }
-                            }}
-                          />
-                          <Button
-                            type="button"
-                            size="icon"
-                            variant="outline"
-                            onClick={() => addDomainToCondition(index, newDomain)}
-                          >
-                            <Plus className="h-4 w-4" />
-                          </Button>
-                        </div>
-                        <div className="flex flex-wrap gap-1">
-                          {(Array.isArray(condition.value) ? condition.value : []).map((domain) => (
-                            <Badge
-                              key={domain}
-                              variant="secondary"
-                              className="text-xs cursor-pointer hover:bg-destructive hover:text-destructive-foreground"
-                              onClick={() => removeDomainFromCondition(index, domain)}
-                            >
-                              {domain}
-                              <X className="ml-1 h-3 w-3" />
-                            </Badge>
-                          ))}
-                        </div>
-                      </div>
-                    ) : (
-                      <Input
-                        placeholder={
-                          condition.field === 'organizer'
-                            ? 'user@domain.com'
-                            : condition.field === 'all_attendees_domain'
-                            ? 'egen.com'
-                            : 'Enter text to match...'
+            {/* Operator Selection */}
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">Operator</Label>
+              <Select
+                value={condition.operator}
+                onValueChange={(operator) => updateCondition({ operator })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(OPERATOR_OPTIONS[condition.field] || []).map((op) => (
+                    <SelectItem key={op.value} value={op.value}>
+                      {op.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {/* Value Input */}
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">Value</Label>
+              {valueInput === 'domains' ? (
+                <div className="space-y-2">
+                  <div className="flex gap-2">
+                    <Input
+                      placeholder="e.g., acme.com"
+                      value={newDomain}
+                      onChange={(e) => setNewDomain(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') {
+                          e.preventDefault();
+                          addDomain(newDomain);
                         }
-                        value={typeof condition.value === 'string' ? condition.value : ''}
-                        onChange={(e) => updateCondition(index, { value: e.target.value })}
-                      />
-                    )}
+                      }}
+                    />
+                    <Button
+                      type="button"
+                      size="icon"
+                      variant="outline"
+                      onClick={() => addDomain(newDomain)}
+                    >
+                      <Plus className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {listValue.map((domain) => (
+                      <Badge
+                        key={domain}
+                        variant="secondary"
+                        className="text-xs cursor-pointer hover:bg-destructive hover:text-destructive-foreground"
+                        onClick={() => removeDomain(domain)}
+                      >
+                        {domain}
+                        <X className="ml-1 h-3 w-3" />
+                      </Badge>
+                    ))}
                   </div>
                 </div>
-
-                {/* Remove Button */}
-                <Button
-                  type="button"
-                  variant="ghost"
-                  size="icon"
-                  className="text-muted-foreground hover:text-destructive"
-                  onClick={() => removeCondition(index)}
+              ) : valueInput === 'weekdays' ? (
+                <div className="flex flex-wrap gap-1">
+                  {WEEKDAY_OPTIONS.map((day) => (
+                    <Badge
+                      key={day.value}
+                      variant={listValue.includes(day.value) ? 'default' : 'outline'}
+                      className="text-xs cursor-pointer"
+                      onClick={() => toggleWeekday(day.value)}
+                    >
+                      {day.label.slice(0, 3)}
+                    </Badge>
+                  ))}
+                </div>
+              ) : valueInput === 'project' ? (
+                <Select
+                  value={textValue || undefined}
+                  onValueChange={(projectId) => updateCondition({ value: projectId })}
                 >
-                  <X className="h-4 w-4" />
-                </Button>
-              </div>
-            </CardContent>
-          </Card>
-        ))}
-      </div>
-
-      {/* Add Condition Button */}
-      <Button
-        type="button"
-        variant="outline"
-        onClick={addCondition}
-        className="w-full"
-      >
-        <Plus className="mr-2 h-4 w-4" />
-        Add Condition
-      </Button>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select project" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {projects.map((project) => (
+                      <SelectItem key={project.id} value={project.id}>
+                        {project.project_name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : valueInput === 'number' ? (
+                <Input
+                  type="number"
+                  min={0}
+                  placeholder={condition.field === 'duration_minutes' ? 'Minutes' : 'Attendees'}
+                  value={textValue}
+                  onChange={(e) => updateCondition({ value: e.target.value })}
+                />
+              ) : valueInput === 'regex' ? (
+                <div className="space-y-1">
+                  <Input
+                    placeholder="e.g., ^(acme|globex)\b"
+                    value={textValue}
+                    onChange={(e) => updateCondition({ value: e.target.value })}
+                    className={cn('font-mono', regexError && 'border-destructive')}
+                  />
+                  {regexError && <p className="text-xs text-destructive">{regexError}</p>}
+                </div>
+              ) : (
+                <Input
+                  placeholder={
+                    condition.field === 'organizer'
+                      ? 'user@domain.com'
+                      : condition.field === 'all_attendees_domain'
+                      ? 'egen.com'
+                      : condition.operator === 'contains_any'
+                      ? 'Comma-separated values'
+                      : 'Enter text to match...'
+                  }
+                  value={textValue}
+                  onChange={(e) => updateCondition({ value: e.target.value })}
+                />
+              )}
+            </div>
+          </div>
 
-      {/* Preview */}
-      {value.rules.length > 0 && (
-        <div className="p-3 rounded-md bg-muted/50 border">
-          <Label className="text-xs text-muted-foreground block mb-2">Rule Preview</Label>
-          <div className="text-sm">{renderConditionPreview()}</div>
+          {/* Remove Button */}
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="text-muted-foreground hover:text-destructive"
+            onClick={onRemove}
+          >
+            <X className="h-4 w-4" />
+          </Button>
         </div>
-      )}
-    </div>
+      </CardContent>
+    </Card>
   );
 }
@@ -0,0 +1,165 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useQuery } from '@tanstack/react-query';
+import { ClassificationRule, Client, Project, getNotes } from '@/lib/firestore';
+import { RuleFinding, RuleFindingKind, analyzeRules } from '@/lib/rule-analyzer';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Loader2, ScanSearch, AlertCircle, AlertTriangle, Info, Edit } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface RuleAnalyzerPanelProps {
+  rules: ClassificationRule[];
+  clients: Client[];
+  projects: Project[];
+  onEditRule: (rule: ClassificationRule) => void;
+}
+
+// How many of the most recent notes the analyzer replays
+const ANALYZER_NOTE_LIMIT = 200;
+
+const KIND_LABELS: Record<RuleFindingKind, string> = {
+  conflict: 'Conflict',
+  overlap: 'Overlap',
+  shadowed: 'Shadowed',
+  never_matched: 'Never matched',
+  inactive_target: 'Inactive target',
+};
+
+export function RuleAnalyzerPanel({ rules, clients, projects, onEditRule }: RuleAnalyzerPanelProps) {
+  const [requested, setRequested] = useState(false);
+
+  const { data: notes, isFetching, refetch } = useQuery({
+    queryKey: ['notes', { limit: ANALYZER_NOTE_LIMIT }],
+    queryFn: () => getNotes({ limit: ANALYZER_NOTE_LIMIT }),
+    enabled: requested,
+  });
+
+  const analysis = useMemo(
+    () => (notes ? analyzeRules(rules, notes, { clients, projects }) : null),
+    [rules, notes, clients, projects]
+  );
+
+  const handleAnalyze = () => {
+    if (requested) {
+      refetch();
+    } else {
+      setRequested(true);
+    }
+  };
+
+  const countByKind = (kind: RuleFindingKind) =>
+    analysis?.findings.filter((f) => f.kind === kind).length || 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ScanSearch className="h-5 w-5" />
+          Rule Analyzer
+        </CardTitle>
+        <CardDescription>
+          Evaluate every active rule against the {ANALYZER_NOTE_LIMIT} most recent notes to find
+          overlapping and conflicting rules, rules that can never win, rules that never match, and
+          rules pointing at inactive clients or completed projects.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Button type="button" onClick={handleAnalyze} disabled={isFetching}>
+          {isFetching && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {isFetching ? 'Analyzing...' : analysis ? 'Analyze Again' : 'Analyze Rules'}
+        </Button>
+
+        {analysis && (
+          <>
+            {/* Summary */}
+            <div className="flex flex-wrap gap-2 text-sm">
+              <span className="text-muted-foreground">
+                {analysis.rulesAnalyzed} active rules, {analysis.notesAnalyzed} notes:
+              </span>
+              {(Object.keys(KIND_LABELS) as RuleFindingKind[]).map((kind) => (
+                <Badge key={kind} variant={countByKind(kind) > 0 ? 'secondary' : 'outline'}>
+                  {countByKind(kind)} {KIND_LABELS[kind].toLowerCase()}
+                </Badge>
+              ))}
+            </div>
+
+            {/* Findings */}
+            {analysis.findings.length === 0 ? (
+              <div className="text-center text-muted-foreground py-4">
+                No problems found
+              </div>
+            ) : (
+              <div className="space-y-2 max-h-[600px] overflow-y-auto">
+                {analysis.findings.map((finding, index) => (
+                  <FindingRow key={index} finding={finding} onEditRule={onEditRule} />
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+interface FindingRowProps {
+  finding: RuleFinding;
+  onEditRule: (rule: ClassificationRule) => void;
+}
+
+function FindingRow({ finding, onEditRule }: FindingRowProps) {
+  const Icon =
+    finding.severity === 'error' ? AlertCircle : finding.severity === 'warning' ? AlertTriangle : Info;
+
+  return (
+    <div
+      className={cn(
+        'flex items-start gap-3 p-3 rounded-lg border',
+        finding.severity === 'error' && 'border-destructive/50 bg-destructive/5',
+        finding.severity === 'warning' && 'border-amber-200 bg-amber-50 dark:border-amber-800 dark:bg-amber-950/20'
+      )}
+    >
+      <Icon
+        className={cn(
+          'mt-0.5 h-4 w-4 shrink-0',
+          finding.severity === 'error' && 'text-destructive',
+          finding.severity === 'warning' && 'text-amber-600',
+          finding.severity === 'info' && 'text-muted-foreground'
+        )}
+      />
+      <div className="flex-1 min-w-0 space-y-1">
+        <div className="flex items-center gap-2">
+          <Badge variant="outline" className="text-xs">
+            {KIND_LABELS[finding.kind]}
+          </Badge>
+          <span className="text-sm">{finding.message}</span>
+        </div>
+        <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs">
+          {[finding.rule, ...finding.relatedRules].map((rule) => (
+            <Link key={rule.id} href={`/rules/${rule.id}`} className="text-primary hover:underline">
+              {rule.name} (priority {rule.priority})
+            </Link>
+          ))}
+        </div>
+      </div>
+      <div className="flex shrink-0 gap-1">
+        {[finding.rule, ...finding.relatedRules].slice(0, 2).map((rule, index) => (
+          <Button
+            key={rule.id}
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onEditRule(rule)}
+          >
+            <Edit className="mr-1 h-3 w-3" />
+            {index === 0 ? 'Edit' : 'Edit other'}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  ClassificationRule,
+  Client,
+  Project,
+  RuleApplyJob,
+  RuleApplyJobStatus,
+  canUndoRuleApplyJob,
+  getRuleApplyJobs,
+  undoRuleApplyJob,
+} from '@/lib/firestore';
+import { useAuth } from '@/components/auth/auth-provider';
+import { formatDateTime, formatRelativeTime } from '@/lib/date-utils';
+import { RuleApplyModal } from './rule-apply-modal';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Loader2, ListChecks, Undo2, User, Wand2 } from 'lucide-react';
+
+interface RuleApplyJobsProps {
+  rule: ClassificationRule;
+  clients: Client[];
+  projects: Project[];
+}
+
+const STATUS_LABELS: Record<RuleApplyJobStatus, string> = {
+  running: 'Running',
+  completed: 'Applied',
+  failed: 'Failed',
+  undone: 'Undone',
+};
+
+export function RuleApplyJobs({ rule, clients, projects }: RuleApplyJobsProps) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [isApplyOpen, setIsApplyOpen] = useState(false);
+  const [undoTarget, setUndoTarget] = useState<RuleApplyJob | null>(null);
+
+  const { data: jobs = [], isLoading } = useQuery({
+    queryKey: ['ruleApplyJobs', rule.id],
+    queryFn: () => getRuleApplyJobs(rule.id),
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['ruleApplyJobs', rule.id] });
+    queryClient.invalidateQueries({ queryKey: ['rule', rule.id] });
+    queryClient.invalidateQueries({ queryKey: ['notes'] });
+  };
+
+  const undoMutation = useMutation({
+    mutationFn: (jobId: string) => undoRuleApplyJob(rule.id, jobId, user?.email || 'unknown'),
+    onSuccess: () => {
+      invalidate();
+      setUndoTarget(null);
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <ListChecks className="h-5 w-5" />
+              Apply to Existing Notes
+            </CardTitle>
+            <CardDescription>
+              Rules only classify new meetings. Apply this rule to notes that already exist, then
+              undo a run as one batch if it was a mistake.
+            </CardDescription>
+          </div>
+          <Button onClick={() => setIsApplyOpen(true)}>
+            <Wand2 className="mr-2 h-4 w-4" />
+            Apply to Existing Notes
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : jobs.length === 0 ? (
+          <p className="text-sm text-muted-foreground">This rule has not been applied to existing notes.</p>
+        ) : (
+          jobs.map((job) => (
+            <div key={job.id} className="flex items-center gap-3 rounded-lg border p-3">
+              <div className="flex-1 space-y-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-sm font-medium">
+                    {job.applied_count} of {job.requested} note{job.requested === 1 ? '' : 's'}
+                  </span>
+                  <Badge variant={job.status === 'completed' ? 'secondary' : 'outline'}>
+                    {STATUS_LABELS[job.status] || job.status}
+                  </Badge>
+                  {job.rule_version && (
+                    <span className="text-xs text-muted-foreground">v{job.rule_version}</span>
+                  )}
+                  <span
+                    className="text-xs text-muted-foreground"
+                    title={formatDateTime(job.started_at)}
+                  >
+                    {formatRelativeTime(job.started_at)}
+                  </span>
+                </div>
+                <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                  <span className="flex items-center gap-1">
+                    <User className="h-3 w-3" />
+                    {job.started_by || 'Unknown'}
+                  </span>
+                  {job.failed.length > 0 && (
+                    <span className="text-destructive">{job.failed.length} failed</span>
+                  )}
+                  {job.error && (
+                    <span className="text-destructive">Stopped early: {job.error}</span>
+                  )}
+                  {job.status === 'undone' && (
+                    <span>
+                      Undone by {job.undone_by || 'unknown'} {formatRelativeTime(job.undone_at)}
+                      {job.undo_failed?.length
+                        ? `, ${job.undo_failed.length} note${job.undo_failed.length === 1 ? '' : 's'} had changed since and were kept`
+                        : ''}
+                    </span>
+                  )}
+                </div>
+              </div>
+              {canUndoRuleApplyJob(job) && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-8 text-xs"
+                  onClick={() => setUndoTarget(job)}
+                  disabled={undoMutation.isPending}
+                >
+                  <Undo2 className="mr-1 h-3 w-3" />
+                  Undo
+                </Button>
+              )}
+            </div>
+          ))
+        )}
+
+        {undoMutation.isError && (
+          <p className="text-sm text-destructive">
+            Failed to undo: {undoMutation.error instanceof Error
+              ? undoMutation.error.message
+              : 'Unknown error'}
+          </p>
+        )}
+      </CardContent>
+
+      <RuleApplyModal
+        rule={rule}
+        clients={clients}
+        projects={projects}
+        open={isApplyOpen}
+        onOpenChange={setIsApplyOpen}
+        onApplied={invalidate}
+      />
+
+      <AlertDialog open={!!undoTarget} onOpenChange={(open) => !open && setUndoTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Undo Apply</AlertDialogTitle>
+            <AlertDialogDescription>
+              Restore the previous classification of the {undoTarget?.applied_count} notes this run
+              changed? Notes that have been reclassified since are left as they are.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                if (undoTarget) undoMutation.mutate(undoTarget.id);
+              }}
+              disabled={undoMutation.isPending}
+            >
+              {undoMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Undo
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,298 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useQuery } from '@tanstack/react-query';
+import {
+  BulkProgress,
+  BulkWriteResult,
+  ClassificationRule,
+  Client,
+  Project,
+  applyRuleToNotes,
+  getNoteTitle,
+  getNotes,
+} from '@/lib/firestore';
+import { RuleClassification, describeClassification } from '@/lib/rule-engine';
+import { previewRuleApply } from '@/lib/rule-apply';
+import { useAuth } from '@/components/auth/auth-provider';
+import { BulkFailureList } from '@/components/notes/bulk-failure-list';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
+import { Loader2, ArrowRight, CheckCircle2, AlertCircle } from 'lucide-react';
+
+interface RuleApplyModalProps {
+  rule: ClassificationRule;
+  clients: Client[];
+  projects: Project[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onApplied: () => void;
+}
+
+export function RuleApplyModal({
+  rule,
+  clients,
+  projects,
+  open,
+  onOpenChange,
+  onApplied,
+}: RuleApplyModalProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[800px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Apply to Existing Notes</DialogTitle>
+          <DialogDescription>
+            Review every note &quot;{rule.name}&quot; would reclassify. The change is recorded as a
+            single job that can be undone from the rule page. Drive files are not moved.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Mounted only while open so each run starts with a fresh preview */}
+        {open && (
+          <RuleApplyForm
+            rule={rule}
+            clients={clients}
+            projects={projects}
+            onClose={() => onOpenChange(false)}
+            onApplied={onApplied}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface RuleApplyFormProps {
+  rule: ClassificationRule;
+  clients: Client[];
+  projects: Project[];
+  onClose: () => void;
+  onApplied: () => void;
+}
+
+function RuleApplyForm({ rule, clients, projects, onClose, onApplied }: RuleApplyFormProps) {
+  const { user } = useAuth();
+  // Explicit choices by note ID; anything else follows the default selection
+  const [selection, setSelection] = useState<Map<string, boolean>>(new Map());
+  const [applying, setApplying] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [results, setResults] = useState<BulkWriteResult | null>(null);
+
+  const { data: notes, isLoading } = useQuery({
+    queryKey: ['notes', 'history'],
+    queryFn: () => getNotes(),
+  });
+
+  const preview = useMemo(
+    () => (notes ? previewRuleApply(rule, notes, { projects }) : []),
+    [rule, notes, projects]
+  );
+
+  // Hand-confirmed classifications are left alone unless picked explicitly
+  const isSelected = (noteId: string, userConfirmed: boolean) =>
+    selection.get(noteId) ?? !userConfirmed;
+  const selectedIds = preview
+    .filter((item) => isSelected(item.note.id, item.userConfirmed))
+    .map((item) => item.note.id);
+  const allSelected = preview.length > 0 && selectedIds.length === preview.length;
+
+  const toggleNote = (noteId: string, checked: boolean) => {
+    setSelection((prev) => new Map(prev).set(noteId, checked));
+  };
+
+  const toggleAll = (checked: boolean) => {
+    setSelection(new Map(preview.map((item) => [item.note.id, checked])));
+  };
+
+  const formatClassification = (classification: RuleClassification) =>
+    describeClassification(classification, { clients, projects });
+
+  const runApply = async (noteIds: string[], previous: BulkWriteResult | null) => {
+    if (!user?.email) return;
+
+    setApplying(true);
+    setProgress(0);
+    try {
+      const { result } = await applyRuleToNotes(
+        rule,
+        noteIds,
+        { clients, projects },
+        user.email,
+        ({ processed, total }: BulkProgress) =>
+          setProgress(total ? Math.round((processed / total) * 100) : 100)
+      );
+      setProgress(100);
+      setResults({
+        successful: [...(previous?.successful || []), ...result.successful],
+        failed: result.failed,
+      });
+      onApplied();
+    } catch (error) {
+      console.error('Failed to apply rule to notes:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      setResults({
+        successful: previous?.successful || [],
+        failed: noteIds.map((noteId) => ({ noteId, error: message })),
+      });
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const handleApply = () => runApply(selectedIds, null);
+
+  const handleRetryFailed = () => {
+    if (!results) return;
+    runApply(results.failed.map((failure) => failure.noteId), results);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (results) {
+    return (
+      <div className="py-6 space-y-4">
+        <div className="flex flex-col items-center justify-center">
+          {results.failed.length === 0 ? (
+            <CheckCircle2 className="h-12 w-12 text-green-500 mb-3" />
+          ) : (
+            <AlertCircle className="h-12 w-12 text-yellow-500 mb-3" />
+          )}
+          <p className="text-lg font-medium">
+            {results.successful.length} note{results.successful.length === 1 ? '' : 's'} reclassified
+          </p>
+          {results.failed.length > 0 && (
+            <p className="text-sm text-muted-foreground">{results.failed.length} failed.</p>
+          )}
+        </div>
+        {results.failed.length > 0 && (
+          <>
+            <BulkFailureList
+              notes={notes || []}
+              failures={results.failed}
+              onRetry={handleRetryFailed}
+              retrying={applying}
+            />
+            {applying && <Progress value={progress} />}
+          </>
+        )}
+        <Button variant="outline" className="w-full" onClick={onClose} disabled={applying}>
+          Close
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {preview.length === 0 ? (
+        <div className="py-8 text-center text-muted-foreground">
+          No existing notes would be changed by this rule.
+        </div>
+      ) : (
+        <div className="space-y-2 py-2">
+          <p className="text-sm text-muted-foreground">
+            {selectedIds.length} of {preview.length} notes selected. Notes whose classification a
+            user confirmed are not selected by default.
+          </p>
+          <div className="max-h-[50vh] overflow-y-auto rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10">
+                    <Checkbox
+                      checked={allSelected}
+                      onCheckedChange={(checked) => toggleAll(checked === true)}
+                      aria-label="Select all notes"
+                    />
+                  </TableHead>
+                  <TableHead>Note</TableHead>
+                  <TableHead>Before</TableHead>
+                  <TableHead>After</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {preview.map((item) => (
+                  <TableRow key={item.note.id}>
+                    <TableCell>
+                      <Checkbox
+                        checked={isSelected(item.note.id, item.userConfirmed)}
+                        onCheckedChange={(checked) => toggleNote(item.note.id, checked === true)}
+                        aria-label={`Select ${getNoteTitle(item.note)}`}
+                      />
+                    </TableCell>
+                    <TableCell className="max-w-[260px]">
+                      <div className="flex items-center gap-2">
+                        <Link
+                          href={`/notes/${item.note.id}`}
+                          className="truncate hover:underline"
+                          target="_blank"
+                        >
+                          {getNoteTitle(item.note)}
+                        </Link>
+                        {item.userConfirmed && (
+                          <Badge variant="outline" className="shrink-0 text-xs">
+                            Confirmed
+                          </Badge>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground">
+                      {formatClassification(item.before)}
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      <ArrowRight className="inline mr-1 h-3 w-3" />
+                      <span className="font-medium">{formatClassification(item.after)}</span>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      )}
+
+      {applying && (
+        <div className="space-y-2">
+          <Progress value={progress} />
+          <p className="text-xs text-center text-muted-foreground">Applying... {progress}%</p>
+        </div>
+      )}
+
+      <DialogFooter>
+        <Button variant="outline" onClick={onClose} disabled={applying}>
+          Cancel
+        </Button>
+        <Button onClick={handleApply} disabled={applying || selectedIds.length === 0}>
+          {applying && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Apply to {selectedIds.length} Note{selectedIds.length === 1 ? '' : 's'}
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
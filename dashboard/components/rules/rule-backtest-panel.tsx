@@ -0,0 +1,319 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useQuery } from '@tanstack/react-query';
+import {
+  ClassificationRule,
+  Client,
+  Project,
+  getClassificationFeedback,
+  getNoteTitle,
+  getNotes,
+} from '@/lib/firestore';
+import { RuleClassification, RuleStatus, describeClassification } from '@/lib/rule-engine';
+import { BacktestReport, getClassificationKey, runBacktest } from '@/lib/rule-backtest';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Loader2, History, ArrowRight } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface RuleBacktestPanelProps {
+  // Draft or saved rule to backtest; without one the whole rule set is replayed
+  rule?: ClassificationRule;
+  // Rule set to replay; without it only the rule itself can be backtested
+  rules?: ClassificationRule[];
+  clients: Client[];
+  projects: Project[];
+}
+
+type BacktestScope = 'rule' | 'ruleset';
+
+// Reclassified notes listed before the rest are summarised
+const MAX_LISTED_NOTES = 50;
+
+function formatPercent(value: number | null): string {
+  return value === null ? '—' : `${Math.round(value * 100)}%`;
+}
+
+export function RuleBacktestPanel({ rule, rules, clients, projects }: RuleBacktestPanelProps) {
+  const canReplayRuleSet = !!rules;
+  const [requested, setRequested] = useState(false);
+  const [scope, setScope] = useState<BacktestScope>(rule ? 'rule' : 'ruleset');
+  const [includeTesting, setIncludeTesting] = useState(false);
+
+  const { data: notes, isFetching: loadingNotes, refetch: refetchNotes } = useQuery({
+    queryKey: ['notes', 'history'],
+    queryFn: () => getNotes(),
+    enabled: requested,
+  });
+
+  const { data: feedback, isFetching: loadingFeedback, refetch: refetchFeedback } = useQuery({
+    queryKey: ['feedback'],
+    queryFn: () => getClassificationFeedback(),
+    enabled: requested,
+  });
+
+  const report = useMemo<BacktestReport | null>(() => {
+    if (!notes || !feedback) return null;
+
+    if (scope === 'rule' && rule) {
+      return runBacktest([rule], notes, feedback, {
+        statuses: [rule.status || 'active'],
+        context: { projects },
+      });
+    }
+
+    // Swap the draft into the rule set so it competes on priority
+    const otherRules = (rules || []).filter((r) => r.id !== rule?.id);
+    const ruleSet = rule ? [...otherRules, rule] : otherRules;
+    const statuses: RuleStatus[] = ['active'];
+    if (includeTesting) statuses.push('testing');
+    if (rule) statuses.push(rule.status || 'active');
+    return runBacktest(ruleSet, notes, feedback, { statuses, context: { projects } });
+  }, [notes, feedback, scope, rule, rules, includeTesting, projects]);
+
+  const formatClassification = (classification: RuleClassification | null): string =>
+    describeClassification(classification, { clients, projects });
+
+  const isLoading = loadingNotes || loadingFeedback;
+
+  const handleRun = () => {
+    if (requested) {
+      refetchNotes();
+      refetchFeedback();
+    } else {
+      setRequested(true);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Backtest
+        </CardTitle>
+        <CardDescription>
+          Replay {rule && scope === 'rule' ? 'this rule' : 'the rule set'} over every historical
+          note and compare with classifications users confirmed or corrected. This is a dry-run - no
+          changes will be made.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-4">
+          {rule && canReplayRuleSet && (
+            <Select value={scope} onValueChange={(value) => setScope(value as BacktestScope)}>
+              <SelectTrigger className="w-[220px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="rule">This rule only</SelectItem>
+                <SelectItem value="ruleset">Whole rule set</SelectItem>
+              </SelectContent>
+            </Select>
+          )}
+          {scope === 'ruleset' && (
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="backtestIncludeTesting"
+                checked={includeTesting}
+                onCheckedChange={(checked) => setIncludeTesting(checked === true)}
+              />
+              <Label htmlFor="backtestIncludeTesting" className="text-sm font-normal">
+                Include rules in testing
+              </Label>
+            </div>
+          )}
+          <Button type="button" onClick={handleRun} disabled={isLoading}>
+            {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {isLoading ? 'Loading history...' : report ? 'Run Again' : 'Run Backtest'}
+          </Button>
+        </div>
+
+        {report && (
+          <>
+            {/* Summary */}
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+              <Metric label="Notes replayed" value={report.totalNotes} />
+              <Metric label="With ground truth" value={report.labeledNotes} />
+              <Metric label="Matched" value={report.matchedNotes} />
+              <Metric
+                label="Precision"
+                value={formatPercent(report.precision)}
+                detail={`${report.truePositives} correct, ${report.falsePositives} wrong`}
+              />
+              <Metric
+                label="Recall"
+                value={formatPercent(report.recall)}
+                detail={`${report.falseNegatives} missed`}
+              />
+            </div>
+            {report.labeledNotes === 0 && (
+              <p className="text-xs text-muted-foreground">
+                No notes have a confirmed or corrected classification yet, so precision and recall
+                cannot be measured.
+              </p>
+            )}
+
+            {/* Newly reclassified notes */}
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">
+                Would reclassify {report.reclassified.length} note
+                {report.reclassified.length === 1 ? '' : 's'}
+              </h4>
+              {report.reclassified.length > 0 && (
+                <div className="max-h-96 overflow-y-auto rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Note</TableHead>
+                        <TableHead>Change</TableHead>
+                        {scope === 'ruleset' && <TableHead>Rule</TableHead>}
+                        <TableHead>Ground truth</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.reclassified.slice(0, MAX_LISTED_NOTES).map((result) => (
+                        <TableRow key={result.note.id}>
+                          <TableCell className="max-w-[240px] truncate">
+                            <Link href={`/notes/${result.note.id}`} className="hover:underline">
+                              {getNoteTitle(result.note)}
+                            </Link>
+                          </TableCell>
+                          <TableCell className="text-xs">
+                            <span className="text-muted-foreground">
+                              {formatClassification(result.current)}
+                            </span>
+                            <ArrowRight className="inline mx-1 h-3 w-3" />
+                            <span className="font-medium">{formatClassification(result.predicted)}</span>
+                          </TableCell>
+                          {scope === 'ruleset' && (
+                            <TableCell className="text-xs">{result.matchedRule?.name}</TableCell>
+                          )}
+                          <TableCell>
+                            {result.correct === null ? (
+                              <Badge variant="outline">Unlabeled</Badge>
+                            ) : result.correct ? (
+                              <Badge className="bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400">
+                                Correct
+                              </Badge>
+                            ) : (
+                              <Badge variant="destructive">Wrong</Badge>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+              {report.reclassified.length > MAX_LISTED_NOTES && (
+                <p className="text-xs text-muted-foreground">
+                  And {report.reclassified.length - MAX_LISTED_NOTES} more
+                </p>
+              )}
+            </div>
+
+            {/* Confusion table */}
+            {report.confusion.length > 0 && (
+              <ConfusionTable report={report} formatClassification={formatClassification} />
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function Metric({ label, value, detail }: { label: string; value: string | number; detail?: string }) {
+  return (
+    <div className="rounded-md border p-3">
+      <div className="text-xs text-muted-foreground">{label}</div>
+      <div className="text-xl font-semibold">{value}</div>
+      {detail && <div className="text-xs text-muted-foreground">{detail}</div>}
+    </div>
+  );
+}
+
+interface ConfusionTableProps {
+  report: BacktestReport;
+  formatClassification: (classification: RuleClassification | null) => string;
+}
+
+/**
+ * Ground truth (rows) against the backtest's prediction (columns)
+ */
+function ConfusionTable({ report, formatClassification }: ConfusionTableProps) {
+  const rows = new Map<string, RuleClassification>();
+  const columns = new Map<string, RuleClassification | null>();
+  const counts = new Map<string, number>();
+
+  for (const cell of report.confusion) {
+    const rowKey = getClassificationKey(cell.actual);
+    const columnKey = getClassificationKey(cell.predicted);
+    rows.set(rowKey, cell.actual);
+    columns.set(columnKey, cell.predicted);
+    counts.set(`${rowKey}>${columnKey}`, cell.count);
+  }
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-medium">Confusion by client / project</h4>
+      <div className="overflow-x-auto rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Actual \ Predicted</TableHead>
+              {[...columns].map(([key, classification]) => (
+                <TableHead key={key} className="text-center">
+                  {formatClassification(classification)}
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {[...rows].map(([rowKey, classification]) => (
+              <TableRow key={rowKey}>
+                <TableCell className="font-medium">{formatClassification(classification)}</TableCell>
+                {[...columns.keys()].map((columnKey) => {
+                  const count = counts.get(`${rowKey}>${columnKey}`) || 0;
+                  return (
+                    <TableCell
+                      key={columnKey}
+                      className={cn(
+                        'text-center',
+                        count > 0 && rowKey === columnKey && 'bg-green-50 dark:bg-green-950/20',
+                        count > 0 && rowKey !== columnKey && columnKey !== 'none' && 'bg-red-50 dark:bg-red-950/20'
+                      )}
+                    >
+                      {count || ''}
+                    </TableCell>
+                  );
+                })}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import {
   ClassificationRule,
   Client,
@@ -30,17 +30,28 @@ import { Textarea } from '@/components/ui/textarea';
 import { Slider } from '@/components/ui/slider';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Loader2, Plus, X } from 'lucide-react';
+import { Loader2, Plus, X, Trash2 } from 'lucide-react';
 import { ConditionBuilder, ConditionGroup } from './condition-builder';
+import { SampleMeetingTester } from './sample-meeting-tester';
+import { RuleBacktestPanel } from './rule-backtest-panel';
+import {
+  RuleTimeWindow,
+  WEEKDAY_OPTIONS,
+  isRuleExpired,
+  validateConditionGroup,
+  validateRuleSchedule,
+} from '@/lib/rule-engine';
 import { useAuth } from '@/components/auth/auth-provider';
 
 interface RuleFormModalProps {
   rule: ClassificationRule | null;
+  // Prefill for a new rule, e.g. from a rule suggestion
+  initialValues?: Partial<Omit<ClassificationRule, 'id'>> | null;
   clients: Client[];
   projects: Project[];
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onSuccess: () => void;
+  onSuccess: (ruleId: string) => void;
 }
 
 const CLASSIFICATION_TYPES = [
@@ -60,6 +71,7 @@ const INTERNAL_TEAMS = [
 
 export function RuleFormModal({
   rule,
+  initialValues,
   clients,
   projects,
   open,
@@ -91,6 +103,11 @@ export function RuleFormModal({
   const [newTag, setNewTag] = useState('');
   const [folderPath, setFolderPath] = useState('');
 
+  // Schedule state
+  const [activeFrom, setActiveFrom] = useState('');
+  const [activeUntil, setActiveUntil] = useState('');
+  const [activeWindows, setActiveWindows] = useState<RuleTimeWindow[]>([]);
+
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -110,24 +127,64 @@ export function RuleFormModal({
       setShareWith(rule.actions?.share_with || []);
       setAddTags(rule.actions?.add_tags || []);
       setFolderPath(rule.actions?.folder_path || '');
+      setActiveFrom(rule.active_from || '');
+      setActiveUntil(rule.active_until || '');
+      setActiveWindows(rule.active_windows || []);
     } else if (!rule && open) {
       // Reset form for new rule
-      setName('');
-      setDescription('');
-      setPriority(50);
-      setStatus('disabled');
-      setConfidenceBoost(0.1);
-      setConditions({ operator: 'AND', rules: [] });
-      setClassifyAs('');
-      setClientId('');
-      setProjectId('');
-      setTeam('');
-      setShareWith([]);
-      setAddTags([]);
-      setFolderPath('');
+      setName(initialValues?.name || '');
+      setDescription(initialValues?.description || '');
+      setPriority(initialValues?.priority || 50);
+      setStatus(initialValues?.status || 'disabled');
+      setConfidenceBoost(initialValues?.confidence_boost || 0.1);
+      setConditions(initialValues?.conditions || { operator: 'AND', rules: [] });
+      setClassifyAs(initialValues?.actions?.classify_as || '');
+      setClientId(initialValues?.actions?.client_id || '');
+      setProjectId(initialValues?.actions?.project_id || '');
+      setTeam(initialValues?.actions?.team || '');
+      setShareWith(initialValues?.actions?.share_with || []);
+      setAddTags(initialValues?.actions?.add_tags || []);
+      setFolderPath(initialValues?.actions?.folder_path || '');
+      setActiveFrom(initialValues?.active_from || '');
+      setActiveUntil(initialValues?.active_until || '');
+      setActiveWindows(initialValues?.active_windows || []);
     }
     setError(null);
-  }, [rule, open]);
+  }, [rule, initialValues, open]);
+
+  // The rule as currently edited, for the Test tab
+  const draftRule = useMemo<ClassificationRule>(
+    () => ({
+      id: rule?.id || 'draft',
+      name,
+      priority,
+      status,
+      confidence_boost: confidenceBoost,
+      conditions,
+      actions: {
+        classify_as: classifyAs || undefined,
+        client_id: clientId || undefined,
+        project_id: projectId || undefined,
+      },
+      active_from: activeFrom || null,
+      active_until: activeUntil || null,
+      active_windows: activeWindows,
+    }),
+    [
+      rule?.id,
+      name,
+      priority,
+      status,
+      confidenceBoost,
+      conditions,
+      classifyAs,
+      clientId,
+      projectId,
+      activeFrom,
+      activeUntil,
+      activeWindows,
+    ]
+  );
 
   // Filter projects by client
   const filteredProjects = clientId
@@ -164,28 +221,51 @@ export function RuleFormModal({
     setAddTags(addTags.filter((t) => t !== tag));
   };
 
+  const handleAddWindow = () => {
+    setActiveWindows([...activeWindows, { weekdays: [], start_time: '09:00', end_time: '17:00' }]);
+  };
+
+  const handleUpdateWindow = (index: number, updates: Partial<RuleTimeWindow>) => {
+    setActiveWindows(activeWindows.map((w, i) => (i === index ? { ...w, ...updates } : w)));
+  };
+
+  const handleToggleWindowDay = (index: number, day: string) => {
+    const weekdays = activeWindows[index].weekdays || [];
+    handleUpdateWindow(index, {
+      weekdays: weekdays.includes(day) ? weekdays.filter((d) => d !== day) : [...weekdays, day],
+    });
+  };
+
+  const handleRemoveWindow = (index: number) => {
+    setActiveWindows(activeWindows.filter((_, i) => i !== index));
+  };
+
   const handleSave = async () => {
     if (!name.trim()) {
       setError('Rule name is required');
       return;
     }
 
-    if (conditions.rules.length === 0) {
-      setError('At least one condition is required');
+    const conditionError = validateConditionGroup(conditions);
+    if (conditionError) {
+      setError(conditionError);
       return;
     }
 
-    // Validate conditions have values
-    for (const condition of conditions.rules) {
-      if (Array.isArray(condition.value)) {
-        if (condition.value.length === 0) {
-          setError('All conditions must have a value');
-          return;
-        }
-      } else if (!condition.value?.trim()) {
-        setError('All conditions must have a value');
-        return;
-      }
+    const schedule = {
+      active_from: activeFrom || null,
+      active_until: activeUntil || null,
+      active_windows: activeWindows.length > 0 ? activeWindows : null,
+    };
+    const scheduleError = validateRuleSchedule(schedule);
+    if (scheduleError) {
+      setError(scheduleError);
+      return;
+    }
+    const expired = isRuleExpired(schedule);
+    if (expired && status !== 'disabled') {
+      setError('Active until has passed. Move it later or disable the rule.');
+      return;
     }
 
     setSaving(true);
@@ -208,16 +288,21 @@ export function RuleFormModal({
           add_tags: addTags.length > 0 ? addTags : undefined,
           folder_path: folderPath || undefined,
         },
+        ...schedule,
+        // Editing the dates of an expired rule brings it back
+        ...(rule?.expired_at && !expired ? { expired_at: null } : {}),
         created_by: user?.email || undefined,
       };
 
+      let ruleId: string;
       if (isEditing && rule) {
-        await updateRule(rule.id, ruleData);
+        await updateRule(rule.id, ruleData, user?.email || undefined);
+        ruleId = rule.id;
       } else {
-        await createRule(ruleData as Omit<ClassificationRule, 'id'>);
+        ruleId = await createRule(ruleData as Omit<ClassificationRule, 'id'>);
       }
 
-      onSuccess();
+      onSuccess(ruleId);
       onOpenChange(false);
     } catch (err) {
       console.error('Failed to save rule:', err);
@@ -240,10 +325,12 @@ export function RuleFormModal({
         </DialogHeader>
 
         <Tabs defaultValue="basics" className="w-full">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-5">
             <TabsTrigger value="basics">Basics</TabsTrigger>
             <TabsTrigger value="conditions">Conditions</TabsTrigger>
+            <TabsTrigger value="schedule">Schedule</TabsTrigger>
             <TabsTrigger value="actions">Actions</TabsTrigger>
+            <TabsTrigger value="test">Test</TabsTrigger>
           </TabsList>
 
           {/* Basics Tab */}
@@ -324,7 +411,103 @@ export function RuleFormModal({
 
           {/* Conditions Tab */}
           <TabsContent value="conditions" className="mt-4">
-            <ConditionBuilder value={conditions} onChange={setConditions} />
+            <ConditionBuilder value={conditions} onChange={setConditions} projects={projects} />
+          </TabsContent>
+
+          {/* Schedule Tab */}
+          <TabsContent value="schedule" className="space-y-4 mt-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="activeFrom">Active From</Label>
+                <Input
+                  id="activeFrom"
+                  type="date"
+                  value={activeFrom}
+                  onChange={(e) => setActiveFrom(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="activeUntil">Active Until</Label>
+                <Input
+                  id="activeUntil"
+                  type="date"
+                  value={activeUntil}
+                  min={activeFrom || undefined}
+                  onChange={(e) => setActiveUntil(e.target.value)}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Both dates are inclusive and compared with the meeting date. Once the active-until
+              date passes, the rule is disabled automatically.
+            </p>
+            {rule?.expired_at && (
+              <p className="text-xs text-orange-600">
+                This rule was disabled when its active-until date passed.
+              </p>
+            )}
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Time Windows</Label>
+                <Button type="button" variant="outline" size="sm" onClick={handleAddWindow}>
+                  <Plus className="mr-1 h-3 w-3" />
+                  Add Window
+                </Button>
+              </div>
+              {activeWindows.length === 0 ? (
+                <p className="text-xs text-muted-foreground">
+                  No windows: the rule applies to meetings at any time of the week.
+                </p>
+              ) : (
+                <>
+                  <p className="text-xs text-muted-foreground">
+                    The rule applies when the meeting starts inside any window. No days selected
+                    means every day. Times are in the meeting&apos;s own timezone when the calendar
+                    gives one, and in UTC otherwise.
+                  </p>
+                  {activeWindows.map((window, index) => (
+                    <div key={index} className="flex items-center gap-3 rounded-md border p-3">
+                      <div className="flex flex-1 flex-wrap gap-1">
+                        {WEEKDAY_OPTIONS.map((day) => (
+                          <Badge
+                            key={day.value}
+                            variant={window.weekdays?.includes(day.value) ? 'default' : 'outline'}
+                            className="text-xs cursor-pointer"
+                            onClick={() => handleToggleWindowDay(index, day.value)}
+                          >
+                            {day.label.slice(0, 3)}
+                          </Badge>
+                        ))}
+                      </div>
+                      <Input
+                        type="time"
+                        className="w-[110px]"
+                        aria-label="Window start"
+                        value={window.start_time || ''}
+                        onChange={(e) => handleUpdateWindow(index, { start_time: e.target.value || null })}
+                      />
+                      <span className="text-xs text-muted-foreground">to</span>
+                      <Input
+                        type="time"
+                        className="w-[110px]"
+                        aria-label="Window end"
+                        value={window.end_time || ''}
+                        onChange={(e) => handleUpdateWindow(index, { end_time: e.target.value || null })}
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleRemoveWindow(index)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </>
+              )}
+            </div>
           </TabsContent>
 
           {/* Actions Tab */}
@@ -496,6 +679,12 @@ export function RuleFormModal({
               </p>
             </div>
           </TabsContent>
+
+          {/* Test Tab */}
+          <TabsContent value="test" className="mt-4 space-y-4">
+            <SampleMeetingTester rule={draftRule} projects={projects} />
+            <RuleBacktestPanel rule={draftRule} clients={clients} projects={projects} />
+          </TabsContent>
         </Tabs>
 
         {error && (
@@ -0,0 +1,359 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import {
+  ClassificationRule,
+  Client,
+  Project,
+  createRule,
+  updateRule,
+} from '@/lib/firestore';
+import {
+  RuleExportDocument,
+  RuleImportAction,
+  RuleImportItem,
+  parseRuleExport,
+  planRuleImport,
+} from '@/lib/rule-transfer';
+import { describeConditionGroup } from '@/lib/rule-engine';
+import { formatDateTime } from '@/lib/date-utils';
+import { useAuth } from '@/components/auth/auth-provider';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Loader2, AlertCircle, CheckCircle2 } from 'lucide-react';
+
+interface RuleImportModalProps {
+  rules: ClassificationRule[];
+  clients: Client[];
+  projects: Project[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: () => void;
+}
+
+const ACTION_LABELS: Record<RuleImportAction, string> = {
+  create: 'Create',
+  update: 'Update',
+  unchanged: 'Unchanged',
+  conflict: 'Conflict',
+};
+
+const ACTION_VARIANTS: Record<RuleImportAction, 'default' | 'secondary' | 'outline' | 'destructive'> = {
+  create: 'default',
+  update: 'secondary',
+  unchanged: 'outline',
+  conflict: 'destructive',
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  name: 'Name',
+  description: 'Description',
+  priority: 'Priority',
+  status: 'Status',
+  confidence_boost: 'Confidence boost',
+  conditions: 'Conditions',
+  actions: 'Actions',
+};
+
+export function RuleImportModal({
+  rules,
+  clients,
+  projects,
+  open,
+  onOpenChange,
+  onImported,
+}: RuleImportModalProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[800px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Rules</DialogTitle>
+          <DialogDescription>
+            Load a rule export from another workspace. Clients and projects are matched by ID,
+            then by name, and nothing is saved until you review the changes.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Mounted only while open so each import starts from a clean slate */}
+        {open && (
+          <RuleImportForm
+            rules={rules}
+            clients={clients}
+            projects={projects}
+            onClose={() => onOpenChange(false)}
+            onImported={onImported}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface RuleImportFormProps {
+  rules: ClassificationRule[];
+  clients: Client[];
+  projects: Project[];
+  onClose: () => void;
+  onImported: () => void;
+}
+
+interface ImportResults {
+  created: number;
+  updated: number;
+  failed: { name: string; error: string }[];
+}
+
+function RuleImportForm({ rules, clients, projects, onClose, onImported }: RuleImportFormProps) {
+  const { user } = useAuth();
+  const [importDoc, setImportDoc] = useState<RuleExportDocument | null>(null);
+  const [fileErrors, setFileErrors] = useState<string[]>([]);
+  const [applying, setApplying] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [results, setResults] = useState<ImportResults | null>(null);
+
+  const plan = useMemo(
+    () => (importDoc ? planRuleImport(importDoc, rules, { clients, projects }) : []),
+    [importDoc, rules, clients, projects]
+  );
+
+  const counts = plan.reduce(
+    (acc, item) => ({ ...acc, [item.action]: acc[item.action] + 1 }),
+    { create: 0, update: 0, unchanged: 0, conflict: 0 } as Record<RuleImportAction, number>
+  );
+  const toApply = plan.filter((item) => item.action === 'create' || item.action === 'update');
+
+  const handleFileChange = async (file: File | undefined) => {
+    setImportDoc(null);
+    setFileErrors([]);
+    if (!file) return;
+
+    try {
+      const { document, errors } = parseRuleExport(await file.text());
+      setImportDoc(document);
+      setFileErrors(errors);
+    } catch (error) {
+      console.error('Failed to read rule export:', error);
+      setFileErrors(['Could not read the file']);
+    }
+  };
+
+  const formatValue = (field: string, value: unknown) => {
+    if (value === null || value === undefined || value === '') return 'none';
+    if (field === 'conditions') return describeConditionGroup(value as ClassificationRule['conditions']);
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+  };
+
+  const handleApply = async () => {
+    if (!user?.email) return;
+
+    setApplying(true);
+    setProgress(0);
+    const outcome: ImportResults = { created: 0, updated: 0, failed: [] };
+
+    for (const [index, item] of toApply.entries()) {
+      try {
+        if (item.action === 'update' && item.existing) {
+          await updateRule(item.existing.id, item.rule, user.email);
+          outcome.updated++;
+        } else {
+          await createRule({ ...item.rule, created_by: user.email });
+          outcome.created++;
+        }
+      } catch (error) {
+        console.error(`Failed to import rule ${item.rule.name}:`, error);
+        outcome.failed.push({
+          name: item.rule.name,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+      setProgress(Math.round(((index + 1) / toApply.length) * 100));
+    }
+
+    setResults(outcome);
+    setApplying(false);
+    onImported();
+  };
+
+  if (results) {
+    return (
+      <div className="py-6 space-y-4">
+        <div className="flex flex-col items-center justify-center">
+          {results.failed.length === 0 ? (
+            <CheckCircle2 className="h-12 w-12 text-green-500 mb-3" />
+          ) : (
+            <AlertCircle className="h-12 w-12 text-yellow-500 mb-3" />
+          )}
+          <p className="text-lg font-medium">
+            {results.created} created, {results.updated} updated
+          </p>
+          {results.failed.length > 0 && (
+            <p className="text-sm text-muted-foreground">{results.failed.length} failed.</p>
+          )}
+        </div>
+        {results.failed.length > 0 && (
+          <ul className="space-y-1 rounded-md border p-3 text-sm">
+            {results.failed.map((failure) => (
+              <li key={failure.name}>
+                <span className="font-medium">{failure.name}</span>
+                <span className="text-destructive"> {failure.error}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+        <Button variant="outline" className="w-full" onClick={onClose}>
+          Close
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="space-y-4 py-2">
+        <div className="space-y-2">
+          <Label htmlFor="rule-import-file">Export file</Label>
+          <Input
+            id="rule-import-file"
+            type="file"
+            accept="application/json,.json"
+            onChange={(e) => handleFileChange(e.target.files?.[0])}
+            disabled={applying}
+          />
+        </div>
+
+        {fileErrors.length > 0 && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              <p>This file cannot be imported:</p>
+              <ul className="list-disc pl-4">
+                {fileErrors.map((error) => (
+                  <li key={error}>{error}</li>
+                ))}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {importDoc && (
+          <div className="space-y-2">
+            <p className="text-sm text-muted-foreground">
+              {importDoc.rules.length} rule{importDoc.rules.length === 1 ? '' : 's'} exported
+              {importDoc.exported_by ? ` by ${importDoc.exported_by}` : ''} on{' '}
+              {formatDateTime(importDoc.exported_at)}.{' '}
+              {counts.create} to create, {counts.update} to update, {counts.unchanged} unchanged
+              {counts.conflict > 0 ? `, ${counts.conflict} with conflicts that will be skipped` : ''}.
+            </p>
+            <div className="max-h-[50vh] overflow-y-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Rule</TableHead>
+                    <TableHead className="w-[110px]">Action</TableHead>
+                    <TableHead>Details</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {plan.map((item, index) => (
+                    <ImportPlanRow
+                      key={`${item.source.id || item.source.name}-${index}`}
+                      item={item}
+                      formatValue={formatValue}
+                    />
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+
+        {applying && (
+          <div className="space-y-2">
+            <Progress value={progress} />
+            <p className="text-xs text-center text-muted-foreground">Importing... {progress}%</p>
+          </div>
+        )}
+      </div>
+
+      <DialogFooter>
+        <Button variant="outline" onClick={onClose} disabled={applying}>
+          Cancel
+        </Button>
+        <Button onClick={handleApply} disabled={applying || toApply.length === 0}>
+          {applying && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Import {toApply.length} Rule{toApply.length === 1 ? '' : 's'}
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
+
+function ImportPlanRow({
+  item,
+  formatValue,
+}: {
+  item: RuleImportItem;
+  formatValue: (field: string, value: unknown) => string;
+}) {
+  return (
+    <TableRow>
+      <TableCell className="max-w-[200px] align-top">
+        <div className="truncate font-medium" title={item.rule.name}>
+          {item.rule.name}
+        </div>
+        {item.existing && item.existing.name !== item.rule.name && (
+          <div className="truncate text-xs text-muted-foreground">was {item.existing.name}</div>
+        )}
+      </TableCell>
+      <TableCell className="align-top">
+        <Badge variant={ACTION_VARIANTS[item.action]}>{ACTION_LABELS[item.action]}</Badge>
+      </TableCell>
+      <TableCell className="text-xs">
+        {item.action === 'conflict' ? (
+          <ul className="space-y-1 text-destructive">
+            {item.problems.map((problem) => (
+              <li key={problem}>{problem}</li>
+            ))}
+          </ul>
+        ) : item.action === 'create' ? (
+          <span className="text-muted-foreground">{describeConditionGroup(item.rule.conditions)}</span>
+        ) : item.action === 'unchanged' ? (
+          <span className="text-muted-foreground">Matches the existing rule</span>
+        ) : (
+          <ul className="space-y-1">
+            {item.changes.map((change) => (
+              <li key={change.field} className="break-words">
+                <span className="font-medium">{FIELD_LABELS[change.field] || change.field}:</span>{' '}
+                <span className="text-muted-foreground line-through">
+                  {formatValue(change.field, change.before)}
+                </span>{' '}
+                {formatValue(change.field, change.after)}
+              </li>
+            ))}
+          </ul>
+        )}
+      </TableCell>
+    </TableRow>
+  );
+}
@@ -0,0 +1,158 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { ClassificationRule, Client, Project, getRuleShadowLog } from '@/lib/firestore';
+import { RuleClassification, describeClassification } from '@/lib/rule-engine';
+import { formatDateTime, formatRelativeTime } from '@/lib/date-utils';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Loader2, Eye, Play, ArrowRight } from 'lucide-react';
+
+interface RuleShadowReportProps {
+  rule: ClassificationRule;
+  clients: Client[];
+  projects: Project[];
+  onPromote: () => void;
+}
+
+// Disagreements listed before the rest are summarised
+const MAX_LISTED_DISAGREEMENTS = 20;
+
+export function RuleShadowReport({ rule, clients, projects, onPromote }: RuleShadowReportProps) {
+  const { data: log = [], isLoading } = useQuery({
+    queryKey: ['ruleShadowLog', rule.id],
+    queryFn: () => getRuleShadowLog(rule.id),
+  });
+
+  // Only results for the current version count; editing the rule starts a fresh report
+  const entries = useMemo(
+    () => (rule.version ? log.filter((entry) => entry.rule_version === rule.version) : log),
+    [log, rule.version]
+  );
+  const agreed = entries.filter((entry) => entry.agrees).length;
+  const disagreements = entries.filter((entry) => !entry.agrees);
+  const agreement = entries.length > 0 ? agreed / entries.length : null;
+
+  const formatClassification = (classification: RuleClassification): string =>
+    describeClassification(classification, { clients, projects });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <Eye className="h-5 w-5" />
+              Shadow Mode
+            </CardTitle>
+            <CardDescription>
+              While in testing, this rule runs alongside live classification without changing any
+              notes. Each meeting it matches is logged with what it would have done and what was
+              actually classified.
+              {rule.version ? ` Showing results for version ${rule.version}.` : ''}
+            </CardDescription>
+          </div>
+          {rule.status === 'testing' && (
+            <Button onClick={onPromote} disabled={entries.length === 0}>
+              <Play className="mr-2 h-4 w-4" />
+              Promote to Active
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            This rule has not matched any meetings since it was put in testing.
+          </p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <Metric label="Meetings matched" value={entries.length} />
+              <Metric label="Agreed" value={agreed} />
+              <Metric label="Disagreed" value={disagreements.length} />
+              <Metric
+                label="Agreement"
+                value={agreement === null ? '—' : `${Math.round(agreement * 100)}%`}
+              />
+            </div>
+
+            {disagreements.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Disagreements</h4>
+                <div className="max-h-96 overflow-y-auto rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Meeting</TableHead>
+                        <TableHead>Actual</TableHead>
+                        <TableHead>This rule</TableHead>
+                        <TableHead>When</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {disagreements.slice(0, MAX_LISTED_DISAGREEMENTS).map((entry) => (
+                        <TableRow key={entry.id}>
+                          <TableCell className="max-w-[240px] truncate">
+                            {entry.meeting_title || 'Untitled meeting'}
+                          </TableCell>
+                          <TableCell className="text-xs text-muted-foreground">
+                            {formatClassification(entry.actual)}
+                          </TableCell>
+                          <TableCell className="text-xs">
+                            <ArrowRight className="inline mr-1 h-3 w-3" />
+                            <span className="font-medium">{formatClassification(entry.predicted)}</span>
+                          </TableCell>
+                          <TableCell
+                            className="text-xs text-muted-foreground"
+                            title={formatDateTime(entry.created_at)}
+                          >
+                            {formatRelativeTime(entry.created_at)}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+                {disagreements.length > MAX_LISTED_DISAGREEMENTS && (
+                  <p className="text-xs text-muted-foreground">
+                    And {disagreements.length - MAX_LISTED_DISAGREEMENTS} more
+                  </p>
+                )}
+              </div>
+            )}
+
+            {agreement === 1 && (
+              <Badge className="bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400">
+                Agreed with every live classification
+              </Badge>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function Metric({ label, value }: { label: string; value: string | number }) {
+  return (
+    <div className="rounded-md border p-3">
+      <div className="text-xs text-muted-foreground">{label}</div>
+      <div className="text-xl font-semibold">{value}</div>
+    </div>
+  );
+}
@@ -0,0 +1,284 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useQueryClient } from '@tanstack/react-query';
+import { Client, Project, RuleSuggestion, updateRuleSuggestion } from '@/lib/firestore';
+import { describeRuleConditions } from '@/lib/rule-engine';
+import { useAuth } from '@/components/auth/auth-provider';
+import { ConditionBuilder, ConditionGroup } from './condition-builder';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2, Lightbulb, Check, Edit, X, FileText } from 'lucide-react';
+
+interface RuleSuggestionsInboxProps {
+  suggestions: RuleSuggestion[];
+  isLoading: boolean;
+  clients: Client[];
+  projects: Project[];
+  onAccept: (suggestion: RuleSuggestion) => void;
+}
+
+export function RuleSuggestionsInbox({
+  suggestions,
+  isLoading,
+  clients,
+  projects,
+  onAccept,
+}: RuleSuggestionsInboxProps) {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const [editing, setEditing] = useState<RuleSuggestion | null>(null);
+  const [dismissingId, setDismissingId] = useState<string | null>(null);
+
+  const handleDismiss = async (suggestion: RuleSuggestion) => {
+    setDismissingId(suggestion.id);
+    try {
+      await updateRuleSuggestion(suggestion.id, { status: 'dismissed' }, user?.email || undefined);
+      queryClient.invalidateQueries({ queryKey: ['ruleSuggestions'] });
+    } catch (error) {
+      console.error('Failed to dismiss suggestion:', error);
+    } finally {
+      setDismissingId(null);
+    }
+  };
+
+  const getTargetLabel = (suggestion: RuleSuggestion) => {
+    const actions = suggestion.suggested_rule.actions;
+    const client = clients.find((c) => c.id === actions?.client_id);
+    const project = projects.find((p) => p.id === actions?.project_id);
+    const parts = [
+      actions?.classify_as,
+      client?.name || suggestion.target?.client_name,
+      project?.project_name || suggestion.target?.project_name,
+    ].filter(Boolean);
+    return parts.join(' / ') || 'No classification';
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (suggestions.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-12 border rounded-lg bg-muted/20">
+        <Lightbulb className="h-12 w-12 text-muted-foreground mb-4" />
+        <h3 className="text-lg font-medium mb-2">No suggestions</h3>
+        <p className="text-muted-foreground text-center max-w-sm">
+          When the same classification correction is made repeatedly, a rule will be suggested
+          here.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {suggestions.map((suggestion) => {
+        const conditions = suggestion.suggested_rule.conditions;
+        const hasConditions = !!conditions?.rules?.length;
+
+        return (
+          <Card key={suggestion.id}>
+            <CardHeader>
+              <div className="flex items-start justify-between gap-4">
+                <div className="space-y-1">
+                  <CardTitle className="text-base">{suggestion.suggested_rule.name}</CardTitle>
+                  <CardDescription>
+                    {suggestion.reason || 'Suggested from repeated corrections'} &middot; classify as{' '}
+                    <span className="font-medium text-foreground">{getTargetLabel(suggestion)}</span>
+                  </CardDescription>
+                </div>
+                <div className="flex shrink-0 gap-2">
+                  <Button size="sm" onClick={() => onAccept(suggestion)}>
+                    <Check className="mr-1 h-3 w-3" />
+                    Accept
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => setEditing(suggestion)}>
+                    <Edit className="mr-1 h-3 w-3" />
+                    Edit
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleDismiss(suggestion)}
+                    disabled={dismissingId === suggestion.id}
+                  >
+                    {dismissingId === suggestion.id ? (
+                      <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                    ) : (
+                      <X className="mr-1 h-3 w-3" />
+                    )}
+                    Dismiss
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="p-3 rounded-md bg-muted/50 border text-sm">
+                {hasConditions ? (
+                  <>Matches when {describeRuleConditions(conditions)}</>
+                ) : (
+                  <span className="text-muted-foreground">
+                    No common keywords, domains or organizer were found. Add conditions before
+                    accepting.
+                  </span>
+                )}
+              </div>
+
+              {suggestion.supporting && suggestion.supporting.length > 0 && (
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">
+                    Supporting notes ({suggestion.supporting.length})
+                  </Label>
+                  <ul className="space-y-1">
+                    {suggestion.supporting.map((entry) => (
+                      <li key={entry.feedback_id} className="flex items-center gap-2 text-sm">
+                        <FileText className="h-3 w-3 shrink-0 text-muted-foreground" />
+                        {entry.note_id ? (
+                          <Link href={`/notes/${entry.note_id}`} className="hover:underline truncate">
+                            {entry.title || 'Untitled meeting'}
+                          </Link>
+                        ) : (
+                          <span className="truncate">{entry.title || 'Untitled meeting'}</span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {suggestion.correction_count !== undefined && (
+                <Badge variant="secondary">{suggestion.correction_count} corrections</Badge>
+              )}
+            </CardContent>
+          </Card>
+        );
+      })}
+
+      <SuggestionEditModal
+        suggestion={editing}
+        projects={projects}
+        onOpenChange={(open) => !open && setEditing(null)}
+        onSuccess={() => queryClient.invalidateQueries({ queryKey: ['ruleSuggestions'] })}
+      />
+    </div>
+  );
+}
+
+interface SuggestionEditModalProps {
+  suggestion: RuleSuggestion | null;
+  projects: Project[];
+  onOpenChange: (open: boolean) => void;
+  onSuccess: () => void;
+}
+
+function SuggestionEditModal({ suggestion, projects, onOpenChange, onSuccess }: SuggestionEditModalProps) {
+  return (
+    <Dialog open={!!suggestion} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit Suggestion</DialogTitle>
+          <DialogDescription>
+            Refine the suggested rule before accepting it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {suggestion && (
+          // Keyed so the form resets whenever a different suggestion is opened
+          <SuggestionForm
+            key={suggestion.id}
+            suggestion={suggestion}
+            projects={projects}
+            onCancel={() => onOpenChange(false)}
+            onSaved={() => {
+              onSuccess();
+              onOpenChange(false);
+            }}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface SuggestionFormProps {
+  suggestion: RuleSuggestion;
+  projects: Project[];
+  onCancel: () => void;
+  onSaved: () => void;
+}
+
+function SuggestionForm({ suggestion, projects, onCancel, onSaved }: SuggestionFormProps) {
+  const [name, setName] = useState(suggestion.suggested_rule.name);
+  const [conditions, setConditions] = useState<ConditionGroup>(
+    suggestion.suggested_rule.conditions || { operator: 'OR', rules: [] }
+  );
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      setError('Rule name is required');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      await updateRuleSuggestion(suggestion.id, {
+        suggested_rule: { ...suggestion.suggested_rule, name: name.trim(), conditions },
+      });
+      onSaved();
+    } catch (err) {
+      console.error('Failed to save suggestion:', err);
+      setError('Failed to save suggestion. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="space-y-4 py-4">
+        <div className="space-y-2">
+          <Label htmlFor="suggestionName">Rule Name *</Label>
+          <Input id="suggestionName" value={name} onChange={(e) => setName(e.target.value)} />
+        </div>
+        <ConditionBuilder value={conditions} onChange={setConditions} projects={projects} />
+      </div>
+
+      {error && (
+        <div className="text-sm text-destructive p-2 rounded bg-destructive/10">
+          {error}
+        </div>
+      )}
+
+      <DialogFooter>
+        <Button variant="outline" onClick={onCancel} disabled={saving}>
+          Cancel
+        </Button>
+        <Button onClick={handleSave} disabled={saving}>
+          {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save Suggestion
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
@@ -1,7 +1,16 @@
 'use client';
 
 import { useState } from 'react';
-import { ClassificationRule, Note, getNoteTitle } from '@/lib/firestore';
+import { ClassificationRule, Note, Project, getNoteTitle } from '@/lib/firestore';
+import {
+  BASE_RULE_CONFIDENCE,
+  ConditionResult,
+  RuleContext,
+  applyConfidenceBoost,
+  evaluateRule,
+  evaluateRules,
+  noteToRuleMeeting,
+} from '@/lib/rule-engine';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -11,120 +20,55 @@ import { cn } from '@/lib/utils';
 interface RuleTestPanelProps {
   rule: ClassificationRule;
   notes: Note[];
+  // Every rule, so a match can be checked against higher-priority rules
+  rules?: ClassificationRule[];
+  // Project teams, for "organizer is in project team"
+  projects?: Project[];
 }
 
 interface TestResult {
   noteId: string;
   noteTitle: string;
   matches: boolean;
-  matchedConditions: string[];
-  failedConditions: string[];
+  conditions: ConditionResult[];
+  reason?: string;
+  // Higher-priority rule that would be applied instead of this one
+  preemptedBy: ClassificationRule | null;
 }
 
-/**
- * Simple client-side rule evaluation for testing
- * (Full evaluation happens server-side in the classify function)
- */
-function evaluateRuleAgainstNote(
+function runTest(
   rule: ClassificationRule,
-  note: Note
-): { matches: boolean; matchedConditions: string[]; failedConditions: string[] } {
-  const conditions = rule.conditions;
-  if (!conditions || !conditions.rules || conditions.rules.length === 0) {
-    return { matches: false, matchedConditions: [], failedConditions: ['No conditions defined'] };
-  }
-
-  const matchedConditions: string[] = [];
-  const failedConditions: string[] = [];
-
-  // Extract note data
-  const title = getNoteTitle(note).toLowerCase();
-  const description = (note.meeting?.description || '').toLowerCase();
-  const organizer = note.meeting?.organizer?.toLowerCase() || '';
-  const attendeeDomains = (note.meeting?.attendees || [])
-    .map((a) => a.email?.split('@')[1]?.toLowerCase())
-    .filter(Boolean);
-
-  for (const condition of conditions.rules) {
-    const { field, operator, value } = condition;
-    let matched = false;
-    let conditionDesc = '';
-
-    switch (field) {
-      case 'title':
-        conditionDesc = `Title ${operator} "${value}"`;
-        if (operator === 'contains' && typeof value === 'string') {
-          matched = title.includes(value.toLowerCase());
-        } else if (operator === 'equals' && typeof value === 'string') {
-          matched = title === value.toLowerCase();
-        } else if (operator === 'starts_with' && typeof value === 'string') {
-          matched = title.startsWith(value.toLowerCase());
-        } else if (operator === 'contains_any' && Array.isArray(value)) {
-          matched = value.some((v) => title.includes(v.toLowerCase()));
-        }
-        break;
-
-      case 'description':
-        conditionDesc = `Description ${operator} "${value}"`;
-        if (operator === 'contains' && typeof value === 'string') {
-          matched = description.includes(value.toLowerCase());
-        } else if (operator === 'equals' && typeof value === 'string') {
-          matched = description === value.toLowerCase();
-        } else if (operator === 'starts_with' && typeof value === 'string') {
-          matched = description.startsWith(value.toLowerCase());
-        }
-        break;
-
-      case 'attendee_domains':
-        conditionDesc = `Attendee domains ${operator} [${Array.isArray(value) ? value.join(', ') : value}]`;
-        if (operator === 'contains' || operator === 'intersects') {
-          const domainsToMatch = Array.isArray(value) ? value : [value];
-          matched = attendeeDomains.some((d) => domainsToMatch.includes(d));
-        }
-        break;
-
-      case 'organizer':
-        conditionDesc = `Organizer ${operator} "${value}"`;
-        if (operator === 'equals' && typeof value === 'string') {
-          matched = organizer === value.toLowerCase();
-        } else if (operator === 'ends_with' && typeof value === 'string') {
-          matched = organizer.endsWith(value.toLowerCase());
-        }
-        break;
-
-      case 'all_attendees_domain':
-        conditionDesc = `All attendees from "${value}"`;
-        if (operator === 'equals' && typeof value === 'string') {
-          matched =
-            attendeeDomains.length > 0 &&
-            attendeeDomains.every((d) => d === value.toLowerCase());
-        }
-        break;
-
-      default:
-        conditionDesc = `Unknown field: ${field}`;
-        break;
-    }
-
-    if (matched) {
-      matchedConditions.push(conditionDesc);
-    } else {
-      failedConditions.push(conditionDesc);
+  note: Note,
+  context: RuleContext,
+  rules?: ClassificationRule[]
+): TestResult {
+  const meeting = noteToRuleMeeting(note);
+  const evaluation = evaluateRule(rule, meeting, context);
+
+  let preemptedBy: ClassificationRule | null = null;
+  if (evaluation.matched && rules) {
+    // Evaluate the rule set as classify would, with this rule's current draft in place
+    const ruleSet = [...rules.filter((r) => r.id !== rule.id), rule];
+    const { matchedRule } = evaluateRules(ruleSet, meeting, {
+      statuses: ['active', rule.status || 'active'],
+      context,
+    });
+    if (matchedRule && matchedRule.id !== rule.id) {
+      preemptedBy = matchedRule;
     }
   }
 
-  // Apply AND/OR logic
-  let matches = false;
-  if (conditions.operator === 'AND') {
-    matches = failedConditions.length === 0;
-  } else {
-    matches = matchedConditions.length > 0;
-  }
-
-  return { matches, matchedConditions, failedConditions };
+  return {
+    noteId: note.id,
+    noteTitle: getNoteTitle(note),
+    matches: evaluation.matched,
+    conditions: evaluation.conditions,
+    reason: evaluation.reason,
+    preemptedBy,
+  };
 }
 
-export function RuleTestPanel({ rule, notes }: RuleTestPanelProps) {
+export function RuleTestPanel({ rule, notes, rules, projects = [] }: RuleTestPanelProps) {
   const [testing, setTesting] = useState(false);
   const [results, setResults] = useState<TestResult[]>([]);
   const [hasRun, setHasRun] = useState(false);
@@ -134,18 +78,7 @@ export function RuleTestPanel({ rule, notes }: RuleTestPanelProps) {
 
     // Simulate a short delay for UX
     setTimeout(() => {
-      const testResults = notes.slice(0, 20).map((note) => {
-        const evaluation = evaluateRuleAgainstNote(rule, note);
-        return {
-          noteId: note.id,
-          noteTitle: getNoteTitle(note),
-          matches: evaluation.matches,
-          matchedConditions: evaluation.matchedConditions,
-          failedConditions: evaluation.failedConditions,
-        };
-      });
-
-      setResults(testResults);
+      setResults(notes.slice(0, 20).map((note) => runTest(rule, note, { projects }, rules)));
       setTesting(false);
       setHasRun(true);
     }, 500);
@@ -153,6 +86,7 @@ export function RuleTestPanel({ rule, notes }: RuleTestPanelProps) {
 
   const matchCount = results.filter((r) => r.matches).length;
   const noMatchCount = results.filter((r) => !r.matches).length;
+  const preemptedCount = results.filter((r) => r.preemptedBy).length;
 
   return (
     <Card>
@@ -184,7 +118,18 @@ export function RuleTestPanel({ rule, notes }: RuleTestPanelProps) {
                 <XCircle className="h-4 w-4 text-gray-400" />
                 <span>{noMatchCount} would not match</span>
               </div>
+              {preemptedCount > 0 && (
+                <div className="flex items-center gap-2 text-sm text-amber-600">
+                  <AlertCircle className="h-4 w-4" />
+                  <span>{preemptedCount} pre-empted by higher-priority rules</span>
+                </div>
+              )}
             </div>
+            <p className="text-xs text-muted-foreground">
+              A match starts at {Math.round(applyConfidenceBoost(BASE_RULE_CONFIDENCE, rule) * 100)}%
+              confidence (+{Math.round((rule.confidence_boost || 0) * 100)}% boost) before client and
+              project matches are added.
+            </p>
 
             {/* Results List */}
             <div className="space-y-2 max-h-96 overflow-y-auto">
@@ -207,30 +152,30 @@ export function RuleTestPanel({ rule, notes }: RuleTestPanelProps) {
                         <span className="font-medium truncate">{result.noteTitle}</span>
                       </div>
 
-                      {result.matchedConditions.length > 0 && (
-                        <div className="mt-2 ml-6">
-                          <span className="text-xs text-green-600 font-medium">Matched:</span>
-                          <div className="flex flex-wrap gap-1 mt-1">
-                            {result.matchedConditions.map((c, i) => (
-                              <Badge key={i} variant="outline" className="text-xs bg-green-100 border-green-300 text-green-700">
-                                {c}
-                              </Badge>
-                            ))}
-                          </div>
-                        </div>
-                      )}
+                      <ul className="mt-2 ml-6 space-y-1">
+                        {result.conditions.map((c, i) => (
+                          <li key={i} className="flex items-start gap-2 text-xs">
+                            {c.matched ? (
+                              <CheckCircle2 className="mt-0.5 h-3 w-3 shrink-0 text-green-600" />
+                            ) : (
+                              <XCircle className="mt-0.5 h-3 w-3 shrink-0 text-gray-400" />
+                            )}
+                            <span>
+                              <span className="font-medium">{c.label}</span>
+                              <span className="text-muted-foreground"> &middot; {c.explanation}</span>
+                            </span>
+                          </li>
+                        ))}
+                        {result.reason && (
+                          <li className="text-xs text-muted-foreground">{result.reason}</li>
+                        )}
+                      </ul>
 
-                      {!result.matches && result.failedConditions.length > 0 && (
-                        <div className="mt-2 ml-6">
-                          <span className="text-xs text-gray-500 font-medium">Failed:</span>
-                          <div className="flex flex-wrap gap-1 mt-1">
-                            {result.failedConditions.map((c, i) => (
-                              <Badge key={i} variant="outline" className="text-xs">
-                                {c}
-                              </Badge>
-                            ))}
-                          </div>
-                        </div>
+                      {result.preemptedBy && (
+                        <p className="mt-2 ml-6 text-xs text-amber-600">
+                          Pre-empted by higher-priority rule &quot;{result.preemptedBy.name}&quot; (priority{' '}
+                          {result.preemptedBy.priority})
+                        </p>
                       )}
                     </div>
 
@@ -0,0 +1,261 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  ClassificationRule,
+  Client,
+  Project,
+  RuleVersion,
+  getRuleVersions,
+  rollbackRule,
+} from '@/lib/firestore';
+import {
+  RuleConditionGroup,
+  RuleTimeWindow,
+  describeRuleConditions,
+  describeTimeWindow,
+} from '@/lib/rule-engine';
+import { useAuth } from '@/components/auth/auth-provider';
+import { formatDateTime, formatRelativeTime } from '@/lib/date-utils';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { GitCommitVertical, ChevronDown, ChevronRight, RotateCcw, Loader2, User } from 'lucide-react';
+
+interface RuleVersionHistoryProps {
+  rule: ClassificationRule;
+  clients: Client[];
+  projects: Project[];
+}
+
+const ACTION_LABELS: Record<RuleVersion['action'], string> = {
+  create: 'Created',
+  update: 'Edited',
+  status: 'Status changed',
+  rollback: 'Rolled back',
+};
+
+function formatFieldName(field: string): string {
+  const words = field.replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+export function RuleVersionHistory({ rule, clients, projects }: RuleVersionHistoryProps) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [rollbackTarget, setRollbackTarget] = useState<RuleVersion | null>(null);
+
+  // Keyed on the version so the list refreshes whenever the rule is saved
+  const { data: versions = [], isLoading } = useQuery({
+    queryKey: ['ruleVersions', rule.id, rule.version ?? null],
+    queryFn: () => getRuleVersions(rule.id),
+  });
+
+  const rollbackMutation = useMutation({
+    mutationFn: (versionId: string) => rollbackRule(rule.id, versionId, user?.email || undefined),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['rule', rule.id] });
+      queryClient.invalidateQueries({ queryKey: ['ruleVersions', rule.id] });
+      queryClient.invalidateQueries({ queryKey: ['rules'] });
+      setRollbackTarget(null);
+    },
+  });
+
+  const formatValue = (field: string, value: unknown): string => {
+    if (value === null || value === undefined || value === '') return '—';
+    if (field === 'conditions') {
+      return describeRuleConditions(value as RuleConditionGroup);
+    }
+    if (field === 'active_windows' && Array.isArray(value)) {
+      return (value as RuleTimeWindow[]).map(describeTimeWindow).join(' or ') || '—';
+    }
+    if (field === 'confidence_boost' && typeof value === 'number') {
+      return `+${Math.round(value * 100)}%`;
+    }
+    if (field === 'actions' && typeof value === 'object') {
+      const actions = value as NonNullable<ClassificationRule['actions']>;
+      const parts = [
+        actions.classify_as && `classify as ${actions.classify_as}`,
+        actions.client_id &&
+          `client ${clients.find((c) => c.id === actions.client_id)?.name || actions.client_id}`,
+        actions.project_id &&
+          `project ${
+            projects.find((p) => p.id === actions.project_id)?.project_name || actions.project_id
+          }`,
+        actions.team && `team ${actions.team}`,
+        actions.share_with?.length && `share with ${actions.share_with.join(', ')}`,
+        actions.add_tags?.length && `tag ${actions.add_tags.join(', ')}`,
+        actions.folder_path && `folder ${actions.folder_path}`,
+      ].filter(Boolean);
+      return parts.join('; ') || '—';
+    }
+    return String(value);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <GitCommitVertical className="h-5 w-5" />
+          Version History
+          {versions.length > 0 && (
+            <Badge variant="outline" className="ml-2">
+              {versions.length}
+            </Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          Every save creates a new version. Rolling back restores a version&apos;s conditions,
+          actions and settings as a new version; the rule&apos;s status is not changed.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : versions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No versions recorded yet. A version is created the next time this rule is saved.
+          </p>
+        ) : (
+          versions.map((version) => {
+            const isExpanded = expandedId === version.id;
+            const isCurrent = version.version === rule.version;
+
+            return (
+              <div key={version.id} className="rounded-lg border">
+                <div className="flex items-center gap-3 p-3">
+                  <button
+                    type="button"
+                    className="flex flex-1 items-start gap-2 text-left"
+                    onClick={() => setExpandedId(isExpanded ? null : version.id)}
+                  >
+                    {isExpanded ? (
+                      <ChevronDown className="mt-0.5 h-4 w-4 shrink-0" />
+                    ) : (
+                      <ChevronRight className="mt-0.5 h-4 w-4 shrink-0" />
+                    )}
+                    <div className="space-y-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="text-sm font-medium">v{version.version}</span>
+                        <span className="text-sm">
+                          {ACTION_LABELS[version.action] || version.action}
+                          {version.restored_from ? ` to v${version.restored_from}` : ''}
+                        </span>
+                        {isCurrent && <Badge variant="secondary">Current</Badge>}
+                        <span
+                          className="text-xs text-muted-foreground"
+                          title={formatDateTime(version.changed_at)}
+                        >
+                          {formatRelativeTime(version.changed_at)}
+                        </span>
+                      </div>
+                      <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                        <span className="flex items-center gap-1">
+                          <User className="h-3 w-3" />
+                          {version.changed_by || 'System'}
+                        </span>
+                        {version.changes.length > 0 && (
+                          <span>
+                            {version.changes.map((change) => formatFieldName(change.field)).join(', ')}
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                  </button>
+                  {!isCurrent && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="h-8 text-xs"
+                      onClick={() => setRollbackTarget(version)}
+                      disabled={rollbackMutation.isPending}
+                    >
+                      <RotateCcw className="mr-1 h-3 w-3" />
+                      Roll back
+                    </Button>
+                  )}
+                </div>
+
+                {isExpanded && (
+                  <div className="space-y-2 border-t bg-muted/30 p-3">
+                    {version.changes.length === 0 ? (
+                      <div className="space-y-1 text-xs">
+                        {Object.entries(version.snapshot).map(([field, value]) => (
+                          <p key={field}>
+                            <span className="font-medium">{formatFieldName(field)}:</span>{' '}
+                            {formatValue(field, value)}
+                          </p>
+                        ))}
+                      </div>
+                    ) : (
+                      version.changes.map((change) => (
+                        <div key={change.field} className="space-y-1 text-xs">
+                          <p className="font-medium">{formatFieldName(change.field)}</p>
+                          <div className="grid gap-1 md:grid-cols-2">
+                            <div className="rounded bg-red-500/10 px-2 py-1 text-red-700 line-through dark:text-red-400">
+                              {formatValue(change.field, change.before)}
+                            </div>
+                            <div className="rounded bg-green-500/10 px-2 py-1 text-green-700 dark:text-green-400">
+                              {formatValue(change.field, change.after)}
+                            </div>
+                          </div>
+                        </div>
+                      ))
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+
+        {rollbackMutation.isError && (
+          <p className="text-sm text-destructive">
+            Failed to roll back: {rollbackMutation.error instanceof Error
+              ? rollbackMutation.error.message
+              : 'Unknown error'}
+          </p>
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!rollbackTarget} onOpenChange={(open) => !open && setRollbackTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Roll Back Rule</AlertDialogTitle>
+            <AlertDialogDescription>
+              Restore &quot;{rule.name}&quot; to version {rollbackTarget?.version}? The current
+              version stays in the history and the rollback is saved as a new version.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                if (rollbackTarget) rollbackMutation.mutate(rollbackTarget.id);
+              }}
+              disabled={rollbackMutation.isPending}
+            >
+              {rollbackMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Roll Back
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
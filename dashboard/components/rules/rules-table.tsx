@@ -2,6 +2,12 @@
 
 import { useState } from 'react';
 import { ClassificationRule, Client, Project } from '@/lib/firestore';
+import {
+  describeRuleSchedule,
+  getDaysUntilRuleExpiry,
+  isRuleExpiringSoon,
+  toUtcDateKey,
+} from '@/lib/rule-engine';
 import {
   Table,
   TableBody,
@@ -12,6 +18,7 @@ import {
 } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
 import {
   Select,
   SelectContent,
@@ -36,6 +43,9 @@ import {
   FlaskConical,
   ArrowUpDown,
   Eye,
+  Download,
+  X,
+  Clock,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
@@ -48,6 +58,7 @@ interface RulesTableProps {
   onDelete: (rule: ClassificationRule) => void;
   onToggleStatus: (rule: ClassificationRule, status: 'active' | 'disabled' | 'testing') => void;
   onViewDetails: (rule: ClassificationRule) => void;
+  onExportSelected?: (rules: ClassificationRule[]) => void;
 }
 
 type SortField = 'name' | 'priority' | 'status' | 'timesApplied' | 'lastApplied';
@@ -62,10 +73,12 @@ export function RulesTable({
   onDelete,
   onToggleStatus,
   onViewDetails,
+  onExportSelected,
 }: RulesTableProps) {
   const [sortField, setSortField] = useState<SortField>('priority');
   const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
   const [filterStatus, setFilterStatus] = useState<string>('all');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
 
   const getStatusBadge = (status?: string) => {
     const statusConfig: Record<string, { color: string; label: string }> = {
@@ -81,6 +94,39 @@ export function RulesTable({
     );
   };
 
+  // Expiry and not-yet-started indicators for rules with active dates
+  const getScheduleBadge = (rule: ClassificationRule) => {
+    const days = getDaysUntilRuleExpiry(rule);
+    const schedule = describeRuleSchedule(rule) || undefined;
+    if (days !== null && days < 0) {
+      return (
+        <Badge variant="outline" className="text-xs text-muted-foreground" title={schedule}>
+          Expired
+        </Badge>
+      );
+    }
+    if (isRuleExpiringSoon(rule)) {
+      return (
+        <Badge
+          variant="outline"
+          className="text-xs border-orange-500 text-orange-600"
+          title={schedule}
+        >
+          <Clock className="mr-1 h-3 w-3" />
+          {days === 0 ? 'Expires today' : `Expires in ${days} day${days === 1 ? '' : 's'}`}
+        </Badge>
+      );
+    }
+    if (rule.active_from && rule.active_from > toUtcDateKey(new Date())) {
+      return (
+        <Badge variant="outline" className="text-xs" title={schedule}>
+          Starts {rule.active_from}
+        </Badge>
+      );
+    }
+    return null;
+  };
+
   const formatDate = (timestamp?: any) => {
     if (!timestamp) return 'Never';
     const date = timestamp.toDate ? timestamp.toDate() : new Date(timestamp);
@@ -164,8 +210,61 @@ export function RulesTable({
       return 0;
     });
 
+  // Bulk selection handlers
+  const toggleSelectAll = () => {
+    if (selectedIds.size === filteredRules.length) {
+      setSelectedIds(new Set());
+    } else {
+      setSelectedIds(new Set(filteredRules.map((r) => r.id)));
+    }
+  };
+
+  const toggleSelectRule = (ruleId: string) => {
+    const newSelected = new Set(selectedIds);
+    if (newSelected.has(ruleId)) {
+      newSelected.delete(ruleId);
+    } else {
+      newSelected.add(ruleId);
+    }
+    setSelectedIds(newSelected);
+  };
+
+  const clearSelection = () => {
+    setSelectedIds(new Set());
+  };
+
+  const getSelectedRules = () => {
+    return filteredRules.filter((rule) => selectedIds.has(rule.id));
+  };
+
+  const isAllSelected = filteredRules.length > 0 && selectedIds.size === filteredRules.length;
+  const isSomeSelected = selectedIds.size > 0 && selectedIds.size < filteredRules.length;
+
   return (
     <div className="space-y-4">
+      {/* Bulk Actions Toolbar */}
+      {onExportSelected && selectedIds.size > 0 && (
+        <div className="flex items-center gap-3 p-3 bg-primary/10 rounded-lg border border-primary/20">
+          <div className="flex items-center gap-2">
+            <span className="text-sm font-medium">
+              {selectedIds.size} selected
+            </span>
+            <Button variant="ghost" size="sm" onClick={clearSelection}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="h-4 w-px bg-border" />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onExportSelected(getSelectedRules())}
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Export Selected
+          </Button>
+        </div>
+      )}
+
       {/* Filters */}
       <div className="flex items-center gap-4">
         <Select value={filterStatus} onValueChange={setFilterStatus}>
@@ -186,6 +285,16 @@ export function RulesTable({
         <Table>
           <TableHeader>
             <TableRow>
+              {onExportSelected && (
+                <TableHead className="w-[50px]">
+                  <Checkbox
+                    checked={isAllSelected}
+                    onCheckedChange={toggleSelectAll}
+                    aria-label="Select all rules"
+                    className={isSomeSelected ? 'data-[state=checked]:bg-primary/50' : ''}
+                  />
+                </TableHead>
+              )}
               <TableHead>
                 <Button
                   variant="ghost"
@@ -243,13 +352,25 @@ export function RulesTable({
           <TableBody>
             {filteredRules.length === 0 ? (
               <TableRow>
-                <TableCell colSpan={7} className="h-24 text-center">
+                <TableCell colSpan={onExportSelected ? 8 : 7} className="h-24 text-center">
                   No rules found.
                 </TableCell>
               </TableRow>
             ) : (
               filteredRules.map((rule) => (
-                <TableRow key={rule.id}>
+                <TableRow
+                  key={rule.id}
+                  className={cn(selectedIds.has(rule.id) && 'bg-primary/5')}
+                >
+                  {onExportSelected && (
+                    <TableCell>
+                      <Checkbox
+                        checked={selectedIds.has(rule.id)}
+                        onCheckedChange={() => toggleSelectRule(rule.id)}
+                        aria-label={`Select ${rule.name}`}
+                      />
+                    </TableCell>
+                  )}
                   <TableCell className="font-medium max-w-[200px]">
                     <div className="truncate" title={rule.name}>
                       {rule.name}
@@ -263,7 +384,12 @@ export function RulesTable({
                   <TableCell>
                     <Badge variant="outline">{rule.priority}</Badge>
                   </TableCell>
-                  <TableCell>{getStatusBadge(rule.status)}</TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap items-center gap-1">
+                      {getStatusBadge(rule.status)}
+                      {getScheduleBadge(rule)}
+                    </div>
+                  </TableCell>
                   <TableCell className="max-w-[200px]">
                     <div className="text-sm text-muted-foreground truncate" title={getActionSummary(rule)}>
                       {getActionSummary(rule)}
@@ -339,6 +465,7 @@ export function RulesTable({
 
       <div className="text-sm text-muted-foreground">
         Showing {filteredRules.length} of {rules.length} rules
+        {selectedIds.size > 0 && ` (${selectedIds.size} selected)`}
       </div>
     </div>
   );
@@ -0,0 +1,154 @@
+'use client';
+
+import { useState } from 'react';
+import { ClassificationRule, Project } from '@/lib/firestore';
+import {
+  BASE_RULE_CONFIDENCE,
+  applyConfidenceBoost,
+  evaluateRule,
+} from '@/lib/rule-engine';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { CheckCircle2, XCircle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface SampleMeetingTesterProps {
+  rule: ClassificationRule;
+  projects?: Project[];
+}
+
+/**
+ * Live check of a draft rule against a meeting typed in by hand
+ */
+export function SampleMeetingTester({ rule, projects = [] }: SampleMeetingTesterProps) {
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [organizer, setOrganizer] = useState('');
+  const [attendees, setAttendees] = useState('');
+  const [startTime, setStartTime] = useState('');
+  const [duration, setDuration] = useState('');
+
+  const evaluation = evaluateRule(
+    rule,
+    {
+      title,
+      description,
+      organizer,
+      attendees: attendees
+        .split(/[,\s]+/)
+        .filter(Boolean)
+        .map((email) => ({ email })),
+      start_time: startTime || null,
+      duration_minutes: duration ? Number(duration) : null,
+    },
+    { projects }
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="sampleTitle">Meeting Title</Label>
+          <Input
+            id="sampleTitle"
+            placeholder="e.g., Acme Weekly Sync"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="sampleOrganizer">Organizer</Label>
+          <Input
+            id="sampleOrganizer"
+            placeholder="user@egen.ai"
+            value={organizer}
+            onChange={(e) => setOrganizer(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="sampleAttendees">Attendee Emails</Label>
+        <Input
+          id="sampleAttendees"
+          placeholder="alice@acme.com, bob@egen.ai"
+          value={attendees}
+          onChange={(e) => setAttendees(e.target.value)}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="sampleStart">Start Time</Label>
+          <Input
+            id="sampleStart"
+            type="datetime-local"
+            value={startTime}
+            onChange={(e) => setStartTime(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="sampleDuration">Duration (minutes)</Label>
+          <Input
+            id="sampleDuration"
+            type="number"
+            min={0}
+            placeholder="30"
+            value={duration}
+            onChange={(e) => setDuration(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="sampleDescription">Description</Label>
+        <Textarea
+          id="sampleDescription"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          rows={2}
+        />
+      </div>
+
+      <div
+        className={cn(
+          'rounded-md border p-3 space-y-2',
+          evaluation.matched
+            ? 'bg-green-50 border-green-200 dark:bg-green-950/20 dark:border-green-800'
+            : 'bg-muted/50'
+        )}
+      >
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium">
+            {evaluation.matched ? 'This meeting matches the rule' : 'This meeting does not match'}
+          </span>
+          {evaluation.matched && (
+            <Badge variant="secondary">
+              {Math.round(applyConfidenceBoost(BASE_RULE_CONFIDENCE, rule) * 100)}% base confidence
+            </Badge>
+          )}
+        </div>
+        {evaluation.reason && (
+          <p className="text-xs text-muted-foreground">{evaluation.reason}</p>
+        )}
+        <ul className="space-y-1">
+          {evaluation.conditions.map((c, i) => (
+            <li key={i} className="flex items-start gap-2 text-xs">
+              {c.matched ? (
+                <CheckCircle2 className="mt-0.5 h-3 w-3 shrink-0 text-green-600" />
+              ) : (
+                <XCircle className="mt-0.5 h-3 w-3 shrink-0 text-gray-400" />
+              )}
+              <span>
+                <span className="font-medium">{c.label}</span>
+                <span className="text-muted-foreground"> &middot; {c.explanation}</span>
+              </span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+'use client';
+
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { EffectiveTemplate, TemplateSpecificity } from '@/lib/template-inheritance';
+import { FileText, GitBranch } from 'lucide-react';
+
+interface EffectiveTemplateCardProps {
+  effective: EffectiveTemplate | null;
+  // The page the card is on, to describe where the template comes from
+  scope: 'client' | 'project';
+}
+
+function describeSource(specificity: TemplateSpecificity, scope: 'client' | 'project'): string {
+  if (specificity === 'project') return 'Project template';
+  if (specificity === 'client') return scope === 'project' ? "From the project's client" : 'Client template';
+  return 'Default template';
+}
+
+export function EffectiveTemplateCard({ effective, scope }: EffectiveTemplateCardProps) {
+  const sections = effective ? [...(effective.template.sections || [])].sort((a, b) => a.order - b.order) : [];
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <FileText className="h-5 w-5" />
+            Note Template
+          </CardTitle>
+          <Link href="/templates" className="text-sm text-muted-foreground hover:text-foreground hover:underline">
+            Manage templates
+          </Link>
+        </div>
+        <CardDescription>
+          {effective
+            ? `New notes for this ${scope} follow this template unless a keyword or other rule picks another`
+            : `No template applies to this ${scope} and there is no default template`}
+        </CardDescription>
+      </CardHeader>
+      {effective && (
+        <CardContent className="space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="font-medium">{effective.template.name}</span>
+            <Badge variant={effective.specificity === 'general' ? 'secondary' : 'outline'}>
+              {describeSource(effective.specificity, scope)}
+            </Badge>
+          </div>
+          {effective.ancestors.length > 0 && (
+            <p className="flex items-center gap-1 text-sm text-muted-foreground">
+              <GitBranch className="h-3 w-3" />
+              Inherits from {effective.ancestors.map((ancestor) => ancestor.name).join(' → ')}
+            </p>
+          )}
+          {sections.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {sections.map((section) => (
+                <Badge key={section.id} variant="outline" className="text-xs font-normal">
+                  {section.title}
+                  {section.required && ' *'}
+                </Badge>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
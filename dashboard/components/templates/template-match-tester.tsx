@@ -0,0 +1,286 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Client, NoteTemplate, Project, getNoteTitle, getNotes } from '@/lib/firestore';
+import {
+  TemplateCandidate,
+  TemplateMatchMeeting,
+  matchTemplate,
+  noteToTemplateMatchMeeting,
+} from '@/lib/template-match';
+import { TEMPLATE_SPECIFICITY_LABELS } from '@/lib/template-inheritance';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { CheckCircle2, Star, XCircle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface TemplateMatchTesterProps {
+  templates: NoteTemplate[];
+  clients: Client[];
+  projects: Project[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const MANUAL = 'manual';
+
+export function TemplateMatchTester({
+  templates,
+  clients,
+  projects,
+  open,
+  onOpenChange,
+}: TemplateMatchTesterProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[800px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Which template would this meeting get?</DialogTitle>
+          <DialogDescription>
+            Describe a meeting or pick an existing note to see how every template scores.
+          </DialogDescription>
+        </DialogHeader>
+
+        {open && <MatchTesterForm templates={templates} clients={clients} projects={projects} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function MatchTesterForm({
+  templates,
+  clients,
+  projects,
+}: Pick<TemplateMatchTesterProps, 'templates' | 'clients' | 'projects'>) {
+  const [noteId, setNoteId] = useState(MANUAL);
+  const [title, setTitle] = useState('');
+  const [attendees, setAttendees] = useState('');
+  const [type, setType] = useState('none');
+  const [clientId, setClientId] = useState('none');
+  const [projectId, setProjectId] = useState('none');
+  const [duration, setDuration] = useState('');
+
+  const { data: notes = [] } = useQuery({
+    queryKey: ['notes', 'recent'],
+    queryFn: () => getNotes({ limit: 50 }),
+  });
+
+  const note = notes.find((n) => n.id === noteId);
+
+  const meeting: TemplateMatchMeeting = note
+    ? noteToTemplateMatchMeeting(note)
+    : {
+        title,
+        attendees: attendees
+          .split(/[,\s]+/)
+          .filter(Boolean)
+          .map((email) => ({ email })),
+        type: type === 'none' ? null : type,
+        client_id: clientId === 'none' ? null : clientId,
+        project_id: projectId === 'none' ? null : projectId,
+        duration_minutes: duration ? Number(duration) : null,
+      };
+
+  const result = matchTemplate(templates, meeting);
+  const clientProjects =
+    clientId === 'none' ? projects : projects.filter((p) => p.client_id === clientId);
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>Meeting</Label>
+        <Select value={noteId} onValueChange={setNoteId}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={MANUAL}>Describe a meeting</SelectItem>
+            {notes.map((n) => (
+              <SelectItem key={n.id} value={n.id}>
+                {getNoteTitle(n)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {!note && (
+        <>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="matchTitle">Meeting Title</Label>
+              <Input
+                id="matchTitle"
+                placeholder="e.g., Acme Weekly Sync"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="matchAttendees">Attendee Emails</Label>
+              <Input
+                id="matchAttendees"
+                placeholder="alice@acme.com, bob@egen.ai"
+                value={attendees}
+                onChange={(e) => setAttendees(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Meeting Type</Label>
+              <Select value={type} onValueChange={setType}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Not classified yet</SelectItem>
+                  <SelectItem value="client">Client</SelectItem>
+                  <SelectItem value="internal">Internal</SelectItem>
+                  <SelectItem value="external">External</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="matchDuration">Duration (minutes)</Label>
+              <Input
+                id="matchDuration"
+                type="number"
+                min={0}
+                placeholder="30"
+                value={duration}
+                onChange={(e) => setDuration(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Client</Label>
+              <Select
+                value={clientId}
+                onValueChange={(v) => {
+                  setClientId(v);
+                  setProjectId('none');
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No client</SelectItem>
+                  {clients.map((client) => (
+                    <SelectItem key={client.id} value={client.id}>
+                      {client.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Project</Label>
+              <Select value={projectId} onValueChange={setProjectId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No project</SelectItem>
+                  {clientProjects.map((project) => (
+                    <SelectItem key={project.id} value={project.id}>
+                      {project.project_name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </>
+      )}
+
+      <div className="rounded-md border p-3 bg-muted/50">
+        <span className="text-sm font-medium">
+          {result.template
+            ? `This meeting gets "${result.template.name}"`
+            : 'No template matches and there is no default template'}
+        </span>
+        {result.usedDefault && (
+          <p className="text-xs text-muted-foreground">No template matched, so the default is used.</p>
+        )}
+      </div>
+
+      {result.candidates.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No templates have auto-apply rules or a client or project scope yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {result.candidates.map((candidate) => (
+            <CandidateCard
+              key={candidate.template.id}
+              candidate={candidate}
+              selected={candidate.template.id === result.template?.id}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function CandidateCard({ candidate, selected }: { candidate: TemplateCandidate; selected: boolean }) {
+  return (
+    <div
+      className={cn(
+        'rounded-md border p-3 space-y-2',
+        selected && 'bg-green-50 border-green-200 dark:bg-green-950/20 dark:border-green-800',
+        !candidate.matched && 'opacity-70'
+      )}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <span className="flex items-center gap-2 text-sm font-medium">
+          {candidate.template.name}
+          {selected && <Star className="h-3 w-3 text-green-600" />}
+          {candidate.specificity !== 'general' && (
+            <Badge variant="outline" className="text-xs font-normal">
+              {TEMPLATE_SPECIFICITY_LABELS[candidate.specificity]}
+            </Badge>
+          )}
+        </span>
+        <Badge variant={candidate.matched ? 'secondary' : 'outline'}>{candidate.score} pts</Badge>
+      </div>
+      {candidate.excludedBy && <p className="text-xs text-destructive">{candidate.excludedBy}</p>}
+      <ul className="space-y-1">
+        {candidate.criteria.map((criterion) => (
+          <li key={criterion.criterion} className="flex items-start gap-2 text-xs">
+            {criterion.matched ? (
+              <CheckCircle2 className="mt-0.5 h-3 w-3 shrink-0 text-green-600" />
+            ) : (
+              <XCircle className="mt-0.5 h-3 w-3 shrink-0 text-gray-400" />
+            )}
+            <span>
+              <span className="font-medium">{criterion.label}</span>
+              <span className="text-muted-foreground">
+                {' '}
+                &middot; {criterion.explanation}
+                {criterion.points > 0 && ` (+${criterion.points})`}
+              </span>
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import {
+  NoteTemplate,
+  getClients,
+  getNoteTitle,
+  getNotes,
+  getProjects,
+} from '@/lib/firestore';
+import {
+  RenderedTemplate,
+  noteToTemplateContext,
+  renderTemplate,
+  renderTemplateMarkdown,
+} from '@/lib/template-render';
+import { formatDate } from '@/lib/date-utils';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { AlertCircle, Check, Copy, Loader2 } from 'lucide-react';
+
+interface TemplatePreviewProps {
+  template: NoteTemplate | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function TemplatePreview({ template, open, onOpenChange }: TemplatePreviewProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[800px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Preview {template?.name}</DialogTitle>
+          <DialogDescription>
+            See the template filled in from a real note, as Markdown or as an outline.
+          </DialogDescription>
+        </DialogHeader>
+
+        {open && template && <TemplatePreviewBody template={template} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function TemplatePreviewBody({ template }: { template: NoteTemplate }) {
+  const [noteId, setNoteId] = useState('');
+  const [copied, setCopied] = useState(false);
+
+  const { data: notes = [], isLoading: loadingNotes } = useQuery({
+    queryKey: ['notes', 'recent'],
+    queryFn: () => getNotes({ limit: 50 }),
+  });
+
+  const { data: clients = [] } = useQuery({
+    queryKey: ['clients'],
+    queryFn: () => getClients(),
+  });
+
+  const { data: projects = [] } = useQuery({
+    queryKey: ['projects'],
+    queryFn: () => getProjects(),
+  });
+
+  // Until a note is picked, preview against the most recent one
+  const note = notes.find((n) => n.id === noteId) || notes[0];
+
+  const rendered = useMemo(
+    () => (note ? renderTemplate(template, noteToTemplateContext(note, { clients, projects })) : null),
+    [template, note, clients, projects]
+  );
+  const markdown = useMemo(() => (rendered ? renderTemplateMarkdown(rendered) : ''), [rendered]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(markdown);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy Markdown:', error);
+    }
+  };
+
+  if (loadingNotes) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!note || !rendered) {
+    return (
+      <p className="py-8 text-center text-sm text-muted-foreground">
+        There are no notes to preview this template against yet.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>Note</Label>
+        <Select value={note.id} onValueChange={setNoteId}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {notes.map((n) => (
+              <SelectItem key={n.id} value={n.id}>
+                {getNoteTitle(n)}
+                {n.meeting?.start_time && ` (${formatDate(n.meeting.start_time)})`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {rendered.unknownVariables.length > 0 && (
+        <Alert>
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            Unknown variables are left as written:{' '}
+            {rendered.unknownVariables.map((name) => `{{${name}}}`).join(', ')}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Tabs defaultValue="outline">
+        <div className="flex items-center justify-between">
+          <TabsList>
+            <TabsTrigger value="outline">Outline</TabsTrigger>
+            <TabsTrigger value="markdown">Markdown</TabsTrigger>
+          </TabsList>
+          <Button variant="outline" size="sm" onClick={handleCopy}>
+            {copied ? <Check className="mr-1 h-3 w-3" /> : <Copy className="mr-1 h-3 w-3" />}
+            {copied ? 'Copied' : 'Copy Markdown'}
+          </Button>
+        </div>
+
+        <TabsContent value="outline">
+          <TemplateOutline rendered={rendered} />
+        </TabsContent>
+
+        <TabsContent value="markdown">
+          <pre className="max-h-[50vh] overflow-auto whitespace-pre-wrap rounded-md border bg-muted/30 p-4 text-xs">
+            {markdown}
+          </pre>
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
+
+function TemplateOutline({ rendered }: { rendered: RenderedTemplate }) {
+  return (
+    <div className="max-h-[50vh] space-y-4 overflow-y-auto rounded-md border p-4">
+      <h2 className="text-xl font-semibold">{rendered.title}</h2>
+      {rendered.sections.map((section) => (
+        <div key={section.id} className="space-y-1">
+          <h3 className="flex items-center gap-2 font-medium">
+            {section.title}
+            {section.required && (
+              <Badge variant="outline" className="text-xs">
+                Required
+              </Badge>
+            )}
+          </h3>
+          {section.lines.length === 0 ? (
+            <p className="text-sm italic text-muted-foreground">{section.placeholder || 'Empty'}</p>
+          ) : section.type === 'text' ? (
+            <p className="whitespace-pre-wrap text-sm">{section.lines.join('\n')}</p>
+          ) : (
+            <ul className="space-y-1 text-sm">
+              {section.lines.map((line, index) => (
+                <li key={index} className="flex items-start gap-2">
+                  <span className="text-muted-foreground">
+                    {section.type === 'checkbox-list' ? '☐' : '•'}
+                  </span>
+                  {line}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
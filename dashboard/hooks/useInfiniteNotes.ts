@@ -0,0 +1,74 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useInfiniteQuery, useQuery } from '@tanstack/react-query';
+import {
+  getLegacyLinkedNotes,
+  getNotesPage,
+  Note,
+  NoteFilters,
+  DEFAULT_NOTES_PAGE_SIZE,
+} from '@/lib/firestore';
+
+interface InfiniteNotesResult {
+  notes: Note[];
+  // Notes linked only through the legacy clientId/projectId fields, included in notes
+  legacyCount: number;
+  isLoading: boolean;
+  isError: boolean;
+  hasMore: boolean;
+  isFetchingMore: boolean;
+  fetchMore: () => void;
+  refetch: () => void;
+}
+
+/**
+ * Cursor-paginated notes query.
+ * Pages are fetched on demand via fetchMore and flattened into a single list.
+ * Client and project filters also pull in notes linked through the legacy
+ * clientId/projectId fields, which the paged query cannot match.
+ */
+export function useInfiniteNotes(
+  filters: NoteFilters = {},
+  pageSize: number = DEFAULT_NOTES_PAGE_SIZE
+): InfiniteNotesResult {
+  const notesQuery = useInfiniteQuery({
+    queryKey: ['notes', 'infinite', filters, pageSize],
+    queryFn: ({ pageParam }) => getNotesPage(filters, { pageSize, cursor: pageParam }),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => (lastPage.hasMore ? lastPage.cursor : undefined),
+  });
+
+  const legacyQuery = useQuery({
+    queryKey: ['notes', 'legacy', { clientId: filters.clientId, projectId: filters.projectId }],
+    queryFn: () => getLegacyLinkedNotes(filters),
+    enabled: !!filters.clientId || !!filters.projectId,
+  });
+
+  const notes = useMemo(() => {
+    const paged = notesQuery.data?.pages.flatMap((page) => page.items) ?? [];
+    const pagedIds = new Set(paged.map((note) => note.id));
+    const legacy = (legacyQuery.data ?? []).filter((note) => !pagedIds.has(note.id));
+    return legacy.length > 0 ? [...paged, ...legacy] : paged;
+  }, [notesQuery.data, legacyQuery.data]);
+
+  const fetchMore = () => {
+    if (notesQuery.hasNextPage && !notesQuery.isFetchingNextPage) {
+      notesQuery.fetchNextPage();
+    }
+  };
+
+  return {
+    notes,
+    legacyCount: legacyQuery.data?.length ?? 0,
+    isLoading: notesQuery.isLoading || legacyQuery.isLoading,
+    isError: notesQuery.isError,
+    hasMore: !!notesQuery.hasNextPage,
+    isFetchingMore: notesQuery.isFetchingNextPage,
+    fetchMore,
+    refetch: () => {
+      notesQuery.refetch();
+      legacyQuery.refetch();
+    },
+  };
+}
@@ -0,0 +1,137 @@
+'use client';
+
+import { useEffect } from 'react';
+import { InfiniteData, QueryClient, useQueryClient } from '@tanstack/react-query';
+import {
+  subscribeToClients,
+  subscribeToProjects,
+  subscribeToNoteChanges,
+  Note,
+  NoteChange,
+  NotesPage,
+} from '@/lib/firestore';
+
+type CachedNotes = Note[] | InfiniteData<NotesPage> | number | undefined;
+
+function patchNoteList(
+  notes: Note[],
+  changes: NoteChange[],
+  previous: Map<string, Note>
+): Note[] {
+  let result = notes;
+  for (const { type, note } of changes) {
+    const existing = result.find((n) => n.id === note.id);
+    if (!existing) continue;
+    previous.set(note.id, existing);
+    result = type === 'removed' || note.deleted
+      ? result.filter((n) => n.id !== note.id)
+      : result.map((n) => (n.id === note.id ? note : n));
+  }
+  return result;
+}
+
+function classificationChanged(before: Note, after: Note): boolean {
+  const a = before.classification;
+  const b = after.classification;
+  return (
+    a?.type !== b?.type ||
+    a?.client_id !== b?.client_id ||
+    a?.project_id !== b?.project_id
+  );
+}
+
+/**
+ * Apply a batch of note changes to every cached note query.
+ * Notes already in a cached list are patched in place. Lists are refetched
+ * only when a change can move a note in or out of a filtered query: a note
+ * created after `since`, a reclassification, or a restore from the trash.
+ * Trashed notes are dropped from lists like removed ones.
+ */
+function applyNoteChanges(queryClient: QueryClient, changes: NoteChange[], since: Date) {
+  const previous = new Map<string, Note>();
+
+  for (const { type, note } of changes) {
+    const cached = queryClient.getQueryData<Note | null>(['note', note.id]);
+    if (cached) {
+      previous.set(note.id, cached);
+      queryClient.setQueryData(['note', note.id], type === 'removed' ? null : note);
+    }
+  }
+
+  queryClient.setQueriesData<CachedNotes>({ queryKey: ['notes'] }, (data) => {
+    if (!data || typeof data === 'number') return data;
+    if (Array.isArray(data)) return patchNoteList(data, changes, previous);
+    return {
+      ...data,
+      pages: data.pages.map((page) => ({
+        ...page,
+        items: patchNoteList(page.items, changes, previous),
+      })),
+    };
+  });
+
+  const needsRefetch = changes.some(({ type, note }) => {
+    if (type === 'removed' || note.deleted) return false;
+    // Restored from the trash and not in any cached list yet
+    if (note.deleted === false && !previous.has(note.id)) return true;
+    const createdAt = note.created_at?.toDate?.();
+    if (createdAt && createdAt >= since) return true;
+    const before = previous.get(note.id);
+    return !!before && classificationChanged(before, note);
+  });
+
+  if (needsRefetch) {
+    queryClient.invalidateQueries({ queryKey: ['notes'] });
+  } else {
+    queryClient.invalidateQueries({ queryKey: ['notes', 'count'] });
+  }
+  queryClient.invalidateQueries({ queryKey: ['uncategorizedNotes'] });
+  queryClient.invalidateQueries({ queryKey: ['dashboardStats'] });
+  queryClient.invalidateQueries({ queryKey: ['trashedNotes'] });
+  queryClient.invalidateQueries({ queryKey: ['actionItems'] });
+  queryClient.invalidateQueries({ queryKey: ['decisions'] });
+}
+
+/**
+ * Keep the react-query cache in sync with Firestore while the dashboard is open.
+ * Clients and projects are mirrored wholesale; notes are streamed as changes
+ * since the subscription started so paginated lists stay paginated.
+ */
+export function useRealtimeSync(enabled: boolean = true) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const since = new Date();
+    const onError = (error: Error) => {
+      console.error('Real-time subscription error:', error);
+    };
+
+    const unsubscribers = [
+      subscribeToClients((clients) => {
+        queryClient.setQueryData(['clients'], clients);
+        for (const client of clients) {
+          if (queryClient.getQueryData(['client', client.id]) !== undefined) {
+            queryClient.setQueryData(['client', client.id], client);
+          }
+        }
+      }, onError),
+      subscribeToProjects((projects) => {
+        queryClient.setQueryData(['projects'], projects);
+        for (const project of projects) {
+          if (queryClient.getQueryData(['project', project.id]) !== undefined) {
+            queryClient.setQueryData(['project', project.id], project);
+          }
+        }
+      }, onError),
+      subscribeToNoteChanges(
+        since,
+        (changes) => applyNoteChanges(queryClient, changes, since),
+        onError
+      ),
+    ];
+
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [enabled, queryClient]);
+}
@@ -5,7 +5,10 @@ import type {
   ClassificationResult,
   Classification,
   Attendee,
+  BulkWriteResult,
+  BulkProgressCallback,
 } from './firestore';
+import { bulkUpdateNoteClassifications, bulkAddTags as addTagsToNotes } from './firestore';
 import { getFirebaseAuth } from './firebase';
 
 // API Base URL - configured via environment variable
@@ -525,27 +528,36 @@ export interface BulkAddTagsRequest {
 
 export interface BulkOperationResponse {
   success: boolean;
-  results: {
-    successful: string[];
-    failed: Array<{ noteId: string; error: string }>;
-  };
+  results: BulkWriteResult;
+}
+
+function toBulkResponse(results: BulkWriteResult): BulkOperationResponse {
+  return { success: results.failed.length === 0, results };
 }
 
 /**
  * Bulk categorize multiple notes
+ * (Handled client-side via Firestore batch writes)
  */
 export async function bulkCategorize(
-  request: BulkCategorizeRequest
+  request: BulkCategorizeRequest,
+  onProgress?: BulkProgressCallback
 ): Promise<BulkOperationResponse> {
-  // For now, this is handled client-side via Firestore
-  // Could be moved to a Cloud Function for better performance
-  return {
-    success: true,
-    results: {
-      successful: request.noteIds,
-      failed: [],
+  const { classification } = request;
+  const results = await bulkUpdateNoteClassifications(
+    request.noteIds,
+    {
+      type: classification.type as Classification['type'],
+      client_id: classification.clientId ?? null,
+      client_name: classification.clientName ?? null,
+      project_id: classification.projectId ?? null,
+      project_name: classification.projectName ?? null,
+      confidence: 1.0,
     },
-  };
+    request.userEmail,
+    onProgress
+  );
+  return toBulkResponse(results);
 }
 
 /**
@@ -600,18 +612,14 @@ export async function bulkShare(
 
 /**
  * Bulk add tags to multiple notes
- * (Handled client-side via Firestore)
+ * (Handled client-side via Firestore batch writes)
  */
 export async function bulkAddTags(
-  request: BulkAddTagsRequest
+  request: BulkAddTagsRequest,
+  onProgress?: BulkProgressCallback
 ): Promise<BulkOperationResponse> {
-  return {
-    success: true,
-    results: {
-      successful: request.noteIds,
-      failed: [],
-    },
-  };
+  const results = await addTagsToNotes(request.noteIds, request.tags, request.userEmail, onProgress);
+  return toBulkResponse(results);
 }
 
 // ============================================================
@@ -0,0 +1,417 @@
+/**
+ * Minimal Word document writer
+ *
+ * Turns headings, paragraphs, label fields, lists and tables into a .docx
+ * package with Word's built-in heading and list styles, plus an optional
+ * header (logo and text) and a footer with page numbers. Pure TypeScript
+ * like rule-engine.ts, so it is unit tested in isolation.
+ */
+
+import { createZip } from './zip-writer';
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface DocxListItem {
+  text: string;
+  detail?: string;
+}
+
+export interface DocxTableColumn {
+  header: string;
+  // Share of the content width
+  width: number;
+}
+
+export type DocxBlock =
+  | { type: 'title'; text: string }
+  | { type: 'heading'; text: string; level: 1 | 2; pageBreakBefore?: boolean }
+  | { type: 'paragraph'; text: string; italic?: boolean; muted?: boolean }
+  | { type: 'fields'; fields: Array<[string, string]> }
+  | { type: 'list'; items: Array<string | DocxListItem>; numbered?: boolean }
+  | { type: 'table'; columns: DocxTableColumn[]; rows: string[][] };
+
+export interface DocxImage {
+  // PNG bytes and their size in pixels
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+export interface DocxDocumentOptions {
+  title: string;
+  author?: string;
+  header?: { text: string; logo?: DocxImage | null } | null;
+  // The footer always shows page numbers; text goes before them
+  footer?: { text: string } | null;
+  now?: Date;
+}
+
+// ============================================================
+// Page geometry and colors
+// ============================================================
+
+// US Letter with 0.75" side margins, in twentieths of a point
+const PAGE_WIDTH = 12240;
+const PAGE_HEIGHT = 15840;
+const SIDE_MARGIN = 1080;
+const CONTENT_WIDTH = PAGE_WIDTH - SIDE_MARGIN * 2;
+
+// Egen brand colors (see app/globals.css)
+const BRAND_NAVY = '002259';
+const BRAND_BLUE = '0049BF';
+const BRAND_GRAY = '4D6080';
+const TABLE_HEADER_FILL = 'F2F7FF';
+const TABLE_BORDER = 'B8C6D9';
+
+// 0.35", in English Metric Units
+const LOGO_HEIGHT_EMU = 320040;
+
+const NS_W = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const NS_R = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const NS_WP = 'http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing';
+const NS_A = 'http://schemas.openxmlformats.org/drawingml/2006/main';
+const NS_PIC = 'http://schemas.openxmlformats.org/drawingml/2006/picture';
+const REL_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+// ============================================================
+// XML helpers
+// ============================================================
+
+/**
+ * Escape text for XML, dropping control characters XML does not allow
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+interface RunStyle {
+  bold?: boolean;
+  italic?: boolean;
+  color?: string;
+  // Half-points
+  size?: number;
+}
+
+function run(text: string, style: RunStyle = {}): string {
+  const props = [
+    style.bold ? '<w:b/>' : '',
+    style.italic ? '<w:i/>' : '',
+    style.color ? `<w:color w:val="${style.color}"/>` : '',
+    style.size ? `<w:sz w:val="${style.size}"/>` : '',
+  ].join('');
+  const content = text
+    .split(/\r?\n/)
+    .map((line) => `<w:t xml:space="preserve">${escapeXml(line)}</w:t>`)
+    .join('<w:br/>');
+  return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}${content}</w:r>`;
+}
+
+function paragraph(runs: string, props = ''): string {
+  return `<w:p>${props ? `<w:pPr>${props}</w:pPr>` : ''}${runs}</w:p>`;
+}
+
+// ============================================================
+// Blocks
+// ============================================================
+
+interface RenderState {
+  // Numbered lists each get their own numbering instance so they restart at 1
+  numberedLists: number;
+}
+
+const BULLET_NUM_ID = 1;
+
+function renderList(block: Extract<DocxBlock, { type: 'list' }>, state: RenderState): string {
+  const numId = block.numbered ? BULLET_NUM_ID + ++state.numberedLists : BULLET_NUM_ID;
+  return block.items
+    .map((item) => {
+      const { text, detail } = typeof item === 'string' ? { text: item, detail: undefined } : item;
+      const runs = run(text) + (detail ? run(`\n${detail}`, { italic: true, color: BRAND_GRAY }) : '');
+      return paragraph(
+        runs,
+        `<w:pStyle w:val="ListParagraph"/><w:numPr><w:ilvl w:val="0"/><w:numId w:val="${numId}"/></w:numPr>`
+      );
+    })
+    .join('');
+}
+
+function renderTable(block: Extract<DocxBlock, { type: 'table' }>): string {
+  const totalShare = block.columns.reduce((total, column) => total + column.width, 0);
+  const widths = block.columns.map((column) => Math.round((column.width / totalShare) * CONTENT_WIDTH));
+
+  const cell = (text: string, width: number, header: boolean) =>
+    '<w:tc><w:tcPr>' +
+    `<w:tcW w:w="${width}" w:type="dxa"/>` +
+    (header ? `<w:shd w:val="clear" w:color="auto" w:fill="${TABLE_HEADER_FILL}"/>` : '') +
+    `</w:tcPr>${paragraph(run(text, header ? { bold: true, color: BRAND_NAVY } : {}), '<w:spacing w:after="0"/>')}</w:tc>`;
+
+  const headerRow =
+    '<w:tr><w:trPr><w:tblHeader/></w:trPr>' +
+    block.columns.map((column, i) => cell(column.header, widths[i], true)).join('') +
+    '</w:tr>';
+  const rows = block.rows
+    .map((row) => `<w:tr><w:trPr><w:cantSplit/></w:trPr>${row.map((text, i) => cell(text, widths[i], false)).join('')}</w:tr>`)
+    .join('');
+
+  // A paragraph after the table keeps it from running into the next block
+  return (
+    '<w:tbl><w:tblPr><w:tblStyle w:val="TableGrid"/>' +
+    `<w:tblW w:w="${CONTENT_WIDTH}" w:type="dxa"/><w:tblLook w:val="04A0"/></w:tblPr>` +
+    `<w:tblGrid>${widths.map((width) => `<w:gridCol w:w="${width}"/>`).join('')}</w:tblGrid>` +
+    headerRow +
+    rows +
+    '</w:tbl>' +
+    paragraph('')
+  );
+}
+
+function renderBlock(block: DocxBlock, state: RenderState): string {
+  switch (block.type) {
+    case 'title':
+      return paragraph(run(block.text), '<w:pStyle w:val="Title"/>');
+    case 'heading':
+      return paragraph(
+        run(block.text),
+        `<w:pStyle w:val="Heading${block.level}"/>${block.pageBreakBefore ? '<w:pageBreakBefore/>' : ''}`
+      );
+    case 'paragraph':
+      return paragraph(run(block.text, { italic: block.italic, color: block.muted ? BRAND_GRAY : undefined }));
+    case 'fields':
+      return block.fields
+        .map(([label, value]) =>
+          paragraph(
+            run(`${label}: `, { bold: true, color: BRAND_GRAY }) + run(value || '—'),
+            '<w:spacing w:after="40"/>'
+          )
+        )
+        .join('');
+    case 'list':
+      return renderList(block, state);
+    case 'table':
+      return renderTable(block);
+  }
+}
+
+// ============================================================
+// Package parts
+// ============================================================
+
+function renderStyles(): string {
+  const heading = (level: number, size: number, color: string) =>
+    `<w:style w:type="paragraph" w:styleId="Heading${level}"><w:name w:val="heading ${level}"/>` +
+    '<w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:uiPriority w:val="9"/><w:qFormat/>' +
+    `<w:pPr><w:keepNext/><w:keepLines/><w:spacing w:before="${level === 1 ? 360 : 240}" w:after="120"/>` +
+    `<w:outlineLvl w:val="${level - 1}"/></w:pPr>` +
+    `<w:rPr><w:b/><w:color w:val="${color}"/><w:sz w:val="${size}"/></w:rPr></w:style>`;
+  const border = (side: string) => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="${TABLE_BORDER}"/>`;
+
+  return (
+    XML_DECLARATION +
+    `<w:styles xmlns:w="${NS_W}">` +
+    '<w:docDefaults><w:rPrDefault><w:rPr>' +
+    '<w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:eastAsia="Calibri" w:cs="Calibri"/>' +
+    '<w:sz w:val="22"/><w:szCs w:val="22"/><w:lang w:val="en-US"/></w:rPr></w:rPrDefault>' +
+    '<w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="264" w:lineRule="auto"/></w:pPr></w:pPrDefault>' +
+    '</w:docDefaults>' +
+    '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>' +
+    '<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/>' +
+    '<w:next w:val="Normal"/><w:qFormat/><w:pPr><w:spacing w:after="240"/></w:pPr>' +
+    `<w:rPr><w:b/><w:color w:val="${BRAND_NAVY}"/><w:sz w:val="48"/></w:rPr></w:style>` +
+    heading(1, 32, BRAND_NAVY) +
+    heading(2, 26, BRAND_BLUE) +
+    '<w:style w:type="paragraph" w:styleId="ListParagraph"><w:name w:val="List Paragraph"/>' +
+    '<w:basedOn w:val="Normal"/><w:qFormat/><w:pPr><w:spacing w:after="60"/><w:ind w:left="720"/>' +
+    '<w:contextualSpacing/></w:pPr></w:style>' +
+    '<w:style w:type="table" w:styleId="TableGrid"><w:name w:val="Table Grid"/><w:tblPr><w:tblBorders>' +
+    ['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(border).join('') +
+    '</w:tblBorders><w:tblCellMar><w:top w:w="60" w:type="dxa"/><w:left w:w="100" w:type="dxa"/>' +
+    '<w:bottom w:w="60" w:type="dxa"/><w:right w:w="100" w:type="dxa"/></w:tblCellMar></w:tblPr></w:style>' +
+    '</w:styles>'
+  );
+}
+
+function renderNumbering(numberedLists: number): string {
+  const abstract = (id: number, format: string, text: string) =>
+    `<w:abstractNum w:abstractNumId="${id}"><w:multiLevelType w:val="singleLevel"/>` +
+    `<w:lvl w:ilvl="0"><w:start w:val="1"/><w:numFmt w:val="${format}"/><w:lvlText w:val="${text}"/>` +
+    '<w:lvlJc w:val="left"/><w:pPr><w:ind w:left="720" w:hanging="360"/></w:pPr></w:lvl></w:abstractNum>';
+
+  const numbered = Array.from(
+    { length: numberedLists },
+    (_, i) =>
+      `<w:num w:numId="${BULLET_NUM_ID + i + 1}"><w:abstractNumId w:val="1"/>` +
+      '<w:lvlOverride w:ilvl="0"><w:startOverride w:val="1"/></w:lvlOverride></w:num>'
+  );
+
+  return (
+    XML_DECLARATION +
+    `<w:numbering xmlns:w="${NS_W}">` +
+    abstract(0, 'bullet', '•') +
+    abstract(1, 'decimal', '%1.') +
+    `<w:num w:numId="${BULLET_NUM_ID}"><w:abstractNumId w:val="0"/></w:num>` +
+    numbered.join('') +
+    '</w:numbering>'
+  );
+}
+
+function renderLogo(logo: DocxImage): string {
+  const cy = LOGO_HEIGHT_EMU;
+  const cx = Math.round((logo.width / logo.height) * cy);
+  return (
+    '<w:r><w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0">' +
+    `<wp:extent cx="${cx}" cy="${cy}"/><wp:docPr id="1" name="Logo"/>` +
+    `<a:graphic><a:graphicData uri="${NS_PIC}"><pic:pic>` +
+    '<pic:nvPicPr><pic:cNvPr id="1" name="logo.png"/><pic:cNvPicPr/></pic:nvPicPr>' +
+    '<pic:blipFill><a:blip r:embed="rIdLogo"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>' +
+    `<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm>` +
+    '<a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr>' +
+    '</pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r>'
+  );
+}
+
+function renderHeader(header: NonNullable<DocxDocumentOptions['header']>): string {
+  const brand = header.logo ? renderLogo(header.logo) : run('egen', { bold: true, color: BRAND_BLUE, size: 32 });
+  const props =
+    `<w:pBdr><w:bottom w:val="single" w:sz="8" w:space="4" w:color="${BRAND_BLUE}"/></w:pBdr>` +
+    `<w:tabs><w:tab w:val="right" w:pos="${CONTENT_WIDTH}"/></w:tabs>`;
+
+  return (
+    XML_DECLARATION +
+    `<w:hdr xmlns:w="${NS_W}" xmlns:r="${NS_R}" xmlns:wp="${NS_WP}" xmlns:a="${NS_A}" xmlns:pic="${NS_PIC}">` +
+    paragraph(`${brand}<w:r><w:tab/></w:r>${run(header.text, { color: BRAND_GRAY, size: 18 })}`, props) +
+    '</w:hdr>'
+  );
+}
+
+function renderFooter(footer: DocxDocumentOptions['footer']): string {
+  const style: RunStyle = { color: BRAND_GRAY, size: 16 };
+  const field = (instruction: string) =>
+    `<w:fldSimple w:instr=" ${instruction} \\* MERGEFORMAT ">${run('1', style)}</w:fldSimple>`;
+  const pageNumber = `${run('Page ', style)}${field('PAGE')}${run(' of ', style)}${field('NUMPAGES')}`;
+  const content = footer?.text ? `${run(footer.text, style)}<w:r><w:tab/></w:r>${pageNumber}` : pageNumber;
+  const props = footer?.text
+    ? `<w:tabs><w:tab w:val="right" w:pos="${CONTENT_WIDTH}"/></w:tabs>`
+    : '<w:jc w:val="center"/>';
+
+  return XML_DECLARATION + `<w:ftr xmlns:w="${NS_W}">${paragraph(content, props)}</w:ftr>`;
+}
+
+function relationships(entries: Array<[string, string, string]>): string {
+  return (
+    XML_DECLARATION +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    entries.map(([id, type, target]) => `<Relationship Id="${id}" Type="${type}" Target="${target}"/>`).join('') +
+    '</Relationships>'
+  );
+}
+
+/**
+ * Build a .docx file from blocks
+ */
+export function renderDocx(blocks: DocxBlock[], options: DocxDocumentOptions): Uint8Array<ArrayBuffer> {
+  const now = options.now || new Date();
+  const state: RenderState = { numberedLists: 0 };
+  const body = blocks.map((block) => renderBlock(block, state)).join('');
+  const header = options.header || null;
+  const logo = header?.logo || null;
+
+  const sectionProps =
+    '<w:sectPr>' +
+    (header ? '<w:headerReference w:type="default" r:id="rIdHeader"/>' : '') +
+    '<w:footerReference w:type="default" r:id="rIdFooter"/>' +
+    `<w:pgSz w:w="${PAGE_WIDTH}" w:h="${PAGE_HEIGHT}"/>` +
+    `<w:pgMar w:top="1440" w:right="${SIDE_MARGIN}" w:bottom="1440" w:left="${SIDE_MARGIN}" ` +
+    'w:header="708" w:footer="708" w:gutter="0"/></w:sectPr>';
+
+  const document =
+    XML_DECLARATION +
+    `<w:document xmlns:w="${NS_W}" xmlns:r="${NS_R}"><w:body>${body}${sectionProps}</w:body></w:document>`;
+
+  const contentTypes =
+    XML_DECLARATION +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Default Extension="png" ContentType="image/png"/>' +
+    [
+      ['/word/document.xml', 'wordprocessingml.document.main+xml'],
+      ['/word/styles.xml', 'wordprocessingml.styles+xml'],
+      ['/word/numbering.xml', 'wordprocessingml.numbering+xml'],
+      ['/word/footer1.xml', 'wordprocessingml.footer+xml'],
+      ...(header ? [['/word/header1.xml', 'wordprocessingml.header+xml']] : []),
+    ]
+      .map(
+        ([part, type]) =>
+          `<Override PartName="${part}" ContentType="application/vnd.openxmlformats-officedocument.${type}"/>`
+      )
+      .join('') +
+    '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>' +
+    '</Types>';
+
+  const coreProperties =
+    XML_DECLARATION +
+    '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ' +
+    'xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" ' +
+    'xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">' +
+    `<dc:title>${escapeXml(options.title)}</dc:title>` +
+    `<dc:creator>${escapeXml(options.author || 'Egen Meeting Notes')}</dc:creator>` +
+    `<dcterms:created xsi:type="dcterms:W3CDTF">${now.toISOString().replace(/\.\d+Z$/, 'Z')}</dcterms:created>` +
+    '</cp:coreProperties>';
+
+  return createZip(
+    [
+      { name: '[Content_Types].xml', data: contentTypes },
+      {
+        name: '_rels/.rels',
+        data: relationships([
+          ['rId1', `${REL_TYPE}/officeDocument`, 'word/document.xml'],
+          ['rId2', 'http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties', 'docProps/core.xml'],
+        ]),
+      },
+      { name: 'docProps/core.xml', data: coreProperties },
+      { name: 'word/document.xml', data: document },
+      {
+        name: 'word/_rels/document.xml.rels',
+        data: relationships([
+          ['rIdStyles', `${REL_TYPE}/styles`, 'styles.xml'],
+          ['rIdNumbering', `${REL_TYPE}/numbering`, 'numbering.xml'],
+          ['rIdFooter', `${REL_TYPE}/footer`, 'footer1.xml'],
+          ...(header ? [['rIdHeader', `${REL_TYPE}/header`, 'header1.xml'] as [string, string, string]] : []),
+        ]),
+      },
+      { name: 'word/styles.xml', data: renderStyles() },
+      { name: 'word/numbering.xml', data: renderNumbering(state.numberedLists) },
+      { name: 'word/footer1.xml', data: renderFooter(options.footer) },
+      ...(header ? [{ name: 'word/header1.xml', data: renderHeader(header) }] : []),
+      ...(logo
+        ? [
+            {
+              name: 'word/_rels/header1.xml.rels',
+              data: relationships([['rIdLogo', `${REL_TYPE}/image`, 'media/logo.png']]),
+            },
+            { name: 'word/media/logo.png', data: logo.data },
+          ]
+        : []),
+    ],
+    now
+  );
+}
+
+/**
+ * Pixel size of a PNG, read from its header, or null if it is not a PNG
+ */
+export function getPngSize(data: Uint8Array): { width: number; height: number } | null {
+  const signature = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+  if (data.length < 24 || signature.some((byte, i) => data[i] !== byte)) return null;
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  return { width: view.getUint32(16), height: view.getUint32(20) };
+}
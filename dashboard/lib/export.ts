@@ -1,8 +1,58 @@
 'use client';
 
-import { Note } from './firestore';
+import { Note, DecisionEntry, DecisionRef, NoteTemplate, TemplateSection } from './firestore';
+import type { Timestamp } from 'firebase/firestore';
+import type { RuleExportDocument } from './rule-transfer';
+import { DocxBlock, DocxImage, getPngSize, renderDocx } from './docx-writer';
+import { createZip } from './zip-writer';
+import { SectionSource, getSectionBody, getSectionSource } from './template-compliance';
+import { matchTemplate, noteToTemplateMatchMeeting } from './template-match';
+import { buildTemplateValues, interpolateTemplate, noteToTemplateContext } from './template-render';
+import {
+  PDF_CONTENT_WIDTH,
+  PDF_MARGIN,
+  PDF_MUTED_COLOR,
+  PDF_PAGE_HEIGHT,
+  PDF_PAGE_WIDTH,
+  PdfLayout,
+  addPdfFields,
+  addPdfHeading,
+  addPdfLink,
+  addPdfList,
+  addPdfPage,
+  addPdfParagraph,
+  addPdfRule,
+  addPdfSpace,
+  addPdfTable,
+  createPdfLayout,
+  drawPdfText,
+  measurePdfText,
+  renderPdf,
+  truncatePdfText,
+} from './pdf-writer';
+
+export type ExportFormat = 'csv' | 'json' | 'markdown' | 'pdf' | 'docx';
+
+export interface PdfExportOptions {
+  // Both only apply when exporting more than one note
+  coverPage: boolean;
+  tableOfContents: boolean;
+  title: string;
+}
 
-export type ExportFormat = 'csv' | 'json' | 'markdown';
+export type DocxLayout = 'combined' | 'per-note';
+
+export interface DocxExportOptions {
+  // One document for all notes, or one per note downloaded as a ZIP
+  layout: DocxLayout;
+  // Egen logo and the document title in the page header
+  brandedHeader: boolean;
+  // "Prepared by Egen" beside the page numbers
+  brandedFooter: boolean;
+  title: string;
+  // Each note's sections follow the template it matches
+  templates: NoteTemplate[];
+}
 
 export interface ExportOptions {
   format: ExportFormat;
@@ -17,9 +67,25 @@ export interface ExportOptions {
     decisions: boolean;
     attendees: boolean;
   };
+  pdf?: Partial<PdfExportOptions>;
+  docx?: Partial<DocxExportOptions>;
   filename?: string;
 }
 
+const defaultPdfOptions: PdfExportOptions = {
+  coverPage: true,
+  tableOfContents: true,
+  title: 'Meeting Minutes',
+};
+
+const defaultDocxOptions: DocxExportOptions = {
+  layout: 'combined',
+  brandedHeader: true,
+  brandedFooter: true,
+  title: 'Meeting Notes',
+  templates: [],
+};
+
 const defaultOptions: ExportOptions = {
   format: 'csv',
   includeFields: {
@@ -253,6 +319,385 @@ function exportToMarkdown(notes: Note[], options: ExportOptions): string {
   return lines.join('\n');
 }
 
+function toDate(timestamp: Timestamp | Date): Date {
+  return timestamp instanceof Date ? timestamp : timestamp.toDate();
+}
+
+/**
+ * Long date and time for PDF header blocks
+ */
+function formatLongDate(timestamp?: Timestamp | Date | null): string {
+  if (!timestamp) return '';
+  return toDate(timestamp).toLocaleString('en-US', {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+const TOC_LINE_HEIGHT = 18;
+const TOC_FIRST_LINE = PDF_MARGIN + 48;
+const TOC_ENTRIES_PER_PAGE = Math.floor((PDF_PAGE_HEIGHT - PDF_MARGIN - TOC_FIRST_LINE) / TOC_LINE_HEIGHT);
+
+/**
+ * Lay out one note as formal minutes, starting on the current page
+ */
+function addNoteToPDF(layout: PdfLayout, note: Note, options: ExportOptions): void {
+  const { includeFields } = options;
+
+  addPdfParagraph(layout, getTitle(note), { font: 'bold', size: 18 });
+  addPdfSpace(layout, 6);
+
+  const fields: Array<[string, string]> = [];
+  if (includeFields.date) fields.push(['Date', formatLongDate(note.meeting?.start_time || note.created_at)]);
+  if (includeFields.client) fields.push(['Client', note.classification?.client_name || '']);
+  if (includeFields.project) fields.push(['Project', note.classification?.project_name || '']);
+  if (includeFields.type) fields.push(['Type', note.classification?.type || 'Uncategorized']);
+  if (includeFields.attendees) {
+    const attendees = note.meeting?.attendees || [];
+    fields.push(['Attendees', attendees.map((a) => (a.name ? `${a.name} (${a.email})` : a.email)).join(', ')]);
+  }
+  if (fields.length > 0) {
+    addPdfFields(layout, fields);
+    addPdfRule(layout);
+  }
+
+  if (includeFields.summary) {
+    const summary = note.summary || note.enhanced_analysis?.summary;
+    if (summary) {
+      addPdfHeading(layout, 'Summary');
+      addPdfParagraph(layout, summary);
+    }
+  }
+
+  if (includeFields.actionItems) {
+    const items = note.action_items || note.enhanced_analysis?.action_items || [];
+    if (items.length > 0) {
+      addPdfHeading(layout, 'Action Items');
+      addPdfTable(
+        layout,
+        [
+          { header: 'Task', width: 5 },
+          { header: 'Owner', width: 2 },
+          { header: 'Due', width: 1.3 },
+          { header: 'Status', width: 1.3 },
+        ],
+        items.map((item) => [
+          item.task,
+          item.assignee_name || item.assignee || '',
+          item.due_date || '',
+          item.status === 'completed' ? 'Done' : 'Open',
+        ])
+      );
+    }
+  }
+
+  if (includeFields.decisions) {
+    const decisions = note.key_decisions || note.enhanced_analysis?.key_decisions || [];
+    if (decisions.length > 0) {
+      addPdfHeading(layout, 'Decisions');
+      addPdfList(
+        layout,
+        decisions.map((d) => ({ text: d.decision, detail: d.context || undefined })),
+        { numbered: true }
+      );
+    }
+  }
+}
+
+/**
+ * Export notes to a PDF, one note per page run. Exports of several notes
+ * can open with a cover page and a linked table of contents.
+ */
+export function exportNotesToPDF(
+  notes: Note[],
+  options: Partial<ExportOptions> = {}
+): Uint8Array<ArrayBuffer> {
+  const mergedOptions: ExportOptions = { ...defaultOptions, ...options };
+  mergedOptions.includeFields = { ...defaultOptions.includeFields, ...options.includeFields };
+  const pdfOptions: PdfExportOptions = { ...defaultPdfOptions, ...options.pdf };
+  const multiple = notes.length > 1;
+  const withCover = multiple && pdfOptions.coverPage;
+  const withContents = multiple && pdfOptions.tableOfContents;
+
+  const layout = createPdfLayout();
+  let firstContentPage = 0;
+
+  if (withCover) {
+    const dates = notes
+      .map((note) => note.meeting?.start_time || note.created_at)
+      .filter((timestamp): timestamp is Timestamp => !!timestamp)
+      .map(toDate)
+      .sort((a, b) => a.getTime() - b.getTime());
+    const clients = [...new Set(notes.map((note) => note.classification?.client_name).filter(Boolean))];
+
+    addPdfSpace(layout, 200);
+    addPdfParagraph(layout, pdfOptions.title, { font: 'bold', size: 28 });
+    addPdfSpace(layout, 8);
+    if (clients.length === 1) addPdfParagraph(layout, clients[0]!, { size: 16 });
+    addPdfParagraph(layout, `${notes.length} meetings`, { size: 12, color: PDF_MUTED_COLOR });
+    if (dates.length > 0) {
+      const first = dates[0].toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+      const last = dates[dates.length - 1].toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+      addPdfParagraph(layout, first === last ? first : `${first} – ${last}`, { size: 12, color: PDF_MUTED_COLOR });
+    }
+    addPdfRule(layout, 16);
+    addPdfParagraph(layout, `Generated on ${new Date().toLocaleDateString()}`, { color: PDF_MUTED_COLOR });
+    firstContentPage = 1;
+  }
+
+  // Contents pages are reserved now and filled in once note pages are known
+  const contentsPages: number[] = [];
+  if (withContents) {
+    const count = Math.ceil(notes.length / TOC_ENTRIES_PER_PAGE);
+    for (let i = 0; i < count; i++) {
+      contentsPages.push(i === 0 && !withCover ? 0 : addPdfPage(layout));
+    }
+    firstContentPage = contentsPages[contentsPages.length - 1] + 1;
+  }
+
+  const notePages = notes.map((note, index) => {
+    const page = index === 0 && firstContentPage === 0 ? 0 : addPdfPage(layout);
+    addNoteToPDF(layout, note, mergedOptions);
+    return page;
+  });
+
+  contentsPages.forEach((pageIndex, i) => {
+    const page = layout.pages[pageIndex];
+    if (i === 0) drawPdfText(page, 'Contents', PDF_MARGIN, PDF_MARGIN + 20, { font: 'bold', size: 18 });
+
+    notes.slice(i * TOC_ENTRIES_PER_PAGE, (i + 1) * TOC_ENTRIES_PER_PAGE).forEach((note, j) => {
+      const index = i * TOC_ENTRIES_PER_PAGE + j;
+      const y = TOC_FIRST_LINE + j * TOC_LINE_HEIGHT;
+      const pageLabel = `${notePages[index] + 1}`;
+      const pageLabelWidth = measurePdfText(pageLabel);
+      const date = formatDate(note.meeting?.start_time || note.created_at);
+      const label = truncatePdfText(
+        `${index + 1}. ${getTitle(note)}`,
+        PDF_CONTENT_WIDTH - pageLabelWidth - 90
+      );
+
+      drawPdfText(page, label, PDF_MARGIN, y);
+      if (date) drawPdfText(page, date, PDF_PAGE_WIDTH - PDF_MARGIN - pageLabelWidth - 70, y, { color: PDF_MUTED_COLOR });
+      drawPdfText(page, pageLabel, PDF_PAGE_WIDTH - PDF_MARGIN - pageLabelWidth, y);
+      addPdfLink(page, PDF_MARGIN, y - TOC_LINE_HEIGHT + 5, PDF_CONTENT_WIDTH, TOC_LINE_HEIGHT, notePages[index]);
+    });
+  });
+
+  return renderPdf(layout, {
+    title: notes.length === 1 ? getTitle(notes[0]) : pdfOptions.title,
+    footer: (pageIndex, pageCount) => (withCover && pageIndex === 0 ? null : `Page ${pageIndex + 1} of ${pageCount}`),
+  });
+}
+
+// Used for notes no template applies to
+const DEFAULT_DOCX_SECTIONS: TemplateSection[] = [
+  { id: 'summary', title: 'Summary', type: 'text', order: 1 },
+  { id: 'action_items', title: 'Action Items', type: 'checkbox-list', order: 2 },
+  { id: 'decisions', title: 'Key Decisions', type: 'list', order: 3 },
+];
+
+const SOURCE_FIELDS: Record<SectionSource, keyof ExportOptions['includeFields'] | null> = {
+  summary: 'summary',
+  action_items: 'actionItems',
+  decisions: 'decisions',
+  attendees: 'attendees',
+  content: null,
+};
+
+/**
+ * Lines written in the note content as paragraphs and bulleted lists
+ */
+function contentToDocxBlocks(lines: string[]): DocxBlock[] {
+  const blocks: DocxBlock[] = [];
+  let paragraph: string[] = [];
+  let bullets: string[] = [];
+
+  const flush = () => {
+    if (paragraph.length) blocks.push({ type: 'paragraph', text: paragraph.join(' ') });
+    if (bullets.length) blocks.push({ type: 'list', items: bullets });
+    paragraph = [];
+    bullets = [];
+  };
+
+  for (const line of lines) {
+    const bullet = line.match(/^\s*[-*]\s+(?:\[[ x]\]\s*)?(.*)$/);
+    if (bullet) {
+      if (paragraph.length) flush();
+      bullets.push(bullet[1]);
+    } else if (line.trim()) {
+      if (bullets.length) flush();
+      paragraph.push(line.trim());
+    } else {
+      flush();
+    }
+  }
+  flush();
+  return blocks;
+}
+
+/**
+ * Blocks for one template section, or an empty list when the note has
+ * nothing for it
+ */
+function sectionToDocxBlocks(note: Note, source: SectionSource, contentLines: string[]): DocxBlock[] {
+  switch (source) {
+    case 'summary': {
+      const summary = note.summary || note.enhanced_analysis?.summary;
+      if (summary) return [{ type: 'paragraph', text: summary }];
+      break;
+    }
+    case 'action_items': {
+      const items = note.action_items || note.enhanced_analysis?.action_items || [];
+      if (items.length > 0) {
+        return [
+          {
+            type: 'table',
+            columns: [
+              { header: 'Action', width: 5 },
+              { header: 'Owner', width: 2 },
+              { header: 'Due', width: 1.4 },
+              { header: 'Status', width: 1.2 },
+            ],
+            rows: items.map((item) => [
+              item.task,
+              item.assignee_name || item.assignee || '',
+              item.due_date || '',
+              item.status === 'completed' ? 'Done' : 'Open',
+            ]),
+          },
+        ];
+      }
+      break;
+    }
+    case 'decisions': {
+      const decisions = note.key_decisions || note.enhanced_analysis?.key_decisions || [];
+      if (decisions.length > 0) {
+        return [
+          {
+            type: 'list',
+            numbered: true,
+            items: decisions.map((d) => ({ text: d.decision, detail: d.context || undefined })),
+          },
+        ];
+      }
+      break;
+    }
+    case 'attendees': {
+      const attendees = note.meeting?.attendees || [];
+      if (attendees.length > 0) {
+        return [{ type: 'list', items: attendees.map((a) => (a.name ? `${a.name} (${a.email})` : a.email)) }];
+      }
+      break;
+    }
+  }
+
+  // Written in the note content instead, as the template checklist allows
+  return contentToDocxBlocks(contentLines);
+}
+
+/**
+ * Lay out one note with the sections, order and headings of its template
+ */
+function noteToDocxBlocks(note: Note, options: ExportOptions, docxOptions: DocxExportOptions): DocxBlock[] {
+  const { includeFields } = options;
+  const template = matchTemplate(docxOptions.templates, noteToTemplateMatchMeeting(note)).template;
+  const sections = [...(template?.sections?.length ? template.sections : DEFAULT_DOCX_SECTIONS)].sort(
+    (a, b) => a.order - b.order
+  );
+  const sources = sections.map(getSectionSource);
+  const values = buildTemplateValues(noteToTemplateContext(note, { clients: [], projects: [] }));
+
+  const fields: Array<[string, string]> = [];
+  if (includeFields.date) fields.push(['Date', formatLongDate(note.meeting?.start_time || note.created_at)]);
+  if (includeFields.client) fields.push(['Client', note.classification?.client_name || '']);
+  if (includeFields.project) fields.push(['Project', note.classification?.project_name || '']);
+  if (includeFields.type) fields.push(['Type', note.classification?.type || 'Uncategorized']);
+  // Listed in the header unless the template has its own attendees section
+  if (includeFields.attendees && !sources.includes('attendees')) {
+    const attendees = note.meeting?.attendees || [];
+    fields.push(['Attendees', attendees.map((a) => a.name || a.email).join(', ')]);
+  }
+
+  const blocks: DocxBlock[] = [{ type: 'heading', level: 1, text: getTitle(note) }];
+  if (fields.length > 0) blocks.push({ type: 'fields', fields });
+  if (template) {
+    blocks.push({ type: 'paragraph', text: `Template: ${template.name}`, italic: true, muted: true });
+  }
+
+  sections.forEach((section, i) => {
+    const field = SOURCE_FIELDS[sources[i]];
+    if (field && !includeFields[field]) return;
+
+    const otherTitles = sections.filter((s) => s.id !== section.id).map((s) => s.title);
+    const body = sectionToDocxBlocks(note, sources[i], getSectionBody(note.content || '', section.title, otherTitles));
+    if (body.length === 0 && !section.required) return;
+
+    blocks.push({ type: 'heading', level: 2, text: interpolateTemplate(section.title, values) });
+    blocks.push(...(body.length > 0 ? body : [{ type: 'paragraph' as const, text: 'None recorded.', italic: true, muted: true }]));
+  });
+
+  return blocks;
+}
+
+/**
+ * Export notes to one Word document, each note's sections following its
+ * matched template. Pass the Egen logo to show it in a branded header.
+ */
+export function exportNotesToDOCX(
+  notes: Note[],
+  options: Partial<ExportOptions> = {},
+  logo: DocxImage | null = null
+): Uint8Array<ArrayBuffer> {
+  const mergedOptions: ExportOptions = { ...defaultOptions, ...options };
+  mergedOptions.includeFields = { ...defaultOptions.includeFields, ...options.includeFields };
+  const docxOptions: DocxExportOptions = { ...defaultDocxOptions, ...options.docx };
+  const title = notes.length === 1 ? getTitle(notes[0]) : docxOptions.title;
+
+  const blocks: DocxBlock[] = [];
+  if (notes.length > 1) {
+    blocks.push({ type: 'title', text: docxOptions.title });
+    blocks.push({
+      type: 'paragraph',
+      text: `${notes.length} meetings · Generated on ${new Date().toLocaleDateString()}`,
+      muted: true,
+    });
+  }
+  notes.forEach((note, index) => {
+    const noteBlocks = noteToDocxBlocks(note, mergedOptions, docxOptions);
+    if (index > 0) noteBlocks[0] = { type: 'heading', level: 1, text: getTitle(note), pageBreakBefore: true };
+    blocks.push(...noteBlocks);
+  });
+
+  return renderDocx(blocks, {
+    title,
+    header: docxOptions.brandedHeader ? { text: title, logo } : null,
+    footer: docxOptions.brandedFooter ? { text: 'Prepared by Egen' } : null,
+  });
+}
+
+/**
+ * The Egen logo for document headers, or null if it cannot be loaded
+ */
+async function loadEgenLogo(): Promise<DocxImage | null> {
+  try {
+    const response = await fetch('/egen-logo.png');
+    if (!response.ok) return null;
+    const data = new Uint8Array(await response.arrayBuffer());
+    const size = getPngSize(data);
+    return size ? { data, ...size } : null;
+  } catch {
+    return null;
+  }
+}
+
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
 /**
  * Export notes to specified format
  */
@@ -269,35 +714,76 @@ export function exportNotes(notes: Note[], options: Partial<ExportOptions> = {})
       return exportToJSON(notes, mergedOptions);
     case 'markdown':
       return exportToMarkdown(notes, mergedOptions);
+    case 'pdf':
+      throw new Error('PDF exports are binary; use exportNotesToPDF');
+    case 'docx':
+      throw new Error('Word exports are binary; use exportNotesToDOCX');
     default:
       throw new Error(`Unsupported export format: ${mergedOptions.format}`);
   }
 }
 
 /**
- * Download exported notes as a file
+ * Download exported notes as a file. Word exports of one document per
+ * note download as a ZIP.
  */
-export function downloadExport(notes: Note[], options: Partial<ExportOptions> = {}): void {
+export async function downloadExport(notes: Note[], options: Partial<ExportOptions> = {}): Promise<void> {
   const mergedOptions: ExportOptions = { ...defaultOptions, ...options };
-  const content = exportNotes(notes, mergedOptions);
+  const date = new Date().toISOString().split('T')[0];
 
   const mimeTypes: Record<ExportFormat, string> = {
     csv: 'text/csv',
     json: 'application/json',
     markdown: 'text/markdown',
+    pdf: 'application/pdf',
+    docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
   };
 
   const extensions: Record<ExportFormat, string> = {
     csv: 'csv',
     json: 'json',
     markdown: 'md',
+    pdf: 'pdf',
+    docx: 'docx',
   };
 
-  const filename =
-    mergedOptions.filename ||
-    `meeting-notes-${new Date().toISOString().split('T')[0]}.${extensions[mergedOptions.format]}`;
+  if (mergedOptions.format === 'docx') {
+    const docxOptions = { ...defaultDocxOptions, ...options.docx };
+    const logo = docxOptions.brandedHeader ? await loadEgenLogo() : null;
+
+    if (docxOptions.layout === 'per-note' && notes.length > 1) {
+      const used = new Set<string>();
+      const files = notes.map((note) => {
+        const base = `${formatDate(note.meeting?.start_time || note.created_at)}-${slugify(getTitle(note))}`.replace(/^-/, '');
+        let name = `${base || 'note'}.docx`;
+        for (let n = 2; used.has(name); n++) name = `${base || 'note'}-${n}.docx`;
+        used.add(name);
+        return { name, data: exportNotesToDOCX([note], options, logo) };
+      });
+      downloadFile(createZip(files), mergedOptions.filename || `meeting-notes-${date}.zip`, 'application/zip');
+      return;
+    }
+
+    downloadFile(
+      exportNotesToDOCX(notes, options, logo),
+      mergedOptions.filename || `meeting-notes-${date}.docx`,
+      mimeTypes.docx
+    );
+    return;
+  }
+
+  const content =
+    mergedOptions.format === 'pdf' ? exportNotesToPDF(notes, options) : exportNotes(notes, mergedOptions);
+  const filename = mergedOptions.filename || `meeting-notes-${date}.${extensions[mergedOptions.format]}`;
+
+  downloadFile(content, filename, mimeTypes[mergedOptions.format]);
+}
 
-  const blob = new Blob([content], { type: mimeTypes[mergedOptions.format] });
+/**
+ * Trigger a browser download of text or binary content
+ */
+function downloadFile(content: string | Uint8Array<ArrayBuffer>, filename: string, mimeType: string): void {
+  const blob = new Blob([content], { type: mimeType });
   const url = URL.createObjectURL(blob);
 
   const link = document.createElement('a');
@@ -309,3 +795,112 @@ export function downloadExport(notes: Note[], options: Partial<ExportOptions> =
 
   URL.revokeObjectURL(url);
 }
+
+// ============================================================
+// Decision Register Export
+// ============================================================
+
+export type DecisionExportFormat = 'csv' | 'markdown';
+
+const DECISION_STATUS_LABELS: Record<DecisionEntry['status'], string> = {
+  proposed: 'Proposed',
+  accepted: 'Accepted',
+  superseded: 'Superseded',
+};
+
+function findDecisionText(decisions: DecisionEntry[], ref?: DecisionRef | null): string {
+  if (!ref) return '';
+  const match = decisions.find((d) => d.note_id === ref.note_id && d.id === ref.decision_id);
+  return match?.decision || '';
+}
+
+/**
+ * Export a decision register to CSV or Markdown
+ */
+export function exportDecisions(
+  decisions: DecisionEntry[],
+  format: DecisionExportFormat,
+  title: string
+): string {
+  if (format === 'csv') {
+    const headers = ['Date', 'Decision', 'Status', 'Decided By', 'Context', 'Meeting', 'Supersedes'];
+    const rows = decisions.map((d) =>
+      [
+        formatDate(d.meeting_date),
+        escapeCSV(d.decision),
+        DECISION_STATUS_LABELS[d.status],
+        escapeCSV(d.decided_by || ''),
+        escapeCSV(d.context || ''),
+        escapeCSV(d.note_title),
+        escapeCSV(findDecisionText(decisions, d.supersedes)),
+      ].join(',')
+    );
+    return [headers.join(','), ...rows].join('\n');
+  }
+
+  const lines: string[] = [
+    `# Decision Register: ${title}`,
+    '',
+    `*Generated on ${new Date().toLocaleDateString()}*`,
+    '',
+  ];
+
+  decisions.forEach((d, index) => {
+    lines.push(`## ${index + 1}. ${d.decision}`);
+    lines.push('');
+    lines.push(`**Status:** ${DECISION_STATUS_LABELS[d.status]}`);
+    lines.push(`**Date:** ${formatDate(d.meeting_date)}`);
+    lines.push(`**Meeting:** ${d.note_title}`);
+    if (d.decided_by) {
+      lines.push(`**Decided by:** ${d.decided_by}`);
+    }
+    const supersedes = findDecisionText(decisions, d.supersedes);
+    if (supersedes) {
+      lines.push(`**Supersedes:** ${supersedes}`);
+    }
+    if (d.context) {
+      lines.push('');
+      lines.push(`> ${d.context}`);
+    }
+    lines.push('');
+  });
+
+  return lines.join('\n');
+}
+
+/**
+ * Download a decision register as a file
+ */
+export function downloadDecisions(
+  decisions: DecisionEntry[],
+  format: DecisionExportFormat,
+  title: string
+): void {
+  const slug = slugify(title);
+  const date = new Date().toISOString().split('T')[0];
+  const extension = format === 'csv' ? 'csv' : 'md';
+
+  downloadFile(
+    exportDecisions(decisions, format, title),
+    `decisions-${slug || 'register'}-${date}.${extension}`,
+    format === 'csv' ? 'text/csv' : 'text/markdown'
+  );
+}
+
+// ============================================================
+// Rule Export
+// ============================================================
+
+/**
+ * Download a rule export document as JSON
+ */
+export function downloadRuleExport(ruleExport: RuleExportDocument): void {
+  const date = ruleExport.exported_at.split('T')[0];
+  const scope = ruleExport.rules.length === 1 ? 'rule' : `${ruleExport.rules.length}-rules`;
+
+  downloadFile(
+    JSON.stringify(ruleExport, null, 2),
+    `classification-${scope}-${date}.json`,
+    'application/json'
+  );
+}
@@ -2,6 +2,7 @@
 
 import {
   collection,
+  CollectionReference,
   doc,
   getDoc,
   getDocs,
@@ -11,13 +12,33 @@ import {
   updateDoc,
   addDoc,
   deleteDoc,
+  setDoc,
   Timestamp,
   limit,
   startAfter,
   DocumentSnapshot,
+  QueryConstraint,
+  getCountFromServer,
+  onSnapshot,
+  runTransaction,
+  DocumentData,
+  WriteBatch,
   writeBatch,
+  increment,
 } from 'firebase/firestore';
-import { getFirebaseDb } from './firebase';
+import { getFirebaseDb, getFirebaseAuth } from './firebase';
+import type {
+  ClassificationNames,
+  RuleClassification,
+  RuleConditionGroup,
+  RuleTimeWindow,
+} from './rule-engine';
+import {
+  RuleApplyFields,
+  getRuleApplyFields,
+  pickRuleApplyFields,
+} from './rule-apply';
+import { TemplateMatchMeeting, matchTemplate } from './template-match';
 
 // Types matching Firestore schema
 export interface Client {
@@ -112,11 +133,25 @@ export interface ActionItem {
   google_task_id?: string | null;
 }
 
+export type DecisionStatus = 'proposed' | 'accepted' | 'superseded';
+
+/**
+ * Points at a decision embedded in another note
+ */
+export interface DecisionRef {
+  note_id: string;
+  decision_id: string;
+}
+
 export interface KeyDecision {
   id: string;
   decision: string;
   context?: string | null;
   decided_by?: string | null;
+  // Decisions extracted before the register existed have no status; treat as accepted
+  status?: DecisionStatus;
+  supersedes?: DecisionRef | null;
+  superseded_by?: DecisionRef | null;
 }
 
 export interface EnhancedAnalysis {
@@ -133,11 +168,24 @@ export interface NoteTemplate {
   description?: string;
   category: 'client' | 'internal' | 'external' | 'general';
   sections: TemplateSection[];
+  // Scored by lib/template-match
   auto_apply_rules?: {
     keywords?: string[];
+    // Classification types, e.g. client or internal
     meeting_types?: string[];
     attendee_domains?: string[];
+    client_ids?: string[];
+    project_ids?: string[];
+    min_duration?: number | null;
+    max_duration?: number | null;
   };
+  // Scope: notes for this client or project prefer this template
+  client_id?: string | null;
+  project_id?: string | null;
+  // Inherit sections from another template; sections then holds only
+  // added or overridden sections (see lib/template-inheritance)
+  parent_id?: string | null;
+  removed_section_ids?: string[];
   created_by?: string;
   created_at?: Timestamp;
   updated_at?: Timestamp;
@@ -148,6 +196,8 @@ export interface TemplateSection {
   id: string;
   title: string;
   placeholder?: string;
+  // Starting content with {{variables}}, filled in by lib/template-render
+  content?: string;
   type: 'text' | 'list' | 'checkbox-list';
   required?: boolean;
   order: number;
@@ -182,6 +232,10 @@ export interface Note {
   updatedAt?: Timestamp;
   createdBy?: string;
   driveFileId?: string;
+  // Trash (soft delete)
+  deleted?: boolean;
+  deleted_at?: Timestamp | null;
+  deleted_by?: string | null;
 }
 
 export interface ClassificationRule {
@@ -189,14 +243,7 @@ export interface ClassificationRule {
   name: string;
   description?: string;
   priority: number;
-  conditions?: {
-    operator: 'AND' | 'OR';
-    rules: Array<{
-      field: string;
-      operator: string;
-      value: string | string[];
-    }>;
-  };
+  conditions?: RuleConditionGroup;
   actions?: {
     classify_as?: string;
     client_id?: string;
@@ -211,11 +258,22 @@ export interface ClassificationRule {
     times_applied: number;
     times_corrected: number;
     last_applied?: Timestamp | null;
+    // Notes reclassified by applying the rule to existing notes
+    retroactive_applied?: number;
   };
   created_by?: string;
   created_at?: Timestamp;
   updated_at?: Timestamp;
   status?: 'active' | 'disabled' | 'testing';
+  // Inclusive YYYY-MM-DD dates the rule applies between
+  active_from?: string | null;
+  active_until?: string | null;
+  // Weekly windows the rule applies in; none means any time
+  active_windows?: RuleTimeWindow[] | null;
+  // Set when classify disabled the rule because active_until passed
+  expired_at?: Timestamp | null;
+  // Latest entry in the versions subcollection
+  version?: number;
 }
 
 export interface MeetingData {
@@ -312,17 +370,30 @@ export async function getProject(projectId: string): Promise<Project | null> {
 }
 
 // Notes
-export async function getNotes(filters?: {
+export interface NoteFilters {
   clientId?: string;
   projectId?: string;
   noteType?: string;
   uncategorizedOnly?: boolean;
-  limit?: number;
-  startAfterDoc?: DocumentSnapshot;
-}): Promise<Note[]> {
-  const db = getFirebaseDb();
-  const notesRef = collection(db, 'notes_metadata');
-  const constraints: any[] = [];
+}
+
+/**
+ * One page of notes plus an opaque cursor for fetching the next page
+ */
+export interface NotesPage {
+  items: Note[];
+  cursor: string | null;
+  hasMore: boolean;
+}
+
+export const DEFAULT_NOTES_PAGE_SIZE = 50;
+
+function excludeTrashed(notes: Note[]): Note[] {
+  return notes.filter((note) => !note.deleted);
+}
+
+function buildNoteWhereConstraints(filters?: NoteFilters): QueryConstraint[] {
+  const constraints: QueryConstraint[] = [];
 
   if (filters?.clientId) {
     constraints.push(where('classification.client_id', '==', filters.clientId));
@@ -337,9 +408,26 @@ export async function getNotes(filters?: {
     constraints.push(where('classification.type', '==', 'uncategorized'));
   }
 
+  return constraints;
+}
+
+function buildNoteFilterConstraints(filters?: NoteFilters): QueryConstraint[] {
+  const constraints = buildNoteWhereConstraints(filters);
+
   // Default ordering by created_at (meeting.start_time can be null for imported notes)
   constraints.push(orderBy('created_at', 'desc'));
 
+  return constraints;
+}
+
+export async function getNotes(filters?: NoteFilters & {
+  limit?: number;
+  startAfterDoc?: DocumentSnapshot;
+}): Promise<Note[]> {
+  const db = getFirebaseDb();
+  const notesRef = collection(db, 'notes_metadata');
+  const constraints = buildNoteFilterConstraints(filters);
+
   if (filters?.limit) {
     constraints.push(limit(filters.limit));
   }
@@ -350,10 +438,94 @@ export async function getNotes(filters?: {
 
   const q = query(notesRef, ...constraints);
   const snapshot = await getDocs(q);
-  return snapshot.docs.map((doc) => ({
+  return excludeTrashed(snapshot.docs.map((doc) => ({
     id: doc.id,
     ...doc.data(),
-  })) as Note[];
+  })) as Note[]);
+}
+
+/**
+ * Get a single page of notes.
+ * Pass the returned cursor back in to fetch the following page; callers
+ * should treat it as opaque.
+ */
+export async function getNotesPage(
+  filters?: NoteFilters,
+  options: { pageSize?: number; cursor?: string | null } = {}
+): Promise<NotesPage> {
+  const db = getFirebaseDb();
+  const notesRef = collection(db, 'notes_metadata');
+  const pageSize = options.pageSize || DEFAULT_NOTES_PAGE_SIZE;
+  const constraints = buildNoteFilterConstraints(filters);
+
+  if (options.cursor) {
+    const cursorDoc = await getDoc(doc(db, 'notes_metadata', options.cursor));
+    if (!cursorDoc.exists()) {
+      throw new Error('Pagination cursor is no longer valid');
+    }
+    constraints.push(startAfter(cursorDoc));
+  }
+
+  // Fetch one extra document to know whether another page exists
+  constraints.push(limit(pageSize + 1));
+
+  const snapshot = await getDocs(query(notesRef, ...constraints));
+  const docs = snapshot.docs.slice(0, pageSize);
+  const hasMore = snapshot.docs.length > pageSize;
+
+  // Trashed notes are dropped after paging so the cursor still advances
+  return {
+    items: excludeTrashed(docs.map((doc) => ({
+      id: doc.id,
+      ...doc.data(),
+    })) as Note[]),
+    cursor: hasMore ? docs[docs.length - 1].id : null,
+    hasMore,
+  };
+}
+
+/**
+ * Count notes matching the given filters without downloading them
+ */
+export async function getNotesCount(filters?: NoteFilters): Promise<number> {
+  const db = getFirebaseDb();
+  const notesRef = collection(db, 'notes_metadata');
+  // Counts need no ordering, and orderBy would require a composite index.
+  // Most notes have no `deleted` field, so count trashed notes separately.
+  const [all, trashed] = await Promise.all([
+    getCountFromServer(query(notesRef, ...buildNoteWhereConstraints(filters))),
+    getCountFromServer(
+      query(notesRef, ...buildNoteWhereConstraints(filters), where('deleted', '==', true))
+    ),
+  ]);
+  return Math.max(all.data().count - trashed.data().count, 0);
+}
+
+/**
+ * Notes linked to a client or project only through the legacy top-level
+ * `clientId` / `projectId` fields, which the paged queries do not match.
+ * Notes whose classification already points at the same client or project
+ * are left out, since the paged queries return them.
+ */
+export async function getLegacyLinkedNotes(
+  filters: Pick<NoteFilters, 'clientId' | 'projectId'>
+): Promise<Note[]> {
+  if (!filters.clientId && !filters.projectId) return [];
+
+  const db = getFirebaseDb();
+  const notesRef = collection(db, 'notes_metadata');
+  const snapshot = await getDocs(
+    filters.projectId
+      ? query(notesRef, where('projectId', '==', filters.projectId))
+      : query(notesRef, where('clientId', '==', filters.clientId))
+  );
+  const notes = excludeTrashed(snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() })) as Note[]);
+
+  return notes.filter((note) =>
+    filters.projectId
+      ? note.classification?.project_id !== filters.projectId
+      : note.classification?.client_id !== filters.clientId
+  );
 }
 
 export async function getNote(noteId: string): Promise<Note | null> {
@@ -368,9 +540,6 @@ export async function updateNote(
   noteId: string,
   updates: Partial<Note>
 ): Promise<void> {
-  const db = getFirebaseDb();
-  const noteRef = doc(db, 'notes_metadata', noteId);
-
   const normalizedUpdates: Partial<Note> = { ...updates };
   if (updates.meeting?.attendees) {
     normalizedUpdates.meeting = {
@@ -379,12 +548,205 @@ export async function updateNote(
     };
   }
 
-  await updateDoc(noteRef, {
-    ...normalizedUpdates,
-    updated_at: Timestamp.now(),
+  await updateNoteWithRevision(noteId, 'update', () => normalizedUpdates);
+}
+
+// ============================================================
+// Note Revisions
+// ============================================================
+
+export interface RevisionChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface NoteRevision {
+  id: string;
+  action:
+    | 'update'
+    | 'classification'
+    | 'sharing'
+    | 'action_item'
+    | 'decision'
+    | 'restore'
+    | 'trash'
+    | 'untrash';
+  changed_by: string | null;
+  changed_at: Timestamp;
+  changed_fields: string[];
+  changes: RevisionChange[];
+  restored_from?: string | null;
+}
+
+function getFieldValue(data: DocumentData, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (value, key) =>
+      value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined,
+    data
+  );
+}
+
+function setFieldValue(data: DocumentData, path: string, value: unknown): DocumentData {
+  const [key, ...rest] = path.split('.');
+  if (rest.length === 0) {
+    return { ...data, [key]: value };
+  }
+  const child = data[key] && typeof data[key] === 'object' ? data[key] : {};
+  return { ...data, [key]: setFieldValue(child, rest.join('.'), value) };
+}
+
+// Maps are compared with sorted keys, since Firestore does not keep key order
+function normalizeValue(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(normalizeValue);
+  if (value && typeof value === 'object' && !(value instanceof Timestamp)) {
+    const record = value as Record<string, unknown>;
+    return Object.fromEntries(
+      Object.keys(record)
+        .filter((key) => record[key] !== undefined)
+        .sort()
+        .map((key) => [key, normalizeValue(record[key])])
+    );
+  }
+  return value ?? null;
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(normalizeValue(a)) === JSON.stringify(normalizeValue(b));
+}
+
+function getCurrentUserEmail(): string | null {
+  return getFirebaseAuth().currentUser?.email ?? null;
+}
+
+// Shared by note revisions and rule versions
+function diffDocumentUpdates(
+  current: DocumentData,
+  updates: Record<string, unknown>
+): RevisionChange[] {
+  return Object.entries(updates)
+    .map(([field, after]) => ({
+      field,
+      before: getFieldValue(current, field) ?? null,
+      after: after ?? null,
+    }))
+    .filter((change) => !isSameValue(change.before, change.after));
+}
+
+function buildRevisionRecord(
+  action: NoteRevision['action'],
+  changes: RevisionChange[],
+  options: { changedBy?: string | null; restoredFrom?: string } = {}
+): Omit<NoteRevision, 'id'> {
+  return {
+    action,
+    changed_by: options.changedBy ?? getCurrentUserEmail(),
+    changed_at: Timestamp.now(),
+    changed_fields: changes.map((change) => change.field),
+    changes,
+    restored_from: options.restoredFrom ?? null,
+  };
+}
+
+/**
+ * Apply updates to a note and record what changed in its revisions
+ * subcollection, in a single transaction.
+ * `buildUpdates` receives the current note data and returns Firestore
+ * update paths (dotted paths are allowed).
+ */
+async function updateNoteWithRevision(
+  noteId: string,
+  action: NoteRevision['action'],
+  buildUpdates: (current: DocumentData) => Record<string, unknown>,
+  options: { changedBy?: string | null; restoredFrom?: string } = {}
+): Promise<void> {
+  const db = getFirebaseDb();
+  const noteRef = doc(db, 'notes_metadata', noteId);
+
+  await runTransaction(db, async (transaction) => {
+    const snapshot = await transaction.get(noteRef);
+    if (!snapshot.exists()) {
+      throw new Error('Note not found');
+    }
+
+    const current = snapshot.data();
+    const updates = buildUpdates(current);
+    const changes = diffDocumentUpdates(current, updates);
+
+    transaction.update(noteRef, {
+      ...updates,
+      updated_at: Timestamp.now(),
+    });
+
+    if (changes.length > 0) {
+      const revisionRef = doc(collection(noteRef, 'revisions'));
+      transaction.set(revisionRef, buildRevisionRecord(action, changes, options));
+    }
   });
 }
 
+/**
+ * Get the revision history of a note, newest first
+ */
+export async function getNoteRevisions(
+  noteId: string,
+  limitCount: number = 50
+): Promise<NoteRevision[]> {
+  const db = getFirebaseDb();
+  const revisionsRef = collection(db, 'notes_metadata', noteId, 'revisions');
+  const snapshot = await getDocs(
+    query(revisionsRef, orderBy('changed_at', 'desc'), limit(limitCount))
+  );
+  return snapshot.docs.map((doc) => ({
+    id: doc.id,
+    ...doc.data(),
+  })) as NoteRevision[];
+}
+
+/**
+ * Restore a note to how it looked immediately before the given revision.
+ * The chosen revision and every later one are undone, newest first, and the
+ * restore itself is recorded as a new revision.
+ */
+export async function restoreNoteRevision(
+  noteId: string,
+  revisionId: string,
+  userEmail?: string
+): Promise<void> {
+  const db = getFirebaseDb();
+  const revisionsRef = collection(db, 'notes_metadata', noteId, 'revisions');
+  const snapshot = await getDocs(query(revisionsRef, orderBy('changed_at', 'desc')));
+  const revisions = snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() })) as NoteRevision[];
+
+  const index = revisions.findIndex((revision) => revision.id === revisionId);
+  if (index === -1) {
+    throw new Error('Revision not found');
+  }
+  const toUndo = revisions.slice(0, index + 1);
+
+  await updateNoteWithRevision(
+    noteId,
+    'restore',
+    (current) => {
+      let restored = current;
+      const touched = new Set<string>();
+      for (const revision of toUndo) {
+        for (const change of revision.changes) {
+          restored = setFieldValue(restored, change.field, change.before);
+          touched.add(change.field.split('.')[0]);
+        }
+      }
+      // Write whole top-level fields so overlapping paths never conflict
+      const updates: Record<string, unknown> = {};
+      touched.forEach((field) => {
+        updates[field] = restored[field] ?? null;
+      });
+      return updates;
+    },
+    { changedBy: userEmail, restoredFrom: revisionId }
+  );
+}
+
 // New functions for Part 3
 
 /**
@@ -418,11 +780,83 @@ export async function createNote(data: Partial<Note>): Promise<string> {
 }
 
 /**
- * Delete a note from Firestore
+ * Move a note to the trash. It stays restorable until purged.
+ */
+export async function deleteNote(noteId: string, userEmail?: string): Promise<void> {
+  const deletedBy = userEmail ?? getCurrentUserEmail();
+  await updateNoteWithRevision(
+    noteId,
+    'trash',
+    () => ({
+      deleted: true,
+      deleted_at: Timestamp.now(),
+      deleted_by: deletedBy,
+    }),
+    { changedBy: deletedBy }
+  );
+}
+
+// ============================================================
+// Trash
+// ============================================================
+
+// Used until the workspace sets its own; matches the scheduled purge function
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+/**
+ * Get notes in the trash, most recently deleted first
+ */
+export async function getTrashedNotes(): Promise<Note[]> {
+  const db = getFirebaseDb();
+  const notesRef = collection(db, 'notes_metadata');
+  // Query without orderBy to avoid needing composite index, sort client-side
+  const snapshot = await getDocs(query(notesRef, where('deleted', '==', true)));
+  const notes = snapshot.docs.map((doc) => ({
+    id: doc.id,
+    ...doc.data(),
+  })) as Note[];
+  return notes.sort(
+    (a, b) => (b.deleted_at?.toMillis?.() || 0) - (a.deleted_at?.toMillis?.() || 0)
+  );
+}
+
+/**
+ * Take a note back out of the trash
+ */
+export async function restoreNoteFromTrash(noteId: string, userEmail?: string): Promise<void> {
+  await updateNoteWithRevision(
+    noteId,
+    'untrash',
+    () => ({
+      deleted: false,
+      deleted_at: null,
+      deleted_by: null,
+    }),
+    { changedBy: userEmail }
+  );
+}
+
+/**
+ * Permanently delete a note and its revision history.
+ * Only notes already in the trash can be purged.
  */
-export async function deleteNote(noteId: string): Promise<void> {
+export async function purgeNote(noteId: string): Promise<void> {
   const db = getFirebaseDb();
   const noteRef = doc(db, 'notes_metadata', noteId);
+  const snapshot = await getDoc(noteRef);
+  if (!snapshot.exists()) return;
+  if (!snapshot.data().deleted) {
+    throw new Error('Only notes in the trash can be permanently deleted');
+  }
+
+  // Subcollections are not removed with their parent, so clear revisions first
+  const revisionsSnapshot = await getDocs(collection(noteRef, 'revisions'));
+  for (let i = 0; i < revisionsSnapshot.docs.length; i += 500) {
+    const batch = writeBatch(db);
+    revisionsSnapshot.docs.slice(i, i + 500).forEach((revision) => batch.delete(revision.ref));
+    await batch.commit();
+  }
+
   await deleteDoc(noteRef);
 }
 
@@ -440,10 +874,10 @@ export async function getUncategorizedNotes(limitCount?: number): Promise<Note[]
   );
 
   const snapshot = await getDocs(q);
-  let notes = snapshot.docs.map((doc) => ({
+  let notes = excludeTrashed(snapshot.docs.map((doc) => ({
     id: doc.id,
     ...doc.data(),
-  })) as Note[];
+  })) as Note[]);
 
   // Sort by created_at descending client-side
   notes.sort((a, b) => {
@@ -482,10 +916,10 @@ export async function getNotesInDateRange(
 
   const q = query(notesRef, ...constraints);
   const snapshot = await getDocs(q);
-  return snapshot.docs.map((doc) => ({
+  return excludeTrashed(snapshot.docs.map((doc) => ({
     id: doc.id,
     ...doc.data(),
-  })) as Note[];
+  })) as Note[]);
 }
 
 /**
@@ -519,7 +953,7 @@ export async function getNoteCountsByClient(): Promise<Record<string, number>> {
   snapshot.docs.forEach((doc) => {
     const data = doc.data();
     const clientId = data.classification?.client_id;
-    if (clientId) {
+    if (clientId && !data.deleted) {
       counts[clientId] = (counts[clientId] || 0) + 1;
     }
   });
@@ -548,6 +982,7 @@ export async function getRecentlySharedNotes(limitCount: number = 10): Promise<N
         id: doc.id,
         ...doc.data(),
       }) as Note)
+      .filter((note) => !note.deleted)
       .filter((note) => note.sharing?.shared_with && note.sharing.shared_with.length > 0);
   } catch (error) {
     // Index might not exist, fallback to simpler query
@@ -564,12 +999,7 @@ export async function updateNoteClassification(
   classification: Partial<Classification>,
   userEmail: string
 ): Promise<void> {
-  const db = getFirebaseDb();
-  const noteRef = doc(db, 'notes_metadata', noteId);
-
-  const updates: Record<string, any> = {
-    updated_at: Timestamp.now(),
-  };
+  const updates: Record<string, unknown> = {};
 
   // Update each classification field individually
   Object.entries(classification).forEach(([key, value]) => {
@@ -581,7 +1011,9 @@ export async function updateNoteClassification(
   updates['classification.confirmed_by'] = userEmail;
   updates['classification.confirmed_at'] = Timestamp.now();
 
-  await updateDoc(noteRef, updates);
+  await updateNoteWithRevision(noteId, 'classification', () => updates, {
+    changedBy: userEmail,
+  });
 }
 
 /**
@@ -593,16 +1025,17 @@ export async function updateNoteSharing(
   userEmail: string,
   permissionLevel: 'viewer' | 'commenter' | 'editor' = 'viewer'
 ): Promise<void> {
-  const db = getFirebaseDb();
-  const noteRef = doc(db, 'notes_metadata', noteId);
-
-  await updateDoc(noteRef, {
-    'sharing.shared_with': sharedWith,
-    'sharing.permission_level': permissionLevel,
-    'sharing.shared_at': Timestamp.now(),
-    'sharing.shared_by': userEmail,
-    updated_at: Timestamp.now(),
-  });
+  await updateNoteWithRevision(
+    noteId,
+    'sharing',
+    () => ({
+      'sharing.shared_with': sharedWith,
+      'sharing.permission_level': permissionLevel,
+      'sharing.shared_at': Timestamp.now(),
+      'sharing.shared_by': userEmail,
+    }),
+    { changedBy: userEmail }
+  );
 }
 
 // Classification Rules
@@ -682,6 +1115,98 @@ export async function getDashboardStats(): Promise<DashboardStats> {
   }
 }
 
+// ============================================================
+// Real-time Subscriptions
+// ============================================================
+
+export type Unsubscribe = () => void;
+
+export interface NoteChange {
+  type: 'added' | 'modified' | 'removed';
+  note: Note;
+}
+
+/**
+ * Subscribe to active clients. The callback receives the full, sorted list
+ * on every change.
+ */
+export function subscribeToClients(
+  onChange: (clients: Client[]) => void,
+  onError?: (error: Error) => void
+): Unsubscribe {
+  const db = getFirebaseDb();
+  const clientsRef = collection(db, 'clients');
+  return onSnapshot(
+    query(clientsRef, where('status', '==', 'active')),
+    (snapshot) => {
+      const clients = snapshot.docs.map((doc) => ({
+        id: doc.id,
+        ...doc.data(),
+      })) as Client[];
+      onChange(clients.sort((a, b) => (a.name || '').localeCompare(b.name || '')));
+    },
+    onError
+  );
+}
+
+/**
+ * Subscribe to active projects, optionally scoped to one client
+ */
+export function subscribeToProjects(
+  onChange: (projects: Project[]) => void,
+  onError?: (error: Error) => void,
+  clientId?: string
+): Unsubscribe {
+  const db = getFirebaseDb();
+  const projectsRef = collection(db, 'projects');
+  const q = clientId
+    ? query(projectsRef, where('client_id', '==', clientId), where('status', '==', 'active'))
+    : query(projectsRef, where('status', '==', 'active'));
+  return onSnapshot(
+    q,
+    (snapshot) => {
+      const projects = snapshot.docs.map((doc) => ({
+        id: doc.id,
+        ...doc.data(),
+      })) as Project[];
+      onChange(projects.sort((a, b) => (a.project_name || '').localeCompare(b.project_name || '')));
+    },
+    onError
+  );
+}
+
+/**
+ * Subscribe to notes created, updated or deleted after `since`.
+ * Only the changed documents are delivered, so this stays cheap no matter
+ * how large notes_metadata grows.
+ */
+export function subscribeToNoteChanges(
+  since: Date,
+  onChange: (changes: NoteChange[]) => void,
+  onError?: (error: Error) => void
+): Unsubscribe {
+  const db = getFirebaseDb();
+  const notesRef = collection(db, 'notes_metadata');
+  const q = query(
+    notesRef,
+    where('updated_at', '>', Timestamp.fromDate(since)),
+    orderBy('updated_at', 'desc')
+  );
+  return onSnapshot(
+    q,
+    (snapshot) => {
+      const changes = snapshot.docChanges().map((change) => ({
+        type: change.type,
+        note: { id: change.doc.id, ...change.doc.data() } as Note,
+      }));
+      if (changes.length > 0) {
+        onChange(changes);
+      }
+    },
+    onError
+  );
+}
+
 // Utility to convert Firestore timestamp to Date
 export function timestampToDate(timestamp?: Timestamp): Date | null {
   if (!timestamp) return null;
@@ -744,12 +1269,123 @@ export async function getAllRules(status?: 'active' | 'disabled' | 'testing'): P
   return rules.sort((a, b) => (b.priority || 0) - (a.priority || 0));
 }
 
+// Rule fields captured in every version
+const RULE_VERSIONED_FIELDS = [
+  'name',
+  'description',
+  'priority',
+  'status',
+  'confidence_boost',
+  'conditions',
+  'actions',
+  'active_from',
+  'active_until',
+  'active_windows',
+] as const;
+
+export type RuleSnapshot = Pick<ClassificationRule, (typeof RULE_VERSIONED_FIELDS)[number]>;
+
+export interface RuleVersion {
+  id: string;
+  version: number;
+  action: 'create' | 'update' | 'status' | 'rollback';
+  snapshot: RuleSnapshot;
+  changes: RevisionChange[];
+  changed_by: string | null;
+  changed_at: Timestamp;
+  // Version number a rollback restored
+  restored_from?: number | null;
+}
+
+function toRuleSnapshot(data: DocumentData): RuleSnapshot {
+  const snapshot: Record<string, unknown> = {};
+  RULE_VERSIONED_FIELDS.forEach((field) => {
+    snapshot[field] = data[field] ?? null;
+  });
+  // Firestore rejects undefined, which the rule form uses for unset actions
+  return JSON.parse(JSON.stringify(snapshot));
+}
+
+function buildRuleVersion(
+  version: number,
+  action: RuleVersion['action'],
+  snapshot: RuleSnapshot,
+  changes: RevisionChange[],
+  options: { changedBy?: string | null; changedAt?: Timestamp; restoredFrom?: number } = {}
+): Omit<RuleVersion, 'id'> {
+  return {
+    version,
+    action,
+    snapshot,
+    changes: JSON.parse(JSON.stringify(changes)),
+    changed_by: options.changedBy ?? getCurrentUserEmail(),
+    changed_at: options.changedAt ?? Timestamp.now(),
+    restored_from: options.restoredFrom ?? null,
+  };
+}
+
+/**
+ * Apply updates to a rule and, when a versioned field changes, record the
+ * new state as an immutable version, in a single transaction. Rules saved
+ * before versioning get a baseline version of their current state first so
+ * the first change can be rolled back.
+ */
+async function updateRuleWithVersion(
+  ruleId: string,
+  action: RuleVersion['action'],
+  updates: Partial<ClassificationRule>,
+  options: { changedBy?: string | null; restoredFrom?: number } = {}
+): Promise<void> {
+  const db = getFirebaseDb();
+  const ruleRef = doc(db, 'rules', ruleId);
+  const versionsRef = collection(ruleRef, 'versions');
+
+  await runTransaction(db, async (transaction) => {
+    const snapshot = await transaction.get(ruleRef);
+    if (!snapshot.exists()) {
+      throw new Error('Rule not found');
+    }
+
+    const current = snapshot.data();
+    const versionedUpdates = Object.fromEntries(
+      Object.entries(updates).filter(([field]) =>
+        (RULE_VERSIONED_FIELDS as readonly string[]).includes(field)
+      )
+    );
+    const changes = diffDocumentUpdates(current, versionedUpdates);
+
+    if (changes.length === 0) {
+      transaction.update(ruleRef, { ...updates, updated_at: Timestamp.now() });
+      return;
+    }
+
+    let version = current.version || 0;
+    if (version === 0) {
+      version = 1;
+      transaction.set(
+        doc(versionsRef),
+        buildRuleVersion(version, 'create', toRuleSnapshot(current), [], {
+          changedBy: current.created_by || null,
+          changedAt: current.updated_at || current.created_at,
+        })
+      );
+    }
+    version += 1;
+
+    transaction.update(ruleRef, { ...updates, version, updated_at: Timestamp.now() });
+    transaction.set(
+      doc(versionsRef),
+      buildRuleVersion(version, action, toRuleSnapshot({ ...current, ...updates }), changes, options)
+    );
+  });
+}
+
 /**
  * Create a new classification rule
  */
 export async function createRule(rule: Omit<ClassificationRule, 'id'>): Promise<string> {
   const db = getFirebaseDb();
-  const rulesRef = collection(db, 'rules');
+  const ruleRef = doc(collection(db, 'rules'));
 
   const ruleData = {
     ...rule,
@@ -758,12 +1394,21 @@ export async function createRule(rule: Omit<ClassificationRule, 'id'>): Promise<
       times_corrected: 0,
       last_applied: null,
     },
+    version: 1,
     created_at: Timestamp.now(),
     updated_at: Timestamp.now(),
   };
 
-  const docRef = await addDoc(rulesRef, ruleData);
-  return docRef.id;
+  const batch = writeBatch(db);
+  batch.set(ruleRef, ruleData);
+  batch.set(
+    doc(collection(ruleRef, 'versions')),
+    buildRuleVersion(1, 'create', toRuleSnapshot(ruleData), [], {
+      changedBy: rule.created_by || null,
+    })
+  );
+  await batch.commit();
+  return ruleRef.id;
 }
 
 /**
@@ -771,33 +1416,88 @@ export async function createRule(rule: Omit<ClassificationRule, 'id'>): Promise<
  */
 export async function updateRule(
   ruleId: string,
-  updates: Partial<ClassificationRule>
+  updates: Partial<ClassificationRule>,
+  userEmail?: string
 ): Promise<void> {
-  const db = getFirebaseDb();
-  const ruleRef = doc(db, 'rules', ruleId);
-
-  await updateDoc(ruleRef, {
-    ...updates,
-    updated_at: Timestamp.now(),
-  });
+  await updateRuleWithVersion(ruleId, 'update', updates, { changedBy: userEmail });
 }
 
 /**
- * Delete a rule
+ * Get the version history of a rule, newest first
  */
-export async function deleteRule(ruleId: string): Promise<void> {
+export async function getRuleVersions(ruleId: string): Promise<RuleVersion[]> {
   const db = getFirebaseDb();
-  const ruleRef = doc(db, 'rules', ruleId);
-  await deleteDoc(ruleRef);
+  const versionsRef = collection(db, 'rules', ruleId, 'versions');
+  const snapshot = await getDocs(query(versionsRef, orderBy('version', 'desc')));
+  return snapshot.docs.map((doc) => ({
+    id: doc.id,
+    ...doc.data(),
+  })) as RuleVersion[];
 }
 
 /**
- * Duplicate a rule
+ * Restore a rule's name, conditions, actions and settings from an earlier
+ * version. Status is left alone so a rollback never switches a rule on or
+ * off; the rollback is itself recorded as a new version.
  */
-export async function duplicateRule(ruleId: string): Promise<string> {
+export async function rollbackRule(
+  ruleId: string,
+  versionId: string,
+  userEmail?: string
+): Promise<void> {
   const db = getFirebaseDb();
-  const ruleRef = doc(db, 'rules', ruleId);
-  const ruleDoc = await getDoc(ruleRef);
+  const versionDoc = await getDoc(doc(db, 'rules', ruleId, 'versions', versionId));
+  if (!versionDoc.exists()) {
+    throw new Error('Version not found');
+  }
+
+  const target = versionDoc.data() as Omit<RuleVersion, 'id'>;
+  const restored = Object.fromEntries(
+    Object.entries(target.snapshot).filter(([field]) => field !== 'status')
+  ) as Partial<ClassificationRule>;
+
+  await updateRuleWithVersion(ruleId, 'rollback', restored, {
+    changedBy: userEmail,
+    restoredFrom: target.version,
+  });
+}
+
+// Subcollections are not removed with their parent document
+async function deleteCollectionDocs(collectionRef: CollectionReference): Promise<void> {
+  const db = getFirebaseDb();
+  let snapshot = await getDocs(query(collectionRef, limit(MAX_BATCH_WRITES)));
+  while (!snapshot.empty) {
+    const batch = writeBatch(db);
+    snapshot.docs.forEach((docSnapshot) => batch.delete(docSnapshot.ref));
+    await batch.commit();
+    snapshot = await getDocs(query(collectionRef, limit(MAX_BATCH_WRITES)));
+  }
+}
+
+/**
+ * Delete a rule along with its version history and apply jobs. The rule
+ * itself is deleted last, so a failed delete can simply be retried.
+ */
+export async function deleteRule(ruleId: string): Promise<void> {
+  const db = getFirebaseDb();
+  const ruleRef = doc(db, 'rules', ruleId);
+
+  const jobs = await getDocs(collection(ruleRef, 'apply_jobs'));
+  for (const job of jobs.docs) {
+    await deleteCollectionDocs(collection(job.ref, 'changes'));
+  }
+  await deleteCollectionDocs(collection(ruleRef, 'apply_jobs'));
+  await deleteCollectionDocs(collection(ruleRef, 'versions'));
+  await deleteDoc(ruleRef);
+}
+
+/**
+ * Duplicate a rule
+ */
+export async function duplicateRule(ruleId: string): Promise<string> {
+  const db = getFirebaseDb();
+  const ruleRef = doc(db, 'rules', ruleId);
+  const ruleDoc = await getDoc(ruleRef);
 
   if (!ruleDoc.exists()) {
     throw new Error('Rule not found');
@@ -812,6 +1512,9 @@ export async function duplicateRule(ruleId: string): Promise<string> {
     conditions: originalRule.conditions,
     actions: originalRule.actions,
     confidence_boost: originalRule.confidence_boost,
+    active_from: originalRule.active_from || null,
+    active_until: originalRule.active_until || null,
+    active_windows: originalRule.active_windows || null,
     status: 'disabled', // Start as disabled
     created_by: originalRule.created_by,
   };
@@ -824,15 +1527,10 @@ export async function duplicateRule(ruleId: string): Promise<string> {
  */
 export async function toggleRuleStatus(
   ruleId: string,
-  status: 'active' | 'disabled' | 'testing'
+  status: 'active' | 'disabled' | 'testing',
+  userEmail?: string
 ): Promise<void> {
-  const db = getFirebaseDb();
-  const ruleRef = doc(db, 'rules', ruleId);
-
-  await updateDoc(ruleRef, {
-    status,
-    updated_at: Timestamp.now(),
-  });
+  await updateRuleWithVersion(ruleId, 'status', { status }, { changedBy: userEmail });
 }
 
 /**
@@ -892,125 +1590,763 @@ export async function getNotesMatchingRule(
   );
 
   const snapshot = await getDocs(q);
-  return snapshot.docs.map((doc) => ({
+  return excludeTrashed(snapshot.docs.map((doc) => ({
     id: doc.id,
     ...doc.data(),
-  })) as Note[];
+  })) as Note[]);
+}
+
+// ============================================================
+// Classification Feedback
+// ============================================================
+
+// Classification as recorded by the /feedback function (camelCase)
+export interface FeedbackClassification {
+  type: string;
+  clientId?: string | null;
+  clientName?: string | null;
+  projectId?: string | null;
+  projectName?: string | null;
+  internalTeam?: string | null;
+}
+
+export interface ClassificationFeedback {
+  id: string;
+  noteId?: string | null;
+  originalClassification: FeedbackClassification & {
+    confidence?: number;
+    ruleId?: string | null;
+  };
+  correctedClassification: FeedbackClassification;
+  correctionTypes?: string[];
+  meeting?: {
+    title: string;
+    attendees?: string[];
+  } | null;
+  userEmail?: string;
+  created_at?: Timestamp;
+}
+
+/**
+ * Get every classification correction, newest first
+ */
+export async function getClassificationFeedback(): Promise<ClassificationFeedback[]> {
+  const db = getFirebaseDb();
+  const snapshot = await getDocs(collection(db, 'feedback'));
+  const feedback = snapshot.docs.map((doc) => ({
+    id: doc.id,
+    ...doc.data(),
+  })) as ClassificationFeedback[];
+  // Sort client-side to avoid needing an index
+  return feedback.sort(
+    (a, b) => (b.created_at?.toMillis() || 0) - (a.created_at?.toMillis() || 0)
+  );
+}
+
+// ============================================================
+// Rule Suggestions
+// ============================================================
+
+export type RuleSuggestionStatus = 'pending' | 'accepted' | 'dismissed';
+
+/**
+ * A rule proposed by the feedback function after repeated identical
+ * corrections, with conditions mined from the corrected meetings
+ */
+export interface RuleSuggestion {
+  id: string;
+  status: RuleSuggestionStatus;
+  reason?: string;
+  correction_count?: number;
+  target?: {
+    type: string;
+    client_id?: string | null;
+    client_name?: string | null;
+    project_id?: string | null;
+    project_name?: string | null;
+  };
+  suggested_rule: Pick<ClassificationRule, 'name' | 'description' | 'conditions' | 'actions'>;
+  // Corrections the suggestion was mined from
+  supporting?: Array<{
+    feedback_id: string;
+    note_id: string | null;
+    title: string | null;
+  }>;
+  accepted_rule_id?: string | null;
+  reviewed_by?: string | null;
+  created_at?: Timestamp;
+  updated_at?: Timestamp;
+}
+
+/**
+ * Get rule suggestions (with optional status filter), most recent first
+ */
+export async function getRuleSuggestions(status?: RuleSuggestionStatus): Promise<RuleSuggestion[]> {
+  const db = getFirebaseDb();
+  const suggestionsRef = collection(db, 'rule_suggestions');
+  const q = status ? query(suggestionsRef, where('status', '==', status)) : query(suggestionsRef);
+
+  const snapshot = await getDocs(q);
+  const suggestions = snapshot.docs.map((doc) => ({
+    id: doc.id,
+    ...doc.data(),
+  })) as RuleSuggestion[];
+  return suggestions.sort(
+    (a, b) => (b.updated_at?.toMillis() || 0) - (a.updated_at?.toMillis() || 0)
+  );
+}
+
+/**
+ * Update a suggestion's rule, or record that it was accepted or dismissed
+ */
+export async function updateRuleSuggestion(
+  suggestionId: string,
+  updates: Partial<Pick<RuleSuggestion, 'status' | 'suggested_rule' | 'accepted_rule_id'>>,
+  userEmail?: string
+): Promise<void> {
+  const db = getFirebaseDb();
+  const suggestionRef = doc(db, 'rule_suggestions', suggestionId);
+
+  await updateDoc(suggestionRef, {
+    ...updates,
+    ...(updates.status ? { reviewed_by: userEmail || null } : {}),
+    updated_at: Timestamp.now(),
+  });
+}
+
+// ============================================================
+// Rule Shadow Log
+// ============================================================
+
+/**
+ * Written by the classify function for every rule in testing status that
+ * matched a meeting: what the rule would have done next to what classify did
+ */
+export interface RuleShadowEntry {
+  id: string;
+  rule_id: string;
+  rule_version: number | null;
+  note_file_id: string | null;
+  meeting_title: string | null;
+  predicted: RuleClassification;
+  actual: RuleClassification;
+  agrees: boolean;
+  classification_method: string | null;
+  created_at: Timestamp;
+}
+
+/**
+ * Get a rule's shadow log, newest first
+ */
+export async function getRuleShadowLog(
+  ruleId: string,
+  limitCount: number = 500
+): Promise<RuleShadowEntry[]> {
+  const db = getFirebaseDb();
+  // Filter only and sort client-side to avoid needing a composite index
+  const snapshot = await getDocs(
+    query(collection(db, 'rule_shadow_log'), where('rule_id', '==', ruleId))
+  );
+  const entries = snapshot.docs.map((doc) => ({
+    id: doc.id,
+    ...doc.data(),
+  })) as RuleShadowEntry[];
+  return entries
+    .sort((a, b) => (b.created_at?.toMillis() || 0) - (a.created_at?.toMillis() || 0))
+    .slice(0, limitCount);
 }
 
 // ============================================================
 // Bulk Operations
 // ============================================================
 
+export interface BulkFailure {
+  noteId: string;
+  error: string;
+}
+
+export interface BulkWriteResult {
+  successful: string[];
+  failed: BulkFailure[];
+}
+
+export interface BulkProgress {
+  processed: number;
+  total: number;
+}
+
+export type BulkProgressCallback = (progress: BulkProgress) => void;
+
+// Firestore batch writes are limited to 500 operations
+const MAX_BATCH_WRITES = 500;
+// Writes left in each chunk's batch for the caller's bookkeeping (see onChunk)
+const CHUNK_RESERVED_WRITES = 2;
+// Each note update is paired with a revision record
+const NOTES_PER_BATCH = (MAX_BATCH_WRITES - CHUNK_RESERVED_WRITES) / 2;
+
+function getNotesPerChunk(writesPerNote: number): number {
+  return Math.floor((MAX_BATCH_WRITES - CHUNK_RESERVED_WRITES) / (2 + writesPerNote));
+}
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
 /**
- * Update classification for multiple notes using batch writes for better performance
+ * Apply an update to many notes in atomic writeBatch chunks.
+ * Each chunk commits all of its notes or none of them, together with a
+ * revision per changed note. Notes that are missing, trashed, or whose
+ * chunk fails to commit are reported individually so they can be retried.
  */
-export async function bulkUpdateNoteClassifications(
+async function runBulkNoteUpdate(
   noteIds: string[],
-  classification: Partial<Classification>,
-  userEmail: string
-): Promise<{ success: string[]; failed: string[] }> {
+  action: NoteRevision['action'],
+  buildUpdates: (current: DocumentData, noteId: string) => Record<string, unknown>,
+  options: {
+    changedBy?: string | null;
+    onProgress?: BulkProgressCallback;
+    // Adds writes that commit with the chunk's notes: up to
+    // CHUNK_RESERVED_WRITES, plus writesPerNote for each note
+    onChunk?: (batch: WriteBatch, noteIds: string[]) => void;
+    writesPerNote?: number;
+  } = {}
+): Promise<BulkWriteResult> {
   const db = getFirebaseDb();
-  const success: string[] = [];
-  const failed: string[] = [];
+  const uniqueIds = [...new Set(noteIds)];
+  const result: BulkWriteResult = { successful: [], failed: [] };
+  const notesPerChunk = getNotesPerChunk(options.writesPerNote || 0);
+  let processed = 0;
 
-  // Firestore batch writes are limited to 500 operations
-  const BATCH_SIZE = 500;
+  options.onProgress?.({ processed, total: uniqueIds.length });
 
-  for (let i = 0; i < noteIds.length; i += BATCH_SIZE) {
-    const batchIds = noteIds.slice(i, i + BATCH_SIZE);
+  for (let i = 0; i < uniqueIds.length; i += notesPerChunk) {
+    const chunkIds = uniqueIds.slice(i, i + notesPerChunk);
     const batch = writeBatch(db);
+    const staged: string[] = [];
 
     try {
-      for (const noteId of batchIds) {
-        const noteRef = doc(db, 'notes_metadata', noteId);
-        const updates: Record<string, any> = {
-          updated_at: Timestamp.now(),
-        };
-
-        // Update each classification field individually
-        Object.entries(classification).forEach(([key, value]) => {
-          updates[`classification.${key}`] = value;
-        });
-
-        // Mark as user confirmed
-        updates['classification.user_confirmed'] = true;
-        updates['classification.confirmed_by'] = userEmail;
-        updates['classification.confirmed_at'] = Timestamp.now();
-
-        batch.update(noteRef, updates);
-      }
+      const snapshots = await Promise.all(
+        chunkIds.map((noteId) => getDoc(doc(db, 'notes_metadata', noteId)))
+      );
+
+      snapshots.forEach((snapshot, index) => {
+        const noteId = chunkIds[index];
+        if (!snapshot.exists()) {
+          result.failed.push({ noteId, error: 'Note not found' });
+          return;
+        }
+        const current = snapshot.data();
+        if (current.deleted) {
+          result.failed.push({ noteId, error: 'Note is in the trash' });
+          return;
+        }
 
-      await batch.commit();
-      success.push(...batchIds);
-    } catch (error) {
-      console.error(`Failed to update batch starting at ${i}:`, error);
-      // Fallback to individual updates for this batch
-      for (const noteId of batchIds) {
         try {
-          await updateNoteClassification(noteId, classification, userEmail);
-          success.push(noteId);
-        } catch (err) {
-          console.error(`Failed to update note ${noteId}:`, err);
-          failed.push(noteId);
+          const updates = buildUpdates(current, noteId);
+          const changes = diffDocumentUpdates(current, updates);
+          batch.update(snapshot.ref, { ...updates, updated_at: Timestamp.now() });
+          if (changes.length > 0) {
+            batch.set(
+              doc(collection(snapshot.ref, 'revisions')),
+              buildRevisionRecord(action, changes, { changedBy: options.changedBy })
+            );
+          }
+          staged.push(noteId);
+        } catch (error) {
+          result.failed.push({ noteId, error: getErrorMessage(error) });
         }
+      });
+
+      if (staged.length > 0) {
+        options.onChunk?.(batch, staged);
+        await batch.commit();
+        result.successful.push(...staged);
       }
+    } catch (error) {
+      console.error(`Bulk ${action} chunk starting at ${i} failed:`, error);
+      const message = getErrorMessage(error);
+      const reported = new Set(result.failed.map((failure) => failure.noteId));
+      chunkIds
+        .filter((noteId) => !reported.has(noteId))
+        .forEach((noteId) => result.failed.push({ noteId, error: message }));
     }
+
+    processed += chunkIds.length;
+    options.onProgress?.({ processed, total: uniqueIds.length });
   }
 
-  return { success, failed };
+  return result;
+}
+
+/**
+ * Update classification for multiple notes in atomic batches
+ */
+export async function bulkUpdateNoteClassifications(
+  noteIds: string[],
+  classification: Partial<Classification>,
+  userEmail: string,
+  onProgress?: BulkProgressCallback
+): Promise<BulkWriteResult> {
+  return runBulkNoteUpdate(
+    noteIds,
+    'classification',
+    () => {
+      const updates: Record<string, unknown> = {};
+
+      // Update each classification field individually
+      Object.entries(classification).forEach(([key, value]) => {
+        updates[`classification.${key}`] = value;
+      });
+
+      // Mark as user confirmed
+      updates['classification.user_confirmed'] = true;
+      updates['classification.confirmed_by'] = userEmail;
+      updates['classification.confirmed_at'] = Timestamp.now();
+      return updates;
+    },
+    { changedBy: userEmail, onProgress }
+  );
 }
 
 /**
- * Update sharing for multiple notes using batch writes for better performance
+ * Update sharing for multiple notes in atomic batches
  */
 export async function bulkUpdateNoteSharing(
   noteIds: string[],
   sharedWith: string[],
   userEmail: string,
-  permissionLevel: 'viewer' | 'commenter' | 'editor' = 'viewer'
-): Promise<{ success: string[]; failed: string[] }> {
+  permissionLevel: 'viewer' | 'commenter' | 'editor' = 'viewer',
+  onProgress?: BulkProgressCallback
+): Promise<BulkWriteResult> {
+  return runBulkNoteUpdate(
+    noteIds,
+    'sharing',
+    () => ({
+      'sharing.shared_with': sharedWith,
+      'sharing.permission_level': permissionLevel,
+      'sharing.shared_at': Timestamp.now(),
+      'sharing.shared_by': userEmail,
+    }),
+    { changedBy: userEmail, onProgress }
+  );
+}
+
+// ============================================================
+// Retroactive Rule Application
+// ============================================================
+
+export type RuleApplyJobStatus = 'running' | 'completed' | 'failed' | 'undone';
+
+// Jobs stopped part way through are marked failed, and can be undone too
+const UNDOABLE_JOB_STATUSES: RuleApplyJobStatus[] = ['completed', 'failed'];
+
+/**
+ * A note's classification before and after a job applied the rule.
+ * Stored in rules/{ruleId}/apply_jobs/{jobId}/changes/{noteId}, so large
+ * runs do not outgrow the job document.
+ */
+export interface RuleApplyChange {
+  note_id: string;
+  before: RuleApplyFields;
+  after: RuleApplyFields;
+}
+
+/**
+ * One run of a rule over existing notes, kept under the rule so it can be
+ * reviewed and undone as a batch
+ */
+export interface RuleApplyJob {
+  id: string;
+  rule_id: string;
+  rule_version: number | null;
+  status: RuleApplyJobStatus;
+  requested: number;
+  // Notes changed so far; one record each in the changes subcollection
+  applied_count: number;
+  failed: BulkFailure[];
+  started_by: string | null;
+  started_at: Timestamp;
+  completed_at: Timestamp | null;
+  // Why the run stopped before reaching every note
+  error?: string | null;
+  undone_by?: string | null;
+  undone_at?: Timestamp | null;
+  undo_failed?: BulkFailure[];
+}
+
+function toClassificationUpdates(fields: RuleApplyFields): Record<string, unknown> {
+  const updates: Record<string, unknown> = {};
+  Object.entries(fields).forEach(([key, value]) => {
+    updates[`classification.${key}`] = value;
+  });
+  return updates;
+}
+
+/**
+ * Get a rule's retroactive apply jobs, newest first
+ */
+export async function getRuleApplyJobs(ruleId: string): Promise<RuleApplyJob[]> {
   const db = getFirebaseDb();
-  const success: string[] = [];
-  const failed: string[] = [];
+  const jobsRef = collection(db, 'rules', ruleId, 'apply_jobs');
+  const snapshot = await getDocs(query(jobsRef, orderBy('started_at', 'desc')));
+  return snapshot.docs.map((doc) => ({
+    id: doc.id,
+    ...doc.data(),
+  })) as RuleApplyJob[];
+}
 
-  // Firestore batch writes are limited to 500 operations
-  const BATCH_SIZE = 500;
+/**
+ * Whether a job has applied changes that can still be undone
+ */
+export function canUndoRuleApplyJob(job: Pick<RuleApplyJob, 'status' | 'applied_count'>): boolean {
+  return UNDOABLE_JOB_STATUSES.includes(job.status) && job.applied_count > 0;
+}
 
-  for (let i = 0; i < noteIds.length; i += BATCH_SIZE) {
-    const batchIds = noteIds.slice(i, i + BATCH_SIZE);
-    const batch = writeBatch(db);
+/**
+ * Apply a rule's classification to existing notes as a tracked job.
+ * The classification each note had before is recorded under the job so the
+ * whole run can be undone, and the notes are counted in the rule's stats.
+ * Both are written in the same batch as each chunk of notes, so a run that
+ * stops part way can still be undone for the notes it did change.
+ */
+export async function applyRuleToNotes(
+  rule: ClassificationRule,
+  noteIds: string[],
+  names: ClassificationNames,
+  userEmail: string,
+  onProgress?: BulkProgressCallback
+): Promise<{ jobId: string; result: BulkWriteResult }> {
+  const db = getFirebaseDb();
+  const ruleRef = doc(db, 'rules', rule.id);
+  const jobRef = await addDoc(collection(ruleRef, 'apply_jobs'), {
+    rule_id: rule.id,
+    rule_version: rule.version ?? null,
+    status: 'running',
+    requested: noteIds.length,
+    applied_count: 0,
+    failed: [],
+    started_by: userEmail,
+    started_at: Timestamp.now(),
+    completed_at: null,
+  });
 
-    try {
-      for (const noteId of batchIds) {
-        const noteRef = doc(db, 'notes_metadata', noteId);
-        batch.update(noteRef, {
-          'sharing.shared_with': sharedWith,
-          'sharing.permission_level': permissionLevel,
-          'sharing.shared_at': Timestamp.now(),
-          'sharing.shared_by': userEmail,
-          updated_at: Timestamp.now(),
-        });
+  const changesRef = collection(jobRef, 'changes');
+  const changes = new Map<string, RuleApplyChange>();
+  let result: BulkWriteResult;
+  try {
+    result = await runBulkNoteUpdate(
+      noteIds,
+      'classification',
+      (current, noteId) => {
+        const before = pickRuleApplyFields(current.classification);
+        const after = getRuleApplyFields(rule, current.classification, names);
+        changes.set(noteId, { note_id: noteId, before, after });
+        return toClassificationUpdates(after);
+      },
+      {
+        changedBy: userEmail,
+        onProgress,
+        writesPerNote: 1,
+        onChunk: (batch, applied) => {
+          applied.forEach((noteId) => batch.set(doc(changesRef, noteId), changes.get(noteId)!));
+          batch.update(jobRef, { applied_count: increment(applied.length) });
+          batch.update(ruleRef, {
+            'stats.times_applied': increment(applied.length),
+            'stats.retroactive_applied': increment(applied.length),
+            'stats.last_applied': Timestamp.now(),
+          });
+        },
       }
+    );
+  } catch (error) {
+    await updateDoc(jobRef, {
+      status: 'failed',
+      error: getErrorMessage(error),
+      completed_at: Timestamp.now(),
+    }).catch((updateError) => console.error('Failed to mark apply job as failed:', updateError));
+    throw error;
+  }
 
-      await batch.commit();
-      success.push(...batchIds);
-    } catch (error) {
-      console.error(`Failed to update sharing batch starting at ${i}:`, error);
-      // Fallback to individual updates for this batch
-      for (const noteId of batchIds) {
-        try {
-          await updateNoteSharing(noteId, sharedWith, userEmail, permissionLevel);
-          success.push(noteId);
-        } catch (err) {
-          console.error(`Failed to update sharing for note ${noteId}:`, err);
-          failed.push(noteId);
+  await updateDoc(jobRef, {
+    status: result.successful.length === 0 && result.failed.length > 0 ? 'failed' : 'completed',
+    failed: result.failed,
+    completed_at: Timestamp.now(),
+  });
+
+  return { jobId: jobRef.id, result };
+}
+
+/**
+ * Undo a retroactive apply job, restoring each note's earlier
+ * classification. Notes whose classification has changed since the job ran
+ * are left alone and reported as failures.
+ */
+export async function undoRuleApplyJob(
+  ruleId: string,
+  jobId: string,
+  userEmail: string,
+  onProgress?: BulkProgressCallback
+): Promise<BulkWriteResult> {
+  const db = getFirebaseDb();
+  const ruleRef = doc(db, 'rules', ruleId);
+  const jobRef = doc(ruleRef, 'apply_jobs', jobId);
+  const jobDoc = await getDoc(jobRef);
+  if (!jobDoc.exists()) {
+    throw new Error('Apply job not found');
+  }
+
+  const job = jobDoc.data() as Omit<RuleApplyJob, 'id'>;
+  if (!canUndoRuleApplyJob(job)) {
+    throw new Error('Only completed or failed jobs with applied notes can be undone');
+  }
+
+  // Page through the recorded changes rather than loading them all at once
+  const changesRef = collection(jobRef, 'changes');
+  const result: BulkWriteResult = { successful: [], failed: [] };
+  let processed = 0;
+  let cursor: DocumentSnapshot | null = null;
+  onProgress?.({ processed, total: job.applied_count });
+  do {
+    const constraints: QueryConstraint[] = [orderBy('__name__'), limit(NOTES_PER_BATCH)];
+    if (cursor) constraints.push(startAfter(cursor));
+    const snapshot = await getDocs(query(changesRef, ...constraints));
+    const changes = new Map(
+      snapshot.docs.map((changeDoc) => [changeDoc.id, changeDoc.data() as RuleApplyChange])
+    );
+
+    const pageResult = await runBulkNoteUpdate(
+      [...changes.keys()],
+      'classification',
+      (current, noteId) => {
+        const change = changes.get(noteId)!;
+        if (!isSameValue(pickRuleApplyFields(current.classification), change.after)) {
+          throw new Error('Classification changed since the rule was applied');
         }
-      }
-    }
+        return toClassificationUpdates(change.before);
+      },
+      { changedBy: userEmail }
+    );
+    result.successful.push(...pageResult.successful);
+    result.failed.push(...pageResult.failed);
+
+    processed += snapshot.docs.length;
+    onProgress?.({ processed, total: Math.max(processed, job.applied_count) });
+    cursor = snapshot.docs.length === NOTES_PER_BATCH ? snapshot.docs[snapshot.docs.length - 1] : null;
+  } while (cursor);
+
+  const batch = writeBatch(db);
+  batch.update(jobRef, {
+    status: 'undone',
+    undone_by: userEmail,
+    undone_at: Timestamp.now(),
+    undo_failed: result.failed,
+  });
+  if (result.successful.length > 0) {
+    batch.update(ruleRef, {
+      'stats.times_applied': increment(-result.successful.length),
+      'stats.retroactive_applied': increment(-result.successful.length),
+    });
   }
+  await batch.commit();
+
+  return result;
+}
+
+// ============================================================
+// Action Items
+// ============================================================
+
+/**
+ * An action item in the action_items collection.
+ * The document ID is `{note_id}_{item_id}`. The note's embedded
+ * action_items array is kept in step so older readers keep working.
+ * The syncActionItems Cloud Function rewrites a note's records whenever
+ * the note is written, whoever writes it.
+ */
+export interface ActionItemRecord extends Omit<ActionItem, 'id'> {
+  id: string;
+  item_id: string;
+  note_id: string;
+  note_title: string | null;
+  meeting_date: Timestamp | null;
+  client_id: string | null;
+  client_name: string | null;
+  project_id: string | null;
+  project_name: string | null;
+  note_deleted: boolean;
+  order: number;
+  updated_at?: Timestamp;
+}
+
+export interface ActionItemFilters {
+  assignee?: string;
+  status?: ActionItem['status'];
+  clientId?: string;
+  projectId?: string;
+  noteId?: string;
+  // Inclusive YYYY-MM-DD bounds on due_date
+  dueFrom?: string;
+  dueTo?: string;
+}
+
+export type ActionItemUpdates = Partial<Omit<ActionItem, 'id'>>;
+
+function getEmbeddedActionItems(note: DocumentData): ActionItem[] {
+  return note.action_items || note.enhanced_analysis?.action_items || [];
+}
+
+function getActionItemRef(noteId: string, itemId: string) {
+  return doc(getFirebaseDb(), 'action_items', `${noteId}_${itemId}`);
+}
+
+// Same shape as buildActionItemRecord in functions/sync-action-items
+function buildActionItemRecord(
+  noteId: string,
+  note: DocumentData,
+  item: ActionItem,
+  order: number
+): Omit<ActionItemRecord, 'id'> {
+  // Firestore rejects undefined, so every optional field is written as null
+  return {
+    item_id: item.id,
+    note_id: noteId,
+    task: item.task,
+    assignee: item.assignee ?? null,
+    assignee_name: item.assignee_name ?? null,
+    due_date: item.due_date ?? null,
+    priority: item.priority || 'medium',
+    status: item.status || 'pending',
+    completed_at: item.completed_at ?? null,
+    google_task_id: item.google_task_id ?? null,
+    note_title: note.meeting?.title || note.title || null,
+    meeting_date: note.meeting?.start_time ?? note.created_at ?? null,
+    client_id: note.classification?.client_id ?? null,
+    client_name: note.classification?.client_name ?? null,
+    project_id: note.classification?.project_id ?? null,
+    project_name: note.classification?.project_name ?? null,
+    note_deleted: !!note.deleted,
+    order,
+    updated_at: Timestamp.now(),
+  };
+}
+
+/**
+ * Rewrite a note's action items inside a single transaction: the embedded
+ * array, a note revision, and every affected action_items record.
+ * Concurrent edits to the same note are retried rather than overwritten.
+ */
+async function updateNoteActionItems(
+  noteId: string,
+  buildItems: (items: ActionItem[]) => ActionItem[],
+  userEmail?: string
+): Promise<void> {
+  const db = getFirebaseDb();
+  const noteRef = doc(db, 'notes_metadata', noteId);
+
+  await runTransaction(db, async (transaction) => {
+    const snapshot = await transaction.get(noteRef);
+    if (!snapshot.exists()) {
+      throw new Error('Note not found');
+    }
+
+    const current = snapshot.data();
+    const items = getEmbeddedActionItems(current);
+    const nextItems = buildItems(items);
+    const noteUpdates = { action_items: nextItems };
+    const changes = diffDocumentUpdates(current, noteUpdates);
+
+    transaction.update(noteRef, { ...noteUpdates, updated_at: Timestamp.now() });
+    if (changes.length > 0) {
+      transaction.set(
+        doc(collection(noteRef, 'revisions')),
+        buildRevisionRecord('action_item', changes, { changedBy: userEmail })
+      );
+    }
+
+    // Items without an ID have no record, as in syncActionItems
+    const recorded = nextItems.filter((item) => item && item.id);
+    recorded.forEach((item, index) => {
+      transaction.set(
+        getActionItemRef(noteId, item.id),
+        buildActionItemRecord(noteId, current, item, index)
+      );
+    });
+    const remaining = new Set(recorded.map((item) => item.id));
+    items
+      .filter((item) => item && item.id && !remaining.has(item.id))
+      .forEach((item) => transaction.delete(getActionItemRef(noteId, item.id)));
+  });
+}
+
+/**
+ * Update fields of one action item (task, assignee, due date, priority, status)
+ */
+export async function updateActionItem(
+  noteId: string,
+  itemId: string,
+  updates: ActionItemUpdates,
+  userEmail?: string
+): Promise<void> {
+  await updateNoteActionItems(
+    noteId,
+    (items) => {
+      if (!items.some((item) => item.id === itemId)) {
+        throw new Error('Action item not found');
+      }
+      return items.map((item) => (item.id === itemId ? { ...item, ...updates } : item));
+    },
+    userEmail
+  );
+}
 
-  return { success, failed };
+/**
+ * Add an action item to the end of a note's list. Returns the new item's ID.
+ */
+export async function addActionItem(
+  noteId: string,
+  item: Omit<ActionItem, 'id'>,
+  userEmail?: string
+): Promise<string> {
+  const itemId = `ai_${doc(collection(getFirebaseDb(), 'action_items')).id}`;
+  await updateNoteActionItems(noteId, (items) => [...items, { ...item, id: itemId }], userEmail);
+  return itemId;
+}
+
+/**
+ * Remove an action item from a note
+ */
+export async function deleteActionItem(
+  noteId: string,
+  itemId: string,
+  userEmail?: string
+): Promise<void> {
+  await updateNoteActionItems(
+    noteId,
+    (items) => items.filter((item) => item.id !== itemId),
+    userEmail
+  );
+}
+
+/**
+ * Reorder a note's action items. IDs missing from `orderedIds` keep their
+ * relative order after the listed ones.
+ */
+export async function reorderActionItems(
+  noteId: string,
+  orderedIds: string[],
+  userEmail?: string
+): Promise<void> {
+  await updateNoteActionItems(
+    noteId,
+    (items) => {
+      const position = new Map(orderedIds.map((id, index) => [id, index]));
+      return [...items].sort(
+        (a, b) =>
+          (position.get(a.id) ?? orderedIds.length) - (position.get(b.id) ?? orderedIds.length)
+      );
+    },
+    userEmail
+  );
 }
 
 /**
@@ -1021,31 +2357,288 @@ export async function updateActionItemStatus(
   actionItemId: string,
   status: 'pending' | 'completed' | 'cancelled'
 ): Promise<void> {
+  await updateActionItem(noteId, actionItemId, {
+    status,
+    completed_at: status === 'completed' ? Timestamp.now() : null,
+  });
+}
+
+/**
+ * Link a Google Task ID to an action item
+ */
+export async function linkGoogleTaskToActionItem(
+  noteId: string,
+  actionItemId: string,
+  googleTaskId: string
+): Promise<void> {
+  await updateActionItem(noteId, actionItemId, { google_task_id: googleTaskId });
+}
+
+/**
+ * Query action items across notes.
+ * Equality filters run in Firestore; the due date window and sorting are
+ * applied client-side to avoid composite indexes. Items on trashed notes
+ * are excluded.
+ */
+export async function getActionItems(
+  filters: ActionItemFilters = {}
+): Promise<ActionItemRecord[]> {
   const db = getFirebaseDb();
-  const noteRef = doc(db, 'notes_metadata', noteId);
-  const noteDoc = await getDoc(noteRef);
+  const constraints: QueryConstraint[] = [];
 
-  if (!noteDoc.exists()) {
-    throw new Error('Note not found');
+  if (filters.assignee) {
+    constraints.push(where('assignee', '==', filters.assignee));
+  }
+  if (filters.status) {
+    constraints.push(where('status', '==', filters.status));
+  }
+  if (filters.clientId) {
+    constraints.push(where('client_id', '==', filters.clientId));
+  }
+  if (filters.projectId) {
+    constraints.push(where('project_id', '==', filters.projectId));
+  }
+  if (filters.noteId) {
+    constraints.push(where('note_id', '==', filters.noteId));
   }
 
-  const data = noteDoc.data();
-  const actionItems = data.action_items || [];
+  const snapshot = await getDocs(query(collection(db, 'action_items'), ...constraints));
+  const items = snapshot.docs.map((doc) => ({
+    id: doc.id,
+    ...doc.data(),
+  })) as ActionItemRecord[];
+
+  return items
+    .filter((item) => !item.note_deleted)
+    .filter((item) => {
+      if (!filters.dueFrom && !filters.dueTo) return true;
+      if (!item.due_date) return false;
+      const due = item.due_date.slice(0, 10);
+      return (!filters.dueFrom || due >= filters.dueFrom) && (!filters.dueTo || due <= filters.dueTo);
+    })
+    .sort((a, b) => {
+      // Soonest due first, undated items last, then by position in the note
+      if (a.due_date !== b.due_date) {
+        if (!a.due_date) return 1;
+        if (!b.due_date) return -1;
+        return a.due_date.localeCompare(b.due_date);
+      }
+      return a.note_id === b.note_id
+        ? a.order - b.order
+        : (b.meeting_date?.toMillis?.() || 0) - (a.meeting_date?.toMillis?.() || 0);
+    });
+}
+
+/**
+ * Get open (pending) action items assigned to a user
+ */
+export async function getOpenActionItemsForAssignee(
+  assignee: string
+): Promise<ActionItemRecord[]> {
+  return getActionItems({ assignee, status: 'pending' });
+}
 
-  const updatedItems = actionItems.map((item: ActionItem) => {
-    if (item.id === actionItemId) {
-      return {
-        ...item,
-        status,
-        completed_at: status === 'completed' ? Timestamp.now() : null,
-      };
+/**
+ * Copy every note's embedded action_items array into the action_items
+ * collection. Only needed once, for notes that have not been written since
+ * the syncActionItems function was deployed. Safe to run more than once:
+ * record IDs are deterministic. Items without an ID cannot be addressed,
+ * so like syncActionItems it skips them and counts them in `skipped`.
+ */
+export async function migrateEmbeddedActionItems(
+  onProgress?: BulkProgressCallback
+): Promise<{ notes: number; items: number; skipped: number }> {
+  const db = getFirebaseDb();
+  const notesRef = collection(db, 'notes_metadata');
+  const total = (await getCountFromServer(notesRef)).data().count;
+  const migrated = { notes: 0, items: 0, skipped: 0 };
+  let processed = 0;
+  let cursor: DocumentSnapshot | null = null;
+
+  onProgress?.({ processed, total });
+
+  do {
+    const constraints: QueryConstraint[] = [orderBy('__name__'), limit(NOTES_PER_BATCH)];
+    if (cursor) constraints.push(startAfter(cursor));
+    const snapshot = await getDocs(query(notesRef, ...constraints));
+
+    let batch = writeBatch(db);
+    let writes = 0;
+    for (const noteDoc of snapshot.docs) {
+      const note = noteDoc.data();
+      const embedded = getEmbeddedActionItems(note);
+      const items = embedded.filter((item) => item && item.id);
+      migrated.skipped += embedded.length - items.length;
+      if (items.length > 0) migrated.notes += 1;
+
+      for (const [index, item] of items.entries()) {
+        if (writes === MAX_BATCH_WRITES) {
+          await batch.commit();
+          batch = writeBatch(db);
+          writes = 0;
+        }
+        batch.set(getActionItemRef(noteDoc.id, item.id), buildActionItemRecord(noteDoc.id, note, item, index));
+        writes += 1;
+        migrated.items += 1;
+      }
     }
-    return item;
-  });
+    if (writes > 0) await batch.commit();
 
-  await updateDoc(noteRef, {
-    action_items: updatedItems,
-    updated_at: Timestamp.now(),
+    processed += snapshot.docs.length;
+    onProgress?.({ processed, total });
+    cursor = snapshot.docs.length === NOTES_PER_BATCH ? snapshot.docs[snapshot.docs.length - 1] : null;
+  } while (cursor);
+
+  return migrated;
+}
+
+// ============================================================
+// Decisions
+// ============================================================
+
+/**
+ * A decision in a client or project register, with the note it came from
+ */
+export interface DecisionEntry extends KeyDecision {
+  status: DecisionStatus;
+  note_id: string;
+  note_title: string;
+  meeting_date: Timestamp | null;
+  client_name: string | null;
+  project_name: string | null;
+}
+
+export type DecisionUpdates = Partial<
+  Pick<KeyDecision, 'decision' | 'context' | 'decided_by' | 'status' | 'supersedes'>
+>;
+
+function getEmbeddedDecisions(note: DocumentData): KeyDecision[] {
+  return note.key_decisions || note.enhanced_analysis?.key_decisions || [];
+}
+
+function isSameDecision(a?: DecisionRef | null, b?: DecisionRef | null): boolean {
+  return !!a && !!b && a.note_id === b.note_id && a.decision_id === b.decision_id;
+}
+
+/**
+ * Every decision recorded in a client's or project's notes, oldest meeting first.
+ * Includes notes linked only through the legacy `clientId` / `projectId` fields.
+ */
+export async function getDecisionRegister(filters: {
+  clientId?: string;
+  projectId?: string;
+}): Promise<DecisionEntry[]> {
+  const [classified, legacy] = await Promise.all([
+    getNotes(filters),
+    getLegacyLinkedNotes(filters),
+  ]);
+  const classifiedIds = new Set(classified.map((note) => note.id));
+  const notes = [...classified, ...legacy.filter((note) => !classifiedIds.has(note.id))];
+
+  const entries: DecisionEntry[] = notes.flatMap((note) =>
+    getEmbeddedDecisions(note).map((decision) => ({
+      ...decision,
+      status: decision.status || 'accepted',
+      note_id: note.id,
+      note_title: getNoteTitle(note),
+      meeting_date: note.meeting?.start_time || note.created_at || null,
+      client_name: note.classification?.client_name || null,
+      project_name: note.classification?.project_name || null,
+    }))
+  );
+
+  return entries.sort(
+    (a, b) => (a.meeting_date?.toMillis() || 0) - (b.meeting_date?.toMillis() || 0)
+  );
+}
+
+/**
+ * Edit a decision. Changing `supersedes` also marks the linked decision as
+ * superseded (and releases the previously linked one) in the same transaction.
+ * If the linked decision was already superseded by another decision, that
+ * decision's `supersedes` link is cleared so the two links stay paired.
+ */
+export async function updateDecision(
+  noteId: string,
+  decisionId: string,
+  updates: DecisionUpdates,
+  userEmail?: string
+): Promise<void> {
+  const db = getFirebaseDb();
+  const self: DecisionRef = { note_id: noteId, decision_id: decisionId };
+
+  if (isSameDecision(updates.supersedes, self)) {
+    throw new Error('A decision cannot supersede itself');
+  }
+
+  await runTransaction(db, async (transaction) => {
+    const notes = new Map<string, DocumentData>();
+    const decisions = new Map<string, KeyDecision[]>();
+
+    // Transactions need every read before the first write
+    const load = async (id: string, required = true) => {
+      if (notes.has(id)) return;
+      const snapshot = await transaction.get(doc(db, 'notes_metadata', id));
+      if (!snapshot.exists()) {
+        if (!required) return;
+        throw new Error('Note not found');
+      }
+      notes.set(id, snapshot.data());
+      decisions.set(id, getEmbeddedDecisions(snapshot.data()).map((d) => ({ ...d })));
+    };
+    const find = (ref: DecisionRef) =>
+      decisions.get(ref.note_id)?.find((d) => d.id === ref.decision_id);
+
+    await load(noteId);
+    const current = find(self);
+    if (!current) {
+      throw new Error('Decision not found');
+    }
+
+    const previousTarget = current.supersedes || null;
+    const nextTarget = updates.supersedes !== undefined ? updates.supersedes : previousTarget;
+    if (previousTarget) await load(previousTarget.note_id);
+    if (nextTarget) await load(nextTarget.note_id);
+
+    Object.assign(current, updates, { supersedes: nextTarget });
+
+    if (!isSameDecision(previousTarget, nextTarget)) {
+      const previous = previousTarget && find(previousTarget);
+      if (previous && isSameDecision(previous.superseded_by, self)) {
+        previous.superseded_by = null;
+        previous.status = 'accepted';
+      }
+      if (nextTarget) {
+        const target = find(nextTarget);
+        if (!target) {
+          throw new Error('Superseded decision not found');
+        }
+        // Re-superseding: the decision that superseded it before loses its link
+        const replaced = target.superseded_by;
+        if (replaced && !isSameDecision(replaced, self)) {
+          await load(replaced.note_id, false);
+          const other = find(replaced);
+          if (other && isSameDecision(other.supersedes, nextTarget)) {
+            other.supersedes = null;
+          }
+        }
+        target.superseded_by = self;
+        target.status = 'superseded';
+      }
+    }
+
+    for (const [id, note] of notes) {
+      const noteRef = doc(db, 'notes_metadata', id);
+      const noteUpdates = { key_decisions: decisions.get(id)! };
+      const changes = diffDocumentUpdates(note, noteUpdates);
+      if (changes.length === 0) continue;
+
+      transaction.update(noteRef, { ...noteUpdates, updated_at: Timestamp.now() });
+      transaction.set(
+        doc(collection(noteRef, 'revisions')),
+        buildRevisionRecord('decision', changes, { changedBy: userEmail })
+      );
+    }
   });
 }
 
@@ -1110,10 +2703,16 @@ export async function updateTemplate(
 }
 
 /**
- * Delete a template
+ * Delete a template. Fails while other templates inherit from it.
  */
 export async function deleteTemplate(templateId: string): Promise<void> {
   const db = getFirebaseDb();
+  const children = await getDocs(
+    query(collection(db, 'templates'), where('parent_id', '==', templateId), limit(1))
+  );
+  if (!children.empty) {
+    throw new Error('Other templates inherit from this template');
+  }
   const templateRef = doc(db, 'templates', templateId);
   await deleteDoc(templateRef);
 }
@@ -1139,108 +2738,32 @@ export async function getTemplatesByCategory(
 }
 
 /**
- * Find matching template for a meeting
+ * Find the best-scoring template for a meeting, or the default template
  */
 export async function findMatchingTemplate(
-  meeting: { title?: string; attendees?: { email: string }[] }
+  meeting: TemplateMatchMeeting
 ): Promise<NoteTemplate | null> {
   const templates = await getTemplates();
-  const title = (meeting.title || '').toLowerCase();
-  const attendeeDomains = (meeting.attendees || [])
-    .map((a) => a.email.split('@')[1]?.toLowerCase())
-    .filter(Boolean);
-
-  for (const template of templates) {
-    const rules = template.auto_apply_rules;
-    if (!rules) continue;
-
-    // Check keywords
-    if (rules.keywords?.some((kw) => title.includes(kw.toLowerCase()))) {
-      return template;
-    }
-
-    // Check attendee domains
-    if (rules.attendee_domains?.some((d) => attendeeDomains.includes(d.toLowerCase()))) {
-      return template;
-    }
-  }
-
-  // Return default template if no match
-  return templates.find((t) => t.is_default) || null;
+  return matchTemplate(templates, meeting).template;
 }
 
 /**
- * Link a Google Task ID to an action item
- */
-export async function linkGoogleTaskToActionItem(
-  noteId: string,
-  actionItemId: string,
-  googleTaskId: string
-): Promise<void> {
-  const db = getFirebaseDb();
-  const noteRef = doc(db, 'notes_metadata', noteId);
-  const noteDoc = await getDoc(noteRef);
-
-  if (!noteDoc.exists()) {
-    throw new Error('Note not found');
-  }
-
-  const data = noteDoc.data();
-  const actionItems = data.action_items || [];
-
-  const updatedItems = actionItems.map((item: ActionItem) => {
-    if (item.id === actionItemId) {
-      return {
-        ...item,
-        google_task_id: googleTaskId,
-      };
-    }
-    return item;
-  });
-
-  await updateDoc(noteRef, {
-    action_items: updatedItems,
-    updated_at: Timestamp.now(),
-  });
-}
-
-/**
- * Add tags to multiple notes
+ * Add tags to multiple notes in atomic batches
  */
 export async function bulkAddTags(
   noteIds: string[],
   tags: string[],
-  userEmail: string
-): Promise<{ success: string[]; failed: string[] }> {
-  const db = getFirebaseDb();
-  const success: string[] = [];
-  const failed: string[] = [];
-
-  for (const noteId of noteIds) {
-    try {
-      const noteRef = doc(db, 'notes_metadata', noteId);
-      const noteDoc = await getDoc(noteRef);
-
-      if (noteDoc.exists()) {
-        const currentTags = noteDoc.data().tags || [];
-        const newTags = [...new Set([...currentTags, ...tags])];
-
-        await updateDoc(noteRef, {
-          tags: newTags,
-          updated_at: Timestamp.now(),
-          updated_by: userEmail,
-        });
-        success.push(noteId);
-      } else {
-        failed.push(noteId);
-      }
-    } catch (error) {
-      console.error(`Failed to add tags to note ${noteId}:`, error);
-      failed.push(noteId);
-    }
-  }
-
-  return { success, failed };
+  userEmail: string,
+  onProgress?: BulkProgressCallback
+): Promise<BulkWriteResult> {
+  return runBulkNoteUpdate(
+    noteIds,
+    'update',
+    (current) => ({
+      tags: [...new Set([...(current.tags || []), ...tags])],
+    }),
+    { changedBy: userEmail, onProgress }
+  );
 }
 
 // ============================================================
@@ -1294,6 +2817,51 @@ export async function saveUserSettings(
   }
 }
 
+// ============================================================
+// Workspace Settings
+// ============================================================
+
+/**
+ * Settings shared by everyone in the workspace, stored in a single
+ * workspace_settings document
+ */
+export interface WorkspaceSettings {
+  // Days a note stays in the trash before the scheduled purge deletes it; 0 disables it
+  trash_retention_days?: number | null;
+  updated_at?: Timestamp;
+  updated_by?: string | null;
+}
+
+const WORKSPACE_SETTINGS_DOC = 'default';
+
+/**
+ * Get the workspace settings; missing settings come back empty
+ */
+export async function getWorkspaceSettings(): Promise<WorkspaceSettings> {
+  const db = getFirebaseDb();
+  const snapshot = await getDoc(doc(db, 'workspace_settings', WORKSPACE_SETTINGS_DOC));
+  return snapshot.exists() ? (snapshot.data() as WorkspaceSettings) : {};
+}
+
+/**
+ * Save workspace settings, keeping fields that are not passed
+ */
+export async function saveWorkspaceSettings(
+  settings: Partial<Omit<WorkspaceSettings, 'updated_at' | 'updated_by'>>,
+  userEmail?: string
+): Promise<void> {
+  const db = getFirebaseDb();
+  await setDoc(
+    doc(db, 'workspace_settings', WORKSPACE_SETTINGS_DOC),
+    {
+      ...settings,
+      updated_at: Timestamp.now(),
+      updated_by: userEmail ?? getCurrentUserEmail(),
+    },
+    { merge: true }
+  );
+}
+
 // ============================================================
 // Client CRUD Operations
 // ============================================================
@@ -0,0 +1,524 @@
+/**
+ * Minimal PDF writer
+ *
+ * Lays out headings, paragraphs, lists and tables on US Letter pages and
+ * serializes them as a PDF using the built-in Helvetica fonts, so exports
+ * are generated in the browser without a PDF library. Text outside the
+ * Windows-1252 character set is replaced. Pure TypeScript like
+ * rule-engine.ts, so it is unit tested in isolation.
+ */
+
+// ============================================================
+// Types
+// ============================================================
+
+export type PdfFont = 'regular' | 'bold' | 'italic';
+
+// RGB, each 0-1
+export type PdfColor = [number, number, number];
+
+export interface PdfTextStyle {
+  font?: PdfFont;
+  size?: number;
+  color?: PdfColor;
+}
+
+export interface PdfLink {
+  // Left, bottom, right, top in PDF coordinates
+  rect: [number, number, number, number];
+  // Index of the page the link jumps to
+  targetPage: number;
+}
+
+export interface PdfPage {
+  ops: string[];
+  links: PdfLink[];
+}
+
+export interface PdfLayout {
+  pages: PdfPage[];
+  // Page being written and the cursor, measured down from the top edge
+  page: number;
+  y: number;
+}
+
+export interface PdfTableColumn {
+  header: string;
+  // Share of the content width
+  width: number;
+}
+
+export interface PdfDocumentInfo {
+  title: string;
+  author?: string;
+  // Footer text per page, or null for none
+  footer?: (pageIndex: number, pageCount: number) => string | null;
+  now?: Date;
+}
+
+// ============================================================
+// Page geometry
+// ============================================================
+
+export const PDF_PAGE_WIDTH = 612;
+export const PDF_PAGE_HEIGHT = 792;
+export const PDF_MARGIN = 54;
+export const PDF_CONTENT_WIDTH = PDF_PAGE_WIDTH - PDF_MARGIN * 2;
+
+const BOTTOM_LIMIT = PDF_PAGE_HEIGHT - PDF_MARGIN;
+const LINE_HEIGHT = 1.35;
+const DEFAULT_SIZE = 10;
+const TEXT_COLOR: PdfColor = [0.13, 0.13, 0.13];
+export const PDF_MUTED_COLOR: PdfColor = [0.42, 0.42, 0.45];
+const RULE_COLOR: PdfColor = [0.82, 0.82, 0.85];
+const TABLE_HEADER_FILL: PdfColor = [0.94, 0.95, 0.97];
+
+// ============================================================
+// Text encoding and metrics
+// ============================================================
+
+const FONT_NAMES: Record<PdfFont, string> = {
+  regular: 'F1',
+  bold: 'F2',
+  italic: 'F3',
+};
+
+// Helvetica advance widths for ASCII 32-126, in 1/1000 em
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556,
+  278, 278, 584, 584, 584, 556, 1015,
+  667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944,
+  667, 667, 611,
+  278, 278, 278, 469, 556, 333,
+  556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722,
+  500, 500, 500,
+  334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556,
+  333, 333, 584, 584, 584, 611, 975,
+  722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944,
+  667, 667, 611,
+  333, 278, 333, 584, 556, 333,
+  556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778,
+  556, 556, 500,
+  389, 280, 389, 584,
+];
+
+// Windows-1252 bytes for the punctuation people paste in from other tools
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80,
+  '…': 0x85,
+  '‘': 0x91,
+  '’': 0x92,
+  '“': 0x93,
+  '”': 0x94,
+  '•': 0x95,
+  '–': 0x96,
+  '—': 0x97,
+  '™': 0x99,
+};
+
+const EXTRA_WIDTHS: Record<number, number> = {
+  0x80: 556,
+  0x85: 1000,
+  0x91: 222,
+  0x92: 222,
+  0x93: 333,
+  0x94: 333,
+  0x95: 350,
+  0x96: 556,
+  0x97: 1000,
+  0x99: 1000,
+};
+
+/**
+ * Text as Windows-1252 characters, one per byte. Tabs become spaces and
+ * anything the built-in fonts cannot show becomes "?".
+ */
+export function encodePdfText(text: string): string {
+  let encoded = '';
+  for (const char of text.replace(/\t/g, ' ')) {
+    const code = char.codePointAt(0)!;
+    if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff)) {
+      encoded += char;
+    } else if (WIN_ANSI_EXTRAS[char] !== undefined) {
+      encoded += String.fromCharCode(WIN_ANSI_EXTRAS[char]);
+    } else if (code >= 0x20) {
+      encoded += '?';
+    }
+  }
+  return encoded;
+}
+
+function charWidth(code: number, font: PdfFont): number {
+  if (code >= 32 && code <= 126) {
+    return (font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS)[code - 32];
+  }
+  return EXTRA_WIDTHS[code] ?? 556;
+}
+
+/**
+ * Width of a line of text in points
+ */
+export function measurePdfText(text: string, font: PdfFont = 'regular', size = DEFAULT_SIZE): number {
+  const encoded = encodePdfText(text);
+  let units = 0;
+  for (let i = 0; i < encoded.length; i++) {
+    units += charWidth(encoded.charCodeAt(i), font);
+  }
+  return (units * size) / 1000;
+}
+
+function breakWord(word: string, font: PdfFont, size: number, maxWidth: number): string[] {
+  const pieces: string[] = [];
+  let piece = '';
+  for (const char of word) {
+    if (piece && measurePdfText(piece + char, font, size) > maxWidth) {
+      pieces.push(piece);
+      piece = '';
+    }
+    piece += char;
+  }
+  return piece ? [...pieces, piece] : pieces;
+}
+
+/**
+ * Wrap text to lines no wider than maxWidth. Line breaks in the text are
+ * kept and words too long for a line are split.
+ */
+export function wrapPdfText(
+  text: string,
+  font: PdfFont = 'regular',
+  size = DEFAULT_SIZE,
+  maxWidth = PDF_CONTENT_WIDTH
+): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (measurePdfText(candidate, font, size) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      const pieces = breakWord(word, font, size, maxWidth);
+      line = pieces.pop() || '';
+      lines.push(...pieces);
+    }
+    lines.push(line);
+  }
+
+  return lines;
+}
+
+/**
+ * Shorten text to fit on one line, ending with an ellipsis
+ */
+export function truncatePdfText(
+  text: string,
+  maxWidth: number,
+  font: PdfFont = 'regular',
+  size = DEFAULT_SIZE
+): string {
+  if (measurePdfText(text, font, size) <= maxWidth) return text;
+  let truncated = text;
+  while (truncated && measurePdfText(`${truncated}…`, font, size) > maxWidth) {
+    truncated = truncated.slice(0, -1);
+  }
+  return `${truncated.trimEnd()}…`;
+}
+
+// ============================================================
+// Drawing
+// ============================================================
+
+function num(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+function colorOps(color: PdfColor, stroke = false): string {
+  return `${color.map(num).join(' ')} ${stroke ? 'RG' : 'rg'}`;
+}
+
+function escapePdfString(encoded: string): string {
+  return encoded.replace(/[\\()]/g, (char) => `\\${char}`);
+}
+
+/**
+ * Draw one line of text with its baseline y points below the top edge
+ */
+export function drawPdfText(page: PdfPage, text: string, x: number, y: number, style: PdfTextStyle = {}): void {
+  const { font = 'regular', size = DEFAULT_SIZE, color = TEXT_COLOR } = style;
+  page.ops.push(
+    `BT /${FONT_NAMES[font]} ${num(size)} Tf ${colorOps(color)} ${num(x)} ${num(PDF_PAGE_HEIGHT - y)} Td (${escapePdfString(encodePdfText(text))}) Tj ET`
+  );
+}
+
+/**
+ * Draw a filled rectangle whose top edge is y points below the top of the page
+ */
+export function drawPdfRect(page: PdfPage, x: number, y: number, width: number, height: number, color: PdfColor): void {
+  page.ops.push(`${colorOps(color)} ${num(x)} ${num(PDF_PAGE_HEIGHT - y - height)} ${num(width)} ${num(height)} re f`);
+}
+
+export function drawPdfLine(page: PdfPage, x1: number, y1: number, x2: number, y2: number, color = RULE_COLOR): void {
+  page.ops.push(
+    `${colorOps(color, true)} 0.75 w ${num(x1)} ${num(PDF_PAGE_HEIGHT - y1)} m ${num(x2)} ${num(PDF_PAGE_HEIGHT - y2)} l S`
+  );
+}
+
+/**
+ * Make an area of a page, given from its top y down, jump to another page
+ */
+export function addPdfLink(page: PdfPage, x: number, y: number, width: number, height: number, targetPage: number): void {
+  page.links.push({
+    rect: [x, PDF_PAGE_HEIGHT - y - height, x + width, PDF_PAGE_HEIGHT - y],
+    targetPage,
+  });
+}
+
+// ============================================================
+// Flow layout
+// ============================================================
+
+export function createPdfLayout(): PdfLayout {
+  return { pages: [{ ops: [], links: [] }], page: 0, y: PDF_MARGIN };
+}
+
+export function currentPdfPage(layout: PdfLayout): PdfPage {
+  return layout.pages[layout.page];
+}
+
+/**
+ * Start a new page at the end and move the cursor to its top. Returns
+ * the page index.
+ */
+export function addPdfPage(layout: PdfLayout): number {
+  layout.pages.push({ ops: [], links: [] });
+  layout.page = layout.pages.length - 1;
+  layout.y = PDF_MARGIN;
+  return layout.page;
+}
+
+/**
+ * Move to a new page unless the current one has the given height left
+ */
+export function ensurePdfSpace(layout: PdfLayout, height: number): void {
+  if (layout.y + height > BOTTOM_LIMIT && layout.y > PDF_MARGIN) {
+    addPdfPage(layout);
+  }
+}
+
+export function addPdfSpace(layout: PdfLayout, height: number): void {
+  layout.y += height;
+}
+
+/**
+ * Wrapped text at the cursor, continuing onto new pages as needed
+ */
+export function addPdfParagraph(
+  layout: PdfLayout,
+  text: string,
+  style: PdfTextStyle & { indent?: number } = {}
+): void {
+  const { indent = 0, font = 'regular', size = DEFAULT_SIZE } = style;
+  const lineHeight = size * LINE_HEIGHT;
+
+  for (const line of wrapPdfText(text, font, size, PDF_CONTENT_WIDTH - indent)) {
+    ensurePdfSpace(layout, lineHeight);
+    layout.y += lineHeight;
+    if (line) drawPdfText(currentPdfPage(layout), line, PDF_MARGIN + indent, layout.y - size * 0.3, style);
+  }
+}
+
+/**
+ * A heading kept on the same page as at least a couple of lines after it
+ */
+export function addPdfHeading(layout: PdfLayout, text: string, size = 13): void {
+  ensurePdfSpace(layout, size * LINE_HEIGHT + DEFAULT_SIZE * LINE_HEIGHT * 2);
+  addPdfSpace(layout, size * 0.6);
+  addPdfParagraph(layout, text, { font: 'bold', size });
+  addPdfSpace(layout, 2);
+}
+
+/**
+ * Bulleted or numbered list with hanging indents
+ */
+export function addPdfList(
+  layout: PdfLayout,
+  items: Array<string | { text: string; detail?: string }>,
+  options: { numbered?: boolean } = {}
+): void {
+  const lineHeight = DEFAULT_SIZE * LINE_HEIGHT;
+  const indent = 18;
+
+  items.forEach((item, index) => {
+    const { text, detail } = typeof item === 'string' ? { text: item, detail: undefined } : item;
+    const marker = options.numbered ? `${index + 1}.` : '•';
+
+    ensurePdfSpace(layout, lineHeight);
+    drawPdfText(currentPdfPage(layout), marker, PDF_MARGIN + 4, layout.y + lineHeight - DEFAULT_SIZE * 0.3);
+    addPdfParagraph(layout, text, { indent });
+    if (detail) addPdfParagraph(layout, detail, { indent, font: 'italic', color: PDF_MUTED_COLOR });
+    addPdfSpace(layout, 2);
+  });
+}
+
+/**
+ * Label and value rows, for header blocks
+ */
+export function addPdfFields(layout: PdfLayout, fields: Array<[string, string]>, labelWidth = 80): void {
+  const lineHeight = DEFAULT_SIZE * LINE_HEIGHT;
+
+  for (const [label, value] of fields) {
+    ensurePdfSpace(layout, lineHeight);
+    drawPdfText(currentPdfPage(layout), label, PDF_MARGIN, layout.y + lineHeight - DEFAULT_SIZE * 0.3, {
+      font: 'bold',
+      color: PDF_MUTED_COLOR,
+    });
+    addPdfParagraph(layout, value || '—', { indent: labelWidth });
+  }
+}
+
+export function addPdfRule(layout: PdfLayout, spacing = 8): void {
+  addPdfSpace(layout, spacing);
+  drawPdfLine(currentPdfPage(layout), PDF_MARGIN, layout.y, PDF_PAGE_WIDTH - PDF_MARGIN, layout.y);
+  addPdfSpace(layout, spacing);
+}
+
+/**
+ * Table with a shaded header row, repeated when rows spill onto a new page
+ */
+export function addPdfTable(layout: PdfLayout, columns: PdfTableColumn[], rows: string[][]): void {
+  const size = 9;
+  const lineHeight = size * LINE_HEIGHT;
+  const padding = 4;
+  const totalShare = columns.reduce((total, column) => total + column.width, 0);
+  const widths = columns.map((column) => (column.width / totalShare) * PDF_CONTENT_WIDTH);
+
+  const drawRow = (cells: string[], font: PdfFont, fill?: PdfColor) => {
+    const wrapped = cells.map((cell, i) => wrapPdfText(cell, font, size, widths[i] - padding * 2));
+    const height = Math.max(...wrapped.map((lines) => lines.length)) * lineHeight + padding * 2;
+    const page = currentPdfPage(layout);
+    if (fill) drawPdfRect(page, PDF_MARGIN, layout.y, PDF_CONTENT_WIDTH, height, fill);
+
+    let x = PDF_MARGIN;
+    wrapped.forEach((lines, i) => {
+      lines.forEach((line, lineIndex) => {
+        const baseline = layout.y + padding + (lineIndex + 1) * lineHeight - size * 0.3;
+        if (line) drawPdfText(page, line, x + padding, baseline, { font, size });
+      });
+      x += widths[i];
+    });
+
+    layout.y += height;
+    drawPdfLine(page, PDF_MARGIN, layout.y, PDF_PAGE_WIDTH - PDF_MARGIN, layout.y);
+  };
+
+  const rowHeight = (cells: string[], font: PdfFont) =>
+    Math.max(...cells.map((cell, i) => wrapPdfText(cell, font, size, widths[i] - padding * 2).length)) *
+      lineHeight +
+    padding * 2;
+
+  const headers = columns.map((column) => column.header);
+  const headerHeight = rowHeight(headers, 'bold');
+  ensurePdfSpace(layout, headerHeight + (rows[0] ? rowHeight(rows[0], 'regular') : 0));
+  drawRow(headers, 'bold', TABLE_HEADER_FILL);
+
+  for (const row of rows) {
+    const height = rowHeight(row, 'regular');
+    if (layout.y + height > BOTTOM_LIMIT) {
+      addPdfPage(layout);
+      drawRow(headers, 'bold', TABLE_HEADER_FILL);
+    }
+    drawRow(row, 'regular');
+  }
+}
+
+// ============================================================
+// Serialization
+// ============================================================
+
+function pdfDate(date: Date): string {
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return (
+    `D:${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`
+  );
+}
+
+function pdfString(text: string): string {
+  return `(${escapePdfString(encodePdfText(text))})`;
+}
+
+/**
+ * Serialize the laid out pages as a PDF file
+ */
+export function renderPdf(layout: PdfLayout, info: PdfDocumentInfo): Uint8Array<ArrayBuffer> {
+  const pageCount = layout.pages.length;
+  // 1 catalog, 2 page tree, 3-5 fonts, 6 info, then a page and its content per page
+  const pageRef = (index: number) => 7 + index * 2;
+  const objects: string[] = [];
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${layout.pages.map((_, i) => `${pageRef(i)} 0 R`).join(' ')}] /Count ${pageCount} >>`;
+  (['Helvetica', 'Helvetica-Bold', 'Helvetica-Oblique'] as const).forEach((baseFont, i) => {
+    objects[3 + i] = `<< /Type /Font /Subtype /Type1 /BaseFont /${baseFont} /Encoding /WinAnsiEncoding >>`;
+  });
+  objects[6] =
+    `<< /Title ${pdfString(info.title)}` +
+    (info.author ? ` /Author ${pdfString(info.author)}` : '') +
+    ` /Producer (Egen Meeting Notes) /CreationDate (${pdfDate(info.now || new Date())}) >>`;
+
+  layout.pages.forEach((page, index) => {
+    const ops = [...page.ops];
+    const footer = info.footer?.(index, pageCount);
+    if (footer) {
+      const width = measurePdfText(footer, 'regular', 8);
+      ops.push(
+        `BT /F1 8 Tf ${colorOps(PDF_MUTED_COLOR)} ${num((PDF_PAGE_WIDTH - width) / 2)} ${num(PDF_MARGIN / 2)} Td ${pdfString(footer)} Tj ET`
+      );
+    }
+    const content = ops.join('\n');
+    const annots = page.links.map(
+      (link) =>
+        `<< /Type /Annot /Subtype /Link /Rect [${link.rect.map(num).join(' ')}] /Border [0 0 0] ` +
+        `/Dest [${pageRef(link.targetPage)} 0 R /XYZ null null null] >>`
+    );
+
+    objects[pageRef(index)] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] ` +
+      '/Resources << /Font << /F1 3 0 R /F2 4 0 R /F3 5 0 R >> >> ' +
+      `/Contents ${pageRef(index) + 1} 0 R` +
+      (annots.length ? ` /Annots [${annots.join(' ')}]` : '') +
+      ' >>';
+    objects[pageRef(index) + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+  });
+
+  // Every character is a single byte, so string lengths are byte offsets
+  let file = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = file.length;
+    file += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = file.length;
+  file += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    file += `${offsets[id].toString().padStart(10, '0')} 00000 n \n`;
+  }
+  file += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 6 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  const bytes = new Uint8Array(file.length);
+  for (let i = 0; i < file.length; i++) {
+    bytes[i] = file.charCodeAt(i);
+  }
+  return bytes;
+}
@@ -0,0 +1,229 @@
+/**
+ * Rule conflict and overlap analysis
+ *
+ * Evaluates the active rule set against a sample of notes and reports rules
+ * that compete for the same meetings, rules that can never win, rules that
+ * never match, and rules pointing at inactive clients or finished projects.
+ * Pure TypeScript like rule-engine.ts.
+ */
+
+import type { ClassificationRule, Client, Note, Project } from './firestore';
+import {
+  RuleClassification,
+  applyRuleActions,
+  evaluateRules,
+  isSameClassification,
+  noteToRuleMeeting,
+  sortRulesByPriority,
+  toRuleClassification,
+} from './rule-engine';
+
+// ============================================================
+// Types
+// ============================================================
+
+export type RuleFindingKind =
+  | 'conflict'
+  | 'overlap'
+  | 'shadowed'
+  | 'never_matched'
+  | 'inactive_target';
+
+export type RuleFindingSeverity = 'error' | 'warning' | 'info';
+
+export interface RuleFinding {
+  kind: RuleFindingKind;
+  severity: RuleFindingSeverity;
+  // The rule the finding is about (the lower-priority one for pairs)
+  rule: ClassificationRule;
+  relatedRules: ClassificationRule[];
+  noteIds: string[];
+  message: string;
+}
+
+export interface RuleAnalysis {
+  notesAnalyzed: number;
+  rulesAnalyzed: number;
+  // Notes each rule matched, by rule ID
+  matchCounts: Record<string, number>;
+  findings: RuleFinding[];
+}
+
+export interface RuleAnalyzerData {
+  clients: Array<Pick<Client, 'id' | 'name' | 'status'>>;
+  projects: Array<Pick<Project, 'id' | 'project_name' | 'status' | 'team'>>;
+}
+
+const SEVERITY_ORDER: Record<RuleFindingSeverity, number> = { error: 0, warning: 1, info: 2 };
+
+const KIND_ORDER: Record<RuleFindingKind, number> = {
+  inactive_target: 0,
+  conflict: 1,
+  shadowed: 2,
+  overlap: 3,
+  never_matched: 4,
+};
+
+// ============================================================
+// Analysis
+// ============================================================
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+function findTargetProblem(
+  rule: ClassificationRule,
+  data: RuleAnalyzerData
+): Pick<RuleFinding, 'severity' | 'message'> | null {
+  const { client_id: clientId, project_id: projectId } = rule.actions || {};
+
+  if (clientId) {
+    const client = data.clients.find((c) => c.id === clientId);
+    if (!client) {
+      return { severity: 'error', message: `"${rule.name}" assigns a client that no longer exists` };
+    }
+    if (client.status === 'inactive') {
+      return { severity: 'warning', message: `"${rule.name}" assigns inactive client ${client.name}` };
+    }
+  }
+
+  if (projectId) {
+    const project = data.projects.find((p) => p.id === projectId);
+    if (!project) {
+      return { severity: 'error', message: `"${rule.name}" assigns a project that no longer exists` };
+    }
+    if (project.status === 'completed') {
+      return {
+        severity: 'warning',
+        message: `"${rule.name}" assigns completed project ${project.project_name}`,
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Analyze active rules against notes. Every rule is evaluated against every
+ * note so overlaps are found even where a higher-priority rule wins.
+ */
+export function analyzeRules(
+  rules: ClassificationRule[],
+  notes: Note[],
+  data: RuleAnalyzerData
+): RuleAnalysis {
+  const activeRules = sortRulesByPriority(rules.filter((rule) => (rule.status || 'active') === 'active'));
+  const context = { projects: data.projects };
+
+  const matchedNotes = new Map<string, string[]>(activeRules.map((rule) => [rule.id, []]));
+  const winningNotes = new Map<string, string[]>(activeRules.map((rule) => [rule.id, []]));
+  // Rules that won on notes another rule also matched, by losing rule ID
+  const preemptedBy = new Map<string, Map<string, ClassificationRule>>();
+  const pairs = new Map<
+    string,
+    { higher: ClassificationRule; lower: ClassificationRule; noteIds: string[]; conflicting: boolean }
+  >();
+
+  for (const note of notes) {
+    const current = toRuleClassification(note.classification);
+    const { matchedRule, evaluations } = evaluateRules(activeRules, noteToRuleMeeting(note), {
+      evaluateAll: true,
+      context,
+    });
+    const matching = evaluations.filter((e) => e.matched).map((e) => e.rule);
+    if (!matchedRule) continue;
+
+    winningNotes.get(matchedRule.id)!.push(note.id);
+    const outcomes = new Map<string, RuleClassification>();
+    for (const rule of matching) {
+      matchedNotes.get(rule.id)!.push(note.id);
+      outcomes.set(rule.id, applyRuleActions(current, rule.actions));
+      if (rule.id !== matchedRule.id) {
+        const winners = preemptedBy.get(rule.id) || new Map<string, ClassificationRule>();
+        winners.set(matchedRule.id, matchedRule);
+        preemptedBy.set(rule.id, winners);
+      }
+    }
+
+    // Evaluations are in priority order, so `higher` always outranks `lower`
+    for (let i = 0; i < matching.length; i++) {
+      for (let j = i + 1; j < matching.length; j++) {
+        const [higher, lower] = [matching[i], matching[j]];
+        const key = `${higher.id}:${lower.id}`;
+        const pair = pairs.get(key) || { higher, lower, noteIds: [], conflicting: false };
+        pair.noteIds.push(note.id);
+        if (!isSameClassification(outcomes.get(higher.id)!, outcomes.get(lower.id)!)) {
+          pair.conflicting = true;
+        }
+        pairs.set(key, pair);
+      }
+    }
+  }
+
+  const findings: RuleFinding[] = [];
+
+  for (const { higher, lower, noteIds, conflicting } of pairs.values()) {
+    findings.push({
+      kind: conflicting ? 'conflict' : 'overlap',
+      severity: conflicting ? 'warning' : 'info',
+      rule: lower,
+      relatedRules: [higher],
+      noteIds,
+      message: conflicting
+        ? `"${higher.name}" and "${lower.name}" both match ${plural(noteIds.length, 'note')} but classify them differently`
+        : `"${higher.name}" and "${lower.name}" both match ${plural(noteIds.length, 'note')}`,
+    });
+  }
+
+  for (const rule of activeRules) {
+    const matched = matchedNotes.get(rule.id)!;
+    if (matched.length === 0) {
+      findings.push({
+        kind: 'never_matched',
+        severity: 'info',
+        rule,
+        relatedRules: [],
+        noteIds: [],
+        message: `"${rule.name}" did not match any of the ${plural(notes.length, 'recent note')}`,
+      });
+    } else if (winningNotes.get(rule.id)!.length === 0) {
+      const winners = [...(preemptedBy.get(rule.id)?.values() || [])];
+      findings.push({
+        kind: 'shadowed',
+        severity: 'warning',
+        rule,
+        relatedRules: winners,
+        noteIds: matched,
+        message: `"${rule.name}" matched ${plural(matched.length, 'note')} but always lost to ${winners
+          .map((w) => `"${w.name}"`)
+          .join(', ')}`,
+      });
+    }
+
+    const targetProblem = findTargetProblem(rule, data);
+    if (targetProblem) {
+      findings.push({
+        kind: 'inactive_target',
+        rule,
+        relatedRules: [],
+        noteIds: [],
+        ...targetProblem,
+      });
+    }
+  }
+
+  findings.sort(
+    (a, b) =>
+      SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] ||
+      KIND_ORDER[a.kind] - KIND_ORDER[b.kind] ||
+      b.noteIds.length - a.noteIds.length
+  );
+
+  return {
+    notesAnalyzed: notes.length,
+    rulesAnalyzed: activeRules.length,
+    matchCounts: Object.fromEntries([...matchedNotes].map(([id, noteIds]) => [id, noteIds.length])),
+    findings,
+  };
+}
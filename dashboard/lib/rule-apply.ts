@@ -0,0 +1,120 @@
+/**
+ * Retroactive rule application
+ *
+ * Works out which existing notes a rule would reclassify and what the
+ * classification fields would become. Pure TypeScript like rule-engine.ts;
+ * the writes happen in firestore.ts.
+ */
+
+import type { ClassificationRule, Note } from './firestore';
+import {
+  ClassificationNames,
+  RuleClassification,
+  RuleContext,
+  applyRuleActions,
+  evaluateRule,
+  isSameClassification,
+  noteToRuleMeeting,
+  toRuleClassification,
+} from './rule-engine';
+
+// ============================================================
+// Types
+// ============================================================
+
+/**
+ * Classification fields a retroactive apply writes, and restores on undo
+ */
+export interface RuleApplyFields {
+  type: string;
+  client_id: string | null;
+  client_name: string | null;
+  project_id: string | null;
+  project_name: string | null;
+  rule_id: string | null;
+}
+
+export interface RuleApplyPreviewItem {
+  note: Note;
+  before: RuleClassification;
+  after: RuleClassification;
+  // A user confirmed the current classification by hand
+  userConfirmed: boolean;
+}
+
+// ============================================================
+// Preview
+// ============================================================
+
+/**
+ * Notes the rule matches whose classification it would change. The rule is
+ * evaluated on its own, whatever its status or priority, since applying it
+ * is an explicit choice.
+ */
+export function previewRuleApply(
+  rule: ClassificationRule,
+  notes: Note[],
+  context: RuleContext = {}
+): RuleApplyPreviewItem[] {
+  const items: RuleApplyPreviewItem[] = [];
+
+  for (const note of notes) {
+    if (note.deleted) continue;
+    if (!evaluateRule(rule, noteToRuleMeeting(note), context).matched) continue;
+
+    const before = toRuleClassification(note.classification);
+    const after = applyRuleActions(before, rule.actions);
+    if (isSameClassification(before, after)) continue;
+
+    items.push({
+      note,
+      before,
+      after,
+      userConfirmed: !!note.classification?.user_confirmed,
+    });
+  }
+
+  return items;
+}
+
+/**
+ * Classification fields a rule would write onto a note, with display names
+ * resolved so the note reads correctly without the rule
+ */
+export function getRuleApplyFields(
+  rule: ClassificationRule,
+  current: Partial<RuleApplyFields> | null | undefined,
+  names: ClassificationNames
+): RuleApplyFields {
+  const before = pickRuleApplyFields(current);
+  const after = applyRuleActions(before, rule.actions);
+  const clientName = names.clients.find((c) => c.id === after.client_id)?.name;
+  const projectName = names.projects.find((p) => p.id === after.project_id)?.project_name;
+
+  return {
+    ...after,
+    client_name: after.client_id
+      ? clientName || (after.client_id === before.client_id ? before.client_name : null)
+      : null,
+    project_name: after.project_id
+      ? projectName || (after.project_id === before.project_id ? before.project_name : null)
+      : null,
+    rule_id: rule.id,
+  };
+}
+
+/**
+ * The subset of a note's classification that a retroactive apply touches
+ */
+export function pickRuleApplyFields(
+  classification: Partial<RuleApplyFields> | null | undefined
+): RuleApplyFields {
+  return {
+    type: classification?.type || 'uncategorized',
+    client_id: classification?.client_id || null,
+    client_name: classification?.client_name || null,
+    project_id: classification?.project_id || null,
+    project_name: classification?.project_name || null,
+    rule_id: classification?.rule_id || null,
+  };
+}
@@ -0,0 +1,219 @@
+/**
+ * Rule backtesting
+ *
+ * Replays a draft rule, or the whole ordered rule set, over historical notes
+ * and scores the outcome against classifications users have confirmed or
+ * corrected. Pure TypeScript like rule-engine.ts.
+ */
+
+import type { ClassificationFeedback, ClassificationRule, Note } from './firestore';
+import {
+  RuleClassification,
+  RuleContext,
+  RuleStatus,
+  applyRuleActions,
+  evaluateRules,
+  isSameClassification,
+  noteToRuleMeeting,
+  toRuleClassification,
+} from './rule-engine';
+
+// ============================================================
+// Types
+// ============================================================
+
+export type GroundTruthSource = 'confirmed' | 'feedback';
+
+export interface GroundTruth {
+  classification: RuleClassification;
+  source: GroundTruthSource;
+}
+
+export interface BacktestNoteResult {
+  note: Note;
+  current: RuleClassification;
+  // Rule that would be applied, and the classification it would give
+  matchedRule: ClassificationRule | null;
+  predicted: RuleClassification | null;
+  truth: GroundTruth | null;
+  // Applying the matched rule would change the note's classification
+  changed: boolean;
+  // Whether the prediction agrees with the ground truth; null if either is missing
+  correct: boolean | null;
+}
+
+export interface ConfusionCell {
+  actual: RuleClassification;
+  // null when no rule matched
+  predicted: RuleClassification | null;
+  count: number;
+}
+
+export interface BacktestReport {
+  results: BacktestNoteResult[];
+  totalNotes: number;
+  // Notes with a confirmed or corrected classification
+  labeledNotes: number;
+  matchedNotes: number;
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  // null when there is nothing to divide by
+  precision: number | null;
+  recall: number | null;
+  reclassified: BacktestNoteResult[];
+  // Labeled notes only, actual against predicted
+  confusion: ConfusionCell[];
+}
+
+export interface BacktestOptions {
+  // Rule statuses to replay; defaults to active, as classify does
+  statuses?: RuleStatus[];
+  context?: RuleContext;
+}
+
+// ============================================================
+// Ground truth
+// ============================================================
+
+function feedbackToClassification(
+  corrected: ClassificationFeedback['correctedClassification']
+): RuleClassification {
+  return {
+    type: corrected.type || 'uncategorized',
+    client_id: corrected.clientId || null,
+    project_id: corrected.projectId || null,
+  };
+}
+
+/**
+ * Latest correction per note
+ */
+export function indexFeedbackByNote(
+  feedback: ClassificationFeedback[]
+): Map<string, ClassificationFeedback> {
+  const byNote = new Map<string, ClassificationFeedback>();
+  for (const entry of feedback) {
+    if (!entry.noteId || !entry.correctedClassification) continue;
+    const existing = byNote.get(entry.noteId);
+    if (!existing || (entry.created_at?.toMillis() || 0) > (existing.created_at?.toMillis() || 0)) {
+      byNote.set(entry.noteId, entry);
+    }
+  }
+  return byNote;
+}
+
+/**
+ * The classification a user has vouched for, if any. When a note has both a
+ * confirmation and a correction, the more recent one wins.
+ */
+export function getGroundTruth(
+  note: Note,
+  feedback: ClassificationFeedback | undefined
+): GroundTruth | null {
+  const confirmed = note.classification?.user_confirmed ? note.classification : null;
+
+  if (feedback) {
+    const confirmedAt = confirmed?.confirmed_at?.toMillis() || 0;
+    if (!confirmed || (feedback.created_at?.toMillis() || 0) >= confirmedAt) {
+      return {
+        classification: feedbackToClassification(feedback.correctedClassification),
+        source: 'feedback',
+      };
+    }
+  }
+
+  return confirmed
+    ? { classification: toRuleClassification(confirmed), source: 'confirmed' }
+    : null;
+}
+
+// ============================================================
+// Backtest
+// ============================================================
+
+export function getClassificationKey(classification: RuleClassification | null): string {
+  if (!classification) return 'none';
+  return [classification.type, classification.client_id || '', classification.project_id || ''].join(':');
+}
+
+/**
+ * Whether a classification is one the rule would produce, i.e. applying
+ * the rule's actions leaves it unchanged
+ */
+function isRuleTarget(rule: ClassificationRule, classification: RuleClassification): boolean {
+  return isSameClassification(applyRuleActions(classification, rule.actions), classification);
+}
+
+/**
+ * Replay rules over notes as classify would (first match by priority wins)
+ * and score them. Precision is measured over labeled notes a rule matched;
+ * recall over labeled notes whose classification one of the rules targets.
+ */
+export function runBacktest(
+  rules: ClassificationRule[],
+  notes: Note[],
+  feedback: ClassificationFeedback[],
+  options: BacktestOptions = {}
+): BacktestReport {
+  const statuses = options.statuses || ['active'];
+  const candidates = rules.filter((rule) => statuses.includes(rule.status || 'active'));
+  const feedbackByNote = indexFeedbackByNote(feedback);
+
+  const results: BacktestNoteResult[] = notes.map((note) => {
+    const current = toRuleClassification(note.classification);
+    const { matchedRule } = evaluateRules(candidates, noteToRuleMeeting(note), {
+      statuses,
+      context: options.context,
+    });
+    const predicted = matchedRule ? applyRuleActions(current, matchedRule.actions) : null;
+    const truth = getGroundTruth(note, feedbackByNote.get(note.id));
+
+    return {
+      note,
+      current,
+      matchedRule,
+      predicted,
+      truth,
+      changed: !!predicted && !isSameClassification(predicted, current),
+      correct: predicted && truth ? isSameClassification(predicted, truth.classification) : null,
+    };
+  });
+
+  const labeled = results.filter((r) => r.truth);
+  const truePositives = labeled.filter((r) => r.correct === true).length;
+  const falsePositives = labeled.filter((r) => r.correct === false).length;
+  const relevant = labeled.filter((r) =>
+    candidates.some((rule) => isRuleTarget(rule, r.truth!.classification))
+  ).length;
+
+  const confusion = new Map<string, ConfusionCell>();
+  for (const result of labeled) {
+    const key = `${getClassificationKey(result.truth!.classification)}>${getClassificationKey(result.predicted)}`;
+    const cell = confusion.get(key);
+    if (cell) {
+      cell.count += 1;
+    } else {
+      confusion.set(key, {
+        actual: result.truth!.classification,
+        predicted: result.predicted,
+        count: 1,
+      });
+    }
+  }
+
+  const predictedCount = truePositives + falsePositives;
+  return {
+    results,
+    totalNotes: notes.length,
+    labeledNotes: labeled.length,
+    matchedNotes: results.filter((r) => r.matchedRule).length,
+    truePositives,
+    falsePositives,
+    falseNegatives: relevant - truePositives,
+    precision: predictedCount > 0 ? truePositives / predictedCount : null,
+    recall: relevant > 0 ? truePositives / relevant : null,
+    reclassified: results.filter((r) => r.changed),
+    confusion: [...confusion.values()].sort((a, b) => b.count - a.count),
+  };
+}
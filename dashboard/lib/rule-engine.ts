@@ -0,0 +1,1110 @@
+/**
+ * Classification rule engine
+ *
+ * Pure TypeScript evaluation of classification rules against meeting data,
+ * matching the server-side matcher in functions/classify. Used by the rule
+ * editor and the rule test panel so previews agree with what classify does.
+ *
+ * No Firebase or React imports here: the module is unit tested in isolation.
+ */
+
+import type { Classification, ClassificationRule, Client, Note, Project } from './firestore';
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface RuleCondition {
+  field: string;
+  operator: string;
+  value: string | string[];
+}
+
+/**
+ * A group of conditions and nested groups. Rules saved before nesting
+ * existed are a single group of plain conditions, which is still valid.
+ */
+export interface RuleConditionGroup {
+  operator: 'AND' | 'OR';
+  // Invert the group's result (NOT)
+  negate?: boolean;
+  rules: RuleConditionNode[];
+}
+
+export type RuleConditionNode = RuleCondition | RuleConditionGroup;
+
+export type RuleStatus = NonNullable<ClassificationRule['status']>;
+
+/**
+ * A weekly window a rule applies in. Times are HH:MM, compared with the
+ * meeting's start as getMeetingTimeOfDay reads it; a window that ends before
+ * it starts runs past midnight.
+ */
+export interface RuleTimeWindow {
+  // Lowercase weekdays; empty means every day
+  weekdays: string[];
+  start_time: string | null;
+  end_time: string | null;
+}
+
+/**
+ * When a rule applies, on top of its conditions
+ */
+export type RuleSchedule = Pick<ClassificationRule, 'active_from' | 'active_until' | 'active_windows'>;
+
+/**
+ * The meeting fields rules can match on
+ */
+export interface RuleMeeting {
+  title?: string | null;
+  description?: string | null;
+  organizer?: string | null;
+  attendees?: Array<{ email?: string | null } | string>;
+  // ISO strings are read as scheduled (their date part gives the weekday);
+  // Date values, such as stored timestamps, are read in UTC as classify does
+  start_time?: string | Date | null;
+  end_time?: string | Date | null;
+  duration_minutes?: number | null;
+}
+
+/**
+ * Data beyond the meeting itself that some conditions need
+ */
+export interface RuleContext {
+  // Projects and their teams, for "organizer is in project team"
+  projects?: Array<Pick<Project, 'id' | 'project_name' | 'team'>>;
+  // Stands in for the start of meetings that have none when checking schedules
+  now?: Date;
+}
+
+// Which value input a condition needs in the editor
+export type ConditionValueInput = 'text' | 'regex' | 'number' | 'weekdays' | 'domains' | 'project';
+
+export interface ConditionResult {
+  condition: RuleCondition;
+  matched: boolean;
+  // Human-readable condition, e.g. `Meeting Title contains "standup"`
+  label: string;
+  // Why it did or did not match
+  explanation: string;
+}
+
+export interface ConditionGroupResult {
+  group: RuleConditionGroup;
+  matched: boolean;
+  children: Array<ConditionResult | ConditionGroupResult>;
+}
+
+export interface RuleEvaluation {
+  rule: ClassificationRule;
+  matched: boolean;
+  // Every leaf condition, in order
+  conditions: ConditionResult[];
+  tree?: ConditionGroupResult;
+  // Set when the rule could not match whatever its conditions, e.g. outside its schedule
+  reason?: string;
+}
+
+export interface RuleSetResult {
+  // Highest-priority rule that matched, if any
+  matchedRule: ClassificationRule | null;
+  // Every rule that was considered, in evaluation order
+  evaluations: RuleEvaluation[];
+  confidenceBoost: number;
+}
+
+export interface RuleSetOptions {
+  // Rule statuses to evaluate. classify only runs active rules.
+  statuses?: RuleStatus[];
+  // Keep evaluating after the first match (for previews); the winner is unchanged
+  evaluateAll?: boolean;
+  context?: RuleContext;
+}
+
+// ============================================================
+// Field and operator catalogue
+// ============================================================
+
+export const FIELD_OPTIONS = [
+  { value: 'title', label: 'Meeting Title' },
+  { value: 'description', label: 'Description' },
+  { value: 'attendee_domains', label: 'Attendee Domains' },
+  { value: 'organizer', label: 'Organizer Email' },
+  { value: 'all_attendees_domain', label: 'All Attendees Domain' },
+  { value: 'attendee_count', label: 'Attendee Count' },
+  { value: 'duration_minutes', label: 'Duration (minutes)' },
+  { value: 'weekday', label: 'Weekday' },
+];
+
+const TEXT_OPERATORS = [
+  { value: 'contains', label: 'Contains' },
+  { value: 'not_contains', label: 'Does not contain' },
+  { value: 'equals', label: 'Equals' },
+  { value: 'starts_with', label: 'Starts with' },
+  { value: 'contains_any', label: 'Contains any of' },
+  { value: 'matches_regex', label: 'Matches regex' },
+];
+
+const NUMBER_OPERATORS = [
+  { value: 'greater_than', label: 'Greater than' },
+  { value: 'less_than', label: 'Less than' },
+  { value: 'equals', label: 'Equals' },
+];
+
+export const OPERATOR_OPTIONS: Record<string, { value: string; label: string }[]> = {
+  title: TEXT_OPERATORS,
+  description: TEXT_OPERATORS,
+  attendee_domains: [
+    { value: 'contains', label: 'Contains' },
+    { value: 'intersects', label: 'Intersects with' },
+  ],
+  organizer: [
+    { value: 'equals', label: 'Equals' },
+    { value: 'ends_with', label: 'Ends with' },
+    { value: 'in_project_team', label: 'Is in project team' },
+  ],
+  all_attendees_domain: [
+    { value: 'equals', label: 'Equals' },
+  ],
+  attendee_count: NUMBER_OPERATORS,
+  duration_minutes: NUMBER_OPERATORS,
+  weekday: [
+    { value: 'is_any_of', label: 'Is any of' },
+    { value: 'is_none_of', label: 'Is none of' },
+  ],
+};
+
+// Monday first, as shown in the editor
+export const WEEKDAY_OPTIONS = [
+  { value: 'monday', label: 'Monday' },
+  { value: 'tuesday', label: 'Tuesday' },
+  { value: 'wednesday', label: 'Wednesday' },
+  { value: 'thursday', label: 'Thursday' },
+  { value: 'friday', label: 'Friday' },
+  { value: 'saturday', label: 'Saturday' },
+  { value: 'sunday', label: 'Sunday' },
+];
+
+// Date.getUTCDay() order
+const WEEKDAYS_BY_DAY = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+// Confidence classify starts from before rule and client matches are added
+export const BASE_RULE_CONFIDENCE = 0.5;
+export const MAX_RULE_CONFIDENCE = 0.99;
+
+export function getFieldLabel(field: string): string {
+  return FIELD_OPTIONS.find((f) => f.value === field)?.label || field;
+}
+
+export function getOperatorLabel(field: string, operator: string): string {
+  return OPERATOR_OPTIONS[field]?.find((o) => o.value === operator)?.label || operator;
+}
+
+export function getDefaultOperator(field: string): string {
+  return OPERATOR_OPTIONS[field]?.[0]?.value || 'contains';
+}
+
+/**
+ * Whether a field's value is a list rather than a single string
+ */
+export function isListOperator(field: string, operator: string): boolean {
+  return field === 'attendee_domains' || field === 'weekday' || operator === 'contains_any';
+}
+
+export function getConditionValueInput(field: string, operator: string): ConditionValueInput {
+  if (field === 'attendee_domains') return 'domains';
+  if (field === 'weekday') return 'weekdays';
+  if (field === 'attendee_count' || field === 'duration_minutes') return 'number';
+  if (operator === 'in_project_team') return 'project';
+  if (operator === 'matches_regex') return 'regex';
+  return 'text';
+}
+
+// classify runs patterns on every meeting, so they are kept short and simple
+const MAX_REGEX_LENGTH = 200;
+
+/**
+ * Whether a pattern repeats a group that itself repeats, such as (a+)+ or
+ * (\w+\s?)*. Those can backtrack for minutes on text that almost matches.
+ */
+function hasNestedQuantifier(pattern: string): boolean {
+  // For each open group, whether it contains a quantifier
+  const groups: boolean[] = [];
+  let inClass = false;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\') {
+      i++;
+    } else if (inClass) {
+      if (char === ']') inClass = false;
+    } else if (char === '[') {
+      inClass = true;
+    } else if (char === '(') {
+      groups.push(false);
+    } else if (char === ')') {
+      const repeatsInside = groups.pop() || false;
+      const next = pattern[i + 1];
+      const repeated = next === '*' || next === '+' || next === '{';
+      if (repeatsInside && repeated) return true;
+      if ((repeatsInside || repeated) && groups.length > 0) groups[groups.length - 1] = true;
+    } else if ((char === '*' || char === '+' || char === '{') && groups.length > 0) {
+      groups[groups.length - 1] = true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Why a regex pattern cannot be used, or null if it is safe to run.
+ * Kept in step with getRegexError in functions/_shared/rule-engine.js.
+ */
+export function getRegexError(pattern: string): string | null {
+  if (pattern.length > MAX_REGEX_LENGTH) {
+    return `Regular expression must be at most ${MAX_REGEX_LENGTH} characters`;
+  }
+  if (hasNestedQuantifier(pattern)) {
+    return 'Regular expression repeats a group that already repeats, e.g. (a+)+, which can be very slow';
+  }
+  try {
+    new RegExp(pattern, 'i');
+    return null;
+  } catch (error) {
+    return `Invalid regular expression: ${(error as Error).message}`;
+  }
+}
+
+export function isConditionGroup(node: RuleConditionNode): node is RuleConditionGroup {
+  return Array.isArray((node as RuleConditionGroup).rules);
+}
+
+export function isGroupResult(
+  result: ConditionResult | ConditionGroupResult
+): result is ConditionGroupResult {
+  return 'children' in result;
+}
+
+/**
+ * Every leaf condition in a group, depth first
+ */
+export function flattenConditions(group: RuleConditionGroup | undefined): RuleCondition[] {
+  if (!group?.rules) return [];
+  return group.rules.flatMap((node) => (isConditionGroup(node) ? flattenConditions(node) : [node]));
+}
+
+// ============================================================
+// Value helpers
+// ============================================================
+
+function lower(value: string | null | undefined): string {
+  return (value || '').toLowerCase();
+}
+
+/**
+ * Normalize a condition value to a lowercase list. Strings are split on
+ * commas so "a, b" and ["a", "b"] behave the same.
+ */
+function toValueList(value: string | string[]): string[] {
+  const items = Array.isArray(value) ? value : value.split(',');
+  return items.map((item) => item.trim().toLowerCase()).filter(Boolean);
+}
+
+/**
+ * Lowercase single value of a condition (first item if given a list)
+ */
+function firstValue(value: string | string[]): string {
+  return lower(Array.isArray(value) ? value[0] : value);
+}
+
+/**
+ * Condition value exactly as entered (regex patterns are case sensitive)
+ */
+function rawValue(value: string | string[]): string {
+  return (Array.isArray(value) ? value[0] : value) || '';
+}
+
+function formatValue(value: string | string[]): string {
+  return Array.isArray(value) ? `[${value.join(', ')}]` : `"${value}"`;
+}
+
+function formatActual(text: string): string {
+  return text ? `"${text}"` : 'empty';
+}
+
+/**
+ * Lowercased, de-duplicated email domains of the meeting's attendees
+ */
+export function getAttendeeDomains(meeting: RuleMeeting): string[] {
+  const domains = (meeting.attendees || [])
+    .map((attendee) => (typeof attendee === 'string' ? attendee : attendee.email || ''))
+    .map((email) => email.split('@')[1]?.toLowerCase())
+    .filter((domain): domain is string => !!domain);
+  return [...new Set(domains)];
+}
+
+function toDate(value: string | Date | null | undefined): Date | null {
+  if (!value) return null;
+  const date = value instanceof Date ? value : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Lowercase weekday the meeting is held on. ISO strings use their own
+ * calendar date and Date values use UTC, as classify does, so a rule
+ * matches the same meetings whatever the viewer's timezone.
+ */
+export function getMeetingWeekday(meeting: RuleMeeting): string | null {
+  const start = meeting.start_time;
+  if (typeof start === 'string') {
+    const datePart = start.match(/^(\d{4})-(\d{2})-(\d{2})/);
+    if (datePart) {
+      const [, year, month, day] = datePart.map(Number);
+      return WEEKDAYS_BY_DAY[new Date(Date.UTC(year, month - 1, day)).getUTCDay()];
+    }
+  }
+  const date = toDate(start);
+  return date ? WEEKDAYS_BY_DAY[date.getUTCDay()] : null;
+}
+
+/**
+ * Meeting length in minutes, from the stored duration or start and end times
+ */
+export function getMeetingDuration(meeting: RuleMeeting): number | null {
+  if (typeof meeting.duration_minutes === 'number') return meeting.duration_minutes;
+  const start = toDate(meeting.start_time);
+  const end = toDate(meeting.end_time);
+  if (!start || !end) return null;
+  return Math.round((end.getTime() - start.getTime()) / 60000);
+}
+
+/**
+ * Meeting data for a stored note, as classify would have seen it
+ */
+export function noteToRuleMeeting(note: Note): RuleMeeting {
+  return {
+    title: note.meeting?.title || note.title || '',
+    description: note.meeting?.description || '',
+    organizer: note.meeting?.organizer || '',
+    attendees: note.meeting?.attendees || [],
+    start_time: note.meeting?.start_time?.toDate?.() || null,
+    end_time: note.meeting?.end_time?.toDate?.() || null,
+    duration_minutes: note.meeting?.duration_minutes ?? null,
+  };
+}
+
+// ============================================================
+// Condition evaluation
+// ============================================================
+
+type ConditionOutcome = Pick<ConditionResult, 'matched' | 'explanation'>;
+
+function evaluateText(
+  text: string,
+  operator: string,
+  value: string | string[]
+): ConditionOutcome {
+  const actual = formatActual(text);
+  if (!text) {
+    // Nothing to find, so "does not contain" holds
+    return { matched: operator === 'not_contains', explanation: 'Field is empty' };
+  }
+
+  switch (operator) {
+    case 'not_contains': {
+      const needle = firstValue(value);
+      const matched = !!needle && !text.includes(needle);
+      return { matched, explanation: `${actual} ${matched ? 'does not contain' : 'contains'} "${needle}"` };
+    }
+    case 'matches_regex': {
+      const pattern = rawValue(value);
+      if (getRegexError(pattern)) {
+        return { matched: false, explanation: `Invalid regular expression /${pattern}/` };
+      }
+      const matched = !!pattern && new RegExp(pattern, 'i').test(text);
+      return { matched, explanation: `${actual} ${matched ? 'matches' : 'does not match'} /${pattern}/` };
+    }
+    case 'contains': {
+      const needle = firstValue(value);
+      const matched = !!needle && text.includes(needle);
+      return { matched, explanation: `${actual} ${matched ? 'contains' : 'does not contain'} "${needle}"` };
+    }
+    case 'contains_any': {
+      const needles = toValueList(value);
+      const found = needles.filter((needle) => text.includes(needle));
+      return found.length > 0
+        ? { matched: true, explanation: `${actual} contains "${found[0]}"` }
+        : { matched: false, explanation: `${actual} contains none of the values` };
+    }
+    case 'equals': {
+      const expected = firstValue(value);
+      const matched = text === expected;
+      return { matched, explanation: matched ? `Exactly ${actual}` : `${actual} is not "${expected}"` };
+    }
+    case 'starts_with': {
+      const prefix = firstValue(value);
+      const matched = !!prefix && text.startsWith(prefix);
+      return {
+        matched,
+        explanation: `${actual} ${matched ? 'starts' : 'does not start'} with "${prefix}"`,
+      };
+    }
+    default:
+      return { matched: false, explanation: `Unsupported operator "${operator}"` };
+  }
+}
+
+function evaluateOrganizer(
+  organizer: string,
+  operator: string,
+  value: string | string[],
+  context: RuleContext
+): ConditionOutcome {
+  if (!organizer) {
+    return { matched: false, explanation: 'Meeting has no organizer' };
+  }
+  const expected = firstValue(value);
+
+  switch (operator) {
+    case 'in_project_team': {
+      if (!context.projects) {
+        return { matched: false, explanation: 'Project teams are not available' };
+      }
+      const projectId = rawValue(value);
+      const project = context.projects.find((p) => p.id === projectId);
+      if (!project) {
+        return { matched: false, explanation: `Project "${projectId}" not found` };
+      }
+      const matched = (project.team || []).some((member) => lower(member.email) === organizer);
+      return {
+        matched,
+        explanation: `${organizer} is ${matched ? '' : 'not '}on the ${project.project_name} team`,
+      };
+    }
+    case 'equals': {
+      const matched = organizer === expected;
+      return {
+        matched,
+        explanation: matched ? `Organizer is ${organizer}` : `Organizer is ${organizer}, not ${expected}`,
+      };
+    }
+    case 'ends_with': {
+      const matched = !!expected && organizer.endsWith(expected);
+      return {
+        matched,
+        explanation: `${organizer} ${matched ? 'ends' : 'does not end'} with "${expected}"`,
+      };
+    }
+    default:
+      return { matched: false, explanation: `Unsupported operator "${operator}"` };
+  }
+}
+
+function evaluateAttendeeDomains(
+  domains: string[],
+  operator: string,
+  value: string | string[]
+): ConditionOutcome {
+  if (operator !== 'contains' && operator !== 'intersects') {
+    return { matched: false, explanation: `Unsupported operator "${operator}"` };
+  }
+  if (domains.length === 0) {
+    return { matched: false, explanation: 'Meeting has no attendees' };
+  }
+
+  const expected = toValueList(value);
+  const found = domains.filter((domain) => expected.includes(domain));
+  return found.length > 0
+    ? { matched: true, explanation: `Attendees from ${found.join(', ')}` }
+    : { matched: false, explanation: `Attendee domains are ${domains.join(', ')}` };
+}
+
+function evaluateNumber(
+  actual: number | null,
+  operator: string,
+  value: string | string[],
+  noun: string
+): ConditionOutcome {
+  if (actual === null) {
+    return { matched: false, explanation: `Meeting has no ${noun}` };
+  }
+  const expected = Number(rawValue(value));
+  if (rawValue(value).trim() === '' || isNaN(expected)) {
+    return { matched: false, explanation: `"${rawValue(value)}" is not a number` };
+  }
+
+  let matched: boolean;
+  switch (operator) {
+    case 'greater_than':
+      matched = actual > expected;
+      break;
+    case 'less_than':
+      matched = actual < expected;
+      break;
+    case 'equals':
+      matched = actual === expected;
+      break;
+    default:
+      return { matched: false, explanation: `Unsupported operator "${operator}"` };
+  }
+  return { matched, explanation: `${noun[0].toUpperCase()}${noun.slice(1)} is ${actual}` };
+}
+
+function evaluateWeekday(
+  weekday: string | null,
+  operator: string,
+  value: string | string[]
+): ConditionOutcome {
+  if (operator !== 'is_any_of' && operator !== 'is_none_of') {
+    return { matched: false, explanation: `Unsupported operator "${operator}"` };
+  }
+  if (!weekday) {
+    return { matched: false, explanation: 'Meeting has no start time' };
+  }
+
+  const listed = toValueList(value).includes(weekday);
+  const day = WEEKDAY_OPTIONS.find((d) => d.value === weekday)?.label || weekday;
+  return { matched: operator === 'is_any_of' ? listed : !listed, explanation: `Held on ${day}` };
+}
+
+function evaluateAllAttendeesDomain(
+  domains: string[],
+  operator: string,
+  value: string | string[]
+): ConditionOutcome {
+  if (operator !== 'equals') {
+    return { matched: false, explanation: `Unsupported operator "${operator}"` };
+  }
+  if (domains.length === 0) {
+    return { matched: false, explanation: 'Meeting has no attendees' };
+  }
+
+  const expected = firstValue(value);
+  const others = domains.filter((domain) => domain !== expected);
+  return others.length === 0
+    ? { matched: true, explanation: `Every attendee is from ${expected}` }
+    : { matched: false, explanation: `Also attended by ${others.join(', ')}` };
+}
+
+export function describeCondition(condition: RuleCondition): string {
+  const { field, operator, value } = condition;
+  return `${getFieldLabel(field)} ${getOperatorLabel(field, operator).toLowerCase()} ${formatValue(value)}`;
+}
+
+/**
+ * Evaluate one condition and explain the outcome
+ */
+export function evaluateCondition(
+  condition: RuleCondition,
+  meeting: RuleMeeting,
+  context: RuleContext = {}
+): ConditionResult {
+  const { field, operator, value } = condition;
+  const label = describeCondition(condition);
+
+  let outcome: ConditionOutcome;
+  switch (field) {
+    case 'title':
+      outcome = evaluateText(lower(meeting.title), operator, value);
+      break;
+    case 'description':
+      outcome = evaluateText(lower(meeting.description), operator, value);
+      break;
+    case 'organizer':
+      outcome = evaluateOrganizer(lower(meeting.organizer), operator, value, context);
+      break;
+    case 'attendee_domains':
+      outcome = evaluateAttendeeDomains(getAttendeeDomains(meeting), operator, value);
+      break;
+    case 'all_attendees_domain':
+      outcome = evaluateAllAttendeesDomain(getAttendeeDomains(meeting), operator, value);
+      break;
+    case 'attendee_count':
+      outcome = evaluateNumber((meeting.attendees || []).length, operator, value, 'attendee count');
+      break;
+    case 'duration_minutes':
+      outcome = evaluateNumber(getMeetingDuration(meeting), operator, value, 'duration');
+      break;
+    case 'weekday':
+      outcome = evaluateWeekday(getMeetingWeekday(meeting), operator, value);
+      break;
+    default:
+      outcome = { matched: false, explanation: `Unknown field "${field}"` };
+  }
+
+  return { condition, label, ...outcome };
+}
+
+/**
+ * Why a condition cannot be saved, or null if it is valid
+ */
+export function getConditionError(condition: RuleCondition): string | null {
+  const { field, operator, value } = condition;
+  if (!OPERATOR_OPTIONS[field]) {
+    return `Unknown field "${field}"`;
+  }
+  if (!OPERATOR_OPTIONS[field].some((o) => o.value === operator)) {
+    return `${getFieldLabel(field)} does not support "${operator}"`;
+  }
+  const hasValue = isListOperator(field, operator)
+    ? toValueList(value).length > 0
+    : !!firstValue(value).trim();
+  if (!hasValue) return 'All conditions must have a value';
+
+  switch (getConditionValueInput(field, operator)) {
+    case 'number': {
+      const number = Number(rawValue(value));
+      return isNaN(number) || number < 0 ? `${getFieldLabel(field)} must be a positive number` : null;
+    }
+    case 'regex':
+      return getRegexError(rawValue(value));
+    case 'weekdays': {
+      const unknown = toValueList(value).find((day) => !WEEKDAYS_BY_DAY.includes(day));
+      return unknown ? `Unknown weekday "${unknown}"` : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * First problem with a condition group, or null if it can be saved
+ */
+export function validateConditionGroup(group: RuleConditionGroup | undefined): string | null {
+  if (!group || !group.rules || group.rules.length === 0) {
+    return 'At least one condition is required';
+  }
+  for (const node of group.rules) {
+    if (isConditionGroup(node)) {
+      if (node.rules.length === 0) return 'Condition groups cannot be empty';
+      const error = validateConditionGroup(node);
+      if (error) return error;
+    } else {
+      const error = getConditionError(node);
+      if (error) return error;
+    }
+  }
+  return null;
+}
+
+/**
+ * Plain-English summary of a condition group, e.g.
+ * `(Meeting Title contains "sync" or Description contains "standup") and ...`
+ */
+export function describeConditionGroup(group: RuleConditionGroup | undefined): string {
+  if (!group?.rules || group.rules.length === 0) return 'no conditions';
+
+  const describe = (node: RuleConditionNode): string => {
+    if (!isConditionGroup(node)) return describeCondition(node);
+    const inner = describeConditionGroup(node);
+    if (node.negate) return `not (${inner})`;
+    return node.rules.length > 1 ? `(${inner})` : inner;
+  };
+
+  const joiner = group.operator === 'AND' ? ' and ' : ' or ';
+  return group.rules.map(describe).join(joiner);
+}
+
+/**
+ * Summary of a whole rule expression, applying the top-level NOT
+ */
+export function describeRuleConditions(group: RuleConditionGroup | undefined): string {
+  const inner = describeConditionGroup(group);
+  return group?.negate ? `not (${inner})` : inner;
+}
+
+// ============================================================
+// Rule schedule
+// ============================================================
+
+// Rules within this many days of their active-until date are flagged
+export const EXPIRES_SOON_DAYS = 7;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+function padTime(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+/**
+ * YYYY-MM-DD of a date in the viewer's timezone
+ */
+export function toDateKey(date: Date): string {
+  return `${date.getFullYear()}-${padTime(date.getMonth() + 1)}-${padTime(date.getDate())}`;
+}
+
+/**
+ * YYYY-MM-DD of a date in UTC, the day rule schedules are checked against
+ */
+export function toUtcDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function toUtcTimeOfDay(date: Date): string {
+  return date.toISOString().slice(11, 16);
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) the meeting is held on. ISO strings use their
+ * own date and Date values use UTC, like getMeetingWeekday.
+ */
+export function getMeetingDate(meeting: RuleMeeting): string | null {
+  const start = meeting.start_time;
+  if (typeof start === 'string') {
+    const datePart = start.match(/^(\d{4}-\d{2}-\d{2})/);
+    if (datePart) return datePart[1];
+  }
+  const date = toDate(start);
+  return date ? toUtcDateKey(date) : null;
+}
+
+/**
+ * Time of day (HH:MM) the meeting starts, or null for date-only starts.
+ * Same timezone handling as getMeetingDate.
+ */
+export function getMeetingTimeOfDay(meeting: RuleMeeting): string | null {
+  const start = meeting.start_time;
+  if (typeof start === 'string') {
+    const timePart = start.match(/^\d{4}-\d{2}-\d{2}[T ](\d{2}:\d{2})/);
+    if (timePart) return timePart[1];
+    if (DATE_PATTERN.test(start)) return null;
+  }
+  const date = toDate(start);
+  return date ? toUtcTimeOfDay(date) : null;
+}
+
+function isWithinTimeWindow(window: RuleTimeWindow, weekday: string | null, time: string | null): boolean {
+  if (window.weekdays?.length && (!weekday || !window.weekdays.includes(weekday))) return false;
+  if (!window.start_time && !window.end_time) return true;
+  if (!time) return false;
+
+  const start = window.start_time || '00:00';
+  if (!window.end_time) return time >= start;
+  return start <= window.end_time
+    ? time >= start && time < window.end_time
+    : time >= start || time < window.end_time;
+}
+
+/**
+ * e.g. "Mon, Wed 09:00-12:00" or "Every day from 18:00"
+ */
+export function describeTimeWindow(window: RuleTimeWindow): string {
+  const days = window.weekdays?.length
+    ? WEEKDAY_OPTIONS.filter((d) => window.weekdays.includes(d.value))
+        .map((d) => d.label.slice(0, 3))
+        .join(', ')
+    : 'Every day';
+  if (window.start_time && window.end_time) return `${days} ${window.start_time}-${window.end_time}`;
+  if (window.start_time) return `${days} from ${window.start_time}`;
+  if (window.end_time) return `${days} until ${window.end_time}`;
+  return days;
+}
+
+/**
+ * Plain-English summary of a rule's schedule, or null if it always applies
+ */
+export function describeRuleSchedule(rule: RuleSchedule): string | null {
+  const parts: string[] = [];
+  if (rule.active_from && rule.active_until) {
+    parts.push(`${rule.active_from} to ${rule.active_until}`);
+  } else if (rule.active_from) {
+    parts.push(`from ${rule.active_from}`);
+  } else if (rule.active_until) {
+    parts.push(`until ${rule.active_until}`);
+  }
+  if (rule.active_windows?.length) {
+    parts.push(rule.active_windows.map(describeTimeWindow).join(' or '));
+  }
+  return parts.length > 0 ? parts.join(', ') : null;
+}
+
+/**
+ * Why a rule does not apply at the time of the meeting, or null if it does.
+ * Meetings without a start time are checked against `now`, in UTC.
+ */
+export function getRuleScheduleReason(
+  rule: RuleSchedule,
+  meeting: RuleMeeting,
+  now: Date = new Date()
+): string | null {
+  const meetingDate = getMeetingDate(meeting);
+  const date = meetingDate || toUtcDateKey(now);
+  if (rule.active_from && date < rule.active_from) {
+    return `Not active until ${rule.active_from}`;
+  }
+  if (rule.active_until && date > rule.active_until) {
+    return `Only active until ${rule.active_until}`;
+  }
+
+  const windows = rule.active_windows || [];
+  if (windows.length === 0) return null;
+  const weekday = meetingDate ? getMeetingWeekday(meeting) : WEEKDAYS_BY_DAY[now.getUTCDay()];
+  const time = meetingDate ? getMeetingTimeOfDay(meeting) : toUtcTimeOfDay(now);
+  return windows.some((window) => isWithinTimeWindow(window, weekday, time))
+    ? null
+    : `Outside its time windows (${windows.map(describeTimeWindow).join(' or ')})`;
+}
+
+/**
+ * Whole days from today (in UTC, as classify counts them) until the rule's
+ * active-until date (negative once it has passed), or null if it has none
+ */
+export function getDaysUntilRuleExpiry(
+  rule: Pick<ClassificationRule, 'active_until'>,
+  now: Date = new Date()
+): number | null {
+  if (!rule.active_until || !DATE_PATTERN.test(rule.active_until)) return null;
+  const [year, month, day] = rule.active_until.split('-').map(Number);
+  const until = Date.UTC(year, month - 1, day);
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  return Math.round((until - today) / 86400000);
+}
+
+export function isRuleExpired(rule: Pick<ClassificationRule, 'active_until'>, now: Date = new Date()): boolean {
+  const days = getDaysUntilRuleExpiry(rule, now);
+  return days !== null && days < 0;
+}
+
+export function isRuleExpiringSoon(
+  rule: Pick<ClassificationRule, 'active_until'>,
+  now: Date = new Date()
+): boolean {
+  const days = getDaysUntilRuleExpiry(rule, now);
+  return days !== null && days >= 0 && days <= EXPIRES_SOON_DAYS;
+}
+
+/**
+ * First problem with a rule's schedule, or null if it can be saved
+ */
+export function validateRuleSchedule(rule: RuleSchedule): string | null {
+  if (rule.active_from && !DATE_PATTERN.test(rule.active_from)) {
+    return 'Active from must be a date';
+  }
+  if (rule.active_until && !DATE_PATTERN.test(rule.active_until)) {
+    return 'Active until must be a date';
+  }
+  if (rule.active_from && rule.active_until && rule.active_from > rule.active_until) {
+    return 'Active until must be on or after active from';
+  }
+  for (const window of rule.active_windows || []) {
+    const unknown = (window.weekdays || []).find((day) => !WEEKDAYS_BY_DAY.includes(day));
+    if (unknown) return `Unknown weekday "${unknown}"`;
+    if (window.start_time && !TIME_PATTERN.test(window.start_time)) {
+      return 'Time window start must be HH:MM';
+    }
+    if (window.end_time && !TIME_PATTERN.test(window.end_time)) {
+      return 'Time window end must be HH:MM';
+    }
+    if (window.start_time && window.start_time === window.end_time) {
+      return 'Time windows must end at a different time than they start';
+    }
+    if (!window.weekdays?.length && !window.start_time && !window.end_time) {
+      return 'Time windows need weekdays or times';
+    }
+  }
+  return null;
+}
+
+// ============================================================
+// Rule evaluation
+// ============================================================
+
+function evaluateGroupTree(
+  group: RuleConditionGroup,
+  meeting: RuleMeeting,
+  context: RuleContext
+): ConditionGroupResult {
+  // An empty group never matches, even when negated
+  if (!group.rules || group.rules.length === 0) {
+    return { group, matched: false, children: [] };
+  }
+
+  const children = group.rules.map((node) =>
+    isConditionGroup(node)
+      ? evaluateGroupTree(node, meeting, context)
+      : evaluateCondition(node, meeting, context)
+  );
+  const combined =
+    group.operator === 'AND'
+      ? children.every((c) => c.matched)
+      : children.some((c) => c.matched);
+
+  return { group, matched: group.negate ? !combined : combined, children };
+}
+
+function collectConditionResults(result: ConditionGroupResult): ConditionResult[] {
+  return result.children.flatMap((child) =>
+    isGroupResult(child) ? collectConditionResults(child) : [child]
+  );
+}
+
+/**
+ * Evaluate a condition group, recursing into nested groups. Every condition
+ * is evaluated (no short circuit) so each one gets an explanation.
+ */
+export function evaluateConditionGroup(
+  group: RuleConditionGroup | undefined,
+  meeting: RuleMeeting,
+  context: RuleContext = {}
+): { matched: boolean; conditions: ConditionResult[]; tree?: ConditionGroupResult } {
+  if (!group || !group.rules || group.rules.length === 0) {
+    return { matched: false, conditions: [] };
+  }
+
+  const tree = evaluateGroupTree(group, meeting, context);
+  return { matched: tree.matched, conditions: collectConditionResults(tree), tree };
+}
+
+/**
+ * Evaluate a single rule against a meeting, ignoring its status. A rule
+ * outside its schedule never matches, but its conditions are still explained.
+ */
+export function evaluateRule(
+  rule: ClassificationRule,
+  meeting: RuleMeeting,
+  context: RuleContext = {}
+): RuleEvaluation {
+  if (!rule.conditions || !rule.conditions.rules || rule.conditions.rules.length === 0) {
+    return { rule, matched: false, conditions: [], reason: 'No conditions defined' };
+  }
+
+  const { matched, conditions, tree } = evaluateConditionGroup(rule.conditions, meeting, context);
+  const scheduleReason = getRuleScheduleReason(rule, meeting, context.now);
+  if (scheduleReason) {
+    return { rule, matched: false, conditions, tree, reason: scheduleReason };
+  }
+  return { rule, matched, conditions, tree };
+}
+
+/**
+ * Order rules the way classify does: highest priority first. Ties keep
+ * their original order.
+ */
+export function sortRulesByPriority<T extends Pick<ClassificationRule, 'priority'>>(rules: T[]): T[] {
+  return rules
+    .map((rule, index) => ({ rule, index }))
+    .sort((a, b) => (b.rule.priority || 0) - (a.rule.priority || 0) || a.index - b.index)
+    .map(({ rule }) => rule);
+}
+
+/**
+ * Evaluate an ordered rule set. The first matching rule by priority wins,
+ * as in classify; by default evaluation stops there.
+ */
+export function evaluateRules(
+  rules: ClassificationRule[],
+  meeting: RuleMeeting,
+  options: RuleSetOptions = {}
+): RuleSetResult {
+  const statuses = options.statuses || ['active'];
+  const candidates = sortRulesByPriority(
+    rules.filter((rule) => statuses.includes(rule.status || 'active'))
+  );
+
+  const evaluations: RuleEvaluation[] = [];
+  let matchedRule: ClassificationRule | null = null;
+
+  for (const rule of candidates) {
+    const evaluation = evaluateRule(rule, meeting, options.context);
+    evaluations.push(evaluation);
+    if (evaluation.matched && !matchedRule) {
+      matchedRule = rule;
+      if (!options.evaluateAll) break;
+    }
+  }
+
+  return {
+    matchedRule,
+    evaluations,
+    confidenceBoost: matchedRule?.confidence_boost || 0,
+  };
+}
+
+/**
+ * Confidence after applying a matched rule's boost, capped like classify
+ */
+export function applyConfidenceBoost(
+  confidence: number,
+  rule: Pick<ClassificationRule, 'confidence_boost'> | null
+): number {
+  return Math.min(MAX_RULE_CONFIDENCE, confidence + (rule?.confidence_boost || 0));
+}
+
+// ============================================================
+// Rule actions
+// ============================================================
+
+/**
+ * The parts of a classification a rule can change
+ */
+export interface RuleClassification {
+  type: string;
+  client_id: string | null;
+  project_id: string | null;
+}
+
+export function toRuleClassification(
+  classification: Partial<Classification> | null | undefined
+): RuleClassification {
+  return {
+    type: classification?.type || 'uncategorized',
+    client_id: classification?.client_id || null,
+    project_id: classification?.project_id || null,
+  };
+}
+
+export function isSameClassification(a: RuleClassification, b: RuleClassification): boolean {
+  return a.type === b.type && a.client_id === b.client_id && a.project_id === b.project_id;
+}
+
+/**
+ * Clients and projects used to put names on classifications
+ */
+export interface ClassificationNames {
+  clients: Array<Pick<Client, 'id' | 'name'>>;
+  projects: Array<Pick<Project, 'id' | 'project_name'>>;
+}
+
+const CLASSIFICATION_TYPE_LABELS: Record<string, string> = {
+  client: 'Client',
+  internal: 'Internal',
+  external: 'External',
+  personal: 'Personal',
+  uncategorized: 'Uncategorized',
+};
+
+/**
+ * Short label such as "Acme / Website Redesign" or "Internal"
+ */
+export function describeClassification(
+  classification: RuleClassification | null,
+  names: ClassificationNames
+): string {
+  if (!classification) return 'No match';
+  if (classification.type !== 'client') {
+    return CLASSIFICATION_TYPE_LABELS[classification.type] || classification.type;
+  }
+  const client = names.clients.find((c) => c.id === classification.client_id);
+  const project = names.projects.find((p) => p.id === classification.project_id);
+  const clientName = client?.name || (classification.client_id ? 'Unknown client' : 'Client');
+  return project ? `${clientName} / ${project.project_name}` : clientName;
+}
+
+/**
+ * Classification a note would have after a rule's actions are applied.
+ * Fields the rule does not set are kept, except that leaving the client
+ * type clears client and project, and changing client clears project.
+ */
+export function applyRuleActions(
+  current: RuleClassification,
+  actions: ClassificationRule['actions']
+): RuleClassification {
+  const type = actions?.classify_as || (actions?.client_id ? 'client' : current.type);
+  if (type !== 'client') {
+    return { type, client_id: null, project_id: null };
+  }
+
+  const clientId = actions?.client_id || current.client_id;
+  const projectId =
+    actions?.project_id || (clientId === current.client_id ? current.project_id : null);
+  return { type, client_id: clientId, project_id: projectId };
+}
@@ -0,0 +1,405 @@
+/**
+ * Rule import and export
+ *
+ * Serialises rules to a versioned JSON document that can be imported into
+ * another workspace (e.g. sandbox to production). Client and project
+ * references travel with their names so they can be mapped onto the target
+ * workspace's own IDs. Pure TypeScript like rule-engine.ts.
+ */
+
+import type { ClassificationRule, Client, Project } from './firestore';
+import {
+  RuleConditionGroup,
+  RuleConditionNode,
+  RuleStatus,
+  RuleTimeWindow,
+  isConditionGroup,
+  validateConditionGroup,
+  validateRuleSchedule,
+} from './rule-engine';
+
+// ============================================================
+// Types
+// ============================================================
+
+export const RULE_EXPORT_KIND = 'egen-meeting-notes/rules';
+export const RULE_EXPORT_SCHEMA_VERSION = 1;
+
+const RULE_STATUSES: RuleStatus[] = ['active', 'disabled', 'testing'];
+
+// Condition operators whose value is a project ID
+const PROJECT_VALUE_OPERATORS = ['in_project_team'];
+
+export interface ExportedReference {
+  id: string;
+  name: string | null;
+}
+
+export interface ExportedRule {
+  // ID in the source workspace; used to recognise re-imports
+  id: string | null;
+  name: string;
+  description: string | null;
+  priority: number;
+  status: RuleStatus;
+  confidence_boost: number | null;
+  conditions: RuleConditionGroup;
+  actions: NonNullable<ClassificationRule['actions']>;
+  // Absent from files exported before rules had schedules
+  active_from?: string | null;
+  active_until?: string | null;
+  active_windows?: RuleTimeWindow[] | null;
+}
+
+export interface RuleExportDocument {
+  kind: typeof RULE_EXPORT_KIND;
+  schema_version: number;
+  exported_at: string;
+  exported_by: string | null;
+  // Every client and project the rules refer to, by source ID
+  references: {
+    clients: ExportedReference[];
+    projects: ExportedReference[];
+  };
+  rules: ExportedRule[];
+}
+
+export interface RuleTransferData {
+  clients: Array<Pick<Client, 'id' | 'name'>>;
+  projects: Array<Pick<Project, 'id' | 'project_name'>>;
+}
+
+export type RuleImportAction = 'create' | 'update' | 'unchanged' | 'conflict';
+
+export interface RuleFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface RuleImportItem {
+  action: RuleImportAction;
+  source: ExportedRule;
+  // The rule as it would be saved in this workspace
+  rule: Omit<ClassificationRule, 'id'>;
+  existing: ClassificationRule | null;
+  changes: RuleFieldChange[];
+  problems: string[];
+}
+
+// ============================================================
+// Export
+// ============================================================
+
+function collectProjectConditionValues(node: RuleConditionNode, ids: Set<string>): void {
+  if (isConditionGroup(node)) {
+    node.rules.forEach((child) => collectProjectConditionValues(child, ids));
+  } else if (PROJECT_VALUE_OPERATORS.includes(node.operator) && typeof node.value === 'string') {
+    ids.add(node.value);
+  }
+}
+
+/**
+ * Build an export document for the given rules
+ */
+export function buildRuleExport(
+  rules: ClassificationRule[],
+  data: RuleTransferData,
+  exportedBy: string | null = null,
+  now: Date = new Date()
+): RuleExportDocument {
+  const clientIds = new Set<string>();
+  const projectIds = new Set<string>();
+
+  const exported = rules.map((rule): ExportedRule => {
+    const conditions = rule.conditions || { operator: 'AND', rules: [] };
+    if (rule.actions?.client_id) clientIds.add(rule.actions.client_id);
+    if (rule.actions?.project_id) projectIds.add(rule.actions.project_id);
+    collectProjectConditionValues(conditions, projectIds);
+
+    return {
+      id: rule.id,
+      name: rule.name,
+      description: rule.description || null,
+      priority: rule.priority,
+      status: rule.status || 'disabled',
+      confidence_boost: rule.confidence_boost ?? null,
+      conditions,
+      // Round-trip through JSON to drop undefined action fields
+      actions: JSON.parse(JSON.stringify(rule.actions || {})),
+      active_from: rule.active_from || null,
+      active_until: rule.active_until || null,
+      active_windows: rule.active_windows?.length ? rule.active_windows : null,
+    };
+  });
+
+  return {
+    kind: RULE_EXPORT_KIND,
+    schema_version: RULE_EXPORT_SCHEMA_VERSION,
+    exported_at: now.toISOString(),
+    exported_by: exportedBy,
+    references: {
+      clients: [...clientIds].map((id) => ({
+        id,
+        name: data.clients.find((c) => c.id === id)?.name || null,
+      })),
+      projects: [...projectIds].map((id) => ({
+        id,
+        name: data.projects.find((p) => p.id === id)?.project_name || null,
+      })),
+    },
+    rules: exported,
+  };
+}
+
+// ============================================================
+// Validation
+// ============================================================
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function validateReferences(value: unknown, label: string, errors: string[]): void {
+  if (!Array.isArray(value)) {
+    errors.push(`references.${label} must be a list`);
+    return;
+  }
+  value.forEach((ref, index) => {
+    if (!isRecord(ref) || typeof ref.id !== 'string') {
+      errors.push(`references.${label}[${index}] needs an id`);
+    }
+  });
+}
+
+/**
+ * Parse and validate an export document. Returns every problem found so the
+ * whole file can be fixed in one go.
+ */
+export function parseRuleExport(text: string): {
+  document: RuleExportDocument | null;
+  errors: string[];
+} {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { document: null, errors: ['File is not valid JSON'] };
+  }
+
+  if (!isRecord(parsed) || parsed.kind !== RULE_EXPORT_KIND) {
+    return { document: null, errors: ['File is not a classification rule export'] };
+  }
+
+  const errors: string[] = [];
+  const version = parsed.schema_version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    errors.push('schema_version is missing or invalid');
+  } else if (version > RULE_EXPORT_SCHEMA_VERSION) {
+    errors.push(
+      `schema_version ${version} is newer than this dashboard supports (${RULE_EXPORT_SCHEMA_VERSION})`
+    );
+  }
+
+  const references = isRecord(parsed.references) ? parsed.references : null;
+  if (!references) {
+    errors.push('references are missing');
+  } else {
+    validateReferences(references.clients, 'clients', errors);
+    validateReferences(references.projects, 'projects', errors);
+  }
+
+  if (!Array.isArray(parsed.rules)) {
+    errors.push('rules must be a list');
+  } else {
+    parsed.rules.forEach((rule: unknown, index: number) => {
+      const label = isRecord(rule) && typeof rule.name === 'string' ? `"${rule.name}"` : `#${index + 1}`;
+      if (!isRecord(rule)) {
+        errors.push(`Rule ${label} is not an object`);
+        return;
+      }
+      if (typeof rule.name !== 'string' || !rule.name.trim()) {
+        errors.push(`Rule ${label} has no name`);
+      }
+      if (typeof rule.priority !== 'number') {
+        errors.push(`Rule ${label} has no numeric priority`);
+      }
+      if (!RULE_STATUSES.includes(rule.status as RuleStatus)) {
+        errors.push(`Rule ${label} has an unknown status`);
+      }
+      if (rule.actions !== undefined && !isRecord(rule.actions)) {
+        errors.push(`Rule ${label} has invalid actions`);
+      }
+      if (rule.active_windows != null && !Array.isArray(rule.active_windows)) {
+        errors.push(`Rule ${label} has invalid time windows`);
+      } else {
+        const scheduleError = validateRuleSchedule(rule as Partial<ExportedRule>);
+        if (scheduleError) errors.push(`Rule ${label}: ${scheduleError}`);
+      }
+      if (!isRecord(rule.conditions) || !Array.isArray(rule.conditions.rules)) {
+        errors.push(`Rule ${label} has no conditions`);
+      } else {
+        const conditionError = validateConditionGroup(rule.conditions as unknown as RuleConditionGroup);
+        if (conditionError) errors.push(`Rule ${label}: ${conditionError}`);
+      }
+    });
+  }
+
+  return errors.length > 0
+    ? { document: null, errors }
+    : { document: parsed as unknown as RuleExportDocument, errors: [] };
+}
+
+// ============================================================
+// Import planning
+// ============================================================
+
+function normalizeName(name: string | null | undefined): string {
+  return (name || '').trim().toLowerCase();
+}
+
+/**
+ * Map a source ID onto this workspace: the same ID if it exists here,
+ * otherwise the single item with the same name
+ */
+function resolveReference<T extends { id: string }>(
+  ref: ExportedReference | undefined,
+  sourceId: string,
+  targets: T[],
+  getName: (target: T) => string
+): string | null {
+  if (targets.some((t) => t.id === sourceId)) return sourceId;
+  if (!ref?.name) return null;
+  const matches = targets.filter((t) => normalizeName(getName(t)) === normalizeName(ref.name));
+  return matches.length === 1 ? matches[0].id : null;
+}
+
+function mapProjectConditions(
+  node: RuleConditionNode,
+  mapProject: (id: string) => string | null,
+  problems: string[]
+): RuleConditionNode {
+  if (isConditionGroup(node)) {
+    return { ...node, rules: node.rules.map((child) => mapProjectConditions(child, mapProject, problems)) };
+  }
+  if (PROJECT_VALUE_OPERATORS.includes(node.operator) && typeof node.value === 'string') {
+    const mapped = mapProject(node.value);
+    if (!mapped) {
+      problems.push(`Condition project ${node.value} has no match in this workspace`);
+      return node;
+    }
+    return { ...node, value: mapped };
+  }
+  return node;
+}
+
+// Key order is ignored so Firestore maps compare equal to imported JSON
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    return `{${Object.keys(record)
+      .filter((key) => record[key] !== undefined && record[key] !== null)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(record[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+const COMPARED_FIELDS = [
+  'name',
+  'description',
+  'priority',
+  'status',
+  'confidence_boost',
+  'conditions',
+  'actions',
+  'active_from',
+  'active_until',
+  'active_windows',
+] as const;
+
+function diffRule(
+  existing: ClassificationRule,
+  incoming: Omit<ClassificationRule, 'id'>
+): RuleFieldChange[] {
+  return COMPARED_FIELDS.map((field) => ({
+    field,
+    before: existing[field] ?? null,
+    after: incoming[field] ?? null,
+  })).filter((change) => stableStringify(change.before) !== stableStringify(change.after));
+}
+
+/**
+ * Work out what importing a document would do. Rules are matched to
+ * existing ones by source ID, then by name; client and project references
+ * are mapped by ID, then by name. Rules with references that cannot be
+ * mapped, or names shared by several existing rules, are conflicts.
+ */
+export function planRuleImport(
+  document: RuleExportDocument,
+  existingRules: ClassificationRule[],
+  data: RuleTransferData
+): RuleImportItem[] {
+  const clientRefs = new Map(document.references.clients.map((ref) => [ref.id, ref]));
+  const projectRefs = new Map(document.references.projects.map((ref) => [ref.id, ref]));
+  const mapClient = (id: string) =>
+    resolveReference(clientRefs.get(id), id, data.clients, (c) => c.name);
+  const mapProject = (id: string) =>
+    resolveReference(projectRefs.get(id), id, data.projects, (p) => p.project_name);
+
+  return document.rules.map((source) => {
+    const problems: string[] = [];
+    const actions = { ...source.actions };
+
+    if (actions.client_id) {
+      const mapped = mapClient(actions.client_id);
+      if (mapped) {
+        actions.client_id = mapped;
+      } else {
+        problems.push(
+          `Client ${clientRefs.get(actions.client_id)?.name || actions.client_id} has no match in this workspace`
+        );
+      }
+    }
+    if (actions.project_id) {
+      const mapped = mapProject(actions.project_id);
+      if (mapped) {
+        actions.project_id = mapped;
+      } else {
+        problems.push(
+          `Project ${projectRefs.get(actions.project_id)?.name || actions.project_id} has no match in this workspace`
+        );
+      }
+    }
+
+    // Round-trip through JSON so no undefined fields reach Firestore
+    const rule: Omit<ClassificationRule, 'id'> = JSON.parse(JSON.stringify({
+      name: source.name.trim(),
+      description: source.description || undefined,
+      priority: source.priority,
+      status: source.status,
+      confidence_boost: source.confidence_boost ?? undefined,
+      conditions: mapProjectConditions(source.conditions, mapProject, problems) as RuleConditionGroup,
+      actions,
+      active_from: source.active_from || null,
+      active_until: source.active_until || null,
+      active_windows: source.active_windows?.length ? source.active_windows : null,
+    }));
+
+    const byId = source.id ? existingRules.find((r) => r.id === source.id) : undefined;
+    const byName = existingRules.filter((r) => normalizeName(r.name) === normalizeName(source.name));
+    if (!byId && byName.length > 1) {
+      problems.push(`${byName.length} existing rules are named "${source.name}"`);
+    }
+    const existing = byId || (byName.length === 1 ? byName[0] : null);
+
+    const changes = existing ? diffRule(existing, rule) : [];
+
+    const action: RuleImportAction =
+      problems.length > 0 ? 'conflict' : !existing ? 'create' : changes.length > 0 ? 'update' : 'unchanged';
+
+    return { action, source, rule, existing, changes, problems };
+  });
+}
@@ -0,0 +1,282 @@
+/**
+ * Note template compliance
+ *
+ * Checks whether a note has the sections its matched template asks for,
+ * looking at the summary, action items, decisions, attendees and the note
+ * content. Pure TypeScript like rule-engine.ts, so it is unit tested in
+ * isolation.
+ */
+
+import type { Note, NoteTemplate, TemplateSection } from './firestore';
+import { matchTemplate, noteToTemplateMatchMeeting } from './template-match';
+import { findTemplateVariables } from './template-render';
+
+// ============================================================
+// Types
+// ============================================================
+
+export type SectionSource = 'summary' | 'action_items' | 'decisions' | 'attendees' | 'content';
+
+export type SectionStatus = 'complete' | 'empty' | 'missing';
+
+export interface SectionCheck {
+  section: TemplateSection;
+  source: SectionSource;
+  status: SectionStatus;
+  required: boolean;
+  detail: string;
+}
+
+export interface NoteCompliance {
+  template: NoteTemplate;
+  checks: SectionCheck[];
+  // Required sections that are missing or empty
+  issues: SectionCheck[];
+  requiredCount: number;
+  compliant: boolean;
+}
+
+export interface ComplianceSummary {
+  // Notes whose template has required sections
+  checked: number;
+  compliant: number;
+  // Null when no notes were checked
+  percent: number | null;
+}
+
+// ============================================================
+// Section sources
+// ============================================================
+
+const VARIABLE_SOURCES: Record<string, SectionSource> = {
+  summary: 'summary',
+  action_items: 'action_items',
+  open_action_items: 'action_items',
+  decisions: 'decisions',
+  attendees: 'attendees',
+};
+
+const TITLE_SOURCES: Array<[RegExp, SectionSource]> = [
+  [/action|follow[- ]?up|next steps/i, 'action_items'],
+  [/decision/i, 'decisions'],
+  [/summary/i, 'summary'],
+  [/attendee|participant/i, 'attendees'],
+];
+
+const SOURCE_NOUNS: Record<Exclude<SectionSource, 'content'>, [string, string]> = {
+  summary: ['summary', 'summary'],
+  action_items: ['action item', 'action items'],
+  decisions: ['decision', 'decisions'],
+  attendees: ['attendee', 'attendees'],
+};
+
+/**
+ * Where a section's content comes from: the variable its content uses,
+ * otherwise a well-known title, otherwise the note content itself
+ */
+export function getSectionSource(section: TemplateSection): SectionSource {
+  for (const name of findTemplateVariables(section.content || '')) {
+    if (VARIABLE_SOURCES[name]) return VARIABLE_SOURCES[name];
+  }
+  const byTitle = TITLE_SOURCES.find(([pattern]) => pattern.test(section.title));
+  return byTitle ? byTitle[1] : 'content';
+}
+
+function countSource(note: Note, source: Exclude<SectionSource, 'content'>): number {
+  switch (source) {
+    case 'summary':
+      return (note.summary || note.enhanced_analysis?.summary || '').trim() ? 1 : 0;
+    case 'action_items':
+      return (note.action_items || note.enhanced_analysis?.action_items || []).length;
+    case 'decisions':
+      return (note.key_decisions || note.enhanced_analysis?.key_decisions || []).length;
+    case 'attendees':
+      return (note.meeting?.attendees || []).length;
+  }
+}
+
+// ============================================================
+// Note content
+// ============================================================
+
+function normalizeHeading(line: string): string {
+  return line
+    .replace(/^\s*#{1,6}\s*/, '')
+    .replace(/\*\*|__/g, '')
+    .trim()
+    .toLowerCase();
+}
+
+function stripListMarker(line: string): string {
+  return line.replace(/^\s*[-*]\s*(\[[ x]\]\s*)?/, '');
+}
+
+/**
+ * The first line reading just the section title, optionally as a Markdown
+ * heading or bold, or "Title: text" inline, and the lines under it until
+ * the next heading or another section title
+ */
+function locateSection(
+  content: string,
+  title: string,
+  otherTitles: string[]
+): { found: boolean; body: string[] } {
+  const wanted = title.trim().toLowerCase();
+  const others = new Set(otherTitles.map((t) => t.trim().toLowerCase()));
+  const lines = content.split('\n');
+
+  for (let i = 0; i < lines.length; i++) {
+    const heading = normalizeHeading(lines[i]);
+    if (heading !== wanted && heading !== `${wanted}:`) {
+      if (!heading.startsWith(`${wanted}:`)) continue;
+      // Same as normalizeHeading but keeping the original casing
+      const inline = lines[i]
+        .replace(/^\s*#{1,6}\s*/, '')
+        .replace(/\*\*|__/g, '')
+        .trim()
+        .slice(wanted.length + 1)
+        .trim();
+      if (inline) return { found: true, body: [inline] };
+    }
+
+    const body: string[] = [];
+    for (const line of lines.slice(i + 1)) {
+      if (/^\s*#{1,6}\s/.test(line) || others.has(normalizeHeading(line).replace(/:$/, ''))) break;
+      body.push(line);
+    }
+    return { found: true, body };
+  }
+
+  return { found: false, body: [] };
+}
+
+/**
+ * Find a section heading in the note content and whether anything is
+ * written under it. A heading is a line reading just the section title,
+ * optionally as a Markdown heading or bold, or "Title: text" inline.
+ * The section body runs until the next heading or another section title.
+ */
+export function findSectionInContent(
+  content: string,
+  title: string,
+  otherTitles: string[] = []
+): { found: boolean; hasBody: boolean } {
+  const { found, body } = locateSection(content, title, otherTitles);
+  return { found, hasBody: body.some((line) => stripListMarker(line).trim() !== '') };
+}
+
+/**
+ * The lines written under a section heading in the note content, without
+ * leading and trailing blank lines. Empty when the heading is not there.
+ */
+export function getSectionBody(content: string, title: string, otherTitles: string[] = []): string[] {
+  const { body } = locateSection(content, title, otherTitles);
+  const first = body.findIndex((line) => line.trim() !== '');
+  if (first === -1) return [];
+  const last = body.length - 1 - [...body].reverse().findIndex((line) => line.trim() !== '');
+  return body.slice(first, last + 1);
+}
+
+// ============================================================
+// Compliance
+// ============================================================
+
+/**
+ * Check every section of a template against a note. Structured data
+ * (summary, action items, decisions, attendees) counts first; a heading
+ * in the note content counts when the data is empty.
+ */
+export function checkNoteCompliance(note: Note, template: NoteTemplate): NoteCompliance {
+  const sections = [...(template.sections || [])].sort((a, b) => a.order - b.order);
+  const content = note.content || '';
+
+  const checks = sections.map((section): SectionCheck => {
+    const source = getSectionSource(section);
+    const required = !!section.required;
+    const otherTitles = sections.filter((s) => s.id !== section.id).map((s) => s.title);
+    const inContent = findSectionInContent(content, section.title, otherTitles);
+
+    if (source !== 'content') {
+      const count = countSource(note, source);
+      const [singular, plural] = SOURCE_NOUNS[source];
+      if (count > 0) {
+        const detail = source === 'summary' ? 'Summary present' : `${count} ${count === 1 ? singular : plural}`;
+        return { section, source, status: 'complete', required, detail };
+      }
+      if (inContent.hasBody) {
+        return { section, source, status: 'complete', required, detail: 'Found in note content' };
+      }
+      return { section, source, status: 'empty', required, detail: `No ${plural} recorded` };
+    }
+
+    if (inContent.hasBody) {
+      return { section, source, status: 'complete', required, detail: 'Found in note content' };
+    }
+    if (inContent.found) {
+      return { section, source, status: 'empty', required, detail: 'Heading has nothing under it' };
+    }
+    return { section, source, status: 'missing', required, detail: 'Not found in note content' };
+  });
+
+  const issues = checks.filter((check) => check.required && check.status !== 'complete');
+
+  return {
+    template,
+    checks,
+    issues,
+    requiredCount: checks.filter((check) => check.required).length,
+    compliant: issues.length === 0,
+  };
+}
+
+/**
+ * Check a note against the template it matches, or null when no template
+ * (not even a default) applies
+ */
+export function checkNoteAgainstTemplates(note: Note, templates: NoteTemplate[]): NoteCompliance | null {
+  const { template } = matchTemplate(templates, noteToTemplateMatchMeeting(note));
+  return template ? checkNoteCompliance(note, template) : null;
+}
+
+/**
+ * Share of notes that have every required section of their template.
+ * Notes without a template, or whose template requires nothing, are left
+ * out.
+ */
+export function summarizeCompliance(notes: Note[], templates: NoteTemplate[]): ComplianceSummary {
+  let checked = 0;
+  let compliant = 0;
+
+  for (const note of notes) {
+    const compliance = checkNoteAgainstTemplates(note, templates);
+    if (!compliance || compliance.requiredCount === 0) continue;
+    checked++;
+    if (compliance.compliant) compliant++;
+  }
+
+  return {
+    checked,
+    compliant,
+    percent: checked > 0 ? Math.round((compliant / checked) * 100) : null,
+  };
+}
+
+/**
+ * Compliance per client ID, for notes filed under a client
+ */
+export function getComplianceByClient(
+  notes: Note[],
+  templates: NoteTemplate[]
+): Record<string, ComplianceSummary> {
+  const byClient = new Map<string, Note[]>();
+  for (const note of notes) {
+    const clientId = note.classification?.client_id || note.clientId;
+    if (!clientId) continue;
+    if (!byClient.has(clientId)) byClient.set(clientId, []);
+    byClient.get(clientId)!.push(note);
+  }
+
+  return Object.fromEntries(
+    [...byClient].map(([clientId, clientNotes]) => [clientId, summarizeCompliance(clientNotes, templates)])
+  );
+}
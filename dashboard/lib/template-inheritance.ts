@@ -0,0 +1,228 @@
+/**
+ * Template scopes and inheritance
+ *
+ * A template can be scoped to a client or project and inherit its sections
+ * from a parent template, storing only what it changes: sections it adds
+ * or overrides (by section ID, which also covers reordering) and parent
+ * sections it removes. Pure TypeScript like rule-engine.ts, so it is unit
+ * tested in isolation.
+ */
+
+import type { NoteTemplate, Project, TemplateSection } from './firestore';
+
+// ============================================================
+// Types
+// ============================================================
+
+export type TemplateSpecificity = 'project' | 'client' | 'general';
+
+export type SectionOrigin = 'inherited' | 'overridden' | 'added';
+
+/**
+ * A template's own section changes relative to its parent
+ */
+export type TemplateSectionDelta = Pick<NoteTemplate, 'sections' | 'removed_section_ids'>;
+
+export interface EffectiveTemplate {
+  // The template in effect, with inherited sections resolved
+  template: NoteTemplate;
+  specificity: TemplateSpecificity;
+  // The chain it inherits through, nearest parent first
+  ancestors: NoteTemplate[];
+}
+
+// ============================================================
+// Specificity
+// ============================================================
+
+const SPECIFICITY_RANK: Record<TemplateSpecificity, number> = {
+  project: 2,
+  client: 1,
+  general: 0,
+};
+
+export const TEMPLATE_SPECIFICITY_LABELS: Record<TemplateSpecificity, string> = {
+  project: 'Project template',
+  client: 'Client template',
+  general: 'General template',
+};
+
+export function getTemplateSpecificity(template: NoteTemplate): TemplateSpecificity {
+  if (template.project_id) return 'project';
+  if (template.client_id) return 'client';
+  return 'general';
+}
+
+/**
+ * Higher for templates scoped more narrowly, for ranking
+ */
+export function getTemplateSpecificityRank(template: NoteTemplate): number {
+  return SPECIFICITY_RANK[getTemplateSpecificity(template)];
+}
+
+// ============================================================
+// Inheritance
+// ============================================================
+
+/**
+ * Parent, grandparent and so on. Stops at a missing parent or a cycle.
+ */
+export function getTemplateAncestors(template: NoteTemplate, templates: NoteTemplate[]): NoteTemplate[] {
+  const ancestors: NoteTemplate[] = [];
+  const seen = new Set([template.id]);
+  let parentId = template.parent_id;
+
+  while (parentId && !seen.has(parentId)) {
+    const parent = templates.find((t) => t.id === parentId);
+    if (!parent) break;
+    ancestors.push(parent);
+    seen.add(parent.id);
+    parentId = parent.parent_id;
+  }
+
+  return ancestors;
+}
+
+/**
+ * Whether a template may inherit from the given parent without creating
+ * a cycle
+ */
+export function canInheritFrom(templateId: string, parentId: string, templates: NoteTemplate[]): boolean {
+  if (!templateId) return true;
+  if (templateId === parentId) return false;
+  const parent = templates.find((t) => t.id === parentId);
+  if (!parent) return false;
+  return !getTemplateAncestors(parent, templates).some((ancestor) => ancestor.id === templateId);
+}
+
+function sortSections(sections: TemplateSection[]): TemplateSection[] {
+  return [...sections].sort((a, b) => a.order - b.order);
+}
+
+function applySectionDelta(parentSections: TemplateSection[], delta: TemplateSectionDelta): TemplateSection[] {
+  const removed = new Set(delta.removed_section_ids || []);
+  const own = new Map((delta.sections || []).map((section) => [section.id, section]));
+
+  const inherited = parentSections
+    .filter((section) => !removed.has(section.id))
+    .map((section) => own.get(section.id) || section);
+  const parentIds = new Set(parentSections.map((section) => section.id));
+  const added = (delta.sections || []).filter((section) => !parentIds.has(section.id));
+
+  return sortSections([...inherited, ...added]);
+}
+
+/**
+ * The sections a template ends up with once its parents are applied
+ */
+export function resolveTemplateSections(template: NoteTemplate, templates: NoteTemplate[]): TemplateSection[] {
+  const chain = [template, ...getTemplateAncestors(template, templates)];
+  // The oldest ancestor, or a template whose parent is gone, owns its sections outright
+  const root = chain.pop()!;
+  let sections = sortSections(root.sections || []);
+
+  for (const descendant of chain.reverse()) {
+    sections = applySectionDelta(sections, descendant);
+  }
+  return sections;
+}
+
+/**
+ * The template with its inherited sections filled in. Templates without
+ * a parent come back unchanged.
+ */
+export function resolveTemplate(template: NoteTemplate, templates: NoteTemplate[]): NoteTemplate {
+  if (!template.parent_id) return template;
+  return { ...template, sections: resolveTemplateSections(template, templates) };
+}
+
+function isSameSection(a: TemplateSection, b: TemplateSection): boolean {
+  return (
+    a.title === b.title &&
+    a.type === b.type &&
+    a.order === b.order &&
+    !!a.required === !!b.required &&
+    (a.placeholder || '') === (b.placeholder || '') &&
+    (a.content || '') === (b.content || '')
+  );
+}
+
+/**
+ * What a child template stores for an edited section list: changed and
+ * new sections, and the parent sections it dropped
+ */
+export function diffTemplateSections(
+  parentSections: TemplateSection[],
+  sections: TemplateSection[]
+): Required<TemplateSectionDelta> {
+  const byId = new Map(sections.map((section) => [section.id, section]));
+  const parentById = new Map(parentSections.map((section) => [section.id, section]));
+
+  return {
+    sections: sections.filter((section) => {
+      const parent = parentById.get(section.id);
+      return !parent || !isSameSection(parent, section);
+    }),
+    removed_section_ids: parentSections
+      .filter((section) => !byId.has(section.id))
+      .map((section) => section.id),
+  };
+}
+
+/**
+ * Where each of a child template's effective sections comes from
+ */
+export function getSectionOrigins(
+  parentSections: TemplateSection[],
+  sections: TemplateSection[]
+): Record<string, SectionOrigin> {
+  const parentById = new Map(parentSections.map((section) => [section.id, section]));
+  return Object.fromEntries(
+    sections.map((section) => {
+      const parent = parentById.get(section.id);
+      const origin: SectionOrigin = !parent ? 'added' : isSameSection(parent, section) ? 'inherited' : 'overridden';
+      return [section.id, origin];
+    })
+  );
+}
+
+// ============================================================
+// Effective template
+// ============================================================
+
+/**
+ * The template notes for a client or project get by default: one scoped to
+ * the project, else to its client, else the default template. Keyword and
+ * other auto-apply rules can still pick another template per meeting.
+ */
+export function getEffectiveTemplate(
+  templates: NoteTemplate[],
+  scope: { clientId?: string | null; project?: Pick<Project, 'id' | 'client_id'> | null }
+): EffectiveTemplate | null {
+  const clientId = scope.project?.client_id || scope.clientId || null;
+  // A scoped template with no auto-apply rules is the catch-all for its scope
+  const hasRules = (t: NoteTemplate) =>
+    Object.values(t.auto_apply_rules || {}).some((value) =>
+      Array.isArray(value) ? value.length > 0 : typeof value === 'number'
+    );
+  const byName = (a: NoteTemplate, b: NoteTemplate) =>
+    Number(hasRules(a)) - Number(hasRules(b)) || a.name.localeCompare(b.name);
+
+  const projectTemplate = scope.project
+    ? templates.filter((t) => t.project_id === scope.project!.id).sort(byName)[0]
+    : undefined;
+  const clientTemplate = clientId
+    ? templates.filter((t) => t.client_id === clientId && !t.project_id).sort(byName)[0]
+    : undefined;
+  const template =
+    projectTemplate ||
+    clientTemplate ||
+    templates.find((t) => t.is_default && !t.client_id && !t.project_id);
+
+  if (!template) return null;
+  return {
+    template: resolveTemplate(template, templates),
+    specificity: getTemplateSpecificity(template),
+    ancestors: getTemplateAncestors(template, templates),
+  };
+}
@@ -0,0 +1,298 @@
+/**
+ * Note template matching
+ *
+ * Scores every template's auto-apply rules against a meeting and explains
+ * each score, so the Templates page can show why a meeting gets the
+ * template it does. Pure TypeScript like rule-engine.ts, so it is unit
+ * tested in isolation.
+ */
+
+import type { Note, NoteTemplate } from './firestore';
+import { RuleMeeting, getAttendeeDomains, getMeetingDuration, noteToRuleMeeting } from './rule-engine';
+import {
+  TemplateSpecificity,
+  getTemplateSpecificity,
+  getTemplateSpecificityRank,
+  resolveTemplate,
+} from './template-inheritance';
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface TemplateMatchMeeting extends RuleMeeting {
+  // Classification type, e.g. "client" or "internal"
+  type?: string | null;
+  client_id?: string | null;
+  project_id?: string | null;
+}
+
+export type TemplateCriterion =
+  | 'project'
+  | 'client'
+  | 'keywords'
+  | 'attendee_domains'
+  | 'meeting_types'
+  | 'duration';
+
+export interface TemplateCriterionResult {
+  criterion: TemplateCriterion;
+  label: string;
+  matched: boolean;
+  points: number;
+  explanation: string;
+}
+
+export interface TemplateCandidate {
+  template: NoteTemplate;
+  specificity: TemplateSpecificity;
+  score: number;
+  // True when at least one criterion matched and none ruled the template out
+  matched: boolean;
+  // Why the template cannot apply, e.g. the wrong meeting type
+  excludedBy: string | null;
+  criteria: TemplateCriterionResult[];
+}
+
+export interface TemplateMatchResult {
+  // With inherited sections resolved
+  template: NoteTemplate | null;
+  // Every template that has auto-apply rules, best first
+  candidates: TemplateCandidate[];
+  // The default template was used because nothing matched
+  usedDefault: boolean;
+}
+
+// ============================================================
+// Scoring
+// ============================================================
+
+/**
+ * Points each matching criterion adds. Linking a template to a project or
+ * client is the most specific signal, so it outweighs title keywords.
+ */
+export const TEMPLATE_MATCH_WEIGHTS: Record<TemplateCriterion, number> = {
+  project: 50,
+  client: 40,
+  keywords: 30,
+  attendee_domains: 25,
+  meeting_types: 20,
+  duration: 10,
+};
+
+const CRITERION_LABELS: Record<TemplateCriterion, string> = {
+  project: 'Project',
+  client: 'Client',
+  keywords: 'Title keywords',
+  attendee_domains: 'Attendee domains',
+  meeting_types: 'Meeting type',
+  duration: 'Duration',
+};
+
+function result(
+  criterion: TemplateCriterion,
+  matched: boolean,
+  explanation: string
+): TemplateCriterionResult {
+  return {
+    criterion,
+    label: CRITERION_LABELS[criterion],
+    matched,
+    points: matched ? TEMPLATE_MATCH_WEIGHTS[criterion] : 0,
+    explanation,
+  };
+}
+
+function formatDurationRange(min?: number | null, max?: number | null): string {
+  if (typeof min === 'number' && typeof max === 'number') return `${min}-${max} min`;
+  if (typeof min === 'number') return `at least ${min} min`;
+  return `at most ${max} min`;
+}
+
+/**
+ * Meeting data for a stored note, including how it is classified
+ */
+export function noteToTemplateMatchMeeting(note: Note): TemplateMatchMeeting {
+  return {
+    ...noteToRuleMeeting(note),
+    type: note.classification?.type || null,
+    client_id: note.classification?.client_id || null,
+    project_id: note.classification?.project_id || null,
+  };
+}
+
+/**
+ * Score one template against a meeting. Only criteria the template sets
+ * are checked. Project, client, keywords and domains add points when they
+ * match; meeting type and duration also add points, but a known meeting
+ * type or duration outside the template's rules excludes it. A template
+ * scoped to a client or project is excluded for other meetings, and when
+ * it has other rules too, one of those must match as well.
+ */
+export function scoreTemplate(template: NoteTemplate, meeting: TemplateMatchMeeting): TemplateCandidate {
+  const rules = template.auto_apply_rules || {};
+  const criteria: TemplateCriterionResult[] = [];
+  const scoped = new Set<TemplateCriterion>();
+  let excludedBy: string | null = null;
+
+  const projectIds = template.project_id ? [template.project_id] : rules.project_ids || [];
+  if (projectIds.length) {
+    const matched = !!meeting.project_id && projectIds.includes(meeting.project_id);
+    criteria.push(
+      result(
+        'project',
+        matched,
+        matched
+          ? template.project_id
+            ? "Scoped to the meeting's project"
+            : 'Meeting is filed under a linked project'
+          : meeting.project_id
+            ? 'Meeting is filed under another project'
+            : 'Meeting has no project'
+      )
+    );
+    if (template.project_id) {
+      scoped.add('project');
+      if (!matched) excludedBy = 'Only for meetings in its project';
+    }
+  }
+
+  const clientIds = template.client_id ? [template.client_id] : rules.client_ids || [];
+  if (clientIds.length) {
+    const matched = !!meeting.client_id && clientIds.includes(meeting.client_id);
+    criteria.push(
+      result(
+        'client',
+        matched,
+        matched
+          ? template.client_id
+            ? "Scoped to the meeting's client"
+            : 'Meeting is filed under a linked client'
+          : meeting.client_id
+            ? 'Meeting is filed under another client'
+            : 'Meeting has no client'
+      )
+    );
+    if (template.client_id) {
+      scoped.add('client');
+      if (!matched && !excludedBy) excludedBy = 'Only for meetings with its client';
+    }
+  }
+
+  if (rules.keywords?.length) {
+    const title = (meeting.title || '').toLowerCase();
+    const found = rules.keywords.filter((keyword) => keyword && title.includes(keyword.toLowerCase()));
+    criteria.push(
+      result(
+        'keywords',
+        found.length > 0,
+        found.length > 0
+          ? `Title contains ${found.map((keyword) => `"${keyword}"`).join(', ')}`
+          : `Title contains none of ${rules.keywords.join(', ')}`
+      )
+    );
+  }
+
+  if (rules.attendee_domains?.length) {
+    const domains = getAttendeeDomains(meeting);
+    const found = rules.attendee_domains.filter((domain) => domains.includes(domain.toLowerCase()));
+    criteria.push(
+      result(
+        'attendee_domains',
+        found.length > 0,
+        found.length > 0
+          ? `Attendees from ${found.join(', ')}`
+          : `No attendees from ${rules.attendee_domains.join(', ')}`
+      )
+    );
+  }
+
+  if (rules.meeting_types?.length) {
+    const matched = !!meeting.type && rules.meeting_types.includes(meeting.type);
+    criteria.push(
+      result(
+        'meeting_types',
+        matched,
+        matched
+          ? `Meeting type is ${meeting.type}`
+          : meeting.type
+            ? `Meeting type is ${meeting.type}, not ${rules.meeting_types.join(' or ')}`
+            : 'Meeting type is not known yet'
+      )
+    );
+    if (!matched && meeting.type) excludedBy = `Only for ${rules.meeting_types.join(' or ')} meetings`;
+  }
+
+  const { min_duration, max_duration } = rules;
+  if (typeof min_duration === 'number' || typeof max_duration === 'number') {
+    const duration = getMeetingDuration(meeting);
+    const range = formatDurationRange(min_duration, max_duration);
+    const matched =
+      duration !== null &&
+      (typeof min_duration !== 'number' || duration >= min_duration) &&
+      (typeof max_duration !== 'number' || duration <= max_duration);
+    criteria.push(
+      result(
+        'duration',
+        matched,
+        duration === null
+          ? 'Meeting duration is not known'
+          : `${duration} min is ${matched ? 'within' : 'outside'} ${range}`
+      )
+    );
+    if (!matched && duration !== null && !excludedBy) excludedBy = `Only for meetings of ${range}`;
+  }
+
+  const score = criteria.reduce((total, criterion) => total + criterion.points, 0);
+  const rulesBeyondScope = criteria.filter((criterion) => !scoped.has(criterion.criterion));
+  const decisive = rulesBeyondScope.length > 0 ? rulesBeyondScope : criteria;
+
+  return {
+    template,
+    specificity: getTemplateSpecificity(template),
+    score,
+    matched: !excludedBy && decisive.some((criterion) => criterion.matched),
+    excludedBy,
+    criteria,
+  };
+}
+
+/**
+ * Score every template with auto-apply rules or a scope, best first.
+ * Matches scoped to a project beat those scoped to a client, which beat
+ * general templates; then higher scores win, then more matching criteria,
+ * then the name.
+ */
+export function rankTemplates(templates: NoteTemplate[], meeting: TemplateMatchMeeting): TemplateCandidate[] {
+  const matchedCount = (candidate: TemplateCandidate) =>
+    candidate.criteria.filter((criterion) => criterion.matched).length;
+
+  return templates
+    .map((template) => scoreTemplate(template, meeting))
+    .filter((candidate) => candidate.criteria.length > 0)
+    .sort(
+      (a, b) =>
+        Number(b.matched) - Number(a.matched) ||
+        getTemplateSpecificityRank(b.template) - getTemplateSpecificityRank(a.template) ||
+        b.score - a.score ||
+        matchedCount(b) - matchedCount(a) ||
+        a.template.name.localeCompare(b.template.name)
+    );
+}
+
+/**
+ * The template a meeting would get: the best match, or the general
+ * default template when nothing matches
+ */
+export function matchTemplate(templates: NoteTemplate[], meeting: TemplateMatchMeeting): TemplateMatchResult {
+  const candidates = rankTemplates(templates, meeting);
+  const best = candidates.find((candidate) => candidate.matched);
+  if (best) return { template: resolveTemplate(best.template, templates), candidates, usedDefault: false };
+
+  const fallback = templates.find((t) => t.is_default && !t.client_id && !t.project_id);
+  return {
+    template: fallback ? resolveTemplate(fallback, templates) : null,
+    candidates,
+    usedDefault: !!fallback,
+  };
+}
@@ -0,0 +1,385 @@
+/**
+ * Note template rendering
+ *
+ * Fills a template's sections with {{variables}} drawn from a note or an
+ * upcoming meeting, and turns the result into Markdown or a structured
+ * outline. Pure TypeScript like rule-engine.ts, so it is unit tested in
+ * isolation.
+ */
+
+import type {
+  ActionItem,
+  Attendee,
+  Client,
+  KeyDecision,
+  MeetingData,
+  Note,
+  NoteTemplate,
+  Project,
+  TeamMember,
+  TemplateSection,
+} from './firestore';
+import {
+  RuleMeeting,
+  getMeetingDate,
+  getMeetingDuration,
+  getMeetingTimeOfDay,
+  noteToRuleMeeting,
+  toDateKey,
+} from './rule-engine';
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface TemplateVariable {
+  key: string;
+  label: string;
+  description: string;
+  // Expands to one line per item when it stands alone on a line
+  list: boolean;
+}
+
+export interface TemplateMeeting extends RuleMeeting {
+  attendees?: Attendee[];
+  // Classification type, e.g. "client" or "internal"
+  type?: string | null;
+}
+
+export interface TemplateProject {
+  name: string;
+  status?: Project['status'] | null;
+  team: TeamMember[];
+}
+
+/**
+ * Everything a template can draw on
+ */
+export interface TemplateRenderContext {
+  meeting: TemplateMeeting;
+  client: Pick<Client, 'name'> | null;
+  project: TemplateProject | null;
+  summary: string | null;
+  action_items: ActionItem[];
+  decisions: KeyDecision[];
+  now: Date;
+}
+
+export type TemplateValues = Record<string, string | string[]>;
+
+export interface RenderedSection {
+  id: string;
+  title: string;
+  type: TemplateSection['type'];
+  required: boolean;
+  // Text lines, or one entry per item for list and checklist sections
+  lines: string[];
+  placeholder: string | null;
+}
+
+export interface RenderedTemplate {
+  title: string;
+  sections: RenderedSection[];
+  // Variables the template uses that the renderer does not know
+  unknownVariables: string[];
+}
+
+interface TemplateContextData {
+  clients: Client[];
+  projects: Project[];
+}
+
+// ============================================================
+// Variables
+// ============================================================
+
+export const TEMPLATE_VARIABLES: TemplateVariable[] = [
+  { key: 'meeting.title', label: 'Meeting title', description: 'Title of the meeting', list: false },
+  { key: 'meeting.date', label: 'Meeting date', description: 'Day the meeting is held, e.g. Jan 5, 2026', list: false },
+  { key: 'meeting.time', label: 'Start time', description: 'Start time as HH:MM', list: false },
+  { key: 'meeting.duration', label: 'Duration', description: 'Length of the meeting, e.g. 45 min', list: false },
+  { key: 'meeting.organizer', label: 'Organizer', description: 'Organizer email', list: false },
+  { key: 'meeting.description', label: 'Description', description: 'Calendar event description', list: false },
+  { key: 'meeting.type', label: 'Meeting type', description: 'Classification, e.g. Client or Internal', list: false },
+  { key: 'client.name', label: 'Client', description: 'Client the meeting is filed under', list: false },
+  { key: 'project.name', label: 'Project', description: 'Project the meeting is filed under', list: false },
+  { key: 'project.status', label: 'Project status', description: 'Active, completed or on hold', list: false },
+  { key: 'project.team', label: 'Project team', description: 'Project team members and roles', list: true },
+  { key: 'attendees', label: 'Attendees', description: 'Meeting attendees', list: true },
+  { key: 'open_action_items', label: 'Open action items', description: 'Pending action items with owners and due dates', list: true },
+  { key: 'action_items', label: 'All action items', description: 'Every action item, with its status', list: true },
+  { key: 'decisions', label: 'Decisions', description: 'Key decisions that are still in force', list: true },
+  { key: 'summary', label: 'Summary', description: 'Meeting summary', list: false },
+  { key: 'today', label: 'Today', description: 'Date the template is rendered', list: false },
+];
+
+const VARIABLE_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+// A line holding nothing but one variable, optionally after a bullet
+const STANDALONE_PATTERN = /^(\s*(?:[-*] (?:\[[ x]\] )?)?)\{\{\s*([\w.]+)\s*\}\}\s*$/;
+
+const BULLET_PATTERN = /^\s*[-*] (?:\[[ x]\] )?/;
+
+const TYPE_LABELS: Record<string, string> = {
+  client: 'Client',
+  internal: 'Internal',
+  external: 'External',
+  personal: 'Personal',
+  uncategorized: 'Uncategorized',
+};
+
+const PROJECT_STATUS_LABELS: Record<string, string> = {
+  active: 'Active',
+  completed: 'Completed',
+  on_hold: 'On hold',
+};
+
+function formatDateKey(dateKey: string | null): string {
+  if (!dateKey) return '';
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+/**
+ * Meeting date and start time for display. Rules read stored timestamps in
+ * UTC, but a rendered note shows them in the viewer's timezone.
+ */
+function getDisplayDate(meeting: RuleMeeting): string | null {
+  return meeting.start_time instanceof Date ? toDateKey(meeting.start_time) : getMeetingDate(meeting);
+}
+
+function getDisplayTime(meeting: RuleMeeting): string | null {
+  const start = meeting.start_time;
+  if (!(start instanceof Date)) return getMeetingTimeOfDay(meeting);
+  return [start.getHours(), start.getMinutes()].map((part) => String(part).padStart(2, '0')).join(':');
+}
+
+function formatAttendee(attendee: Attendee): string {
+  return attendee.name ? `${attendee.name} <${attendee.email}>` : attendee.email;
+}
+
+function formatActionItem(item: ActionItem, withStatus: boolean): string {
+  const details = [
+    item.assignee_name || item.assignee,
+    item.due_date ? `due ${formatDateKey(item.due_date.slice(0, 10))}` : null,
+    withStatus && item.status !== 'pending' ? item.status : null,
+  ].filter(Boolean);
+  return details.length > 0 ? `${item.task} (${details.join(', ')})` : item.task;
+}
+
+function formatDecision(decision: KeyDecision): string {
+  return decision.decided_by ? `${decision.decision} (${decision.decided_by})` : decision.decision;
+}
+
+/**
+ * Values for every known variable. Missing data renders as empty text or
+ * an empty list rather than leaving the variable in place.
+ */
+export function buildTemplateValues(ctx: TemplateRenderContext): TemplateValues {
+  const { meeting, project } = ctx;
+  const duration = getMeetingDuration(meeting);
+
+  return {
+    'meeting.title': meeting.title || '',
+    'meeting.date': formatDateKey(getDisplayDate(meeting)),
+    'meeting.time': getDisplayTime(meeting) || '',
+    'meeting.duration': duration !== null ? `${duration} min` : '',
+    'meeting.organizer': meeting.organizer || '',
+    'meeting.description': meeting.description || '',
+    'meeting.type': meeting.type ? TYPE_LABELS[meeting.type] || meeting.type : '',
+    'client.name': ctx.client?.name || '',
+    'project.name': project?.name || '',
+    'project.status': project?.status ? PROJECT_STATUS_LABELS[project.status] || project.status : '',
+    'project.team': (project?.team || []).map((member) =>
+      member.role ? `${member.name || member.email} (${member.role})` : member.name || member.email
+    ),
+    attendees: (meeting.attendees || []).filter((attendee) => attendee.email).map(formatAttendee),
+    open_action_items: ctx.action_items
+      .filter((item) => item.status === 'pending')
+      .map((item) => formatActionItem(item, false)),
+    action_items: ctx.action_items.map((item) => formatActionItem(item, true)),
+    decisions: ctx.decisions
+      .filter((decision) => decision.status !== 'superseded')
+      .map(formatDecision),
+    summary: ctx.summary || '',
+    today: formatDateKey(toDateKey(ctx.now)),
+  };
+}
+
+// ============================================================
+// Render contexts
+// ============================================================
+
+function toTemplateProject(project: Project | undefined, fallbackName?: string | null): TemplateProject | null {
+  if (project) {
+    return { name: project.project_name, status: project.status || null, team: project.team || [] };
+  }
+  return fallbackName ? { name: fallbackName, status: null, team: [] } : null;
+}
+
+/**
+ * Render context for a stored note. Client and project come from the
+ * note's classification, looked up for their current names and team.
+ */
+export function noteToTemplateContext(
+  note: Note,
+  data: TemplateContextData,
+  now: Date = new Date()
+): TemplateRenderContext {
+  const classification = note.classification;
+  const client = data.clients.find((c) => c.id === classification?.client_id);
+  const project = data.projects.find((p) => p.id === classification?.project_id);
+  const clientName = client?.name || classification?.client_name;
+
+  return {
+    meeting: {
+      ...noteToRuleMeeting(note),
+      attendees: note.meeting?.attendees || [],
+      type: classification?.type || null,
+    },
+    client: clientName ? { name: clientName } : null,
+    project: toTemplateProject(project, classification?.project_name),
+    summary: note.summary || note.enhanced_analysis?.summary || null,
+    action_items: note.action_items || note.enhanced_analysis?.action_items || [],
+    decisions: note.key_decisions || note.enhanced_analysis?.key_decisions || [],
+    now,
+  };
+}
+
+/**
+ * Render context for a meeting that has not happened yet, so there are no
+ * action items, decisions or summary to draw on.
+ */
+export function meetingToTemplateContext(
+  meeting: MeetingData,
+  options: { client?: Client | null; project?: Project | null; type?: string | null; now?: Date } = {}
+): TemplateRenderContext {
+  return {
+    meeting: { ...meeting, type: options.type || null },
+    client: options.client ? { name: options.client.name } : null,
+    project: toTemplateProject(options.project || undefined),
+    summary: null,
+    action_items: [],
+    decisions: [],
+    now: options.now || new Date(),
+  };
+}
+
+// ============================================================
+// Interpolation
+// ============================================================
+
+/**
+ * Variable names used in a piece of template text, in order of first use
+ */
+export function findTemplateVariables(text: string): string[] {
+  const names = Array.from(text.matchAll(VARIABLE_PATTERN), (match) => match[1]);
+  return [...new Set(names)];
+}
+
+/**
+ * Replace {{variables}} in the text. A list variable alone on a line
+ * becomes one bulleted line per item (keeping any bullet already written);
+ * inline, its items are joined with commas. Unknown variables are left in
+ * place so the author can see them.
+ */
+export function interpolateTemplate(text: string, values: TemplateValues): string {
+  const lines: string[] = [];
+
+  for (const line of text.split('\n')) {
+    const standalone = line.match(STANDALONE_PATTERN);
+    const value = standalone ? values[standalone[2]] : undefined;
+    if (standalone && Array.isArray(value)) {
+      const prefix = standalone[1] || '- ';
+      lines.push(...value.map((item) => `${prefix}${item}`));
+      continue;
+    }
+
+    lines.push(
+      line.replace(VARIABLE_PATTERN, (match, name: string) => {
+        const replacement = values[name];
+        if (replacement === undefined) return match;
+        return Array.isArray(replacement) ? replacement.join(', ') : replacement;
+      })
+    );
+  }
+
+  return lines.join('\n');
+}
+
+// ============================================================
+// Rendering
+// ============================================================
+
+function toSectionLines(text: string, type: TemplateSection['type']): string[] {
+  const lines = text.split('\n');
+  if (type === 'text') {
+    // Drop leading and trailing blank lines but keep paragraph breaks
+    while (lines.length > 0 && !lines[0].trim()) lines.shift();
+    while (lines.length > 0 && !lines[lines.length - 1].trim()) lines.pop();
+    return lines;
+  }
+  return lines.map((line) => line.replace(BULLET_PATTERN, '').trim()).filter(Boolean);
+}
+
+/**
+ * Render a template against a context into a structured outline
+ */
+export function renderTemplate(template: NoteTemplate, ctx: TemplateRenderContext): RenderedTemplate {
+  const values = buildTemplateValues(ctx);
+  const known = new Set(TEMPLATE_VARIABLES.map((variable) => variable.key));
+  const unknown = new Set<string>();
+
+  const sections = [...(template.sections || [])]
+    .sort((a, b) => a.order - b.order)
+    .map((section): RenderedSection => {
+      const content = section.content || '';
+      for (const name of findTemplateVariables(`${section.title}\n${content}`)) {
+        if (!known.has(name)) unknown.add(name);
+      }
+
+      return {
+        id: section.id,
+        title: interpolateTemplate(section.title, values).trim() || 'Untitled section',
+        type: section.type,
+        required: !!section.required,
+        lines: toSectionLines(interpolateTemplate(content, values), section.type),
+        placeholder: section.placeholder || null,
+      };
+    });
+
+  return {
+    title: ctx.meeting.title || template.name,
+    sections,
+    unknownVariables: [...unknown],
+  };
+}
+
+/**
+ * Markdown for a rendered template. Empty sections show their placeholder
+ * in italics so the document is ready to fill in.
+ */
+export function renderTemplateMarkdown(rendered: RenderedTemplate): string {
+  const blocks = [`# ${rendered.title}`];
+
+  for (const section of rendered.sections) {
+    const body =
+      section.lines.length === 0
+        ? section.placeholder
+          ? `_${section.placeholder}_`
+          : ''
+        : section.type === 'text'
+          ? section.lines.join('\n')
+          : section.lines
+              .map((line) => `${section.type === 'checkbox-list' ? '- [ ] ' : '- '}${line}`)
+              .join('\n');
+
+    blocks.push(body ? `## ${section.title}\n\n${body}` : `## ${section.title}`);
+  }
+
+  return `${blocks.join('\n\n')}\n`;
+}
@@ -0,0 +1,129 @@
+/**
+ * Minimal ZIP writer
+ *
+ * Stores files uncompressed, which is all Word documents and multi-file
+ * downloads need. Pure TypeScript like rule-engine.ts, so it is unit
+ * tested in isolation.
+ */
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface ZipEntry {
+  // Path inside the archive, with forward slashes
+  name: string;
+  data: Uint8Array | string;
+}
+
+// ============================================================
+// Checksums and encoding
+// ============================================================
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function toBytes(data: Uint8Array | string): Uint8Array {
+  return typeof data === 'string' ? new TextEncoder().encode(data) : data;
+}
+
+// MS-DOS time and date fields, in local time
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+// ============================================================
+// Archive
+// ============================================================
+
+/**
+ * Build a ZIP archive. File names are stored as UTF-8.
+ */
+export function createZip(entries: ZipEntry[], now: Date = new Date()): Uint8Array<ArrayBuffer> {
+  const { time, date } = dosDateTime(now);
+  const files = entries.map((entry) => {
+    const name = new TextEncoder().encode(entry.name);
+    const data = toBytes(entry.data);
+    return { name, data, crc: crc32(data) };
+  });
+
+  const localSize = files.reduce((total, file) => total + 30 + file.name.length + file.data.length, 0);
+  const centralSize = files.reduce((total, file) => total + 46 + file.name.length, 0);
+  const bytes = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(bytes.buffer);
+  let offset = 0;
+
+  const writeHeader = (signature: number, central: boolean, file: (typeof files)[number], localOffset: number) => {
+    view.setUint32(offset, signature, true);
+    offset += 4;
+    if (central) {
+      view.setUint16(offset, 20, true);
+      offset += 2;
+    }
+    // Version needed, UTF-8 names flag, stored (no compression)
+    view.setUint16(offset, 20, true);
+    view.setUint16(offset + 2, 0x0800, true);
+    view.setUint16(offset + 4, 0, true);
+    view.setUint16(offset + 6, time, true);
+    view.setUint16(offset + 8, date, true);
+    view.setUint32(offset + 10, file.crc, true);
+    view.setUint32(offset + 14, file.data.length, true);
+    view.setUint32(offset + 18, file.data.length, true);
+    view.setUint16(offset + 22, file.name.length, true);
+    view.setUint16(offset + 24, 0, true);
+    offset += 26;
+    if (central) {
+      // Comment length, disk, internal and external attributes, local header offset
+      view.setUint16(offset, 0, true);
+      view.setUint16(offset + 2, 0, true);
+      view.setUint16(offset + 4, 0, true);
+      view.setUint32(offset + 6, 0, true);
+      view.setUint32(offset + 10, localOffset, true);
+      offset += 14;
+    }
+    bytes.set(file.name, offset);
+    offset += file.name.length;
+  };
+
+  const localOffsets = files.map((file) => {
+    const localOffset = offset;
+    writeHeader(0x04034b50, false, file, 0);
+    bytes.set(file.data, offset);
+    offset += file.data.length;
+    return localOffset;
+  });
+
+  const centralOffset = offset;
+  files.forEach((file, i) => writeHeader(0x02014b50, true, file, localOffsets[i]));
+
+  view.setUint32(offset, 0x06054b50, true);
+  view.setUint16(offset + 4, 0, true);
+  view.setUint16(offset + 6, 0, true);
+  view.setUint16(offset + 8, files.length, true);
+  view.setUint16(offset + 10, files.length, true);
+  view.setUint32(offset + 12, centralSize, true);
+  view.setUint32(offset + 16, centralOffset, true);
+  view.setUint16(offset + 20, 0, true);
+
+  return bytes;
+}
@@ -0,0 +1,146 @@
+/**
+ * Note revision history for server-side note writes.
+ *
+ * Records changes in notes_metadata/{id}/revisions in the same shape as
+ * updateNoteWithRevision in dashboard/lib/firestore.ts, so edits made by
+ * Cloud Functions show up in a note's history next to dashboard edits.
+ */
+
+const { FieldValue, Timestamp } = require('@google-cloud/firestore');
+
+const REVISIONS_SUBCOLLECTION = 'revisions';
+
+// Bookkeeping written alongside every update; not changes to the note itself
+const UNTRACKED_FIELDS = new Set(['updated_at', 'updated_by', 'updatedAt', 'updatedBy']);
+
+function isPlainObject(value) {
+  return !!value && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+function getFieldValue(data, path) {
+  return path.split('.').reduce(
+    (value, key) => (value && typeof value === 'object' ? value[key] : undefined),
+    data
+  );
+}
+
+/**
+ * Value as stored in a revision. Sentinels such as serverTimestamp() have
+ * no value yet and Firestore rejects them inside the changes array, so
+ * they are dropped; dates are stored as Timestamps like the dashboard does.
+ */
+function toRevisionValue(value) {
+  if (value instanceof FieldValue) return undefined;
+  if (value instanceof Timestamp) return value;
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? null : Timestamp.fromDate(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(toRevisionValue).filter((item) => item !== undefined);
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value)
+        .map(([key, item]) => [key, toRevisionValue(item)])
+        .filter(([, item]) => item !== undefined)
+    );
+  }
+  return value ?? null;
+}
+
+// Maps are compared with sorted keys, since Firestore does not keep key order
+function normalizeValue(value) {
+  if (value instanceof Timestamp) return `timestamp:${value.toMillis()}`;
+  if (Array.isArray(value)) return value.map(normalizeValue);
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, normalizeValue(value[key])])
+    );
+  }
+  return value ?? null;
+}
+
+/**
+ * The current value without the keys the update sets to sentinels, so a
+ * refreshed timestamp inside a map is not reported as a change
+ */
+function withoutSentinelKeys(current, update) {
+  if (!isPlainObject(current) || !isPlainObject(update)) return current;
+  return Object.fromEntries(
+    Object.entries(current)
+      .filter(([key]) => !(update[key] instanceof FieldValue))
+      .map(([key, value]) => [key, withoutSentinelKeys(value, update[key])])
+  );
+}
+
+function isSameValue(a, b) {
+  return JSON.stringify(normalizeValue(a)) === JSON.stringify(normalizeValue(b));
+}
+
+/**
+ * What the updates would change in the current note data. Bookkeeping
+ * fields and server sentinels (timestamps set on write) are not changes.
+ */
+function diffNoteUpdates(current, updates) {
+  return Object.entries(updates)
+    .filter(([field, after]) => !UNTRACKED_FIELDS.has(field) && !(after instanceof FieldValue))
+    .map(([field, after]) => ({
+      field,
+      before: toRevisionValue(withoutSentinelKeys(getFieldValue(current, field), after)) ?? null,
+      after: toRevisionValue(after) ?? null,
+    }))
+    .filter((change) => !isSameValue(change.before, change.after));
+}
+
+function buildRevisionRecord(action, changes, changedBy) {
+  return {
+    action,
+    changed_by: changedBy || null,
+    changed_at: Timestamp.now(),
+    changed_fields: changes.map((change) => change.field),
+    changes,
+    restored_from: null,
+  };
+}
+
+/**
+ * Within a transaction, record a revision for updates about to be applied
+ * to a note. Returns the changes; nothing is written when there are none.
+ */
+function recordNoteRevision(transaction, noteRef, current, updates, action, changedBy) {
+  const changes = diffNoteUpdates(current, updates);
+  if (changes.length > 0) {
+    transaction.set(
+      noteRef.collection(REVISIONS_SUBCOLLECTION).doc(),
+      buildRevisionRecord(action, changes, changedBy)
+    );
+  }
+  return changes;
+}
+
+/**
+ * Apply updates to a note and record what changed, in one transaction.
+ * `buildUpdates` receives the current note data and returns Firestore
+ * update paths (dotted paths are allowed). Returns null when the note
+ * does not exist.
+ */
+async function updateNoteWithRevision(db, noteRef, action, buildUpdates, changedBy) {
+  return db.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(noteRef);
+    if (!snapshot.exists) return null;
+
+    const current = snapshot.data();
+    const updates = buildUpdates(current);
+    const changes = recordNoteRevision(transaction, noteRef, current, updates, action, changedBy);
+    transaction.update(noteRef, updates);
+    return changes;
+  });
+}
+
+module.exports = {
+  diffNoteUpdates,
+  recordNoteRevision,
+  updateNoteWithRevision,
+};
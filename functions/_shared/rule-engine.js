@@ -0,0 +1,364 @@
+/**
+ * Rule evaluation for classify.
+ *
+ * Pure functions with no Firestore access, so they are unit tested and
+ * checked against dashboard/lib/rule-engine.ts on the same fixtures
+ * (tests/rule-engine-parity.test.js). Change both together.
+ *
+ * Timezones: ISO strings are read as written, using their own date and time
+ * of day. Date values and "now" are read in UTC, as is a rule's active_until
+ * when deciding whether it has expired.
+ */
+
+// Date.getUTCDay() order
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+/**
+ * Today as YYYY-MM-DD (UTC), for comparing with a rule's active_until
+ */
+function todayKey(now = new Date()) {
+  return now.toISOString().slice(0, 10);
+}
+
+/**
+ * Whether a rule's active-until date has passed
+ */
+function isRuleExpired(rule, now = new Date()) {
+  return !!rule.active_until && rule.active_until < todayKey(now);
+}
+
+/**
+ * Whether the meeting falls inside a rule's active dates and time windows.
+ * Kept in step with getRuleScheduleReason in dashboard/lib/rule-engine.ts.
+ */
+function isRuleInSchedule(rule, meeting, now = new Date()) {
+  const meetingDate = getMeetingDate(meeting);
+  const date = meetingDate || todayKey(now);
+  if (rule.active_from && date < rule.active_from) return false;
+  if (rule.active_until && date > rule.active_until) return false;
+
+  const windows = rule.active_windows || [];
+  if (windows.length === 0) return true;
+  const weekday = meetingDate ? getMeetingWeekday(meeting) : WEEKDAYS[now.getUTCDay()];
+  const time = meetingDate ? getMeetingTimeOfDay(meeting) : now.toISOString().slice(11, 16);
+  return windows.some(window => isWithinTimeWindow(window, weekday, time));
+}
+
+function isWithinTimeWindow(window, weekday, time) {
+  const weekdays = window.weekdays || [];
+  if (weekdays.length > 0 && (!weekday || !weekdays.includes(weekday))) return false;
+  if (!window.start_time && !window.end_time) return true;
+  if (!time) return false;
+
+  const start = window.start_time || '00:00';
+  if (!window.end_time) return time >= start;
+  return start <= window.end_time
+    ? time >= start && time < window.end_time
+    : time >= start || time < window.end_time;
+}
+
+/**
+ * Evaluate a single rule against meeting data. Rules outside their
+ * schedule never match.
+ */
+function evaluateRule(rule, meeting, attendeeDomains, projects = [], now = new Date()) {
+  const conditions = rule.conditions;
+  if (!conditions || !conditions.rules) return false;
+  if (!isRuleInSchedule(rule, meeting, now)) return false;
+
+  return evaluateConditionGroup(conditions, meeting, attendeeDomains, projects);
+}
+
+/**
+ * Evaluate a condition group, recursing into nested groups and honouring NOT.
+ * An empty group never matches.
+ */
+function evaluateConditionGroup(group, meeting, attendeeDomains, projects) {
+  if (!group.rules || group.rules.length === 0) return false;
+
+  const results = group.rules.map(node =>
+    Array.isArray(node.rules)
+      ? evaluateConditionGroup(node, meeting, attendeeDomains, projects)
+      : evaluateCondition(node, meeting, attendeeDomains, projects)
+  );
+
+  const matched = group.operator === 'AND'
+    ? results.every(r => r)
+    : results.some(r => r);
+
+  return group.negate ? !matched : matched;
+}
+
+/**
+ * Evaluate a single condition
+ */
+function evaluateCondition(condition, meeting, attendeeDomains, projects = []) {
+  const { field, operator, value } = condition;
+
+  switch (field) {
+    case 'title':
+      return evaluateTextCondition(meeting.title, operator, value);
+
+    case 'description':
+      return evaluateTextCondition(meeting.description, operator, value);
+
+    case 'attendee_domains':
+      if (operator === 'contains' || operator === 'intersects') {
+        const domains = toValueList(value);
+        return attendeeDomains.some(d => domains.includes(d));
+      }
+      return false;
+
+    case 'all_attendees_domain':
+      if (operator === 'equals') {
+        return attendeeDomains.length > 0 &&
+          attendeeDomains.every(d => d === firstValue(value));
+      }
+      return false;
+
+    case 'organizer': {
+      const organizer = meeting.organizer?.toLowerCase();
+      if (!organizer) return false;
+      if (operator === 'equals') {
+        return organizer === firstValue(value);
+      }
+      if (operator === 'ends_with') {
+        return !!firstValue(value) && organizer.endsWith(firstValue(value));
+      }
+      if (operator === 'in_project_team') {
+        const projectId = Array.isArray(value) ? value[0] : value;
+        const project = projects.find(p => p.id === projectId);
+        return !!project && (project.team || []).some(m => m.email?.toLowerCase() === organizer);
+      }
+      return false;
+    }
+
+    case 'attendee_count':
+      return evaluateNumberCondition((meeting.attendees || []).length, operator, value);
+
+    case 'duration_minutes':
+      return evaluateNumberCondition(getMeetingDuration(meeting), operator, value);
+
+    case 'weekday': {
+      const weekday = getMeetingWeekday(meeting);
+      if (!weekday) return false;
+      const listed = toValueList(value).includes(weekday);
+      if (operator === 'is_any_of') return listed;
+      if (operator === 'is_none_of') return !listed;
+      return false;
+    }
+
+    default:
+      return false;
+  }
+}
+
+// Patterns run on every classified meeting, so they are kept short and simple
+const MAX_REGEX_LENGTH = 200;
+
+/**
+ * Whether a pattern repeats a group that itself repeats, such as (a+)+,
+ * which can backtrack for minutes on text that almost matches
+ */
+function hasNestedQuantifier(pattern) {
+  // For each open group, whether it contains a quantifier
+  const groups = [];
+  let inClass = false;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\') {
+      i++;
+    } else if (inClass) {
+      if (char === ']') inClass = false;
+    } else if (char === '[') {
+      inClass = true;
+    } else if (char === '(') {
+      groups.push(false);
+    } else if (char === ')') {
+      const repeatsInside = groups.pop() || false;
+      const next = pattern[i + 1];
+      const repeated = next === '*' || next === '+' || next === '{';
+      if (repeatsInside && repeated) return true;
+      if ((repeatsInside || repeated) && groups.length > 0) groups[groups.length - 1] = true;
+    } else if ((char === '*' || char === '+' || char === '{') && groups.length > 0) {
+      groups[groups.length - 1] = true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Why a regex pattern cannot be run, or null if it is safe.
+ * Kept in step with getRegexError in dashboard/lib/rule-engine.ts, which
+ * also rejects these patterns when a rule is saved.
+ */
+function getRegexError(pattern) {
+  const source = String(pattern);
+  if (source.length > MAX_REGEX_LENGTH) return 'Pattern is too long';
+  if (hasNestedQuantifier(source)) return 'Pattern has nested quantifiers';
+  try {
+    new RegExp(source, 'i');
+    return null;
+  } catch (error) {
+    return error.message;
+  }
+}
+
+/**
+ * Normalize a condition value to a lowercase list; strings are comma-separated.
+ * Kept in step with dashboard/lib/rule-engine.ts.
+ */
+function toValueList(value) {
+  const items = Array.isArray(value) ? value : String(value || '').split(',');
+  return items.map(v => String(v).trim().toLowerCase()).filter(Boolean);
+}
+
+/**
+ * Lowercase single value of a condition (first item if given a list)
+ */
+function firstValue(value) {
+  return String((Array.isArray(value) ? value[0] : value) || '').toLowerCase();
+}
+
+/**
+ * Lowercase weekday of the meeting. ISO strings use their own calendar date;
+ * Date values use UTC.
+ */
+function getMeetingWeekday(meeting) {
+  const start = meeting.start_time;
+  if (!start) return null;
+  const datePart = typeof start === 'string' && start.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (datePart) {
+    const [, year, month, day] = datePart.map(Number);
+    return WEEKDAYS[new Date(Date.UTC(year, month - 1, day)).getUTCDay()];
+  }
+  const date = new Date(start);
+  return isNaN(date.getTime()) ? null : WEEKDAYS[date.getUTCDay()];
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) of the meeting, in its own timezone for ISO
+ * strings and in UTC for Date values
+ */
+function getMeetingDate(meeting) {
+  const start = meeting.start_time;
+  if (!start) return null;
+  const datePart = typeof start === 'string' && start.match(/^(\d{4}-\d{2}-\d{2})/);
+  if (datePart) return datePart[1];
+  const date = new Date(start);
+  return isNaN(date.getTime()) ? null : date.toISOString().slice(0, 10);
+}
+
+/**
+ * Start time of day (HH:MM) of the meeting, or null for date-only starts.
+ * Same timezone handling as getMeetingDate.
+ */
+function getMeetingTimeOfDay(meeting) {
+  const start = meeting.start_time;
+  if (!start) return null;
+  if (typeof start === 'string') {
+    const timePart = start.match(/^\d{4}-\d{2}-\d{2}[T ](\d{2}:\d{2})/);
+    if (timePart) return timePart[1];
+    if (/^\d{4}-\d{2}-\d{2}$/.test(start)) return null;
+  }
+  const date = new Date(start);
+  return isNaN(date.getTime()) ? null : date.toISOString().slice(11, 16);
+}
+
+/**
+ * Meeting length in minutes, from duration_minutes or start and end times
+ */
+function getMeetingDuration(meeting) {
+  if (typeof meeting.duration_minutes === 'number') return meeting.duration_minutes;
+  if (!meeting.start_time || !meeting.end_time) return null;
+  const minutes = (new Date(meeting.end_time) - new Date(meeting.start_time)) / 60000;
+  return isNaN(minutes) ? null : Math.round(minutes);
+}
+
+/**
+ * Evaluate numeric conditions (attendee count, duration)
+ */
+function evaluateNumberCondition(actual, operator, value) {
+  const raw = String((Array.isArray(value) ? value[0] : value) ?? '').trim();
+  const expected = Number(raw);
+  if (actual === null || raw === '' || isNaN(expected)) return false;
+
+  switch (operator) {
+    case 'greater_than':
+      return actual > expected;
+    case 'less_than':
+      return actual < expected;
+    case 'equals':
+      return actual === expected;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Evaluate text-based conditions
+ */
+function evaluateTextCondition(text, operator, value) {
+  // An empty field contains nothing, so "not contains" holds
+  if (!text) return operator === 'not_contains';
+  const lowerText = text.toLowerCase();
+  const expected = firstValue(value);
+
+  switch (operator) {
+    case 'contains':
+      return !!expected && lowerText.includes(expected);
+
+    case 'not_contains':
+      return !!expected && !lowerText.includes(expected);
+
+    case 'matches_regex': {
+      const pattern = Array.isArray(value) ? value[0] : value;
+      // Patterns the dashboard would reject are never run
+      if (!pattern || getRegexError(pattern)) return false;
+      return new RegExp(pattern, 'i').test(lowerText);
+    }
+
+    case 'contains_any':
+      return toValueList(value).some(v => lowerText.includes(v));
+
+    case 'equals':
+      return lowerText === expected;
+
+    case 'starts_with':
+      return !!expected && lowerText.startsWith(expected);
+
+    default:
+      return false;
+  }
+}
+
+/**
+ * Classification a rule's actions would produce from the current one.
+ * Kept in step with applyRuleActions in dashboard/lib/rule-engine.ts.
+ */
+function applyRuleActionsToClassification(current, actions) {
+  const type = actions?.classify_as || (actions?.client_id ? 'client' : current.type);
+  if (type !== 'client') {
+    return { type, client_id: null, project_id: null };
+  }
+
+  const clientId = actions?.client_id || current.client_id;
+  const projectId = actions?.project_id || (clientId === current.client_id ? current.project_id : null);
+  return { type, client_id: clientId, project_id: projectId };
+}
+
+module.exports = {
+  WEEKDAYS,
+  todayKey,
+  isRuleExpired,
+  isRuleInSchedule,
+  evaluateRule,
+  evaluateConditionGroup,
+  evaluateCondition,
+  getMeetingWeekday,
+  getMeetingDate,
+  getMeetingTimeOfDay,
+  getMeetingDuration,
+  getRegexError,
+  applyRuleActionsToClassification,
+};
@@ -47,6 +47,11 @@ async function findRelevantNotes(query, userEmail, limit = 10) {
 
   for (const doc of snapshot.docs) {
     const note = { id: doc.id, ...doc.data() };
+    // Skip notes in the trash
+    if (note.deleted) {
+      continue;
+    }
+
     if (!canUserAccessNote(note, userEmail)) {
       continue;
     }
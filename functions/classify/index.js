@@ -9,9 +9,10 @@
  */
 
 const functions = require('@google-cloud/functions-framework');
-const { Firestore } = require('@google-cloud/firestore');
+const { Firestore, FieldValue } = require('@google-cloud/firestore');
 const { VertexAI } = require('@google-cloud/vertexai');
 const { authenticateRequest } = require('../_shared/auth');
+const { evaluateRule, isRuleExpired, applyRuleActionsToClassification } = require('../_shared/rule-engine');
 
 // Configuration
 const PROJECT_ID = process.env.GOOGLE_CLOUD_PROJECT || 'karthik-patil-sandbox';
@@ -55,6 +56,13 @@ function getGenerativeModel() {
 const CLIENTS_COLLECTION = 'clients';
 const PROJECTS_COLLECTION = 'projects';
 const RULES_COLLECTION = 'rules';
+const SHADOW_LOG_COLLECTION = 'rule_shadow_log';
+
+// Rule fields captured in every version, as in dashboard/lib/firestore.ts
+const RULE_VERSIONED_FIELDS = [
+  'name', 'description', 'priority', 'status', 'confidence_boost', 'conditions', 'actions',
+  'active_from', 'active_until', 'active_windows',
+];
 
 /**
  * Extract domains from email addresses
@@ -452,18 +460,21 @@ function findProject(clientId, title, description, projects) {
  * Load and apply classification rules
  * Returns the matched rule along with any auto-share configuration
  */
-async function applyRules(meeting, attendeeDomains) {
+async function applyRules(meeting, attendeeDomains, projects = []) {
   const db = getDb();
   const rulesSnapshot = await db.collection(RULES_COLLECTION)
     .where('status', '==', 'active')
     .orderBy('priority', 'desc')
     .get();
 
+  await expireRules(rulesSnapshot.docs);
+
   for (const doc of rulesSnapshot.docs) {
     const rule = doc.data();
     const ruleId = doc.id;
+    if (isRuleExpired(rule)) continue;
 
-    if (evaluateRule(rule, meeting, attendeeDomains)) {
+    if (evaluateRule(rule, meeting, attendeeDomains, projects)) {
       // Extract auto-share config if present
       const autoShare = rule.actions?.share_with?.length > 0 ? {
         emails: rule.actions.share_with,
@@ -479,87 +490,115 @@ async function applyRules(meeting, attendeeDomains) {
 }
 
 /**
- * Evaluate a single rule against meeting data
+ * Shadow mode: evaluate rules in testing status and log what each would
+ * have done next to the classification classify actually produced.
+ * The result itself is never affected.
  */
-function evaluateRule(rule, meeting, attendeeDomains) {
-  const conditions = rule.conditions;
-  if (!conditions || !conditions.rules) return false;
+async function logShadowRules(meeting, attendeeDomains, projects, classification, method, noteFileId) {
+  const db = getDb();
+  const rulesSnapshot = await db.collection(RULES_COLLECTION)
+    .where('status', '==', 'testing')
+    .get();
+  if (rulesSnapshot.empty) return 0;
+  await expireRules(rulesSnapshot.docs);
 
-  const results = conditions.rules.map(condition =>
-    evaluateCondition(condition, meeting, attendeeDomains)
-  );
+  const actual = {
+    type: classification.type || 'uncategorized',
+    client_id: classification.client?.id || null,
+    project_id: classification.project?.id || null,
+  };
 
-  if (conditions.operator === 'AND') {
-    return results.every(r => r);
-  } else {
-    return results.some(r => r);
+  const batch = db.batch();
+  let logged = 0;
+  for (const doc of rulesSnapshot.docs) {
+    const rule = doc.data();
+    if (isRuleExpired(rule) || !evaluateRule(rule, meeting, attendeeDomains, projects)) continue;
+
+    const predicted = applyRuleActionsToClassification(actual, rule.actions);
+    batch.set(db.collection(SHADOW_LOG_COLLECTION).doc(), {
+      rule_id: doc.id,
+      rule_version: rule.version || null,
+      note_file_id: noteFileId || null,
+      meeting_title: meeting.title || null,
+      predicted,
+      actual,
+      agrees: predicted.type === actual.type &&
+        predicted.client_id === actual.client_id &&
+        predicted.project_id === actual.project_id,
+      classification_method: method,
+      created_at: FieldValue.serverTimestamp(),
+    });
+    logged++;
   }
-}
-
-/**
- * Evaluate a single condition
- */
-function evaluateCondition(condition, meeting, attendeeDomains) {
-  const { field, operator, value } = condition;
-
-  switch (field) {
-    case 'title':
-      return evaluateTextCondition(meeting.title, operator, value);
 
-    case 'description':
-      return evaluateTextCondition(meeting.description, operator, value);
-
-    case 'attendee_domains':
-      if (operator === 'contains' || operator === 'intersects') {
-        return attendeeDomains.some(d => value.includes?.(d) || d === value);
-      }
-      return false;
-
-    case 'all_attendees_domain':
-      if (operator === 'equals') {
-        return attendeeDomains.length > 0 &&
-          attendeeDomains.every(d => d === value);
-      }
-      return false;
-
-    case 'organizer':
-      if (operator === 'equals') {
-        return meeting.organizer?.toLowerCase() === value.toLowerCase();
-      }
-      if (operator === 'ends_with') {
-        return meeting.organizer?.toLowerCase().endsWith(value.toLowerCase());
-      }
-      return false;
-
-    default:
-      return false;
+  if (logged > 0) {
+    await batch.commit();
   }
+  return logged;
 }
 
 /**
- * Evaluate text-based conditions
+ * Disable rules whose active-until date has passed, recording a status
+ * version the same way the dashboard does. Failures are logged and never
+ * block classification.
  */
-function evaluateTextCondition(text, operator, value) {
-  if (!text) return false;
-  const lowerText = text.toLowerCase();
-
-  switch (operator) {
-    case 'contains':
-      return lowerText.includes(value.toLowerCase());
-
-    case 'contains_any':
-      return Array.isArray(value) &&
-        value.some(v => lowerText.includes(v.toLowerCase()));
-
-    case 'equals':
-      return lowerText === value.toLowerCase();
-
-    case 'starts_with':
-      return lowerText.startsWith(value.toLowerCase());
+async function expireRules(docs) {
+  const expired = docs.filter(doc => isRuleExpired(doc.data()));
+  if (expired.length === 0) return 0;
 
-    default:
-      return false;
+  const db = getDb();
+  const snapshotOf = data => JSON.parse(JSON.stringify(
+    Object.fromEntries(RULE_VERSIONED_FIELDS.map(field => [field, data[field] ?? null]))
+  ));
+
+  let count = 0;
+  for (const doc of expired) {
+    try {
+      await db.runTransaction(async (transaction) => {
+        const current = await transaction.get(doc.ref);
+        const rule = current.data();
+        if (!rule || rule.status === 'disabled' || !isRuleExpired(rule)) return;
+
+        const versions = doc.ref.collection('versions');
+        let version = rule.version || 0;
+        if (version === 0) {
+          // Baseline for rules saved before versioning, as the dashboard writes
+          version = 1;
+          transaction.set(versions.doc(), {
+            version,
+            action: 'create',
+            snapshot: snapshotOf(rule),
+            changes: [],
+            changed_by: rule.created_by || null,
+            changed_at: rule.updated_at || rule.created_at || FieldValue.serverTimestamp(),
+            restored_from: null,
+          });
+        }
+        version += 1;
+
+        transaction.update(doc.ref, {
+          status: 'disabled',
+          expired_at: FieldValue.serverTimestamp(),
+          version,
+          updated_at: FieldValue.serverTimestamp(),
+        });
+        transaction.set(versions.doc(), {
+          version,
+          action: 'status',
+          snapshot: snapshotOf({ ...rule, status: 'disabled' }),
+          changes: [{ field: 'status', before: rule.status || null, after: 'disabled' }],
+          changed_by: 'system',
+          changed_at: FieldValue.serverTimestamp(),
+          restored_from: null,
+        });
+      });
+      console.log(`Rule ${doc.id} expired on ${doc.data().active_until}; disabled`);
+      count++;
+    } catch (error) {
+      console.error(`Failed to expire rule ${doc.id}:`, error);
+    }
   }
+  return count;
 }
 
 /**
@@ -607,7 +646,7 @@ async function classifyWithRules(meeting, clients, projects, attendeeDomains, ex
   };
 
   // Step 1: Try to apply rules first
-  const ruleMatch = await applyRules(meeting, attendeeDomains);
+  const ruleMatch = await applyRules(meeting, attendeeDomains, projects);
   if (ruleMatch) {
     matchInfo.ruleConfidenceBoost = ruleMatch.rule.confidence_boost || 0;
     result.matched_rule_id = ruleMatch.ruleId;
@@ -812,7 +851,7 @@ async function classify(meeting, noteFileId, noteContent = null) {
   // Check for auto-share from matching rules (if confidence > 90%)
   // This happens for both AI and rule-based classification
   if (result.classification.confidence >= 0.90) {
-    const ruleMatch = await applyRules(meeting, attendeeDomains);
+    const ruleMatch = await applyRules(meeting, attendeeDomains, projects);
     if (ruleMatch?.autoShare) {
       result.auto_share = ruleMatch.autoShare;
       // Add rule-triggered shares to suggestions as well
@@ -830,6 +869,15 @@ async function classify(meeting, noteFileId, noteContent = null) {
     }
   }
 
+  // Log what rules in testing would have done; failures never block classification
+  try {
+    await logShadowRules(
+      meeting, attendeeDomains, projects, result.classification, result.classification_method, noteFileId
+    );
+  } catch (error) {
+    console.error('Shadow rule logging failed:', error.message);
+  }
+
   // Run enhanced analysis to extract summary, action items, and key decisions
   const enhancedAnalysis = await analyzeNoteContent(meeting, noteContent);
   if (enhancedAnalysis.success) {
@@ -8,6 +8,7 @@ const { Firestore } = require('@google-cloud/firestore');
 const { google } = require('googleapis');
 const { authenticateRequest } = require('../_shared/auth');
 const { canUserAccessNote } = require('../_shared/note-access');
+const { recordNoteRevision } = require('../_shared/note-revisions');
 
 // Initialize Firestore
 const db = new Firestore();
@@ -15,6 +16,7 @@ const db = new Firestore();
 // Notes metadata collection
 const NOTES_COLLECTION = 'notes_metadata';
 const USER_PREFS_COLLECTION = 'user_preferences';
+const ACTION_ITEMS_COLLECTION = 'action_items';
 
 /**
  * Get user's OAuth tokens from Firestore
@@ -67,32 +69,51 @@ async function createTask(tasksClient, taskData) {
 }
 
 /**
- * Update note with Google Task ID
+ * Update note with Google Task ID.
+ * Runs in a transaction so concurrent edits to other action items are not
+ * lost, records a note revision, and keeps the action_items collection
+ * record in step.
  */
-async function linkTaskToActionItem(noteId, actionItemId, googleTaskId) {
+async function linkTaskToActionItem(noteId, actionItemId, googleTaskId, userEmail) {
   const noteRef = db.collection(NOTES_COLLECTION).doc(noteId);
-  const noteDoc = await noteRef.get();
+  const itemRef = db.collection(ACTION_ITEMS_COLLECTION).doc(`${noteId}_${actionItemId}`);
 
-  if (!noteDoc.exists) {
-    throw new Error('Note not found');
-  }
+  await db.runTransaction(async (transaction) => {
+    const [noteDoc, itemDoc] = await Promise.all([
+      transaction.get(noteRef),
+      transaction.get(itemRef),
+    ]);
+
+    if (!noteDoc.exists) {
+      throw new Error('Note not found');
+    }
 
-  const data = noteDoc.data();
-  const actionItems = data.action_items || [];
+    const data = noteDoc.data();
+    const actionItems = data.action_items || data.enhanced_analysis?.action_items || [];
+
+    const updatedItems = actionItems.map((item) => {
+      if (item.id === actionItemId) {
+        return {
+          ...item,
+          google_task_id: googleTaskId,
+        };
+      }
+      return item;
+    });
+
+    const updates = { action_items: updatedItems };
+    recordNoteRevision(transaction, noteRef, data, updates, 'action_item', userEmail);
+    transaction.update(noteRef, {
+      ...updates,
+      updated_at: Firestore.Timestamp.now(),
+    });
 
-  const updatedItems = actionItems.map((item) => {
-    if (item.id === actionItemId) {
-      return {
-        ...item,
+    if (itemDoc.exists) {
+      transaction.update(itemRef, {
         google_task_id: googleTaskId,
-      };
+        updated_at: Firestore.Timestamp.now(),
+      });
     }
-    return item;
-  });
-
-  await noteRef.update({
-    action_items: updatedItems,
-    updated_at: Firestore.Timestamp.now(),
   });
 }
 
@@ -183,7 +204,7 @@ functions.http('createTask', async (req, res) => {
     });
 
     // Link task to action item in Firestore
-    await linkTaskToActionItem(noteId, actionItemId, task.id);
+    await linkTaskToActionItem(noteId, actionItemId, task.id, effectiveEmail);
 
     res.status(200).json({
       success: true,
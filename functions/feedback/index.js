@@ -14,6 +14,7 @@ const functions = require('@google-cloud/functions-framework');
 const { Firestore, FieldValue } = require('@google-cloud/firestore');
 const { authenticateRequest, isEgenAiEmail } = require('../_shared/auth');
 const { canUserAccessNote } = require('../_shared/note-access');
+const { updateNoteWithRevision } = require('../_shared/note-revisions');
 
 // Initialize Firestore
 const db = new Firestore();
@@ -23,6 +24,18 @@ const FEEDBACK_COLLECTION = 'feedback';
 const RULES_COLLECTION = 'rules';
 const USER_PREFS_COLLECTION = 'user_preferences';
 const NOTES_COLLECTION = 'notes_metadata';
+const SUGGESTIONS_COLLECTION = 'rule_suggestions';
+
+// Share of corrected meetings a keyword, domain or organizer must appear in
+// before it becomes a suggested condition, and that the suggested rule as a
+// whole must still match
+const SUGGESTION_SUPPORT = 0.6;
+const INTERNAL_DOMAINS = ['egen.ai', 'egen.com'];
+const TITLE_STOPWORDS = new Set([
+  'the', 'and', 'for', 'with', 'from', 'about', 'meeting', 'call', 'sync', 'weekly',
+  'daily', 'monthly', 'review', 'update', 'discussion', 'session', 'chat', 'catch',
+  'new', 'our', 'your', 'via', 're', 'fw', 'fwd',
+]);
 
 /**
  * Determine the type of correction made
@@ -175,41 +188,186 @@ async function updateUserPattern(userEmail, meeting, correctedClassification) {
   }
 }
 
+/**
+ * Values present in at least SUGGESTION_SUPPORT of the meetings, most common first
+ */
+function findCommonValues(valueSets) {
+  const counts = new Map();
+  for (const values of valueSets) {
+    for (const value of new Set(values)) {
+      counts.set(value, (counts.get(value) || 0) + 1);
+    }
+  }
+  const minimum = Math.ceil(valueSets.length * SUGGESTION_SUPPORT);
+  return [...counts]
+    .filter(([, count]) => count >= minimum)
+    .sort((a, b) => b[1] - a[1])
+    .map(([value]) => value);
+}
+
+function getTitleKeywords(title) {
+  return (title || '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length >= 3 && !/^\d+$/.test(word) && !TITLE_STOPWORDS.has(word));
+}
+
+function getExternalDomains(attendees) {
+  return (attendees || [])
+    .map(a => (typeof a === 'string' ? a : a?.email) || '')
+    .map(email => email.split('@')[1]?.toLowerCase())
+    .filter(domain => domain && !INTERNAL_DOMAINS.includes(domain));
+}
+
+/**
+ * Mine rule conditions from the meetings behind repeated corrections:
+ * common title keywords, shared external attendee domains and organizer.
+ * The conditions are meant to be AND-combined, so one is only added while
+ * the meetings matching all of them still reach SUGGESTION_SUPPORT.
+ */
+function mineSuggestionConditions(meetings) {
+  if (meetings.length === 0) return [];
+  const candidates = [];
+
+  const keywords = findCommonValues(meetings.map(m => getTitleKeywords(m.title))).slice(0, 3);
+  if (keywords.length > 0) {
+    candidates.push({
+      condition: { field: 'title', operator: 'contains_any', value: keywords.join(', ') },
+      matches: m => getTitleKeywords(m.title).some(word => keywords.includes(word)),
+    });
+  }
+
+  const domains = findCommonValues(meetings.map(m => getExternalDomains(m.attendees)));
+  if (domains.length > 0) {
+    candidates.push({
+      condition: { field: 'attendee_domains', operator: 'intersects', value: domains },
+      matches: m => getExternalDomains(m.attendees).some(domain => domains.includes(domain)),
+    });
+  }
+
+  const organizers = findCommonValues(
+    meetings.map(m => (m.organizer ? [m.organizer.toLowerCase()] : []))
+  );
+  if (organizers.length > 0) {
+    candidates.push({
+      condition: { field: 'organizer', operator: 'equals', value: organizers[0] },
+      matches: m => m.organizer?.toLowerCase() === organizers[0],
+    });
+  }
+
+  const minimum = Math.ceil(meetings.length * SUGGESTION_SUPPORT);
+  const conditions = [];
+  let matching = meetings;
+  for (const { condition, matches } of candidates) {
+    const stillMatching = matching.filter(matches);
+    if (stillMatching.length < minimum) continue;
+    conditions.push(condition);
+    matching = stillMatching;
+  }
+  return conditions;
+}
+
+/**
+ * One suggestion per correction target, so repeated corrections update it
+ */
+function getSuggestionId(corrected) {
+  return [corrected.type, corrected.clientId || 'none', corrected.projectId || 'none']
+    .join('_')
+    .replace(/[^A-Za-z0-9_-]/g, '-');
+}
+
+/**
+ * Add or refresh a pending suggestion. Suggestions that were already
+ * accepted or dismissed are left alone.
+ */
+async function saveRuleSuggestion(suggestionId, suggestion) {
+  const ref = db.collection(SUGGESTIONS_COLLECTION).doc(suggestionId);
+  await db.runTransaction(async (transaction) => {
+    const existing = await transaction.get(ref);
+    if (existing.exists && existing.data().status !== 'pending') return;
+
+    transaction.set(ref, {
+      ...suggestion,
+      status: 'pending',
+      created_at: existing.exists ? existing.data().created_at : FieldValue.serverTimestamp(),
+      updated_at: FieldValue.serverTimestamp(),
+    });
+  });
+}
+
 /**
  * Check if a new rule should be suggested
  */
 async function checkForRuleSuggestion(feedbackHistory) {
   // If same correction has been made 3+ times, suggest a rule
   const threshold = 3;
+  const corrected = feedbackHistory.correctedClassification;
 
   try {
     const recentFeedback = await db
       .collection(FEEDBACK_COLLECTION)
-      .where('corrected_classification.clientId', '==', feedbackHistory.correctedClassification.clientId)
-      .where('corrected_classification.projectId', '==', feedbackHistory.correctedClassification.projectId)
+      .where('correctedClassification.clientId', '==', corrected.clientId)
+      .where('correctedClassification.projectId', '==', corrected.projectId)
       .orderBy('created_at', 'desc')
       .limit(10)
       .get();
 
     if (recentFeedback.size >= threshold) {
+      const entries = recentFeedback.docs.map(doc => ({ id: doc.id, ...doc.data() }));
+
+      // Feedback records no organizer, so read it from the notes
+      const noteRefs = entries
+        .filter(entry => entry.noteId)
+        .map(entry => db.collection(NOTES_COLLECTION).doc(entry.noteId));
+      const noteDocs = noteRefs.length > 0 ? await db.getAll(...noteRefs) : [];
+      const notesById = new Map(noteDocs.filter(d => d.exists).map(d => [d.id, d.data()]));
+
+      const meetings = entries.map(entry => {
+        const noteMeeting = notesById.get(entry.noteId)?.meeting || {};
+        return {
+          title: entry.meeting?.title || noteMeeting.title || '',
+          attendees: entry.meeting?.attendees?.length ? entry.meeting.attendees : noteMeeting.attendees,
+          organizer: noteMeeting.organizer || null,
+        };
+      });
+
+      const reason = `Similar correction made ${recentFeedback.size} times`;
+      const suggestedRule = {
+        name: `Auto-suggested: ${corrected.clientName || 'Classification'} Rule`,
+        description: 'Rule suggested based on repeated user corrections',
+        conditions: {
+          operator: 'AND',
+          rules: mineSuggestionConditions(meetings),
+        },
+        actions: {
+          classify_as: corrected.type,
+          client_id: corrected.clientId,
+          project_id: corrected.projectId,
+        },
+      };
+
+      await saveRuleSuggestion(getSuggestionId(corrected), {
+        reason,
+        correction_count: recentFeedback.size,
+        target: {
+          type: corrected.type,
+          client_id: corrected.clientId,
+          client_name: corrected.clientName,
+          project_id: corrected.projectId,
+          project_name: corrected.projectName,
+        },
+        suggested_rule: suggestedRule,
+        supporting: entries.map((entry, index) => ({
+          feedback_id: entry.id,
+          note_id: entry.noteId || null,
+          title: meetings[index].title || null,
+        })),
+      });
+
       return {
         suggest: true,
-        reason: `Similar correction made ${recentFeedback.size} times`,
-        suggestedRule: {
-          name: `Auto-suggested: ${feedbackHistory.correctedClassification.clientName || 'Classification'} Rule`,
-          description: 'Rule suggested based on repeated user corrections',
-          conditions: {
-            operator: 'OR',
-            rules: [
-              // Add conditions based on meeting patterns
-            ],
-          },
-          actions: {
-            classify_as: feedbackHistory.correctedClassification.type,
-            client_id: feedbackHistory.correctedClassification.clientId,
-            project_id: feedbackHistory.correctedClassification.projectId,
-          },
-        },
+        reason,
+        suggestedRule,
       };
     }
   } catch (error) {
@@ -228,23 +386,19 @@ async function updateNoteClassification(noteId, correctedClassification, userEma
 
   try {
     const noteRef = db.collection(NOTES_COLLECTION).doc(noteId);
-    const noteDoc = await noteRef.get();
-
-    if (noteDoc.exists) {
-      await noteRef.update({
-        'classification.type': correctedClassification.type,
-        'classification.client_id': correctedClassification.clientId || null,
-        'classification.client_name': correctedClassification.clientName || null,
-        'classification.project_id': correctedClassification.projectId || null,
-        'classification.project_name': correctedClassification.projectName || null,
-        'classification.internal_team': correctedClassification.internalTeam || null,
-        'classification.user_confirmed': true,
-        'classification.confirmed_by': userEmail,
-        'classification.confirmed_at': FieldValue.serverTimestamp(),
-        updated_at: FieldValue.serverTimestamp(),
-        updated_by: userEmail,
-      });
-    }
+    await updateNoteWithRevision(db, noteRef, 'classification', () => ({
+      'classification.type': correctedClassification.type,
+      'classification.client_id': correctedClassification.clientId || null,
+      'classification.client_name': correctedClassification.clientName || null,
+      'classification.project_id': correctedClassification.projectId || null,
+      'classification.project_name': correctedClassification.projectName || null,
+      'classification.internal_team': correctedClassification.internalTeam || null,
+      'classification.user_confirmed': true,
+      'classification.confirmed_by': userEmail,
+      'classification.confirmed_at': FieldValue.serverTimestamp(),
+      updated_at: FieldValue.serverTimestamp(),
+      updated_by: userEmail,
+    }), userEmail);
   } catch (error) {
     console.error('Failed to update note classification:', error);
   }
@@ -439,4 +593,4 @@ functions.http('feedback', async (req, res) => {
 });
 
 // Export for testing
-module.exports = { recordFeedback };
+module.exports = { recordFeedback, mineSuggestionConditions, getSuggestionId, saveRuleSuggestion };
@@ -317,6 +317,11 @@ async function findNoteForMeeting(
 
   for (const doc of snapshot.docs) {
     const note = { id: doc.id, ...doc.data() };
+    // Skip notes in the trash
+    if (note.deleted) {
+      continue;
+    }
+
     if (!canUserAccessNote(note, userEmail)) {
       continue;
     }
@@ -19,3 +19,5 @@ require('./get-folders/index.js');
 require('./get-user-settings/index.js');
 require('./import-from-drive/index.js');
 require('./drive-token/index.js');
+require('./purge-trash/index.js');
+require('./sync-action-items/index.js');
@@ -0,0 +1,104 @@
+/**
+ * Egen Meeting Notes - /purgeTrash Cloud Function
+ *
+ * Permanently deletes notes that have been in the trash longer than the
+ * workspace's retention period. Runs daily from Cloud Scheduler; deploy it
+ * without unauthenticated access so only the scheduler can invoke it.
+ */
+
+const functions = require('@google-cloud/functions-framework');
+const { Firestore } = require('@google-cloud/firestore');
+
+// Initialize Firestore
+const db = new Firestore();
+
+// Collections
+const NOTES_COLLECTION = 'notes_metadata';
+const ACTION_ITEMS_COLLECTION = 'action_items';
+const WORKSPACE_SETTINGS_COLLECTION = 'workspace_settings';
+const WORKSPACE_SETTINGS_DOC = 'default';
+
+// Matches DEFAULT_TRASH_RETENTION_DAYS in dashboard/lib/firestore.ts
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Retention period from the workspace settings; 0 disables purging
+ */
+async function getTrashRetentionDays() {
+  const settings = await db.collection(WORKSPACE_SETTINGS_COLLECTION).doc(WORKSPACE_SETTINGS_DOC).get();
+  const days = settings.exists ? settings.data().trash_retention_days : null;
+  return typeof days === 'number' && days >= 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+/**
+ * Delete a trashed note with its revisions and action item records
+ */
+async function purgeNote(noteRef) {
+  const items = await db.collection(ACTION_ITEMS_COLLECTION).where('note_id', '==', noteRef.id).get();
+  // BulkWriter has no per-batch write limit, unlike db.batch(). Failed
+  // deletes reject their own promise rather than close(), so await both.
+  const writer = db.bulkWriter();
+  const deletes = items.docs.map((item) => writer.delete(item.ref));
+  await Promise.all([...deletes, writer.close()]);
+
+  // Also removes the revisions subcollection
+  await db.recursiveDelete(noteRef);
+}
+
+/**
+ * Purge every note trashed before the retention cutoff.
+ * Failures are logged per note so one bad note does not stop the rest.
+ */
+async function purgeExpiredTrash(now = new Date()) {
+  const retentionDays = await getTrashRetentionDays();
+  if (retentionDays === 0) {
+    return { retentionDays, purged: 0, failed: 0 };
+  }
+
+  const cutoff = now.getTime() - retentionDays * DAY_MS;
+  // Query without orderBy to avoid needing a composite index
+  const snapshot = await db.collection(NOTES_COLLECTION).where('deleted', '==', true).get();
+  const expired = snapshot.docs.filter((doc) => {
+    const deletedAt = doc.data().deleted_at;
+    return !deletedAt || deletedAt.toMillis() < cutoff;
+  });
+
+  let purged = 0;
+  let failed = 0;
+  for (const doc of expired) {
+    try {
+      await purgeNote(doc.ref);
+      purged++;
+    } catch (error) {
+      console.error(`Failed to purge note ${doc.id}:`, error);
+      failed++;
+    }
+  }
+
+  console.log(`Purged ${purged} of ${expired.length} expired notes (retention ${retentionDays} days)`);
+  return { retentionDays, purged, failed };
+}
+
+/**
+ * HTTP Cloud Function entry point, invoked by Cloud Scheduler
+ */
+functions.http('purgeTrash', async (req, res) => {
+  if (req.method !== 'POST') {
+    res.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  try {
+    const result = await purgeExpiredTrash();
+    res.status(200).json({ success: true, ...result });
+  } catch (error) {
+    console.error('Trash purge error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error.message,
+    });
+  }
+});
+
+module.exports = { purgeExpiredTrash };
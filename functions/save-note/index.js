@@ -18,6 +18,7 @@ const {
   isEgenAiEmail,
   normalizeEmail,
 } = require('../_shared/auth');
+const { updateNoteWithRevision } = require('../_shared/note-revisions');
 
 // Initialize Firestore
 const db = new Firestore();
@@ -294,12 +295,10 @@ async function saveNote(params) {
   // If noteId exists, update; otherwise create new
   if (noteId) {
     const noteRef = db.collection(NOTES_COLLECTION).doc(noteId);
-    const existingNote = await noteRef.get();
+    // Merge with existing data, recording what changed in the note's history
+    const changes = await updateNoteWithRevision(db, noteRef, 'update', () => noteData, userEmail);
 
-    if (existingNote.exists) {
-      // Merge with existing data
-      await noteRef.update(noteData);
-    } else {
+    if (changes === null) {
       // Create new with provided ID
       noteData.created_at = FieldValue.serverTimestamp();
       noteData.processed_at = FieldValue.serverTimestamp();
@@ -57,6 +57,11 @@ async function searchNotes(query, options = {}) {
   for (const doc of snapshot.docs) {
     const note = { id: doc.id, ...doc.data() };
 
+    // Skip notes in the trash
+    if (note.deleted) {
+      continue;
+    }
+
     // Enforce per-user access filter
     if (!canUserAccessNote(note, userEmail)) {
       continue;
@@ -14,6 +14,7 @@ const { Firestore, FieldValue } = require('@google-cloud/firestore');
 const { google } = require('googleapis');
 const { authenticateRequest, isEgenAiEmail } = require('../_shared/auth');
 const { canUserAccessNote } = require('../_shared/note-access');
+const { updateNoteWithRevision } = require('../_shared/note-revisions');
 
 // Initialize Firestore
 const db = new Firestore();
@@ -206,10 +207,7 @@ async function shareNote(noteId, shareWith, userEmail, options = {}) {
   // Update Firestore metadata
   if (noteId) {
     const noteRef = db.collection(NOTES_COLLECTION).doc(noteId);
-    const noteDoc = await noteRef.get();
-
-    if (noteDoc.exists) {
-      const currentData = noteDoc.data();
+    await updateNoteWithRevision(db, noteRef, 'sharing', (currentData) => {
       const currentSharedWith = currentData.sharing?.shared_with || [];
 
       let newSharedWith;
@@ -223,14 +221,14 @@ async function shareNote(noteId, shareWith, userEmail, options = {}) {
         newSharedWith = [...new Set([...currentSharedWith, ...newEmails])];
       }
 
-      await noteRef.update({
+      return {
         'sharing.shared_with': newSharedWith,
         'sharing.shared_at': FieldValue.serverTimestamp(),
         'sharing.shared_by': userEmail,
         updated_at: FieldValue.serverTimestamp(),
         updated_by: userEmail,
-      });
-    }
+      };
+    }, userEmail);
   }
 
   return {
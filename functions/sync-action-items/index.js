@@ -0,0 +1,113 @@
+/**
+ * Egen Meeting Notes - syncActionItems Cloud Function
+ *
+ * Keeps the action_items collection in step with notes. Triggered by every
+ * write to notes_metadata/{noteId}, so notes created by the pipeline and
+ * notes changed by other functions or the dashboard are all mirrored.
+ *
+ * The event payload is not decoded: the note is read back instead, which
+ * also means a late event never overwrites newer records with stale data.
+ */
+
+const functions = require('@google-cloud/functions-framework');
+const { Firestore, FieldValue } = require('@google-cloud/firestore');
+
+// Initialize Firestore
+const db = new Firestore();
+
+// Collections
+const NOTES_COLLECTION = 'notes_metadata';
+const ACTION_ITEMS_COLLECTION = 'action_items';
+
+function getEmbeddedActionItems(note) {
+  return note.action_items || note.enhanced_analysis?.action_items || [];
+}
+
+/**
+ * Action item record as stored in the action_items collection.
+ * Same shape as buildActionItemRecord in dashboard/lib/firestore.ts.
+ */
+function buildActionItemRecord(noteId, note, item, order) {
+  // Firestore rejects undefined, so every optional field is written as null
+  return {
+    item_id: item.id,
+    note_id: noteId,
+    task: item.task,
+    assignee: item.assignee ?? null,
+    assignee_name: item.assignee_name ?? null,
+    due_date: item.due_date ?? null,
+    priority: item.priority || 'medium',
+    status: item.status || 'pending',
+    completed_at: item.completed_at ?? null,
+    google_task_id: item.google_task_id ?? null,
+    note_title: note.meeting?.title || note.title || null,
+    meeting_date: note.meeting?.start_time ?? note.created_at ?? null,
+    client_id: note.classification?.client_id ?? null,
+    client_name: note.classification?.client_name ?? null,
+    project_id: note.classification?.project_id ?? null,
+    project_name: note.classification?.project_name ?? null,
+    note_deleted: !!note.deleted,
+    order,
+    updated_at: FieldValue.serverTimestamp(),
+  };
+}
+
+/**
+ * Rewrite a note's action item records from its embedded array. Records
+ * for items that no longer exist, or for a deleted note, are removed.
+ */
+async function syncNoteActionItems(noteId) {
+  const [noteDoc, existing] = await Promise.all([
+    db.collection(NOTES_COLLECTION).doc(noteId).get(),
+    db.collection(ACTION_ITEMS_COLLECTION).where('note_id', '==', noteId).get(),
+  ]);
+
+  const note = noteDoc.exists ? noteDoc.data() : null;
+  // Items without an ID cannot be addressed, so they are not mirrored
+  const items = note ? getEmbeddedActionItems(note).filter((item) => item && item.id) : [];
+  const keep = new Set(items.map((item) => `${noteId}_${item.id}`));
+  const stale = existing.docs.filter((record) => !keep.has(record.id));
+  if (items.length === 0 && stale.length === 0) {
+    return { written: 0, removed: 0 };
+  }
+
+  const batch = db.batch();
+  items.forEach((item, index) => {
+    batch.set(
+      db.collection(ACTION_ITEMS_COLLECTION).doc(`${noteId}_${item.id}`),
+      buildActionItemRecord(noteId, note, item, index)
+    );
+  });
+  stale.forEach((record) => batch.delete(record.ref));
+  await batch.commit();
+
+  return { written: items.length, removed: stale.length };
+}
+
+/**
+ * Note ID from a Firestore event, whose subject is
+ * "documents/notes_metadata/{noteId}"
+ */
+function getNoteIdFromEvent(cloudEvent) {
+  const path = cloudEvent.document || (cloudEvent.subject || '').replace(/^documents\//, '');
+  const [collection, noteId, ...rest] = path.split('/');
+  return collection === NOTES_COLLECTION && noteId && rest.length === 0 ? noteId : null;
+}
+
+/**
+ * Firestore trigger entry point (google.cloud.firestore.document.v1.written)
+ */
+functions.cloudEvent('syncActionItems', async (cloudEvent) => {
+  const noteId = getNoteIdFromEvent(cloudEvent);
+  if (!noteId) {
+    console.warn('Ignoring event for unexpected document:', cloudEvent.subject);
+    return;
+  }
+
+  const result = await syncNoteActionItems(noteId);
+  if (result.written > 0 || result.removed > 0) {
+    console.log(`Synced action items for note ${noteId}`, result);
+  }
+});
+
+module.exports = { syncNoteActionItems, getNoteIdFromEvent };
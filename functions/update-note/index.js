@@ -12,6 +12,7 @@ const functions = require('@google-cloud/functions-framework');
 const { Firestore, FieldValue } = require('@google-cloud/firestore');
 const { authenticateRequest, isEgenAiEmail } = require('../_shared/auth');
 const { canUserAccessNote } = require('../_shared/note-access');
+const { updateNoteWithRevision } = require('../_shared/note-revisions');
 
 // Initialize Firestore
 const db = new Firestore();
@@ -106,7 +107,7 @@ async function updateClassification(noteId, updates, userEmail) {
     return { message: 'No changes to apply' };
   }
 
-  await noteRef.update(validUpdates);
+  await updateNoteWithRevision(db, noteRef, 'classification', () => validUpdates, userEmail);
 
   // Create audit log
   await createAuditLog(noteId, 'classification_update', changes, userEmail);
@@ -141,11 +142,11 @@ async function updateSharing(noteId, sharedWith, userEmail) {
     },
   };
 
-  await noteRef.update({
+  await updateNoteWithRevision(db, noteRef, 'sharing', () => ({
     sharedWith,
     updatedAt: FieldValue.serverTimestamp(),
     updatedBy: userEmail,
-  });
+  }), userEmail);
 
   // Create audit log
   await createAuditLog(noteId, 'sharing_update', changes, userEmail);
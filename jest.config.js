@@ -4,9 +4,28 @@
 module.exports = {
   testEnvironment: 'node',
   testMatch: ['**/tests/**/*.test.js', '!**/tests/integration/**'],
+  // Cloud Functions dependencies are installed in functions/, not the root
+  modulePaths: ['<rootDir>/functions/node_modules'],
+  // Dashboard modules under test are TypeScript
+  transform: {
+    '\\.ts$': '<rootDir>/tests/ts-transform.js',
+    '\\.js$': 'babel-jest',
+  },
   collectCoverageFrom: [
     'functions/**/*.js',
     '!functions/**/node_modules/**',
+    'dashboard/lib/rule-engine.ts',
+    'dashboard/lib/rule-backtest.ts',
+    'dashboard/lib/rule-analyzer.ts',
+    'dashboard/lib/rule-apply.ts',
+    'dashboard/lib/rule-transfer.ts',
+    'dashboard/lib/template-render.ts',
+    'dashboard/lib/template-match.ts',
+    'dashboard/lib/template-compliance.ts',
+    'dashboard/lib/template-inheritance.ts',
+    'dashboard/lib/pdf-writer.ts',
+    'dashboard/lib/zip-writer.ts',
+    'dashboard/lib/docx-writer.ts',
   ],
   coverageDirectory: 'coverage',
   verbose: true,
@@ -0,0 +1,128 @@
+/**
+ * Egen Meeting Notes - Word Document Writer Tests
+ * Unit tests for dashboard/lib/docx-writer.ts
+ */
+
+const { escapeXml, getPngSize, renderDocx } = require('../dashboard/lib/docx-writer.ts');
+
+/**
+ * Text of each file in a stored (uncompressed) archive, read from its local headers
+ */
+function readParts(bytes) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const parts = {};
+  let offset = 0;
+  while (view.getUint32(offset, true) === 0x04034b50) {
+    const size = view.getUint32(offset + 18, true);
+    const nameLength = view.getUint16(offset + 26, true);
+    const name = Buffer.from(bytes.slice(offset + 30, offset + 30 + nameLength)).toString('utf8');
+    const start = offset + 30 + nameLength;
+    parts[name] = Buffer.from(bytes.slice(start, start + size)).toString('utf8');
+    offset = start + size;
+  }
+  return parts;
+}
+
+const blocks = [
+  { type: 'title', text: 'Meeting Notes' },
+  { type: 'heading', level: 1, text: 'Acme sync' },
+  { type: 'fields', fields: [['Client', 'Acme & Co']] },
+  { type: 'heading', level: 2, text: 'Action Items' },
+  {
+    type: 'table',
+    columns: [{ header: 'Action', width: 3 }, { header: 'Owner', width: 1 }],
+    rows: [['Send <proposal>', 'Bob']],
+  },
+  { type: 'list', items: ['Plan B', { text: 'Weekly cadence', detail: 'Agreed by all' }], numbered: true },
+  { type: 'list', items: ['Ann'] },
+  { type: 'list', items: ['Restart'], numbered: true },
+  { type: 'heading', level: 1, text: 'Next meeting', pageBreakBefore: true },
+];
+
+// A 1x1 PNG header is enough for the size check
+const png = new Uint8Array([
+  0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13, 0x49, 0x48, 0x44, 0x52, 0, 0, 0, 131, 0, 0, 0, 52,
+]);
+
+describe('Word document writer', () => {
+  test('escapes XML and drops control characters', () => {
+    expect(escapeXml('a < b & "c"\u0007')).toBe('a &lt; b &amp; &quot;c&quot;');
+  });
+
+  test('reads PNG sizes', () => {
+    expect(getPngSize(png)).toEqual({ width: 131, height: 52 });
+    expect(getPngSize(new Uint8Array([1, 2, 3]))).toBeNull();
+  });
+
+  describe('renderDocx', () => {
+    const parts = readParts(
+      renderDocx(blocks, {
+        title: 'Meeting Notes',
+        header: { text: 'Meeting Notes', logo: { data: png, width: 131, height: 52 } },
+        footer: { text: 'Prepared by Egen' },
+        now: new Date(Date.UTC(2026, 2, 9, 14, 30)),
+      })
+    );
+
+    test('writes the package parts Word needs', () => {
+      expect(Object.keys(parts)).toEqual([
+        '[Content_Types].xml',
+        '_rels/.rels',
+        'docProps/core.xml',
+        'word/document.xml',
+        'word/_rels/document.xml.rels',
+        'word/styles.xml',
+        'word/numbering.xml',
+        'word/footer1.xml',
+        'word/header1.xml',
+        'word/_rels/header1.xml.rels',
+        'word/media/logo.png',
+      ]);
+      expect(parts['docProps/core.xml']).toContain('<dcterms:created xsi:type="dcterms:W3CDTF">2026-03-09T14:30:00Z');
+    });
+
+    test('uses heading styles and page breaks', () => {
+      const document = parts['word/document.xml'];
+
+      expect(document).toContain('<w:pStyle w:val="Title"/>');
+      expect(document).toContain('<w:pStyle w:val="Heading2"/></w:pPr><w:r><w:t xml:space="preserve">Action Items');
+      expect(document).toContain('<w:pStyle w:val="Heading1"/><w:pageBreakBefore/>');
+      expect(document).toContain('Acme &amp; Co');
+    });
+
+    test('writes tables with a repeating header row', () => {
+      const document = parts['word/document.xml'];
+
+      expect(document).toContain('<w:tblGrid><w:gridCol w:w="7560"/><w:gridCol w:w="2520"/></w:tblGrid>');
+      expect(document).toContain('<w:trPr><w:tblHeader/></w:trPr>');
+      expect(document).toContain('Send &lt;proposal&gt;');
+    });
+
+    test('restarts numbering for each numbered list', () => {
+      const document = parts['word/document.xml'];
+
+      expect(document.match(/<w:numId w:val="(\d+)"\/>/g)).toEqual([
+        '<w:numId w:val="2"/>',
+        '<w:numId w:val="2"/>',
+        '<w:numId w:val="1"/>',
+        '<w:numId w:val="3"/>',
+      ]);
+      expect(parts['word/numbering.xml'].match(/<w:startOverride w:val="1"\/>/g)).toHaveLength(2);
+    });
+
+    test('adds the logo header and a footer with page numbers', () => {
+      expect(parts['word/header1.xml']).toContain('<a:blip r:embed="rIdLogo"/>');
+      expect(parts['word/_rels/header1.xml.rels']).toContain('Target="media/logo.png"');
+      expect(parts['word/footer1.xml']).toContain('Prepared by Egen');
+      expect(parts['word/footer1.xml']).toContain('w:instr=" NUMPAGES \\* MERGEFORMAT "');
+    });
+  });
+
+  test('leaves out the header when not asked for', () => {
+    const parts = readParts(renderDocx([{ type: 'paragraph', text: 'Hi' }], { title: 'Plain' }));
+
+    expect(parts['word/header1.xml']).toBeUndefined();
+    expect(parts['word/document.xml']).not.toContain('headerReference');
+    expect(parts['word/footer1.xml']).toContain('<w:jc w:val="center"/>');
+  });
+});
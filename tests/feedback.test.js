@@ -0,0 +1,154 @@
+/**
+ * Egen Meeting Notes - /feedback Function Tests
+ * Unit tests for rule suggestion mining and saving
+ */
+
+const {
+  mineSuggestionConditions,
+  getSuggestionId,
+  saveRuleSuggestion,
+} = require('../functions/feedback/index.js');
+
+// Mock Firestore with an in-memory document store
+jest.mock('@google-cloud/firestore', () => {
+  const mockDocs = new Map();
+
+  const createMockSnapshot = (path) => ({
+    exists: mockDocs.has(path),
+    data: () => mockDocs.get(path),
+  });
+
+  const mockCollection = jest.fn((collectionName) => ({
+    doc: jest.fn((id) => ({ id, path: `${collectionName}/${id}` })),
+  }));
+
+  class FieldValue {
+    static serverTimestamp() {
+      return 'SERVER_TIMESTAMP';
+    }
+  }
+
+  class Timestamp {}
+
+  return {
+    Firestore: jest.fn(() => ({
+      collection: mockCollection,
+      runTransaction: jest.fn(async (update) =>
+        update({
+          get: async (ref) => createMockSnapshot(ref.path),
+          set: (ref, data) => mockDocs.set(ref.path, data),
+        })
+      ),
+    })),
+    FieldValue,
+    Timestamp,
+    mockDocs,
+  };
+});
+
+const { mockDocs } = require('@google-cloud/firestore');
+
+function meeting(title, attendees = [], organizer = null) {
+  return { title, attendees: attendees.map((email) => ({ email })), organizer };
+}
+
+describe('/feedback rule suggestions', () => {
+  describe('mineSuggestionConditions', () => {
+    test('returns no conditions without meetings', () => {
+      expect(mineSuggestionConditions([])).toEqual([]);
+    });
+
+    test('mines keywords, external domains and organizer shared by the meetings', () => {
+      const meetings = [
+        meeting('Acme Roadmap Sync', ['alice@egen.ai', 'john@acme.com'], 'Alice@egen.ai'),
+        meeting('Roadmap review with Acme', ['alice@egen.ai', 'jane@acme.com'], 'alice@egen.ai'),
+        meeting('Acme roadmap planning', ['bob@egen.ai', 'john@acme.com'], 'alice@egen.ai'),
+      ];
+
+      expect(mineSuggestionConditions(meetings)).toEqual([
+        { field: 'title', operator: 'contains_any', value: 'acme, roadmap' },
+        { field: 'attendee_domains', operator: 'intersects', value: ['acme.com'] },
+        { field: 'organizer', operator: 'equals', value: 'alice@egen.ai' },
+      ]);
+    });
+
+    test('ignores stopwords, short words, numbers and internal domains', () => {
+      const meetings = [
+        meeting('Weekly sync 2026 - Q1', ['alice@egen.ai', 'bob@egen.com']),
+        meeting('Weekly sync 2026 - Q2', ['alice@egen.ai']),
+      ];
+
+      expect(mineSuggestionConditions(meetings)).toEqual([]);
+    });
+
+    test('drops a condition that would leave too few meetings matching', () => {
+      const meetings = [
+        meeting('Globex onboarding', ['kim@globex.com'], 'pat@egen.ai'),
+        meeting('Globex onboarding', ['kim@globex.com'], 'pat@egen.ai'),
+        meeting('Globex onboarding', ['kim@globex.com'], 'lee@egen.ai'),
+        meeting('Initech kickoff', ['sam@initech.com'], 'pat@egen.ai'),
+        meeting('Initech kickoff', ['sam@initech.com'], 'pat@egen.ai'),
+      ];
+
+      // The organizer appears in 4 of 5 meetings, but only 2 of the 3
+      // Globex meetings, so it is not added
+      expect(mineSuggestionConditions(meetings)).toEqual([
+        { field: 'title', operator: 'contains_any', value: 'globex, onboarding' },
+        { field: 'attendee_domains', operator: 'intersects', value: ['globex.com'] },
+      ]);
+    });
+  });
+
+  describe('getSuggestionId', () => {
+    test('is stable per correction target', () => {
+      expect(getSuggestionId({ type: 'client', clientId: 'client_acme', projectId: 'proj/1' })).toBe(
+        'client_client_acme_proj-1'
+      );
+      expect(getSuggestionId({ type: 'internal' })).toBe('internal_none_none');
+    });
+  });
+
+  describe('saveRuleSuggestion', () => {
+    beforeEach(() => {
+      mockDocs.clear();
+    });
+
+    test('creates a pending suggestion', async () => {
+      await saveRuleSuggestion('client_acme_none', { reason: 'Similar correction made 3 times', correction_count: 3 });
+
+      expect(mockDocs.get('rule_suggestions/client_acme_none')).toEqual({
+        reason: 'Similar correction made 3 times',
+        correction_count: 3,
+        status: 'pending',
+        created_at: 'SERVER_TIMESTAMP',
+        updated_at: 'SERVER_TIMESTAMP',
+      });
+    });
+
+    test('refreshes a pending suggestion and keeps its creation time', async () => {
+      mockDocs.set('rule_suggestions/client_acme_none', {
+        correction_count: 3,
+        status: 'pending',
+        created_at: 'EARLIER',
+      });
+
+      await saveRuleSuggestion('client_acme_none', { correction_count: 4 });
+
+      expect(mockDocs.get('rule_suggestions/client_acme_none')).toEqual({
+        correction_count: 4,
+        status: 'pending',
+        created_at: 'EARLIER',
+        updated_at: 'SERVER_TIMESTAMP',
+      });
+    });
+
+    test.each(['accepted', 'dismissed'])('leaves %s suggestions alone', async (status) => {
+      const existing = { correction_count: 3, status, created_at: 'EARLIER' };
+      mockDocs.set('rule_suggestions/client_acme_none', existing);
+
+      await saveRuleSuggestion('client_acme_none', { correction_count: 5 });
+
+      expect(mockDocs.get('rule_suggestions/client_acme_none')).toBe(existing);
+    });
+  });
+});
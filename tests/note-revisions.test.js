@@ -0,0 +1,220 @@
+/**
+ * Egen Meeting Notes - Note Revision Tests
+ * Unit tests for functions/_shared/note-revisions.js
+ */
+
+// Mock Firestore with an in-memory document store
+jest.mock('@google-cloud/firestore', () => {
+  class FieldValue {
+    static serverTimestamp() {
+      return new FieldValue();
+    }
+  }
+
+  class Timestamp {
+    constructor(millis) {
+      this.millis = millis;
+    }
+
+    static fromDate(date) {
+      return new Timestamp(date.getTime());
+    }
+
+    static now() {
+      return new Timestamp(Date.now());
+    }
+
+    toMillis() {
+      return this.millis;
+    }
+  }
+
+  return { FieldValue, Timestamp };
+});
+
+const { FieldValue, Timestamp } = require('@google-cloud/firestore');
+const {
+  diffNoteUpdates,
+  recordNoteRevision,
+  updateNoteWithRevision,
+} = require('../functions/_shared/note-revisions.js');
+
+function setFieldValue(data, path, value) {
+  const [key, ...rest] = path.split('.');
+  if (rest.length === 0) return { ...data, [key]: value };
+  const child = data[key] && typeof data[key] === 'object' ? data[key] : {};
+  return { ...data, [key]: setFieldValue(child, rest.join('.'), value) };
+}
+
+function createMockDb(docs) {
+  let nextId = 0;
+  const ref = (path) => ({
+    path,
+    collection: (name) => ({
+      doc: () => ref(`${path}/${name}/rev_${++nextId}`),
+    }),
+  });
+
+  return {
+    docs,
+    ref,
+    runTransaction: async (update) =>
+      update({
+        get: async ({ path }) => ({ exists: docs.has(path), data: () => docs.get(path) }),
+        set: ({ path }, data) => docs.set(path, data),
+        update: ({ path }, updates) => {
+          let data = docs.get(path);
+          for (const [field, value] of Object.entries(updates)) {
+            data = setFieldValue(data, field, value);
+          }
+          docs.set(path, data);
+        },
+      }),
+    revisions: (notePath) =>
+      [...docs.entries()]
+        .filter(([path]) => path.startsWith(`${notePath}/revisions/`))
+        .map(([, revision]) => revision),
+  };
+}
+
+const note = {
+  title: 'Acme kickoff',
+  classification: { type: 'client', client_id: 'c-acme', project_id: null },
+  sharing: { shared_with: ['alice@egen.ai'], updated_at: new Timestamp(1000) },
+  meeting: { start_time: new Timestamp(5000) },
+};
+
+describe('note revisions', () => {
+  describe('diffNoteUpdates', () => {
+    test('reports changed fields with their values before and after', () => {
+      expect(diffNoteUpdates(note, { title: 'Acme review', summary: 'Went well' })).toEqual([
+        { field: 'title', before: 'Acme kickoff', after: 'Acme review' },
+        { field: 'summary', before: null, after: 'Went well' },
+      ]);
+    });
+
+    test('ignores unchanged values and bookkeeping fields', () => {
+      expect(
+        diffNoteUpdates(note, {
+          title: 'Acme kickoff',
+          updated_at: new Timestamp(9000),
+          updated_by: 'bob@egen.ai',
+          updatedAt: new Date(),
+        })
+      ).toEqual([]);
+    });
+
+    test('follows dotted paths', () => {
+      expect(diffNoteUpdates(note, { 'classification.project_id': 'p-web' })).toEqual([
+        { field: 'classification.project_id', before: null, after: 'p-web' },
+      ]);
+    });
+
+    test('compares maps regardless of key order', () => {
+      const reordered = { project_id: null, client_id: 'c-acme', type: 'client' };
+      expect(diffNoteUpdates(note, { classification: reordered })).toEqual([]);
+    });
+
+    test('compares Timestamps and Dates by time', () => {
+      expect(diffNoteUpdates(note, { 'meeting.start_time': new Timestamp(5000) })).toEqual([]);
+      expect(diffNoteUpdates(note, { 'meeting.start_time': new Date(5000) })).toEqual([]);
+
+      const [change] = diffNoteUpdates(note, { 'meeting.start_time': new Date(7000) });
+      expect(change.before.toMillis()).toBe(5000);
+      expect(change.after).toBeInstanceOf(Timestamp);
+      expect(change.after.toMillis()).toBe(7000);
+    });
+
+    test('drops server sentinels from fields and maps', () => {
+      expect(diffNoteUpdates(note, { last_synced: FieldValue.serverTimestamp() })).toEqual([]);
+
+      const sharing = { shared_with: ['alice@egen.ai'], updated_at: FieldValue.serverTimestamp() };
+      expect(diffNoteUpdates(note, { sharing })).toEqual([]);
+
+      const [change] = diffNoteUpdates(note, {
+        sharing: { shared_with: ['alice@egen.ai', 'bob@egen.ai'], updated_at: FieldValue.serverTimestamp() },
+      });
+      expect(change).toEqual({
+        field: 'sharing',
+        before: { shared_with: ['alice@egen.ai'] },
+        after: { shared_with: ['alice@egen.ai', 'bob@egen.ai'] },
+      });
+    });
+  });
+
+  describe('recordNoteRevision', () => {
+    test('writes a revision only when something changed', () => {
+      const db = createMockDb(new Map([['notes_metadata/n1', note]]));
+      const noteRef = db.ref('notes_metadata/n1');
+      const transaction = { set: jest.fn() };
+
+      expect(recordNoteRevision(transaction, noteRef, note, { title: 'Acme kickoff' }, 'update')).toEqual([]);
+      expect(transaction.set).not.toHaveBeenCalled();
+
+      recordNoteRevision(transaction, noteRef, note, { title: 'Acme review' }, 'update', 'bob@egen.ai');
+      expect(transaction.set).toHaveBeenCalledTimes(1);
+      const [ref, revision] = transaction.set.mock.calls[0];
+      expect(ref.path).toMatch(/^notes_metadata\/n1\/revisions\//);
+      expect(revision).toMatchObject({
+        action: 'update',
+        changed_by: 'bob@egen.ai',
+        changed_fields: ['title'],
+        changes: [{ field: 'title', before: 'Acme kickoff', after: 'Acme review' }],
+        restored_from: null,
+      });
+      expect(revision.changed_at).toBeInstanceOf(Timestamp);
+    });
+  });
+
+  describe('updateNoteWithRevision', () => {
+    test('returns null for a missing note', async () => {
+      const db = createMockDb(new Map());
+      const buildUpdates = jest.fn();
+
+      await expect(
+        updateNoteWithRevision(db, db.ref('notes_metadata/missing'), 'update', buildUpdates)
+      ).resolves.toBeNull();
+      expect(buildUpdates).not.toHaveBeenCalled();
+    });
+
+    test('applies the updates and records what changed', async () => {
+      const db = createMockDb(new Map([['notes_metadata/n1', note]]));
+
+      const changes = await updateNoteWithRevision(
+        db,
+        db.ref('notes_metadata/n1'),
+        'classification',
+        (current) => ({ 'classification.project_id': 'p-web', title: current.title }),
+        'bob@egen.ai'
+      );
+
+      expect(changes).toEqual([{ field: 'classification.project_id', before: null, after: 'p-web' }]);
+      expect(db.docs.get('notes_metadata/n1').classification.project_id).toBe('p-web');
+      expect(db.revisions('notes_metadata/n1')).toHaveLength(1);
+    });
+
+    test('a revision holds what is needed to restore the note', async () => {
+      const db = createMockDb(new Map([['notes_metadata/n1', note]]));
+      const noteRef = db.ref('notes_metadata/n1');
+
+      await updateNoteWithRevision(db, noteRef, 'update', () => ({
+        title: 'Acme review',
+        'classification.client_id': 'c-globex',
+        sharing: { shared_with: [], updated_at: FieldValue.serverTimestamp() },
+      }));
+      const [revision] = db.revisions('notes_metadata/n1');
+
+      // Restore the way the dashboard does: write back each change's `before`
+      const changes = await updateNoteWithRevision(db, noteRef, 'restore', () =>
+        Object.fromEntries(revision.changes.map((change) => [change.field, change.before]))
+      );
+
+      const restored = db.docs.get('notes_metadata/n1');
+      expect(restored.title).toBe(note.title);
+      expect(restored.classification).toEqual(note.classification);
+      expect(restored.sharing.shared_with).toEqual(note.sharing.shared_with);
+      expect(changes.map((change) => change.field)).toEqual(revision.changed_fields);
+      expect(db.revisions('notes_metadata/n1')).toHaveLength(2);
+    });
+  });
+});
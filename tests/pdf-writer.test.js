@@ -0,0 +1,146 @@
+/**
+ * Egen Meeting Notes - PDF Writer Tests
+ * Unit tests for dashboard/lib/pdf-writer.ts
+ */
+
+const {
+  PDF_CONTENT_WIDTH,
+  addPdfHeading,
+  addPdfLink,
+  addPdfList,
+  addPdfPage,
+  addPdfParagraph,
+  addPdfTable,
+  createPdfLayout,
+  encodePdfText,
+  measurePdfText,
+  renderPdf,
+  truncatePdfText,
+  wrapPdfText,
+} = require('../dashboard/lib/pdf-writer.ts');
+
+function toText(bytes) {
+  return Buffer.from(bytes).toString('latin1');
+}
+
+describe('PDF writer', () => {
+  describe('text', () => {
+    test('encodes to Windows-1252 and replaces what the fonts cannot show', () => {
+      expect(encodePdfText('Café “notes” – done…')).toBe('Caf\xe9 \x93notes\x94 \x96 done\x85');
+      expect(encodePdfText('a\tb ✓ 日本')).toBe('a b ? ??');
+    });
+
+    test('measures with Helvetica metrics', () => {
+      expect(measurePdfText('Hi', 'regular', 10)).toBeCloseTo(7.22 + 2.22);
+      expect(measurePdfText('Hi', 'bold', 10)).toBeGreaterThan(measurePdfText('Hi', 'regular', 10));
+      expect(measurePdfText('Hi', 'italic', 10)).toBe(measurePdfText('Hi', 'regular', 10));
+    });
+
+    test('wraps on words, keeps line breaks and splits long words', () => {
+      const width = measurePdfText('alpha beta', 'regular', 10);
+
+      expect(wrapPdfText('alpha beta gamma', 'regular', 10, width)).toEqual(['alpha beta', 'gamma']);
+      expect(wrapPdfText('one\n\ntwo', 'regular', 10, width)).toEqual(['one', '', 'two']);
+      expect(wrapPdfText('x'.repeat(40), 'regular', 10, 50).every((line) => measurePdfText(line) <= 50)).toBe(true);
+    });
+
+    test('truncates with an ellipsis', () => {
+      const short = truncatePdfText('A very long meeting title indeed', 80);
+
+      expect(short.endsWith('…')).toBe(true);
+      expect(measurePdfText(short)).toBeLessThanOrEqual(80);
+      expect(truncatePdfText('Short', 80)).toBe('Short');
+    });
+  });
+
+  describe('layout', () => {
+    test('flows paragraphs onto new pages', () => {
+      const layout = createPdfLayout();
+      for (let i = 0; i < 80; i++) addPdfParagraph(layout, `Line ${i}`);
+
+      expect(layout.pages.length).toBe(2);
+      expect(layout.page).toBe(1);
+    });
+
+    test('keeps headings with the text after them', () => {
+      const layout = createPdfLayout();
+      layout.y = 720;
+      addPdfHeading(layout, 'Decisions');
+
+      expect(layout.pages.length).toBe(2);
+      expect(layout.pages[0].ops).toHaveLength(0);
+    });
+
+    test('draws list markers and table headers', () => {
+      const layout = createPdfLayout();
+      addPdfList(layout, ['First', { text: 'Second', detail: 'Why' }], { numbered: true });
+      addPdfTable(layout, [{ header: 'Task', width: 3 }, { header: 'Owner', width: 1 }], [['Ship it', 'Ana']]);
+      const ops = layout.pages[0].ops.join('\n');
+
+      expect(ops).toContain('(1.) Tj');
+      expect(ops).toContain('(2.) Tj');
+      expect(ops).toContain('/F3 10 Tf');
+      expect(ops).toContain('(Task) Tj');
+      expect(ops).toContain('(Ship it) Tj');
+      expect(ops).toMatch(/re f/);
+    });
+
+    test('repeats the table header on every page', () => {
+      const layout = createPdfLayout();
+      const rows = Array.from({ length: 60 }, (_, i) => [`Task ${i}`, 'Ana']);
+      addPdfTable(layout, [{ header: 'Task', width: 3 }, { header: 'Owner', width: 1 }], rows);
+
+      expect(layout.pages.length).toBeGreaterThan(1);
+      for (const page of layout.pages) {
+        expect(page.ops.join('\n')).toContain('(Task) Tj');
+      }
+    });
+  });
+
+  describe('renderPdf', () => {
+    const layout = createPdfLayout();
+    addPdfParagraph(layout, 'Costs (estimate) \\ 2026');
+    addPdfLink(layout.pages[0], 54, 54, PDF_CONTENT_WIDTH, 18, 1);
+    addPdfPage(layout);
+    addPdfParagraph(layout, 'Second page');
+    const text = toText(
+      renderPdf(layout, {
+        title: 'Minutes',
+        footer: (index, count) => `Page ${index + 1} of ${count}`,
+        now: new Date(Date.UTC(2026, 2, 9, 14, 30, 0)),
+      })
+    );
+
+    test('writes a complete document', () => {
+      expect(text.startsWith('%PDF-1.4')).toBe(true);
+      expect(text.trimEnd().endsWith('%%EOF')).toBe(true);
+      expect(text).toContain('/Count 2');
+      expect(text).toContain('/Title (Minutes)');
+      expect(text).toContain('/CreationDate (D:20260309143000Z)');
+      expect(text).toContain('(Costs \\(estimate\\) \\\\ 2026) Tj');
+      expect(text).toContain('(Page 2 of 2) Tj');
+    });
+
+    test('links to other pages', () => {
+      expect(text).toMatch(/\/Subtype \/Link .*\/Dest \[9 0 R \/XYZ null null null\]/);
+    });
+
+    test('points the cross-reference table at each object', () => {
+      const startxref = Number(text.match(/startxref\n(\d+)/)[1]);
+      expect(text.slice(startxref).startsWith('xref')).toBe(true);
+
+      const offsets = [...text.slice(startxref).matchAll(/^(\d{10}) 00000 n $/gm)].map((m) => Number(m[1]));
+      expect(offsets).toHaveLength(10);
+      offsets.forEach((offset, i) => {
+        expect(text.slice(offset).startsWith(`${i + 1} 0 obj`)).toBe(true);
+      });
+    });
+
+    test('gives content streams their byte length', () => {
+      for (const match of text.matchAll(/<< \/Length (\d+) >>\nstream\n/g)) {
+        const start = match.index + match[0].length;
+        expect(text.slice(start + Number(match[1]), start + Number(match[1]) + 10)).toBe('\nendstream');
+      }
+    });
+  });
+});
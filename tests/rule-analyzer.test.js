@@ -0,0 +1,111 @@
+/**
+ * Egen Meeting Notes - Rule Analyzer Tests
+ * Unit tests for dashboard/lib/rule-analyzer.ts
+ */
+
+const { analyzeRules } = require('../dashboard/lib/rule-analyzer.ts');
+
+function rule(id, priority, titleContains, actions = {}, status = 'active') {
+  return {
+    id,
+    name: id,
+    priority,
+    status,
+    conditions: { operator: 'AND', rules: [{ field: 'title', operator: 'contains', value: titleContains }] },
+    actions,
+  };
+}
+
+function note(id, title) {
+  return { id, meeting: { title, attendees: [] }, classification: { type: 'uncategorized', confidence: 0.5 } };
+}
+
+const data = {
+  clients: [
+    { id: 'c-acme', name: 'Acme', status: 'active' },
+    { id: 'c-old', name: 'Oldco', status: 'inactive' },
+  ],
+  projects: [
+    { id: 'p-live', project_name: 'Live', status: 'active' },
+    { id: 'p-done', project_name: 'Done', status: 'completed' },
+  ],
+};
+
+const notes = [note('n1', 'Acme weekly sync'), note('n2', 'Acme planning'), note('n3', 'Team sync')];
+
+function kinds(analysis) {
+  return analysis.findings.map((f) => `${f.kind}:${f.rule.id}`);
+}
+
+describe('rule analyzer', () => {
+  test('flags pairs that classify the same notes differently', () => {
+    const analysis = analyzeRules(
+      [rule('acme', 10, 'acme', { client_id: 'c-acme' }), rule('sync', 5, 'sync', { classify_as: 'internal' })],
+      notes,
+      data
+    );
+    const conflict = analysis.findings.find((f) => f.kind === 'conflict');
+    expect(conflict.rule.id).toBe('sync');
+    expect(conflict.relatedRules.map((r) => r.id)).toEqual(['acme']);
+    expect(conflict.noteIds).toEqual(['n1']);
+    expect(conflict.message).toBe('"acme" and "sync" both match 1 note but classify them differently');
+  });
+
+  test('reports agreeing overlaps as information', () => {
+    const analysis = analyzeRules(
+      [rule('acme', 10, 'acme', { client_id: 'c-acme' }), rule('weekly', 5, 'weekly', { client_id: 'c-acme' })],
+      notes,
+      data
+    );
+    expect(kinds(analysis)).toContain('overlap:weekly');
+    expect(analysis.findings.find((f) => f.kind === 'overlap').severity).toBe('info');
+  });
+
+  test('flags rules that always lose to a higher-priority rule', () => {
+    const analysis = analyzeRules(
+      [rule('acme', 10, 'acme', { client_id: 'c-acme' }), rule('planning', 5, 'planning', { classify_as: 'internal' })],
+      notes,
+      data
+    );
+    const shadowed = analysis.findings.find((f) => f.kind === 'shadowed');
+    expect(shadowed.rule.id).toBe('planning');
+    expect(shadowed.relatedRules.map((r) => r.id)).toEqual(['acme']);
+    expect(shadowed.message).toBe('"planning" matched 1 note but always lost to "acme"');
+  });
+
+  test('flags rules that never matched', () => {
+    const analysis = analyzeRules([rule('globex', 10, 'globex')], notes, data);
+    expect(kinds(analysis)).toEqual(['never_matched:globex']);
+    expect(analysis.matchCounts).toEqual({ globex: 0 });
+  });
+
+  test('flags inactive clients, completed projects and missing targets', () => {
+    const analysis = analyzeRules(
+      [
+        rule('old', 10, 'acme', { client_id: 'c-old' }),
+        rule('done', 9, 'team', { client_id: 'c-acme', project_id: 'p-done' }),
+        rule('gone', 8, 'zzz', { client_id: 'c-deleted' }),
+        rule('live', 7, 'planning', { client_id: 'c-acme', project_id: 'p-live' }),
+      ],
+      notes,
+      data
+    );
+    const targets = analysis.findings.filter((f) => f.kind === 'inactive_target');
+    expect(targets.map((f) => [f.rule.id, f.severity])).toEqual([
+      ['gone', 'error'],
+      ['old', 'warning'],
+      ['done', 'warning'],
+    ]);
+    expect(targets[1].message).toBe('"old" assigns inactive client Oldco');
+  });
+
+  test('ignores rules that are not active', () => {
+    const analysis = analyzeRules(
+      [rule('acme', 10, 'acme', { client_id: 'c-old' }), rule('draft', 5, 'acme', {}, 'testing')],
+      notes,
+      data
+    );
+    expect(analysis.rulesAnalyzed).toBe(1);
+    expect(kinds(analysis)).toEqual(['inactive_target:acme']);
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Egen Meeting Notes - Retroactive Rule Apply Tests
+ * Unit tests for dashboard/lib/rule-apply.ts
+ */
+
+const {
+  previewRuleApply,
+  getRuleApplyFields,
+  pickRuleApplyFields,
+} = require('../dashboard/lib/rule-apply.ts');
+
+function note(id, title, classification, extra = {}) {
+  return {
+    id,
+    meeting: { title, attendees: [] },
+    classification: { confidence: 0.5, ...classification },
+    ...extra,
+  };
+}
+
+const acmeRule = {
+  id: 'acme',
+  name: 'Acme',
+  priority: 10,
+  status: 'disabled',
+  conditions: { operator: 'AND', rules: [{ field: 'title', operator: 'contains', value: 'acme' }] },
+  actions: { classify_as: 'client', client_id: 'c-acme', project_id: 'p-web' },
+};
+
+const names = {
+  clients: [{ id: 'c-acme', name: 'Acme' }],
+  projects: [{ id: 'p-web', project_name: 'Website' }],
+};
+
+describe('rule apply', () => {
+  describe('previewRuleApply', () => {
+    test('lists matching notes the rule would change, whatever its status', () => {
+      const notes = [
+        note('n1', 'Acme kickoff', { type: 'uncategorized' }),
+        note('n2', 'Team sync', { type: 'uncategorized' }),
+        note('n3', 'Acme review', { type: 'client', client_id: 'c-acme', project_id: 'p-web' }),
+      ];
+
+      const preview = previewRuleApply(acmeRule, notes);
+      expect(preview.map((item) => item.note.id)).toEqual(['n1']);
+      expect(preview[0].before).toEqual({ type: 'uncategorized', client_id: null, project_id: null });
+      expect(preview[0].after).toEqual({ type: 'client', client_id: 'c-acme', project_id: 'p-web' });
+    });
+
+    test('flags user-confirmed notes and skips trashed ones', () => {
+      const notes = [
+        note('n1', 'Acme kickoff', { type: 'external', user_confirmed: true }),
+        note('n2', 'Acme planning', { type: 'uncategorized' }, { deleted: true }),
+      ];
+
+      const preview = previewRuleApply(acmeRule, notes);
+      expect(preview).toHaveLength(1);
+      expect(preview[0].userConfirmed).toBe(true);
+    });
+  });
+
+  describe('getRuleApplyFields', () => {
+    test('resolves client and project names and records the rule', () => {
+      expect(getRuleApplyFields(acmeRule, { type: 'uncategorized' }, names)).toEqual({
+        type: 'client',
+        client_id: 'c-acme',
+        client_name: 'Acme',
+        project_id: 'p-web',
+        project_name: 'Website',
+        rule_id: 'acme',
+      });
+    });
+
+    test('clears client fields when the rule leaves the client type', () => {
+      const internalRule = { ...acmeRule, id: 'internal', actions: { classify_as: 'internal' } };
+      const current = { type: 'client', client_id: 'c-acme', client_name: 'Acme' };
+      expect(getRuleApplyFields(internalRule, current, names)).toEqual({
+        type: 'internal',
+        client_id: null,
+        client_name: null,
+        project_id: null,
+        project_name: null,
+        rule_id: 'internal',
+      });
+    });
+
+    test('keeps the stored name of an unchanged client that is no longer listed', () => {
+      const projectRule = { ...acmeRule, actions: { project_id: 'p-web' } };
+      const current = { type: 'client', client_id: 'c-gone', client_name: 'Gone Inc' };
+      expect(getRuleApplyFields(projectRule, current, names)).toMatchObject({
+        client_id: 'c-gone',
+        client_name: 'Gone Inc',
+        project_id: 'p-web',
+      });
+    });
+  });
+
+  test('pickRuleApplyFields fills missing fields with null', () => {
+    expect(pickRuleApplyFields(undefined)).toEqual({
+      type: 'uncategorized',
+      client_id: null,
+      client_name: null,
+      project_id: null,
+      project_name: null,
+      rule_id: null,
+    });
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Egen Meeting Notes - Rule Backtest Tests
+ * Unit tests for dashboard/lib/rule-backtest.ts
+ */
+
+const {
+  runBacktest,
+  getGroundTruth,
+  indexFeedbackByNote,
+  getClassificationKey,
+} = require('../dashboard/lib/rule-backtest.ts');
+
+function timestamp(millis) {
+  return { toMillis: () => millis };
+}
+
+function note(id, title, classification) {
+  return {
+    id,
+    meeting: { title, attendees: [] },
+    classification: { confidence: 0.5, ...classification },
+  };
+}
+
+function feedback(noteId, corrected, millis = 1) {
+  return {
+    id: `fb-${noteId}-${millis}`,
+    noteId,
+    originalClassification: { type: 'uncategorized' },
+    correctedClassification: corrected,
+    created_at: timestamp(millis),
+  };
+}
+
+const acmeRule = {
+  id: 'acme',
+  name: 'Acme',
+  priority: 10,
+  status: 'active',
+  conditions: { operator: 'AND', rules: [{ field: 'title', operator: 'contains', value: 'acme' }] },
+  actions: { classify_as: 'client', client_id: 'c-acme' },
+};
+
+const standupRule = {
+  id: 'standup',
+  name: 'Standups',
+  priority: 5,
+  status: 'active',
+  conditions: { operator: 'AND', rules: [{ field: 'title', operator: 'contains', value: 'sync' }] },
+  actions: { classify_as: 'internal' },
+};
+
+describe('rule backtest', () => {
+  describe('ground truth', () => {
+    test('uses user-confirmed classifications', () => {
+      const confirmed = note('n1', 'Acme', { type: 'client', client_id: 'c-acme', user_confirmed: true });
+      expect(getGroundTruth(confirmed, undefined)).toEqual({
+        classification: { type: 'client', client_id: 'c-acme', project_id: null },
+        source: 'confirmed',
+      });
+      expect(getGroundTruth(note('n2', 'x', { type: 'internal' }), undefined)).toBeNull();
+    });
+
+    test('uses feedback corrections', () => {
+      const truth = getGroundTruth(
+        note('n1', 'x', { type: 'external' }),
+        feedback('n1', { type: 'client', clientId: 'c-acme', projectId: 'p1' })
+      );
+      expect(truth).toEqual({
+        classification: { type: 'client', client_id: 'c-acme', project_id: 'p1' },
+        source: 'feedback',
+      });
+    });
+
+    test('the more recent of confirmation and correction wins', () => {
+      const confirmed = note('n1', 'x', {
+        type: 'internal',
+        user_confirmed: true,
+        confirmed_at: timestamp(5),
+      });
+      expect(getGroundTruth(confirmed, feedback('n1', { type: 'external' }, 3)).source).toBe('confirmed');
+      expect(getGroundTruth(confirmed, feedback('n1', { type: 'external' }, 8)).source).toBe('feedback');
+    });
+
+    test('keeps the latest correction per note', () => {
+      const index = indexFeedbackByNote([
+        feedback('n1', { type: 'internal' }, 1),
+        feedback('n1', { type: 'external' }, 9),
+        feedback('n1', { type: 'personal' }, 4),
+        { id: 'orphan', correctedClassification: { type: 'internal' } },
+      ]);
+      expect(index.size).toBe(1);
+      expect(index.get('n1').correctedClassification.type).toBe('external');
+    });
+  });
+
+  describe('single rule', () => {
+    const notes = [
+      // Correct match
+      note('n1', 'Acme kickoff', { type: 'external', user_confirmed: false }),
+      // Wrong match: user says it is internal
+      note('n2', 'Acme prep (internal)', { type: 'internal', user_confirmed: true }),
+      // Missed: Acme meeting the rule does not catch
+      note('n3', 'Quarterly review', { type: 'client', client_id: 'c-acme', user_confirmed: true }),
+      // Unlabeled match that would change
+      note('n4', 'Acme follow-up', { type: 'uncategorized' }),
+      // Unlabeled, no match
+      note('n5', 'Lunch', { type: 'personal' }),
+    ];
+    const corrections = [feedback('n1', { type: 'client', clientId: 'c-acme' })];
+    const report = runBacktest([acmeRule], notes, corrections);
+
+    test('counts notes, labels and matches', () => {
+      expect(report.totalNotes).toBe(5);
+      expect(report.labeledNotes).toBe(3);
+      expect(report.matchedNotes).toBe(3);
+    });
+
+    test('computes precision and recall against ground truth', () => {
+      expect(report.truePositives).toBe(1);
+      expect(report.falsePositives).toBe(1);
+      expect(report.falseNegatives).toBe(1);
+      expect(report.precision).toBe(0.5);
+      expect(report.recall).toBe(0.5);
+    });
+
+    test('lists notes the rule would newly reclassify', () => {
+      expect(report.reclassified.map((r) => r.note.id)).toEqual(['n1', 'n2', 'n4']);
+      expect(report.reclassified[2].correct).toBeNull();
+      expect(report.reclassified[2].predicted).toEqual({ type: 'client', client_id: 'c-acme', project_id: null });
+    });
+
+    test('builds a confusion table of labeled notes', () => {
+      const cells = Object.fromEntries(
+        report.confusion.map((c) => [`${getClassificationKey(c.actual)}>${getClassificationKey(c.predicted)}`, c.count])
+      );
+      expect(cells).toEqual({
+        'client:c-acme:>client:c-acme:': 1,
+        'internal::>client:c-acme:': 1,
+        'client:c-acme:>none': 1,
+      });
+    });
+  });
+
+  describe('rule set', () => {
+    test('first match by priority wins and inactive rules are skipped', () => {
+      const notes = [note('n1', 'Acme sync', { type: 'uncategorized' })];
+      const report = runBacktest([standupRule, acmeRule], notes, []);
+      expect(report.results[0].matchedRule.id).toBe('acme');
+
+      const testing = { ...acmeRule, status: 'testing' };
+      expect(runBacktest([standupRule, testing], notes, []).results[0].matchedRule.id).toBe('standup');
+      expect(
+        runBacktest([standupRule, testing], notes, [], { statuses: ['active', 'testing'] }).results[0].matchedRule.id
+      ).toBe('acme');
+    });
+
+    test('recall counts notes any rule targets', () => {
+      const notes = [
+        note('n1', 'Team sync', { type: 'internal', user_confirmed: true }),
+        note('n2', 'Planning', { type: 'internal', user_confirmed: true }),
+        note('n3', 'Lunch', { type: 'personal', user_confirmed: true }),
+      ];
+      const report = runBacktest([acmeRule, standupRule], notes, []);
+      expect(report.truePositives).toBe(1);
+      expect(report.recall).toBe(0.5);
+      expect(report.precision).toBe(1);
+    });
+
+    test('precision and recall are null without data', () => {
+      const report = runBacktest([acmeRule], [note('n1', 'Lunch', { type: 'personal' })], []);
+      expect(report.precision).toBeNull();
+      expect(report.recall).toBeNull();
+      expect(report.reclassified).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * Egen Meeting Notes - Rule Engine Parity Tests
+ * Runs the same fixtures through functions/_shared/rule-engine.js (classify)
+ * and dashboard/lib/rule-engine.ts (previews, backtests) and expects the
+ * same outcome from both
+ */
+
+const server = require('../functions/_shared/rule-engine.js');
+const dashboard = require('../dashboard/lib/rule-engine.ts');
+
+const projects = [
+  {
+    id: 'p-data',
+    project_name: 'Data Platform',
+    team: [{ email: 'alice@egen.ai' }, { email: 'dave@egen.ai' }],
+  },
+];
+
+const meetings = {
+  client: {
+    title: 'Acme Weekly Sync - Data Platform',
+    description: 'Review BigQuery migration progress',
+    organizer: 'Alice@Egen.ai',
+    attendees: [{ email: 'alice@egen.ai' }, { email: 'john@ACME.com' }, { email: 'jane@acme.com' }],
+    start_time: '2026-02-09T10:30:00-05:00',
+    end_time: '2026-02-09T11:15:00-05:00',
+  },
+  internal: {
+    title: 'Daily Standup',
+    organizer: 'bob@egen.ai',
+    attendees: [{ email: 'bob@egen.ai' }, { email: 'carol@egen.ai' }],
+    start_time: '2026-02-13T23:30:00+09:00',
+    duration_minutes: 15,
+  },
+  // Stored timestamps: Monday 9 Feb 23:30 UTC, which is Tuesday in some timezones
+  stored: {
+    title: 'Acme planning',
+    organizer: 'dave@egen.ai',
+    attendees: [{ email: 'dave@egen.ai' }, { email: 'kim@acme.com' }],
+    start_time: new Date(Date.UTC(2026, 1, 9, 23, 30)),
+    end_time: new Date(Date.UTC(2026, 1, 10, 0, 30)),
+  },
+  dateOnly: {
+    title: 'Offsite',
+    organizer: 'erin@egen.ai',
+    attendees: [],
+    start_time: '2026-02-11',
+  },
+  unscheduled: {
+    title: '',
+    attendees: [{ email: 'zoe@globex.com' }],
+  },
+};
+
+const conditions = [
+  ['title', 'contains', 'weekly sync'],
+  ['title', 'not_contains', 'standup'],
+  ['title', 'equals', 'daily standup'],
+  ['title', 'starts_with', 'Acme'],
+  ['title', 'contains_any', 'retro, standup'],
+  ['title', 'contains_any', ['planning', 'offsite']],
+  ['title', 'matches_regex', '^acme\\s+(weekly|planning)'],
+  ['title', 'matches_regex', '(unclosed'],
+  ['description', 'contains', 'bigquery'],
+  ['description', 'not_contains', 'bigquery'],
+  ['organizer', 'equals', 'alice@egen.ai'],
+  ['organizer', 'ends_with', '@egen.ai'],
+  ['organizer', 'in_project_team', 'p-data'],
+  ['organizer', 'in_project_team', 'p-missing'],
+  ['attendee_domains', 'contains', ['acme.com']],
+  ['attendee_domains', 'intersects', 'globex.com, initech.com'],
+  ['all_attendees_domain', 'equals', 'egen.ai'],
+  ['attendee_count', 'greater_than', '2'],
+  ['attendee_count', 'equals', '0'],
+  ['attendee_count', 'less_than', 'many'],
+  ['duration_minutes', 'less_than', '30'],
+  ['duration_minutes', 'equals', '60'],
+  ['weekday', 'is_any_of', ['monday']],
+  ['weekday', 'is_none_of', 'saturday, sunday'],
+  ['weekday', 'is_any_of', ['friday']],
+  ['location', 'equals', 'x'],
+  ['title', 'matches_regex', '(a+)+$'],
+  ['title', 'matches_regex', 'acme|'.repeat(50)],
+].map(([field, operator, value]) => ({ field, operator, value }));
+
+const groups = {
+  and: {
+    operator: 'AND',
+    rules: [conditions[0], conditions[14]],
+  },
+  or: {
+    operator: 'OR',
+    rules: [conditions[2], conditions[3]],
+  },
+  nested: {
+    operator: 'AND',
+    rules: [
+      conditions[11],
+      { operator: 'OR', negate: true, rules: [conditions[4], conditions[16]] },
+    ],
+  },
+  negated: {
+    operator: 'AND',
+    negate: true,
+    rules: [conditions[1]],
+  },
+  empty: { operator: 'AND', rules: [] },
+  emptyNegated: { operator: 'OR', negate: true, rules: [] },
+};
+
+const schedules = {
+  always: {},
+  dated: { active_from: '2026-02-01', active_until: '2026-02-09' },
+  notYet: { active_from: '2026-03-01' },
+  workHours: {
+    active_windows: [{ weekdays: ['monday', 'tuesday'], start_time: '09:00', end_time: '12:00' }],
+  },
+  overnight: {
+    active_windows: [{ weekdays: [], start_time: '22:00', end_time: '06:00' }],
+  },
+  weekdaysOnly: {
+    active_windows: [{ weekdays: ['monday', 'wednesday', 'friday'], start_time: null, end_time: null }],
+  },
+  eveningFrom: {
+    active_windows: [{ weekdays: [], start_time: '18:00', end_time: null }],
+  },
+};
+
+// Late Monday evening UTC, for meetings without a start time
+const now = new Date(Date.UTC(2026, 1, 9, 22, 45));
+
+function domainsOf(meeting) {
+  return dashboard.getAttendeeDomains(meeting);
+}
+
+function cases(object) {
+  return Object.entries(object);
+}
+
+describe('rule engine parity (classify and dashboard)', () => {
+  describe('meeting start', () => {
+    test.each(cases(meetings))('%s: same weekday, date and time of day', (_, meeting) => {
+      expect(server.getMeetingWeekday(meeting)).toBe(dashboard.getMeetingWeekday(meeting));
+      expect(server.getMeetingDate(meeting)).toBe(dashboard.getMeetingDate(meeting));
+      expect(server.getMeetingTimeOfDay(meeting)).toBe(dashboard.getMeetingTimeOfDay(meeting));
+      expect(server.getMeetingDuration(meeting)).toBe(dashboard.getMeetingDuration(meeting));
+    });
+
+    test('ISO strings are read as written and Date values in UTC', () => {
+      expect(server.getMeetingWeekday(meetings.internal)).toBe('friday');
+      expect(server.getMeetingTimeOfDay(meetings.internal)).toBe('23:30');
+      expect(server.getMeetingWeekday(meetings.stored)).toBe('monday');
+      expect(server.getMeetingDate(meetings.stored)).toBe('2026-02-09');
+      expect(server.getMeetingTimeOfDay(meetings.stored)).toBe('23:30');
+    });
+  });
+
+  describe('conditions', () => {
+    test.each(cases(meetings))('%s: every condition evaluates the same', (_, meeting) => {
+      for (const condition of conditions) {
+        const expected = dashboard.evaluateCondition(condition, meeting, { projects }).matched;
+        const actual = server.evaluateCondition(condition, meeting, domainsOf(meeting), projects);
+        expect({ condition, matched: actual }).toEqual({ condition, matched: expected });
+      }
+    });
+  });
+
+  describe('condition groups', () => {
+    test.each(cases(groups))('%s group', (_, group) => {
+      for (const meeting of Object.values(meetings)) {
+        const expected = dashboard.evaluateConditionGroup(group, meeting, { projects }).matched;
+        expect(server.evaluateConditionGroup(group, meeting, domainsOf(meeting), projects)).toBe(expected);
+      }
+    });
+  });
+
+  describe('schedules', () => {
+    test.each(cases(schedules))('%s schedule', (_, schedule) => {
+      const rule = {
+        id: 'rule_1',
+        name: 'Any meeting',
+        priority: 10,
+        status: 'active',
+        conditions: { operator: 'OR', negate: true, rules: [{ field: 'title', operator: 'equals', value: 'never' }] },
+        ...schedule,
+      };
+      for (const [name, meeting] of cases(meetings)) {
+        const expected = dashboard.evaluateRule(rule, meeting, { projects, now }).matched;
+        const actual = server.evaluateRule(rule, meeting, domainsOf(meeting), projects, now);
+        expect({ meeting: name, matched: actual }).toEqual({ meeting: name, matched: expected });
+      }
+    });
+
+    test.each([
+      ['2026-02-08', new Date(Date.UTC(2026, 1, 9, 0, 30))],
+      ['2026-02-09', new Date(Date.UTC(2026, 1, 9, 0, 30))],
+      ['2026-02-09', new Date(Date.UTC(2026, 1, 9, 23, 59))],
+      ['2026-02-09', new Date(Date.UTC(2026, 1, 10, 0, 0))],
+      ['2026-02-10', new Date(Date.UTC(2026, 1, 10, 0, 0))],
+    ])('rule active until %s expires at the same moment (%s)', (activeUntil, at) => {
+      const rule = { active_until: activeUntil };
+      expect(server.isRuleExpired(rule, at)).toBe(dashboard.isRuleExpired(rule, at));
+    });
+  });
+
+  describe('rule actions', () => {
+    const current = { type: 'client', client_id: 'c-acme', project_id: 'p-data' };
+
+    test.each([
+      [{ classify_as: 'internal' }],
+      [{ client_id: 'c-globex' }],
+      [{ client_id: 'c-acme' }],
+      [{ project_id: 'p-web' }],
+      [{ classify_as: 'client', client_id: 'c-acme', project_id: 'p-web' }],
+      [{ share_with: ['team@egen.ai'] }],
+      [undefined],
+    ])('%j produces the same classification', (actions) => {
+      expect(server.applyRuleActionsToClassification(current, actions)).toEqual(
+        dashboard.applyRuleActions(current, actions)
+      );
+    });
+  });
+});
@@ -0,0 +1,737 @@
+/**
+ * Egen Meeting Notes - Dashboard Rule Engine Tests
+ * Unit tests for dashboard/lib/rule-engine.ts
+ */
+
+const {
+  FIELD_OPTIONS,
+  OPERATOR_OPTIONS,
+  evaluateCondition,
+  evaluateConditionGroup,
+  evaluateRule,
+  evaluateRules,
+  sortRulesByPriority,
+  applyConfidenceBoost,
+  getAttendeeDomains,
+  noteToRuleMeeting,
+  getConditionError,
+  validateConditionGroup,
+  getDefaultOperator,
+  isConditionGroup,
+  flattenConditions,
+  describeConditionGroup,
+  describeRuleConditions,
+  getMeetingWeekday,
+  getMeetingDuration,
+  getRegexError,
+  getConditionValueInput,
+  applyRuleActions,
+  describeClassification,
+  getMeetingDate,
+  getMeetingTimeOfDay,
+  getRuleScheduleReason,
+  getDaysUntilRuleExpiry,
+  isRuleExpired,
+  isRuleExpiringSoon,
+  describeRuleSchedule,
+  validateRuleSchedule,
+} = require('../dashboard/lib/rule-engine.ts');
+
+const meeting = {
+  title: 'Acme Weekly Sync - Data Platform',
+  description: 'Review BigQuery migration progress',
+  organizer: 'Alice@Egen.ai',
+  attendees: [
+    { email: 'alice@egen.ai' },
+    { email: 'john@ACME.com' },
+    { email: 'jane@acme.com' },
+  ],
+};
+
+const internalMeeting = {
+  title: 'Daily Standup',
+  organizer: 'bob@egen.ai',
+  attendees: [{ email: 'bob@egen.ai' }, { email: 'carol@egen.ai' }],
+};
+
+function condition(field, operator, value) {
+  return { field, operator, value };
+}
+
+function rule(overrides = {}) {
+  return {
+    id: 'rule_1',
+    name: 'Rule 1',
+    priority: 50,
+    status: 'active',
+    conditions: { operator: 'AND', rules: [] },
+    ...overrides,
+  };
+}
+
+describe('rule engine', () => {
+  describe('operator catalogue', () => {
+    test('every field has at least one operator', () => {
+      for (const field of FIELD_OPTIONS) {
+        expect(OPERATOR_OPTIONS[field.value].length).toBeGreaterThan(0);
+      }
+    });
+
+    test('every catalogued operator is implemented', () => {
+      for (const field of FIELD_OPTIONS) {
+        for (const operator of OPERATOR_OPTIONS[field.value]) {
+          const result = evaluateCondition(condition(field.value, operator.value, 'x'), meeting);
+          expect(result.explanation).not.toMatch(/Unsupported operator|Unknown field/);
+        }
+      }
+    });
+
+    test('default operator is the first one listed', () => {
+      expect(getDefaultOperator('organizer')).toBe('equals');
+      expect(getDefaultOperator('unknown')).toBe('contains');
+    });
+  });
+
+  describe('text conditions', () => {
+    test.each([
+      ['title', 'contains', 'weekly sync', true],
+      ['title', 'contains', 'WEEKLY', true],
+      ['title', 'contains', 'standup', false],
+      ['title', 'equals', 'acme weekly sync - data platform', true],
+      ['title', 'equals', 'acme weekly sync', false],
+      ['title', 'starts_with', 'Acme', true],
+      ['title', 'starts_with', 'Weekly', false],
+      ['title', 'contains_any', ['standup', 'data platform'], true],
+      ['title', 'contains_any', ['standup', 'retro'], false],
+      ['title', 'contains_any', 'retro, weekly', true],
+      ['description', 'contains', 'bigquery', true],
+      ['description', 'equals', 'review bigquery migration progress', true],
+      ['description', 'starts_with', 'review', true],
+      ['description', 'contains_any', ['snowflake', 'migration'], true],
+      ['description', 'contains_any', ['snowflake'], false],
+    ])('%s %s %j -> %s', (field, operator, value, expected) => {
+      expect(evaluateCondition(condition(field, operator, value), meeting).matched).toBe(expected);
+    });
+
+    test('empty values never match', () => {
+      expect(evaluateCondition(condition('title', 'contains', ''), meeting).matched).toBe(false);
+      expect(evaluateCondition(condition('title', 'starts_with', ''), meeting).matched).toBe(false);
+      expect(evaluateCondition(condition('title', 'contains_any', []), meeting).matched).toBe(false);
+    });
+
+    test('missing text fails with an explanation', () => {
+      const result = evaluateCondition(condition('description', 'contains', 'x'), internalMeeting);
+      expect(result.matched).toBe(false);
+      expect(result.explanation).toBe('Field is empty');
+    });
+  });
+
+  describe('organizer conditions', () => {
+    test('equals is case-insensitive', () => {
+      expect(evaluateCondition(condition('organizer', 'equals', 'alice@egen.ai'), meeting).matched).toBe(true);
+      expect(evaluateCondition(condition('organizer', 'equals', 'bob@egen.ai'), meeting).matched).toBe(false);
+    });
+
+    test('ends_with matches a domain suffix', () => {
+      expect(evaluateCondition(condition('organizer', 'ends_with', '@egen.ai'), meeting).matched).toBe(true);
+      expect(evaluateCondition(condition('organizer', 'ends_with', '@acme.com'), meeting).matched).toBe(false);
+    });
+
+    test('no organizer never matches', () => {
+      const result = evaluateCondition(condition('organizer', 'equals', 'a@b.com'), { title: 'x' });
+      expect(result.matched).toBe(false);
+      expect(result.explanation).toBe('Meeting has no organizer');
+    });
+  });
+
+  describe('attendee domain conditions', () => {
+    test('domains are lowercased and de-duplicated', () => {
+      expect(getAttendeeDomains(meeting)).toEqual(['egen.ai', 'acme.com']);
+    });
+
+    test('accepts plain email strings', () => {
+      expect(getAttendeeDomains({ attendees: ['a@x.com', 'b@Y.com', 'no-domain'] })).toEqual(['x.com', 'y.com']);
+    });
+
+    test.each(['contains', 'intersects'])('%s matches any listed domain', (operator) => {
+      expect(evaluateCondition(condition('attendee_domains', operator, ['beta.com', 'acme.com']), meeting).matched).toBe(true);
+      expect(evaluateCondition(condition('attendee_domains', operator, ['beta.com']), meeting).matched).toBe(false);
+    });
+
+    test('matches whole domains only', () => {
+      expect(evaluateCondition(condition('attendee_domains', 'contains', 'me.com'), meeting).matched).toBe(false);
+      expect(evaluateCondition(condition('attendee_domains', 'contains', 'ACME.com'), meeting).matched).toBe(true);
+    });
+
+    test('all_attendees_domain requires every attendee to share the domain', () => {
+      expect(evaluateCondition(condition('all_attendees_domain', 'equals', 'egen.ai'), internalMeeting).matched).toBe(true);
+      const mixed = evaluateCondition(condition('all_attendees_domain', 'equals', 'egen.ai'), meeting);
+      expect(mixed.matched).toBe(false);
+      expect(mixed.explanation).toBe('Also attended by acme.com');
+    });
+
+    test('no attendees never matches', () => {
+      expect(evaluateCondition(condition('all_attendees_domain', 'equals', 'egen.ai'), { title: 'x' }).matched).toBe(false);
+      expect(evaluateCondition(condition('attendee_domains', 'contains', ['egen.ai']), { title: 'x' }).matched).toBe(false);
+    });
+  });
+
+  describe('negated and regex text conditions', () => {
+    test('not_contains', () => {
+      expect(evaluateCondition(condition('title', 'not_contains', 'standup'), meeting).matched).toBe(true);
+      expect(evaluateCondition(condition('title', 'not_contains', 'SYNC'), meeting).matched).toBe(false);
+    });
+
+    test('not_contains holds for an empty field', () => {
+      expect(evaluateCondition(condition('description', 'not_contains', 'x'), internalMeeting).matched).toBe(true);
+    });
+
+    test('matches_regex is case-insensitive', () => {
+      expect(evaluateCondition(condition('title', 'matches_regex', '^ACME\\b'), meeting).matched).toBe(true);
+      expect(evaluateCondition(condition('title', 'matches_regex', 'sync$'), meeting).matched).toBe(false);
+    });
+
+    test('invalid regex never matches and is reported', () => {
+      const result = evaluateCondition(condition('title', 'matches_regex', '(acme'), meeting);
+      expect(result.matched).toBe(false);
+      expect(result.explanation).toMatch(/Invalid regular expression/);
+      expect(getRegexError('(acme')).toMatch(/Invalid regular expression/);
+      expect(getRegexError('acme|globex')).toBeNull();
+    });
+
+    test('slow or oversized regexes are rejected and never match', () => {
+      expect(getRegexError('(a+)+$')).toMatch(/repeats a group that already repeats/);
+      expect(getRegexError('(\\w+\\s?)*')).toMatch(/repeats a group that already repeats/);
+      expect(getRegexError('((ab)+c){2,}')).toMatch(/repeats a group that already repeats/);
+      expect(getRegexError('a'.repeat(201))).toBe('Regular expression must be at most 200 characters');
+      expect(getRegexError('^(foo|bar)+$')).toBeNull();
+      expect(getRegexError('[(a+)]+')).toBeNull();
+      expect(getRegexError('\\(a+\\)+')).toBeNull();
+
+      const slow = { ...meeting, title: `${'a'.repeat(40)}!` };
+      expect(evaluateCondition(condition('title', 'matches_regex', '(a+)+$'), slow).matched).toBe(false);
+    });
+  });
+
+  describe('attendee count, duration and weekday conditions', () => {
+    const scheduled = {
+      ...meeting,
+      start_time: '2026-01-05T17:00:00-08:00',
+      end_time: '2026-01-05T17:15:00-08:00',
+    };
+
+    test('attendee count compares numerically', () => {
+      expect(evaluateCondition(condition('attendee_count', 'greater_than', '2'), meeting).matched).toBe(true);
+      expect(evaluateCondition(condition('attendee_count', 'greater_than', '8'), meeting).matched).toBe(false);
+      expect(evaluateCondition(condition('attendee_count', 'equals', '3'), meeting).matched).toBe(true);
+    });
+
+    test('duration comes from start and end times or the stored duration', () => {
+      expect(getMeetingDuration(scheduled)).toBe(15);
+      expect(getMeetingDuration({ ...scheduled, duration_minutes: 45 })).toBe(45);
+      expect(getMeetingDuration(meeting)).toBeNull();
+      expect(evaluateCondition(condition('duration_minutes', 'less_than', '20'), scheduled).matched).toBe(true);
+    });
+
+    test('missing duration never matches', () => {
+      const result = evaluateCondition(condition('duration_minutes', 'less_than', '20'), meeting);
+      expect(result.matched).toBe(false);
+      expect(result.explanation).toBe('Meeting has no duration');
+    });
+
+    test('weekday uses the calendar date of an ISO start time', () => {
+      expect(getMeetingWeekday(scheduled)).toBe('monday');
+      expect(evaluateCondition(condition('weekday', 'is_any_of', ['monday', 'friday']), scheduled).matched).toBe(true);
+      expect(evaluateCondition(condition('weekday', 'is_none_of', ['monday']), scheduled).matched).toBe(false);
+      expect(evaluateCondition(condition('weekday', 'is_any_of', ['monday']), meeting).matched).toBe(false);
+    });
+
+    test('noteToRuleMeeting carries meeting times', () => {
+      const start = new Date(2026, 0, 9, 10, 0);
+      const end = new Date(2026, 0, 9, 10, 30);
+      const converted = noteToRuleMeeting({
+        id: 'n1',
+        meeting: { title: 'Retro', start_time: { toDate: () => start }, end_time: { toDate: () => end } },
+      });
+      expect(getMeetingWeekday(converted)).toBe('friday');
+      expect(getMeetingDuration(converted)).toBe(30);
+    });
+  });
+
+  describe('organizer in project team', () => {
+    const projects = [
+      { id: 'p1', project_name: 'Data Platform', team: [{ email: 'alice@egen.ai', role: 'lead', name: 'Alice' }] },
+      { id: 'p2', project_name: 'Mobile', team: [] },
+    ];
+
+    test('matches team members case-insensitively', () => {
+      const result = evaluateCondition(condition('organizer', 'in_project_team', 'p1'), meeting, { projects });
+      expect(result.matched).toBe(true);
+      expect(result.explanation).toBe('alice@egen.ai is on the Data Platform team');
+      expect(evaluateCondition(condition('organizer', 'in_project_team', 'p2'), meeting, { projects }).matched).toBe(false);
+    });
+
+    test('needs project data', () => {
+      expect(evaluateCondition(condition('organizer', 'in_project_team', 'p1'), meeting).explanation)
+        .toBe('Project teams are not available');
+      expect(evaluateCondition(condition('organizer', 'in_project_team', 'gone'), meeting, { projects }).matched)
+        .toBe(false);
+    });
+
+    test('context is passed through rules and rule sets', () => {
+      const rule = {
+        id: 'team',
+        name: 'Team',
+        priority: 1,
+        status: 'active',
+        conditions: { operator: 'AND', rules: [condition('organizer', 'in_project_team', 'p1')] },
+      };
+      expect(evaluateRule(rule, meeting, { projects }).matched).toBe(true);
+      expect(evaluateRules([rule], meeting, { context: { projects } }).matchedRule).toBe(rule);
+    });
+  });
+
+  describe('value inputs', () => {
+    test('picks an input per field and operator', () => {
+      expect(getConditionValueInput('title', 'contains')).toBe('text');
+      expect(getConditionValueInput('title', 'matches_regex')).toBe('regex');
+      expect(getConditionValueInput('attendee_count', 'greater_than')).toBe('number');
+      expect(getConditionValueInput('weekday', 'is_any_of')).toBe('weekdays');
+      expect(getConditionValueInput('attendee_domains', 'contains')).toBe('domains');
+      expect(getConditionValueInput('organizer', 'in_project_team')).toBe('project');
+    });
+  });
+
+  describe('unknown fields and operators', () => {
+    test('unknown field fails', () => {
+      const result = evaluateCondition(condition('location', 'equals', 'HQ'), meeting);
+      expect(result.matched).toBe(false);
+      expect(result.explanation).toBe('Unknown field "location"');
+    });
+
+    test('operator not offered for a field fails', () => {
+      const result = evaluateCondition(condition('organizer', 'contains', 'egen'), meeting);
+      expect(result.matched).toBe(false);
+      expect(result.explanation).toBe('Unsupported operator "contains"');
+    });
+  });
+
+  describe('explanations', () => {
+    test('label describes the condition', () => {
+      const result = evaluateCondition(condition('title', 'contains_any', ['a', 'b']), meeting);
+      expect(result.label).toBe('Meeting Title contains any of [a, b]');
+    });
+
+    test('explanation names the value that matched', () => {
+      const result = evaluateCondition(condition('title', 'contains_any', ['retro', 'sync']), meeting);
+      expect(result.explanation).toContain('"sync"');
+    });
+  });
+
+  describe('condition groups', () => {
+    const passing = condition('title', 'contains', 'acme');
+    const failing = condition('title', 'contains', 'standup');
+
+    test('AND requires every condition', () => {
+      expect(evaluateConditionGroup({ operator: 'AND', rules: [passing, passing] }, meeting).matched).toBe(true);
+      expect(evaluateConditionGroup({ operator: 'AND', rules: [passing, failing] }, meeting).matched).toBe(false);
+    });
+
+    test('OR requires any condition', () => {
+      expect(evaluateConditionGroup({ operator: 'OR', rules: [failing, passing] }, meeting).matched).toBe(true);
+      expect(evaluateConditionGroup({ operator: 'OR', rules: [failing, failing] }, meeting).matched).toBe(false);
+    });
+
+    test('every condition is explained, even after the outcome is known', () => {
+      const { conditions } = evaluateConditionGroup({ operator: 'OR', rules: [passing, failing] }, meeting);
+      expect(conditions.map((c) => c.matched)).toEqual([true, false]);
+    });
+
+    test('empty group never matches', () => {
+      expect(evaluateConditionGroup({ operator: 'AND', rules: [] }, meeting).matched).toBe(false);
+      expect(evaluateConditionGroup(undefined, meeting).matched).toBe(false);
+    });
+  });
+
+  describe('nested condition groups', () => {
+    const passing = condition('title', 'contains', 'acme');
+    const failing = condition('title', 'contains', 'standup');
+
+    test('nested groups combine with their parent', () => {
+      const group = {
+        operator: 'AND',
+        rules: [passing, { operator: 'OR', rules: [failing, condition('organizer', 'ends_with', '@egen.ai')] }],
+      };
+      expect(evaluateConditionGroup(group, meeting).matched).toBe(true);
+      expect(evaluateConditionGroup(group, internalMeeting).matched).toBe(false);
+    });
+
+    test('NOT inverts a nested group', () => {
+      const group = { operator: 'AND', rules: [passing, { operator: 'OR', negate: true, rules: [failing] }] };
+      expect(evaluateConditionGroup(group, meeting).matched).toBe(true);
+    });
+
+    test('NOT inverts the root group', () => {
+      expect(evaluateConditionGroup({ operator: 'AND', negate: true, rules: [passing] }, meeting).matched).toBe(false);
+      expect(evaluateConditionGroup({ operator: 'AND', negate: true, rules: [failing] }, meeting).matched).toBe(true);
+    });
+
+    test('empty nested group never matches, even when negated', () => {
+      const group = { operator: 'OR', rules: [failing, { operator: 'AND', negate: true, rules: [] }] };
+      expect(evaluateConditionGroup(group, meeting).matched).toBe(false);
+    });
+
+    test('conditions are listed depth first and the tree mirrors the groups', () => {
+      const group = { operator: 'AND', rules: [{ operator: 'OR', rules: [failing, passing] }, passing] };
+      const { conditions, tree } = evaluateConditionGroup(group, meeting);
+      expect(conditions.map((c) => c.matched)).toEqual([false, true, true]);
+      expect(tree.children[0].matched).toBe(true);
+      expect(tree.children[0].children).toHaveLength(2);
+    });
+
+    test('flat rules keep evaluating the same way', () => {
+      const rule = { id: 'flat', name: 'Flat', priority: 1, conditions: { operator: 'OR', rules: [failing, passing] } };
+      expect(evaluateRule(rule, meeting).matched).toBe(true);
+    });
+
+    test('isConditionGroup and flattenConditions', () => {
+      const nested = { operator: 'OR', rules: [failing] };
+      expect(isConditionGroup(nested)).toBe(true);
+      expect(isConditionGroup(passing)).toBe(false);
+      expect(flattenConditions({ operator: 'AND', rules: [passing, nested] })).toEqual([passing, failing]);
+    });
+
+    test('validation rejects empty nested groups and recurses', () => {
+      expect(validateConditionGroup({ operator: 'AND', rules: [passing, { operator: 'OR', rules: [] }] }))
+        .toBe('Condition groups cannot be empty');
+      expect(validateConditionGroup({ operator: 'AND', rules: [{ operator: 'OR', rules: [condition('title', 'contains', '')] }] }))
+        .toBe('All conditions must have a value');
+    });
+  });
+
+  describe('summary sentence', () => {
+    test('joins conditions and parenthesises nested groups', () => {
+      const group = {
+        operator: 'AND',
+        rules: [
+          condition('title', 'contains', 'sync'),
+          { operator: 'OR', rules: [condition('title', 'contains', 'a'), condition('title', 'contains', 'b')] },
+          { operator: 'AND', negate: true, rules: [condition('title', 'contains', 'c')] },
+        ],
+      };
+      expect(describeConditionGroup(group)).toBe(
+        'Meeting Title contains "sync" and (Meeting Title contains "a" or Meeting Title contains "b") and not (Meeting Title contains "c")'
+      );
+    });
+
+    test('applies the root NOT and handles empty groups', () => {
+      expect(describeRuleConditions({ operator: 'AND', negate: true, rules: [condition('title', 'contains', 'x')] }))
+        .toBe('not (Meeting Title contains "x")');
+      expect(describeConditionGroup({ operator: 'AND', rules: [] })).toBe('no conditions');
+    });
+  });
+
+  describe('evaluateRule', () => {
+    test('rule without conditions reports why', () => {
+      const result = evaluateRule(rule({ conditions: undefined }), meeting);
+      expect(result.matched).toBe(false);
+      expect(result.reason).toBe('No conditions defined');
+    });
+
+    test('evaluates regardless of status', () => {
+      const disabled = rule({
+        status: 'disabled',
+        conditions: { operator: 'AND', rules: [condition('title', 'contains', 'acme')] },
+      });
+      expect(evaluateRule(disabled, meeting).matched).toBe(true);
+    });
+  });
+
+  describe('evaluateRules', () => {
+    const matchesAcme = { operator: 'AND', rules: [condition('attendee_domains', 'contains', ['acme.com'])] };
+    const matchesTitle = { operator: 'AND', rules: [condition('title', 'contains', 'weekly')] };
+    const matchesNothing = { operator: 'AND', rules: [condition('title', 'contains', 'standup')] };
+
+    test('highest priority matching rule wins', () => {
+      const rules = [
+        rule({ id: 'low', priority: 10, conditions: matchesAcme }),
+        rule({ id: 'high', priority: 90, conditions: matchesTitle }),
+      ];
+      expect(evaluateRules(rules, meeting).matchedRule.id).toBe('high');
+    });
+
+    test('stops at the first match by default', () => {
+      const rules = [
+        rule({ id: 'a', priority: 90, conditions: matchesNothing }),
+        rule({ id: 'b', priority: 50, conditions: matchesAcme }),
+        rule({ id: 'c', priority: 10, conditions: matchesTitle }),
+      ];
+      const result = evaluateRules(rules, meeting);
+      expect(result.evaluations.map((e) => e.rule.id)).toEqual(['a', 'b']);
+    });
+
+    test('evaluateAll keeps going but keeps the same winner', () => {
+      const rules = [
+        rule({ id: 'a', priority: 50, conditions: matchesAcme }),
+        rule({ id: 'b', priority: 10, conditions: matchesTitle }),
+      ];
+      const result = evaluateRules(rules, meeting, { evaluateAll: true });
+      expect(result.matchedRule.id).toBe('a');
+      expect(result.evaluations.map((e) => e.matched)).toEqual([true, true]);
+    });
+
+    test('only active rules run by default', () => {
+      const rules = [
+        rule({ id: 'testing', priority: 90, status: 'testing', conditions: matchesAcme }),
+        rule({ id: 'disabled', priority: 80, status: 'disabled', conditions: matchesAcme }),
+        rule({ id: 'active', priority: 10, conditions: matchesAcme }),
+      ];
+      expect(evaluateRules(rules, meeting).matchedRule.id).toBe('active');
+      expect(evaluateRules(rules, meeting, { statuses: ['active', 'testing'] }).matchedRule.id).toBe('testing');
+    });
+
+    test('rules without a status are treated as active', () => {
+      const rules = [rule({ status: undefined, conditions: matchesAcme })];
+      expect(evaluateRules(rules, meeting).matchedRule).not.toBeNull();
+    });
+
+    test('returns the winner\'s confidence boost', () => {
+      const rules = [rule({ confidence_boost: 0.2, conditions: matchesAcme })];
+      expect(evaluateRules(rules, meeting).confidenceBoost).toBe(0.2);
+      expect(evaluateRules(rules, internalMeeting).confidenceBoost).toBe(0);
+    });
+
+    test('no match returns null', () => {
+      const result = evaluateRules([rule({ conditions: matchesNothing })], meeting);
+      expect(result.matchedRule).toBeNull();
+      expect(result.evaluations).toHaveLength(1);
+    });
+  });
+
+  describe('sortRulesByPriority', () => {
+    test('sorts descending and keeps ties in order', () => {
+      const rules = [
+        { id: 'a', priority: 10 },
+        { id: 'b', priority: 50 },
+        { id: 'c', priority: 50 },
+        { id: 'd' },
+      ];
+      expect(sortRulesByPriority(rules).map((r) => r.id)).toEqual(['b', 'c', 'a', 'd']);
+    });
+
+    test('does not mutate its input', () => {
+      const rules = [{ id: 'a', priority: 1 }, { id: 'b', priority: 2 }];
+      sortRulesByPriority(rules);
+      expect(rules[0].id).toBe('a');
+    });
+  });
+
+  describe('applyConfidenceBoost', () => {
+    test('adds the boost', () => {
+      expect(applyConfidenceBoost(0.5, { confidence_boost: 0.2 })).toBeCloseTo(0.7);
+    });
+
+    test('caps at 0.99', () => {
+      expect(applyConfidenceBoost(0.9, { confidence_boost: 0.3 })).toBe(0.99);
+    });
+
+    test('no rule or boost leaves confidence unchanged', () => {
+      expect(applyConfidenceBoost(0.5, null)).toBe(0.5);
+      expect(applyConfidenceBoost(0.5, {})).toBe(0.5);
+    });
+  });
+
+  describe('noteToRuleMeeting', () => {
+    test('reads meeting fields from a note', () => {
+      const note = {
+        id: 'n1',
+        meeting: { title: 'Sync', description: 'Desc', organizer: 'a@b.com', attendees: [{ email: 'a@b.com' }] },
+      };
+      expect(noteToRuleMeeting(note)).toEqual({
+        title: 'Sync',
+        description: 'Desc',
+        organizer: 'a@b.com',
+        attendees: [{ email: 'a@b.com' }],
+        start_time: null,
+        end_time: null,
+        duration_minutes: null,
+      });
+    });
+
+    test('falls back to the legacy title', () => {
+      expect(noteToRuleMeeting({ id: 'n1', title: 'Legacy' }).title).toBe('Legacy');
+    });
+  });
+
+  describe('applyRuleActions', () => {
+    const acmeProject = { type: 'client', client_id: 'c-acme', project_id: 'p-data' };
+
+    test('sets the fields the rule defines', () => {
+      expect(applyRuleActions({ type: 'uncategorized', client_id: null, project_id: null }, {
+        classify_as: 'client', client_id: 'c-acme', project_id: 'p-data',
+      })).toEqual(acmeProject);
+    });
+
+    test('keeps the project when the client is unchanged', () => {
+      expect(applyRuleActions(acmeProject, { client_id: 'c-acme' })).toEqual(acmeProject);
+    });
+
+    test('clears the project when the client changes', () => {
+      expect(applyRuleActions(acmeProject, { client_id: 'c-globex' }))
+        .toEqual({ type: 'client', client_id: 'c-globex', project_id: null });
+    });
+
+    test('leaving the client type clears client and project', () => {
+      expect(applyRuleActions(acmeProject, { classify_as: 'internal' }))
+        .toEqual({ type: 'internal', client_id: null, project_id: null });
+    });
+
+    test('rules without classification actions change nothing', () => {
+      expect(applyRuleActions(acmeProject, { share_with: ['a@egen.ai'] })).toEqual(acmeProject);
+      expect(applyRuleActions(acmeProject, undefined)).toEqual(acmeProject);
+    });
+  });
+
+  describe('describeClassification', () => {
+    const names = {
+      clients: [{ id: 'c-acme', name: 'Acme' }],
+      projects: [{ id: 'p-web', project_name: 'Website' }],
+    };
+
+    test('names client and project', () => {
+      expect(describeClassification({ type: 'client', client_id: 'c-acme', project_id: 'p-web' }, names)).toBe('Acme / Website');
+      expect(describeClassification({ type: 'client', client_id: 'c-gone', project_id: null }, names)).toBe('Unknown client');
+    });
+
+    test('labels other types and missing matches', () => {
+      expect(describeClassification({ type: 'internal', client_id: null, project_id: null }, names)).toBe('Internal');
+      expect(describeClassification(null, names)).toBe('No match');
+    });
+  });
+
+  describe('validation', () => {
+    test('valid group passes', () => {
+      expect(validateConditionGroup({ operator: 'AND', rules: [condition('title', 'contains', 'x')] })).toBeNull();
+    });
+
+    test('requires at least one condition', () => {
+      expect(validateConditionGroup({ operator: 'AND', rules: [] })).toBe('At least one condition is required');
+    });
+
+    test('requires a value', () => {
+      expect(getConditionError(condition('title', 'contains', '  '))).toBe('All conditions must have a value');
+      expect(getConditionError(condition('attendee_domains', 'contains', []))).toBe('All conditions must have a value');
+      expect(getConditionError(condition('title', 'contains_any', ' , '))).toBe('All conditions must have a value');
+    });
+
+    test('checks numbers, regexes and weekdays', () => {
+      expect(getConditionError(condition('attendee_count', 'greater_than', 'eight'))).toBe('Attendee Count must be a positive number');
+      expect(getConditionError(condition('duration_minutes', 'less_than', '-5'))).toBe('Duration (minutes) must be a positive number');
+      expect(getConditionError(condition('title', 'matches_regex', '[a-'))).toMatch(/Invalid regular expression/);
+      expect(getConditionError(condition('title', 'matches_regex', '(a+)+'))).toMatch(/repeats a group/);
+      expect(getConditionError(condition('weekday', 'is_any_of', ['funday']))).toBe('Unknown weekday "funday"');
+      expect(getConditionError(condition('weekday', 'is_any_of', []))).toBe('All conditions must have a value');
+    });
+
+    test('rejects unknown fields and operators', () => {
+      expect(getConditionError(condition('location', 'equals', 'x'))).toBe('Unknown field "location"');
+      expect(getConditionError(condition('organizer', 'contains', 'x'))).toBe('Organizer Email does not support "contains"');
+    });
+  });
+
+  describe('rule schedules', () => {
+    const titleRule = (schedule) =>
+      rule({
+        conditions: { operator: 'AND', rules: [condition('title', 'contains', 'acme')] },
+        ...schedule,
+      });
+    // Monday 9 Feb 2026, 10:30 in the meeting's own timezone
+    const mondayMeeting = { ...meeting, start_time: '2026-02-09T10:30:00-05:00' };
+    const workHours = { weekdays: ['monday', 'tuesday'], start_time: '09:00', end_time: '12:00' };
+
+    test('reads the meeting date and time from ISO strings as written', () => {
+      expect(getMeetingDate(mondayMeeting)).toBe('2026-02-09');
+      expect(getMeetingTimeOfDay(mondayMeeting)).toBe('10:30');
+      expect(getMeetingTimeOfDay({ start_time: '2026-02-09' })).toBeNull();
+      expect(getMeetingDate({})).toBeNull();
+    });
+
+    test('only matches meetings between the active dates, inclusive', () => {
+      const scheduled = titleRule({ active_from: '2026-02-01', active_until: '2026-02-09' });
+      expect(evaluateRule(scheduled, mondayMeeting).matched).toBe(true);
+
+      const later = evaluateRule(scheduled, { ...mondayMeeting, start_time: '2026-02-10T09:00:00Z' });
+      expect(later.matched).toBe(false);
+      expect(later.reason).toBe('Only active until 2026-02-09');
+      // Conditions are still explained
+      expect(later.conditions[0].matched).toBe(true);
+
+      const earlier = evaluateRule(scheduled, { ...mondayMeeting, start_time: '2026-01-31T09:00:00Z' });
+      expect(earlier.reason).toBe('Not active until 2026-02-01');
+    });
+
+    test('only matches meetings starting inside a time window', () => {
+      const scheduled = titleRule({ active_windows: [workHours] });
+      expect(evaluateRule(scheduled, mondayMeeting).matched).toBe(true);
+
+      const afternoon = evaluateRule(scheduled, { ...mondayMeeting, start_time: '2026-02-09T12:00:00Z' });
+      expect(afternoon.matched).toBe(false);
+      expect(afternoon.reason).toBe('Outside its time windows (Mon, Tue 09:00-12:00)');
+
+      const wednesday = { ...mondayMeeting, start_time: '2026-02-11T10:30:00Z' };
+      expect(evaluateRule(scheduled, wednesday).matched).toBe(false);
+    });
+
+    test('supports windows that run past midnight and any-day windows', () => {
+      const overnight = { weekdays: [], start_time: '22:00', end_time: '06:00' };
+      expect(getRuleScheduleReason({ active_windows: [overnight] }, { start_time: '2026-02-09T23:15' })).toBeNull();
+      expect(getRuleScheduleReason({ active_windows: [overnight] }, { start_time: '2026-02-09T05:59' })).toBeNull();
+      expect(getRuleScheduleReason({ active_windows: [overnight] }, { start_time: '2026-02-09T06:00' })).not.toBeNull();
+    });
+
+    test('checks meetings without a start time against now', () => {
+      const scheduled = { active_until: '2026-02-09' };
+      expect(getRuleScheduleReason(scheduled, {}, new Date(Date.UTC(2026, 1, 9, 12)))).toBeNull();
+      expect(getRuleScheduleReason(scheduled, {}, new Date(Date.UTC(2026, 1, 10, 12)))).toBe('Only active until 2026-02-09');
+    });
+
+    test('counts days until expiry and flags rules expiring soon', () => {
+      const now = new Date(Date.UTC(2026, 1, 9, 15));
+      expect(getDaysUntilRuleExpiry({ active_until: '2026-02-09' }, now)).toBe(0);
+      expect(getDaysUntilRuleExpiry({ active_until: '2026-02-16' }, now)).toBe(7);
+      expect(getDaysUntilRuleExpiry({}, now)).toBeNull();
+
+      expect(isRuleExpiringSoon({ active_until: '2026-02-16' }, now)).toBe(true);
+      expect(isRuleExpiringSoon({ active_until: '2026-02-17' }, now)).toBe(false);
+      expect(isRuleExpired({ active_until: '2026-02-08' }, now)).toBe(true);
+      expect(isRuleExpired({ active_until: '2026-02-09' }, now)).toBe(false);
+    });
+
+    test('describes schedules', () => {
+      expect(describeRuleSchedule({})).toBeNull();
+      expect(
+        describeRuleSchedule({ active_from: '2026-02-01', active_until: '2026-02-28', active_windows: [workHours] })
+      ).toBe('2026-02-01 to 2026-02-28, Mon, Tue 09:00-12:00');
+      expect(describeRuleSchedule({ active_windows: [{ weekdays: [], start_time: '18:00', end_time: null }] })).toBe(
+        'Every day from 18:00'
+      );
+    });
+
+    test('validates schedules', () => {
+      expect(validateRuleSchedule({ active_windows: [workHours] })).toBeNull();
+      expect(validateRuleSchedule({ active_from: '2026-03-01', active_until: '2026-02-01' })).toBe(
+        'Active until must be on or after active from'
+      );
+      expect(validateRuleSchedule({ active_until: 'next week' })).toBe('Active until must be a date');
+      expect(validateRuleSchedule({ active_windows: [{ weekdays: ['funday'], start_time: null, end_time: null }] })).toBe(
+        'Unknown weekday "funday"'
+      );
+      expect(validateRuleSchedule({ active_windows: [{ weekdays: [], start_time: '9am', end_time: null }] })).toBe(
+        'Time window start must be HH:MM'
+      );
+      expect(validateRuleSchedule({ active_windows: [{ weekdays: [], start_time: null, end_time: null }] })).toBe(
+        'Time windows need weekdays or times'
+      );
+    });
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * Egen Meeting Notes - Rule Import/Export Tests
+ * Unit tests for dashboard/lib/rule-transfer.ts
+ */
+
+const {
+  RULE_EXPORT_KIND,
+  RULE_EXPORT_SCHEMA_VERSION,
+  buildRuleExport,
+  parseRuleExport,
+  planRuleImport,
+} = require('../dashboard/lib/rule-transfer.ts');
+
+const acmeRule = {
+  id: 'r-acme',
+  name: 'Acme meetings',
+  description: 'Anything with Acme',
+  priority: 10,
+  status: 'active',
+  confidence_boost: 0.2,
+  conditions: {
+    operator: 'OR',
+    rules: [
+      { field: 'title', operator: 'contains', value: 'acme' },
+      { field: 'organizer', operator: 'in_project_team', value: 'p-web' },
+    ],
+  },
+  actions: { classify_as: 'client', client_id: 'c-acme', project_id: 'p-web', team: undefined },
+  stats: { times_applied: 4, times_corrected: 0 },
+};
+
+const source = {
+  clients: [{ id: 'c-acme', name: 'Acme' }],
+  projects: [{ id: 'p-web', project_name: 'Website' }],
+};
+
+const target = {
+  clients: [{ id: 'c-9', name: 'acme ' }],
+  projects: [{ id: 'p-9', project_name: 'Website' }],
+};
+
+function exportOf(rules, data = source) {
+  return buildRuleExport(rules, data, 'jane@egen.ai', new Date('2026-01-02T03:04:05Z'));
+}
+
+describe('rule transfer', () => {
+  describe('buildRuleExport', () => {
+    test('writes a versioned document with referenced clients and projects', () => {
+      const doc = exportOf([acmeRule]);
+
+      expect(doc.kind).toBe(RULE_EXPORT_KIND);
+      expect(doc.schema_version).toBe(RULE_EXPORT_SCHEMA_VERSION);
+      expect(doc.exported_at).toBe('2026-01-02T03:04:05.000Z');
+      expect(doc.exported_by).toBe('jane@egen.ai');
+      expect(doc.references.clients).toEqual([{ id: 'c-acme', name: 'Acme' }]);
+      expect(doc.references.projects).toEqual([{ id: 'p-web', name: 'Website' }]);
+    });
+
+    test('leaves out stats and undefined fields', () => {
+      const [rule] = exportOf([acmeRule]).rules;
+
+      expect(rule).not.toHaveProperty('stats');
+      expect(rule.actions).toEqual({ classify_as: 'client', client_id: 'c-acme', project_id: 'p-web' });
+      expect(rule.id).toBe('r-acme');
+    });
+
+    test('survives a JSON round trip through parseRuleExport', () => {
+      const doc = exportOf([acmeRule]);
+      const { document, errors } = parseRuleExport(JSON.stringify(doc));
+
+      expect(errors).toEqual([]);
+      expect(document).toEqual(doc);
+    });
+  });
+
+  describe('parseRuleExport', () => {
+    test('rejects text that is not JSON', () => {
+      expect(parseRuleExport('{nope').errors).toEqual(['File is not valid JSON']);
+    });
+
+    test('rejects JSON that is not a rule export', () => {
+      expect(parseRuleExport('{"notes": []}').errors).toEqual([
+        'File is not a classification rule export',
+      ]);
+    });
+
+    test('rejects newer schema versions', () => {
+      const doc = { ...exportOf([acmeRule]), schema_version: RULE_EXPORT_SCHEMA_VERSION + 1 };
+      const { document, errors } = parseRuleExport(JSON.stringify(doc));
+
+      expect(document).toBeNull();
+      expect(errors[0]).toMatch(/newer than this dashboard supports/);
+    });
+
+    test('reports every invalid rule', () => {
+      const doc = exportOf([acmeRule]);
+      doc.rules.push(
+        { ...doc.rules[0], name: '', status: 'paused' },
+        { ...doc.rules[0], name: 'Empty', conditions: { operator: 'AND', rules: [] } }
+      );
+      const { errors } = parseRuleExport(JSON.stringify(doc));
+
+      expect(errors).toEqual([
+        'Rule "" has no name',
+        'Rule "" has an unknown status',
+        'Rule "Empty": At least one condition is required',
+      ]);
+    });
+  });
+
+  describe('schedules', () => {
+    const scheduled = {
+      ...acmeRule,
+      active_from: '2026-02-01',
+      active_until: '2026-02-28',
+      active_windows: [{ weekdays: ['monday'], start_time: '09:00', end_time: '12:00' }],
+    };
+
+    test('carries active dates and windows through an import', () => {
+      const [item] = planRuleImport(exportOf([scheduled]), [], source);
+
+      expect(item.rule.active_until).toBe('2026-02-28');
+      expect(item.rule.active_windows).toEqual(scheduled.active_windows);
+    });
+
+    test('reports schedule changes on re-import', () => {
+      const [item] = planRuleImport(exportOf([scheduled]), [acmeRule], source);
+
+      expect(item.action).toBe('update');
+      expect(item.changes.map((change) => change.field)).toEqual([
+        'active_from',
+        'active_until',
+        'active_windows',
+      ]);
+    });
+
+    test('rejects invalid schedules', () => {
+      const doc = exportOf([{ ...scheduled, active_until: '2026-01-01' }]);
+
+      expect(parseRuleExport(JSON.stringify(doc)).errors).toEqual([
+        'Rule "Acme meetings": Active until must be on or after active from',
+      ]);
+    });
+  });
+
+  describe('planRuleImport', () => {
+    test('creates new rules with references mapped by name', () => {
+      const [item] = planRuleImport(exportOf([acmeRule]), [], target);
+
+      expect(item.action).toBe('create');
+      expect(item.rule.actions).toEqual({ classify_as: 'client', client_id: 'c-9', project_id: 'p-9' });
+      expect(item.rule.conditions.rules[1].value).toBe('p-9');
+      expect(item.rule).not.toHaveProperty('stats');
+    });
+
+    test('keeps references whose IDs exist in the target workspace', () => {
+      const [item] = planRuleImport(exportOf([acmeRule]), [], source);
+
+      expect(item.rule.actions.client_id).toBe('c-acme');
+      expect(item.rule.actions.project_id).toBe('p-web');
+    });
+
+    test('marks rules with unmatched references as conflicts', () => {
+      const [item] = planRuleImport(exportOf([acmeRule]), [], { clients: [], projects: target.projects });
+
+      expect(item.action).toBe('conflict');
+      expect(item.problems).toEqual(['Client Acme has no match in this workspace']);
+    });
+
+    test('does not guess between clients that share a name', () => {
+      const data = { ...target, clients: [{ id: 'c-1', name: 'Acme' }, { id: 'c-2', name: 'ACME' }] };
+      const [item] = planRuleImport(exportOf([acmeRule]), [], data);
+
+      expect(item.action).toBe('conflict');
+    });
+
+    test('reports unchanged rules when re-importing into the source workspace', () => {
+      const [item] = planRuleImport(exportOf([acmeRule]), [acmeRule], source);
+
+      expect(item.action).toBe('unchanged');
+      expect(item.existing).toBe(acmeRule);
+      expect(item.changes).toEqual([]);
+    });
+
+    test('updates an existing rule matched by name, listing changed fields', () => {
+      const existing = { ...acmeRule, id: 'r-other', name: 'ACME Meetings', priority: 5 };
+      const [item] = planRuleImport(exportOf([acmeRule]), [existing], source);
+
+      expect(item.action).toBe('update');
+      expect(item.existing).toBe(existing);
+      expect(item.changes).toEqual([
+        { field: 'name', before: 'ACME Meetings', after: 'Acme meetings' },
+        { field: 'priority', before: 5, after: 10 },
+      ]);
+    });
+
+    test('matches by source ID before name, so renames are updates', () => {
+      const renamed = { ...acmeRule, name: 'Acme (renamed)' };
+      const [item] = planRuleImport(exportOf([renamed]), [acmeRule], source);
+
+      expect(item.action).toBe('update');
+      expect(item.changes).toEqual([
+        { field: 'name', before: 'Acme meetings', after: 'Acme (renamed)' },
+      ]);
+    });
+
+    test('marks ambiguous name matches as conflicts', () => {
+      const doc = exportOf([{ ...acmeRule, id: 'r-elsewhere' }]);
+      const existing = [
+        { ...acmeRule, id: 'r-1' },
+        { ...acmeRule, id: 'r-2' },
+      ];
+      const [item] = planRuleImport(doc, existing, source);
+
+      expect(item.action).toBe('conflict');
+      expect(item.problems).toEqual(['2 existing rules are named "Acme meetings"']);
+    });
+  });
+});
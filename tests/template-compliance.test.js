@@ -0,0 +1,164 @@
+/**
+ * Egen Meeting Notes - Template Compliance Tests
+ * Unit tests for dashboard/lib/template-compliance.ts
+ */
+
+const {
+  checkNoteAgainstTemplates,
+  checkNoteCompliance,
+  findSectionInContent,
+  getComplianceByClient,
+  getSectionBody,
+  getSectionSource,
+  summarizeCompliance,
+} = require('../dashboard/lib/template-compliance.ts');
+
+const template = {
+  id: 't1',
+  name: 'Client Meeting',
+  category: 'client',
+  is_default: true,
+  sections: [
+    { id: 's1', title: 'Attendees', type: 'list', order: 1, content: '{{attendees}}' },
+    { id: 's2', title: 'Discussion Notes', type: 'text', order: 2, required: true },
+    { id: 's3', title: 'Next Steps', type: 'checkbox-list', order: 3, required: true },
+    { id: 's4', title: 'Outcomes', type: 'list', order: 4, required: true, content: '{{decisions}}' },
+  ],
+};
+
+function note(id, extra = {}) {
+  return {
+    id,
+    meeting: { title: `Meeting ${id}`, attendees: [{ email: 'jane@egen.ai' }] },
+    classification: { type: 'client', client_id: 'c-acme', confidence: 1 },
+    ...extra,
+  };
+}
+
+const complete = note('complete', {
+  content: '## Discussion Notes\nTalked about the launch.\n\n## Next Steps\n- Ship it',
+  key_decisions: [{ id: 'd1', decision: 'Launch in April' }],
+});
+
+describe('template compliance', () => {
+  describe('getSectionSource', () => {
+    test('uses the variable in the section content first', () => {
+      expect(getSectionSource(template.sections[3])).toBe('decisions');
+    });
+
+    test('falls back to well-known titles, then the note content', () => {
+      expect(getSectionSource(template.sections[2])).toBe('action_items');
+      expect(getSectionSource({ id: 'x', title: 'Key Decisions', type: 'list', order: 1 })).toBe('decisions');
+      expect(getSectionSource(template.sections[1])).toBe('content');
+    });
+  });
+
+  describe('findSectionInContent', () => {
+    test('finds Markdown, bold and plain headings', () => {
+      expect(findSectionInContent('# Risks\nNone so far', 'Risks')).toEqual({ found: true, hasBody: true });
+      expect(findSectionInContent('**Risks:**\n- Budget', 'risks')).toEqual({ found: true, hasBody: true });
+      expect(findSectionInContent('Risks: budget overrun', 'Risks')).toEqual({ found: true, hasBody: true });
+    });
+
+    test('reports headings with nothing under them', () => {
+      expect(findSectionInContent('## Risks\n\n- \n## Other\ntext', 'Risks')).toEqual({
+        found: true,
+        hasBody: false,
+      });
+      expect(findSectionInContent('Risks\nAgenda\nitem', 'Risks', ['Agenda'])).toEqual({
+        found: true,
+        hasBody: false,
+      });
+    });
+
+    test('does not match a title inside other text', () => {
+      expect(findSectionInContent('We discussed risks today', 'Risks').found).toBe(false);
+    });
+  });
+
+  describe('getSectionBody', () => {
+    test('returns the trimmed lines under a heading', () => {
+      expect(getSectionBody('# Risks\n\n- Budget\n- Timeline\n\n## Other\ntext', 'Risks')).toEqual([
+        '- Budget',
+        '- Timeline',
+      ]);
+      expect(getSectionBody('Risks\nBudget\nAgenda\nitem', 'Risks', ['Agenda'])).toEqual(['Budget']);
+    });
+
+    test('keeps the casing of inline text', () => {
+      expect(getSectionBody('**Risks:** Budget overrun in Q3', 'risks')).toEqual(['Budget overrun in Q3']);
+    });
+
+    test('is empty when the heading is missing', () => {
+      expect(getSectionBody('Nothing here', 'Risks')).toEqual([]);
+    });
+  });
+
+  describe('checkNoteCompliance', () => {
+    test('passes notes with every required section', () => {
+      const result = checkNoteCompliance(complete, template);
+
+      expect(result.compliant).toBe(true);
+      expect(result.requiredCount).toBe(3);
+      expect(result.checks.map((c) => [c.section.id, c.status, c.detail])).toEqual([
+        ['s1', 'complete', '1 attendee'],
+        ['s2', 'complete', 'Found in note content'],
+        ['s3', 'complete', 'Found in note content'],
+        ['s4', 'complete', '1 decision'],
+      ]);
+    });
+
+    test('reports missing and empty required sections', () => {
+      const result = checkNoteCompliance(note('bare', { content: 'Discussion Notes:\n' }), template);
+
+      expect(result.compliant).toBe(false);
+      expect(result.issues.map((c) => [c.section.title, c.status, c.detail])).toEqual([
+        ['Discussion Notes', 'empty', 'Heading has nothing under it'],
+        ['Next Steps', 'empty', 'No action items recorded'],
+        ['Outcomes', 'empty', 'No decisions recorded'],
+      ]);
+    });
+
+    test('counts structured action items', () => {
+      const withItems = note('items', {
+        content: 'Discussion Notes: fine',
+        action_items: [{ id: 'a1', task: 'Ship', priority: 'low', status: 'pending' }],
+        key_decisions: [{ id: 'd1', decision: 'Go' }],
+      });
+
+      expect(checkNoteCompliance(withItems, template).compliant).toBe(true);
+    });
+
+    test('ignores optional sections', () => {
+      const noAttendees = { ...complete, meeting: { title: 'x', attendees: [] } };
+      const result = checkNoteCompliance(noAttendees, template);
+
+      expect(result.checks[0].status).toBe('empty');
+      expect(result.compliant).toBe(true);
+    });
+  });
+
+  describe('summaries', () => {
+    const other = {
+      ...note('other', { classification: { type: 'client', client_id: 'c-globex', confidence: 1 } }),
+    };
+    const notes = [complete, note('bare'), other, note('loose', { classification: { type: 'internal' } })];
+
+    test('checks notes against their matched template', () => {
+      expect(checkNoteAgainstTemplates(complete, [template]).template).toBe(template);
+      expect(checkNoteAgainstTemplates(complete, [{ ...template, is_default: false }])).toBeNull();
+    });
+
+    test('works out the share of compliant notes', () => {
+      expect(summarizeCompliance(notes, [template])).toEqual({ checked: 4, compliant: 1, percent: 25 });
+      expect(summarizeCompliance(notes, [])).toEqual({ checked: 0, compliant: 0, percent: null });
+    });
+
+    test('groups compliance by client', () => {
+      expect(getComplianceByClient(notes, [template])).toEqual({
+        'c-acme': { checked: 2, compliant: 1, percent: 50 },
+        'c-globex': { checked: 1, compliant: 0, percent: 0 },
+      });
+    });
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Egen Meeting Notes - Template Inheritance Tests
+ * Unit tests for dashboard/lib/template-inheritance.ts
+ */
+
+const {
+  canInheritFrom,
+  diffTemplateSections,
+  getEffectiveTemplate,
+  getSectionOrigins,
+  getTemplateAncestors,
+  getTemplateSpecificity,
+  resolveTemplate,
+  resolveTemplateSections,
+} = require('../dashboard/lib/template-inheritance.ts');
+
+function section(id, title, order, extra = {}) {
+  return { id, title, type: 'text', order, ...extra };
+}
+
+function template(id, extra = {}) {
+  return { id, name: id, category: 'general', sections: [], ...extra };
+}
+
+const base = template('base', {
+  is_default: true,
+  sections: [section('a', 'Attendees', 1), section('b', 'Agenda', 2), section('c', 'Action Items', 3)],
+});
+
+describe('template inheritance', () => {
+  describe('getTemplateSpecificity', () => {
+    test('ranks project scope above client scope', () => {
+      expect(getTemplateSpecificity(template('t', { project_id: 'p1', client_id: 'c1' }))).toBe('project');
+      expect(getTemplateSpecificity(template('t', { client_id: 'c1' }))).toBe('client');
+      expect(getTemplateSpecificity(template('t'))).toBe('general');
+    });
+  });
+
+  describe('ancestors', () => {
+    test('walks up the parent chain and stops at cycles', () => {
+      const child = template('child', { parent_id: 'mid' });
+      const mid = template('mid', { parent_id: 'base' });
+      const loopA = template('loopA', { parent_id: 'loopB' });
+      const loopB = template('loopB', { parent_id: 'loopA' });
+      const templates = [base, mid, child, loopA, loopB];
+
+      expect(getTemplateAncestors(child, templates).map((t) => t.id)).toEqual(['mid', 'base']);
+      expect(getTemplateAncestors(loopA, templates).map((t) => t.id)).toEqual(['loopB']);
+    });
+
+    test('refuses parents that would create a cycle', () => {
+      const child = template('child', { parent_id: 'base' });
+      const templates = [base, child];
+
+      expect(canInheritFrom('base', 'child', templates)).toBe(false);
+      expect(canInheritFrom('base', 'base', templates)).toBe(false);
+      expect(canInheritFrom('child', 'base', templates)).toBe(true);
+      // New templates have no ID yet
+      expect(canInheritFrom('', 'child', templates)).toBe(true);
+    });
+  });
+
+  describe('resolveTemplateSections', () => {
+    test('applies overrides, additions and removals in order', () => {
+      const child = template('child', {
+        parent_id: 'base',
+        sections: [section('b', 'Agenda & Goals', 2), section('d', 'Risks', 2.5)],
+        removed_section_ids: ['a'],
+      });
+
+      expect(resolveTemplateSections(child, [base, child]).map((s) => s.title)).toEqual([
+        'Agenda & Goals',
+        'Risks',
+        'Action Items',
+      ]);
+    });
+
+    test('resolves through several levels', () => {
+      const mid = template('mid', { parent_id: 'base', removed_section_ids: ['b'] });
+      const child = template('child', { parent_id: 'mid', sections: [section('c', 'Next Steps', 0)] });
+
+      expect(resolveTemplateSections(child, [base, mid, child]).map((s) => s.title)).toEqual([
+        'Next Steps',
+        'Attendees',
+      ]);
+    });
+
+    test('keeps its own sections when the parent is gone', () => {
+      const orphan = template('orphan', { parent_id: 'deleted', sections: [section('x', 'Notes', 1)] });
+
+      expect(resolveTemplate(orphan, [orphan]).sections.map((s) => s.title)).toEqual(['Notes']);
+      expect(resolveTemplate(base, [base])).toBe(base);
+    });
+  });
+
+  describe('diffTemplateSections', () => {
+    test('stores only changed and new sections, and removals', () => {
+      const edited = [section('b', 'Agenda', 1), section('a', 'Attendees', 2), section('d', 'Risks', 3), base.sections[2]];
+
+      expect(diffTemplateSections(base.sections, edited)).toEqual({
+        sections: [section('b', 'Agenda', 1), section('a', 'Attendees', 2), section('d', 'Risks', 3)],
+        removed_section_ids: [],
+      });
+      expect(diffTemplateSections(base.sections, [base.sections[0]])).toEqual({
+        sections: [],
+        removed_section_ids: ['b', 'c'],
+      });
+    });
+
+    test('round-trips through resolve', () => {
+      const edited = [section('c', 'Action Items', 1, { required: true }), section('d', 'Risks', 2)];
+      const child = template('child', { parent_id: 'base', ...diffTemplateSections(base.sections, edited) });
+
+      expect(resolveTemplateSections(child, [base, child])).toEqual(edited);
+    });
+
+    test('labels where each section comes from', () => {
+      const edited = [base.sections[0], section('b', 'Goals', 2), section('d', 'Risks', 3)];
+
+      expect(getSectionOrigins(base.sections, edited)).toEqual({ a: 'inherited', b: 'overridden', d: 'added' });
+    });
+  });
+
+  describe('getEffectiveTemplate', () => {
+    const acme = template('acme', { client_id: 'c-acme', parent_id: 'base', removed_section_ids: ['b'] });
+    const acmeRetro = template('acme-retro', { client_id: 'c-acme', auto_apply_rules: { keywords: ['retro'] } });
+    const web = template('web', { project_id: 'p-web', client_id: 'c-acme' });
+    const templates = [base, acmeRetro, acme, web];
+
+    test('prefers the project template, then the client template, then the default', () => {
+      expect(getEffectiveTemplate(templates, { project: { id: 'p-web', client_id: 'c-acme' } })).toMatchObject({
+        template: { id: 'web' },
+        specificity: 'project',
+      });
+      expect(getEffectiveTemplate(templates, { project: { id: 'p-app', client_id: 'c-acme' } })).toMatchObject({
+        template: { id: 'acme' },
+        specificity: 'client',
+      });
+      expect(getEffectiveTemplate(templates, { clientId: 'c-globex' })).toMatchObject({
+        template: { id: 'base' },
+        specificity: 'general',
+        ancestors: [],
+      });
+    });
+
+    test('resolves sections and lists the ancestors', () => {
+      const effective = getEffectiveTemplate(templates, { clientId: 'c-acme' });
+
+      expect(effective.template.sections.map((s) => s.id)).toEqual(['a', 'c']);
+      expect(effective.ancestors.map((t) => t.id)).toEqual(['base']);
+    });
+
+    test('returns null without any applicable template', () => {
+      expect(getEffectiveTemplate([web], { clientId: 'c-acme' })).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * Egen Meeting Notes - Template Matching Tests
+ * Unit tests for dashboard/lib/template-match.ts
+ */
+
+const {
+  TEMPLATE_MATCH_WEIGHTS,
+  matchTemplate,
+  noteToTemplateMatchMeeting,
+  rankTemplates,
+  scoreTemplate,
+} = require('../dashboard/lib/template-match.ts');
+
+function template(id, auto_apply_rules, extra = {}) {
+  return { id, name: id, category: 'general', sections: [], auto_apply_rules, ...extra };
+}
+
+const acmeSync = {
+  title: 'Acme weekly sync',
+  attendees: [{ email: 'jane@egen.ai' }, { email: 'bob@acme.com' }],
+  duration_minutes: 30,
+  type: 'client',
+  client_id: 'c-acme',
+  project_id: 'p-web',
+};
+
+describe('template matching', () => {
+  describe('scoreTemplate', () => {
+    test('adds points for each matching criterion and explains them', () => {
+      const candidate = scoreTemplate(
+        template('acme', { keywords: ['sync', 'retro'], attendee_domains: ['acme.com'], client_ids: ['c-acme'] }),
+        acmeSync
+      );
+
+      expect(candidate.matched).toBe(true);
+      expect(candidate.score).toBe(
+        TEMPLATE_MATCH_WEIGHTS.client + TEMPLATE_MATCH_WEIGHTS.keywords + TEMPLATE_MATCH_WEIGHTS.attendee_domains
+      );
+      expect(candidate.criteria.map((c) => [c.criterion, c.explanation])).toEqual([
+        ['client', 'Meeting is filed under a linked client'],
+        ['keywords', 'Title contains "sync"'],
+        ['attendee_domains', 'Attendees from acme.com'],
+      ]);
+    });
+
+    test('explains criteria that do not match', () => {
+      const candidate = scoreTemplate(template('t', { keywords: ['standup'], project_ids: ['p-other'] }), acmeSync);
+
+      expect(candidate.matched).toBe(false);
+      expect(candidate.score).toBe(0);
+      expect(candidate.criteria.map((c) => c.explanation)).toEqual([
+        'Meeting is filed under another project',
+        'Title contains none of standup',
+      ]);
+    });
+
+    test('excludes templates for other meeting types', () => {
+      const candidate = scoreTemplate(
+        template('internal', { keywords: ['sync'], meeting_types: ['internal'] }),
+        acmeSync
+      );
+
+      expect(candidate.score).toBe(TEMPLATE_MATCH_WEIGHTS.keywords);
+      expect(candidate.matched).toBe(false);
+      expect(candidate.excludedBy).toBe('Only for internal meetings');
+    });
+
+    test('does not exclude on meeting type before the meeting is classified', () => {
+      const candidate = scoreTemplate(
+        template('internal', { keywords: ['sync'], meeting_types: ['internal'] }),
+        { ...acmeSync, type: null }
+      );
+
+      expect(candidate.matched).toBe(true);
+      expect(candidate.criteria[1].explanation).toBe('Meeting type is not known yet');
+    });
+
+    test('checks duration ranges', () => {
+      const short = template('short', { max_duration: 15 });
+      const long = template('long', { min_duration: 25, max_duration: 60 });
+
+      expect(scoreTemplate(short, acmeSync).excludedBy).toBe('Only for meetings of at most 15 min');
+      expect(scoreTemplate(long, acmeSync).criteria[0].explanation).toBe('30 min is within 25-60 min');
+      expect(scoreTemplate(long, { title: 'x' }).criteria[0].explanation).toBe('Meeting duration is not known');
+    });
+
+    test('matches scoped templates only for their client or project', () => {
+      const acme = template('acme', undefined, { client_id: 'c-acme' });
+      const globex = template('globex', undefined, { client_id: 'c-globex' });
+      const otherProject = template('other', undefined, { project_id: 'p-other' });
+
+      expect(scoreTemplate(acme, acmeSync)).toMatchObject({ matched: true, specificity: 'client' });
+      expect(scoreTemplate(acme, acmeSync).criteria[0].explanation).toBe("Scoped to the meeting's client");
+      expect(scoreTemplate(globex, acmeSync).excludedBy).toBe('Only for meetings with its client');
+      expect(scoreTemplate(otherProject, acmeSync)).toMatchObject({
+        matched: false,
+        specificity: 'project',
+        excludedBy: 'Only for meetings in its project',
+      });
+    });
+
+    test('requires another rule to match when a scoped template has one', () => {
+      const retro = template('retro', { keywords: ['retro'] }, { client_id: 'c-acme' });
+      const sync = template('sync', { keywords: ['sync'] }, { client_id: 'c-acme' });
+
+      expect(scoreTemplate(retro, acmeSync).matched).toBe(false);
+      expect(scoreTemplate(sync, acmeSync).matched).toBe(true);
+    });
+  });
+
+  describe('rankTemplates', () => {
+    test('ranks by score and leaves out templates without rules', () => {
+      const ranked = rankTemplates(
+        [
+          template('keyword', { keywords: ['acme'] }),
+          template('project', { project_ids: ['p-web'] }),
+          template('none', undefined),
+          template('empty', { keywords: [] }),
+        ],
+        acmeSync
+      );
+
+      expect(ranked.map((c) => c.template.id)).toEqual(['project', 'keyword']);
+    });
+
+    test('puts excluded templates after matches even with a higher score', () => {
+      const ranked = rankTemplates(
+        [
+          template('excluded', { client_ids: ['c-acme'], meeting_types: ['internal'] }),
+          template('keyword', { keywords: ['acme'] }),
+        ],
+        acmeSync
+      );
+
+      expect(ranked.map((c) => c.template.id)).toEqual(['keyword', 'excluded']);
+    });
+
+    test('breaks ties by matching criteria, then name', () => {
+      const ranked = rankTemplates(
+        [
+          template('b', { keywords: ['acme'] }),
+          template('a', { keywords: ['acme'] }),
+          template('c', { meeting_types: ['client'], max_duration: 45 }),
+        ],
+        acmeSync
+      );
+
+      // c scores the same as a keyword match but on two criteria
+      expect(ranked.map((c) => c.template.id)).toEqual(['c', 'a', 'b']);
+    });
+
+    test('prefers project templates, then client templates, over higher scores', () => {
+      const ranked = rankTemplates(
+        [
+          template('general', { keywords: ['sync'], attendee_domains: ['acme.com'] }),
+          template('client', undefined, { client_id: 'c-acme' }),
+          template('project', undefined, { project_id: 'p-web' }),
+        ],
+        acmeSync
+      );
+
+      expect(ranked.map((c) => c.template.id)).toEqual(['project', 'client', 'general']);
+    });
+  });
+
+  describe('matchTemplate', () => {
+    test('returns the best match', () => {
+      const { template: picked, usedDefault } = matchTemplate(
+        [template('keyword', { keywords: ['acme'] }), template('client', { client_ids: ['c-acme'] })],
+        acmeSync
+      );
+
+      expect(picked.id).toBe('client');
+      expect(usedDefault).toBe(false);
+    });
+
+    test('falls back to the default template', () => {
+      const fallback = template('default', undefined, { is_default: true });
+      const { template: picked, usedDefault, candidates } = matchTemplate(
+        [template('standup', { keywords: ['standup'] }), fallback],
+        acmeSync
+      );
+
+      expect(picked).toBe(fallback);
+      expect(usedDefault).toBe(true);
+      expect(candidates).toHaveLength(1);
+    });
+
+    test('resolves inherited sections of the picked template', () => {
+      const base = template('base', undefined, {
+        is_default: true,
+        sections: [{ id: 's1', title: 'Notes', type: 'text', order: 1 }],
+      });
+      const acme = template('acme', undefined, {
+        client_id: 'c-acme',
+        parent_id: 'base',
+        sections: [{ id: 's2', title: 'Risks', type: 'list', order: 2 }],
+      });
+
+      const { template: picked } = matchTemplate([base, acme], acmeSync);
+
+      expect(picked.id).toBe('acme');
+      expect(picked.sections.map((s) => s.title)).toEqual(['Notes', 'Risks']);
+    });
+
+    test('ignores scoped default templates as the fallback', () => {
+      const scopedDefault = template('scoped', undefined, { is_default: true, client_id: 'c-globex' });
+
+      expect(matchTemplate([scopedDefault], acmeSync).template).toBeNull();
+    });
+
+    test('reads classification from notes', () => {
+      const meeting = noteToTemplateMatchMeeting({
+        id: 'n1',
+        meeting: { title: 'Acme sync', attendees: [] },
+        classification: { type: 'client', client_id: 'c-acme', confidence: 1 },
+      });
+
+      expect(meeting).toMatchObject({ title: 'Acme sync', type: 'client', client_id: 'c-acme', project_id: null });
+    });
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Egen Meeting Notes - Template Rendering Tests
+ * Unit tests for dashboard/lib/template-render.ts
+ */
+
+const {
+  TEMPLATE_VARIABLES,
+  buildTemplateValues,
+  findTemplateVariables,
+  interpolateTemplate,
+  meetingToTemplateContext,
+  noteToTemplateContext,
+  renderTemplate,
+  renderTemplateMarkdown,
+} = require('../dashboard/lib/template-render.ts');
+
+const now = new Date(2026, 2, 10, 12, 0);
+
+const note = {
+  id: 'n1',
+  meeting: {
+    title: 'Acme weekly sync',
+    organizer: 'jane@egen.ai',
+    start_time: { toDate: () => new Date(2026, 2, 9, 14, 30) },
+    duration_minutes: 45,
+    attendees: [{ email: 'jane@egen.ai', name: 'Jane' }, { email: 'bob@acme.com' }],
+  },
+  classification: {
+    type: 'client',
+    client_id: 'c-acme',
+    client_name: 'Acme (old name)',
+    project_id: 'p-web',
+    project_name: 'Website',
+    confidence: 0.9,
+  },
+  summary: 'Agreed on the launch plan.',
+  action_items: [
+    { id: 'a1', task: 'Send proposal', assignee_name: 'Jane', due_date: '2026-03-12', priority: 'high', status: 'pending' },
+    { id: 'a2', task: 'Book venue', priority: 'low', status: 'completed' },
+  ],
+  key_decisions: [
+    { id: 'd1', decision: 'Launch in April', decided_by: 'Bob', status: 'accepted' },
+    { id: 'd2', decision: 'Launch in March', status: 'superseded' },
+  ],
+};
+
+const data = {
+  clients: [{ id: 'c-acme', name: 'Acme Corp' }],
+  projects: [
+    {
+      id: 'p-web',
+      client_id: 'c-acme',
+      project_name: 'Website Redesign',
+      status: 'on_hold',
+      team: [{ email: 'jane@egen.ai', name: 'Jane', role: 'Lead' }],
+    },
+  ],
+};
+
+const template = {
+  id: 't1',
+  name: 'Client Meeting',
+  category: 'client',
+  sections: [
+    { id: 's3', title: 'Action Items', type: 'checkbox-list', order: 3, content: '{{open_action_items}}' },
+    { id: 's1', title: 'Overview for {{client.name}}', type: 'text', order: 1, content: '{{meeting.date}} at {{meeting.time}} ({{meeting.duration}})\n\n{{summary}}' },
+    { id: 's2', title: 'Attendees', type: 'list', order: 2, content: '{{attendees}}' },
+    { id: 's4', title: 'Notes', type: 'text', order: 4, placeholder: 'Key discussion points...' },
+  ],
+};
+
+describe('template rendering', () => {
+  const ctx = noteToTemplateContext(note, data, now);
+
+  describe('buildTemplateValues', () => {
+    test('has a value for every documented variable', () => {
+      const values = buildTemplateValues(ctx);
+      expect(Object.keys(values).sort()).toEqual(TEMPLATE_VARIABLES.map((v) => v.key).sort());
+    });
+
+    test('reads meeting, client and project details from the note', () => {
+      const values = buildTemplateValues(ctx);
+
+      expect(values['meeting.date']).toBe('Mar 9, 2026');
+      expect(values['meeting.time']).toBe('14:30');
+      expect(values['meeting.duration']).toBe('45 min');
+      expect(values['meeting.type']).toBe('Client');
+      expect(values['client.name']).toBe('Acme Corp');
+      expect(values['project.name']).toBe('Website Redesign');
+      expect(values['project.status']).toBe('On hold');
+      expect(values['project.team']).toEqual(['Jane (Lead)']);
+      expect(values.attendees).toEqual(['Jane <jane@egen.ai>', 'bob@acme.com']);
+      expect(values.today).toBe('Mar 10, 2026');
+    });
+
+    test('lists open action items and decisions still in force', () => {
+      const values = buildTemplateValues(ctx);
+
+      expect(values.open_action_items).toEqual(['Send proposal (Jane, due Mar 12, 2026)']);
+      expect(values.action_items).toEqual([
+        'Send proposal (Jane, due Mar 12, 2026)',
+        'Book venue (completed)',
+      ]);
+      expect(values.decisions).toEqual(['Launch in April (Bob)']);
+    });
+
+    test('falls back to classification names for unknown clients and projects', () => {
+      const values = buildTemplateValues(noteToTemplateContext(note, { clients: [], projects: [] }, now));
+
+      expect(values['client.name']).toBe('Acme (old name)');
+      expect(values['project.name']).toBe('Website');
+      expect(values['project.team']).toEqual([]);
+    });
+
+    test('renders upcoming meetings without note data', () => {
+      const upcoming = meetingToTemplateContext(
+        { title: 'Kickoff', start_time: '2026-04-01T09:00:00', end_time: '2026-04-01T10:00:00' },
+        { client: data.clients[0], now }
+      );
+      const values = buildTemplateValues(upcoming);
+
+      expect(values['meeting.date']).toBe('Apr 1, 2026');
+      expect(values['meeting.duration']).toBe('60 min');
+      expect(values['client.name']).toBe('Acme Corp');
+      expect(values.open_action_items).toEqual([]);
+    });
+  });
+
+  describe('interpolateTemplate', () => {
+    const values = { name: 'Acme', items: ['one', 'two'], none: [] };
+
+    test('replaces inline variables and joins lists with commas', () => {
+      expect(interpolateTemplate('Hi {{ name }}: {{items}}', values)).toBe('Hi Acme: one, two');
+    });
+
+    test('expands a list variable alone on a line into bullets', () => {
+      expect(interpolateTemplate('Items:\n{{items}}', values)).toBe('Items:\n- one\n- two');
+      expect(interpolateTemplate('  - [ ] {{items}}', values)).toBe('  - [ ] one\n  - [ ] two');
+    });
+
+    test('drops the line for an empty list', () => {
+      expect(interpolateTemplate('a\n{{none}}\nb', values)).toBe('a\nb');
+    });
+
+    test('leaves unknown variables in place', () => {
+      expect(interpolateTemplate('{{nope}} {{name}}', values)).toBe('{{nope}} Acme');
+      expect(findTemplateVariables('{{nope}} {{name}} {{ nope }}')).toEqual(['nope', 'name']);
+    });
+  });
+
+  describe('renderTemplate', () => {
+    test('renders sections in order with interpolated titles', () => {
+      const rendered = renderTemplate(template, ctx);
+
+      expect(rendered.title).toBe('Acme weekly sync');
+      expect(rendered.sections.map((s) => s.title)).toEqual([
+        'Overview for Acme Corp',
+        'Attendees',
+        'Action Items',
+        'Notes',
+      ]);
+      expect(rendered.sections[0].lines).toEqual([
+        'Mar 9, 2026 at 14:30 (45 min)',
+        '',
+        'Agreed on the launch plan.',
+      ]);
+      expect(rendered.sections[1].lines).toEqual(['Jane <jane@egen.ai>', 'bob@acme.com']);
+      expect(rendered.unknownVariables).toEqual([]);
+    });
+
+    test('reports unknown variables', () => {
+      const withTypo = {
+        ...template,
+        sections: [{ id: 'x', title: 'Hi', type: 'text', order: 1, content: '{{client.nmae}}' }],
+      };
+
+      expect(renderTemplate(withTypo, ctx).unknownVariables).toEqual(['client.nmae']);
+    });
+
+    test('produces Markdown with checklists and placeholders', () => {
+      const markdown = renderTemplateMarkdown(renderTemplate(template, ctx));
+
+      expect(markdown).toBe(
+        [
+          '# Acme weekly sync',
+          '',
+          '## Overview for Acme Corp',
+          '',
+          'Mar 9, 2026 at 14:30 (45 min)',
+          '',
+          'Agreed on the launch plan.',
+          '',
+          '## Attendees',
+          '',
+          '- Jane <jane@egen.ai>',
+          '- bob@acme.com',
+          '',
+          '## Action Items',
+          '',
+          '- [ ] Send proposal (Jane, due Mar 12, 2026)',
+          '',
+          '## Notes',
+          '',
+          '_Key discussion points..._',
+          '',
+        ].join('\n')
+      );
+    });
+  });
+});
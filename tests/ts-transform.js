@@ -0,0 +1,24 @@
+/**
+ * Jest transform for the dashboard's pure TypeScript modules.
+ * Compiles with the dashboard's own TypeScript install (types are stripped, not checked).
+ */
+
+const path = require('path');
+
+const ts = require(require.resolve('typescript', {
+  paths: [path.join(__dirname, '..', 'dashboard')],
+}));
+
+module.exports = {
+  process(sourceText, sourcePath) {
+    const { outputText } = ts.transpileModule(sourceText, {
+      fileName: sourcePath,
+      compilerOptions: {
+        module: ts.ModuleKind.CommonJS,
+        target: ts.ScriptTarget.ES2019,
+        esModuleInterop: true,
+      },
+    });
+    return { code: outputText };
+  },
+};
@@ -0,0 +1,60 @@
+/**
+ * Egen Meeting Notes - ZIP Writer Tests
+ * Unit tests for dashboard/lib/zip-writer.ts
+ */
+
+const { crc32, createZip } = require('../dashboard/lib/zip-writer.ts');
+
+/**
+ * Read the files of a stored (uncompressed) archive from its central directory
+ */
+function readZip(bytes) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const end = bytes.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const files = {};
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(offset, true)).toBe(0x02014b50);
+    const crc = view.getUint32(offset + 16, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = Buffer.from(bytes.slice(offset + 46, offset + 46 + nameLength)).toString('utf8');
+
+    expect(view.getUint32(localOffset, true)).toBe(0x04034b50);
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true);
+    const data = bytes.slice(dataStart, dataStart + size);
+    files[name] = { data, crc };
+    offset += 46 + nameLength;
+  }
+  return files;
+}
+
+describe('ZIP writer', () => {
+  test('computes CRC-32 checksums', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+    expect(crc32(new Uint8Array())).toBe(0);
+  });
+
+  test('stores text and binary files with UTF-8 names', () => {
+    const binary = new Uint8Array([0, 1, 2, 255]);
+    const files = readZip(
+      createZip([
+        { name: 'notes/résumé.txt', data: 'Hello' },
+        { name: 'logo.png', data: binary },
+      ])
+    );
+
+    expect(Object.keys(files)).toEqual(['notes/résumé.txt', 'logo.png']);
+    expect(Buffer.from(files['notes/résumé.txt'].data).toString('utf8')).toBe('Hello');
+    expect([...files['logo.png'].data]).toEqual([0, 1, 2, 255]);
+    expect(files['logo.png'].crc).toBe(crc32(binary));
+  });
+
+  test('writes an empty archive', () => {
+    expect(createZip([])).toHaveLength(22);
+  });
+});